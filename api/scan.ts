@@ -1,3 +1,44 @@
+import type {
+  Card, Locale, LocaleTexts, MaskRef, MetricId, Precheck, PrecheckCheck, Report, ReportDimension, ReportSignal, ScoreMap, TaskRef, Tone, View,
+} from "../lib/types";
+import { LOCALES, catalog, findingText, mechanismText, negotiateLocale, protocolText } from "../lib/locales";
+import { getProvider, type ProviderTask, type SkinAnalysisProvider } from "../lib/providers";
+import { getStore } from "../lib/store";
+import { computeConfidence, fromRawScores, getScoringConfig, listScoringConfigs, scoreWith, toRawScores, toneFor, zoneRequests, type DimensionConfidence, type RawScores, type ScoringConfig, type ScoringResult, type ToneThresholds, type ViewScores, type ZoneScores } from "../lib/scoring";
+import { runDecisionRules, type DecisionRun, type FiredRule } from "../lib/decision/engine";
+import { deleteScanEntry, diffItems, diffScans, isValidUserId, listScans, recordScan, type DeltaItem, type HistoryOwner } from "../lib/history";
+import { callbackUrlError, deleteWebhook, deliverWebhook, deliveryLog, dueWebhooks, getWebhook, recordPollError, registerWebhook, webhookConfigError } from "../lib/webhooks";
+import { decodeImage, hasNativeCanvas, maxImagePixels, sniffFormat, tooManyPixels } from "../lib/image/decode";
+import { stripJpegMetadata } from "../lib/image/exif";
+import { encodeJpeg } from "../lib/image/jpeg-encode";
+import { measureQuality, type QualityMetrics } from "../lib/image/quality";
+import { detectFaces, type FaceBox, type FaceDetection } from "../lib/image/face";
+import { crop, resize, type Raster } from "../lib/image/raster";
+import { maskFetcher, measureZones, type MaskFetcher } from "../lib/masks";
+import {
+  cacheReport, claimIdempotency, completeIdempotency, deleteCachedReport, findUpload, forgetUpload, getCachedReport,
+  isValidIdempotencyKey, releaseIdempotency, releaseTask, rememberUpload, retainTask, sha256Hex, type IdempotencyClaim,
+} from "../lib/dedup";
+import {
+  finalizeDeletion, getDeletionReceipt, getScanRecord, newScanId, parseConsent, saveScanRecord,
+  type ConsentError, type DeletionItem, type UploadKey,
+} from "../lib/privacy";
+import { breakerState, UpstreamError } from "../lib/upstream";
+import { ERROR_STATUS, errorCodeOf, ScanError, type ErrorCode } from "../lib/errors";
+import { authEnabled, authenticate, originAllowed, type AuthFailure, type Tenant } from "../lib/auth";
+import { clientIp, ipRule, takeToken, tenantRule, type RateDecision } from "../lib/ratelimit";
+import { issueScanToken, scanTokenConfigError, verifyScanToken, type ScanClaims } from "../lib/scantoken";
+import { staticCompliance } from "../lib/compliance";
+import {
+  claimNarratives, deleteNarratives, getNarrativeProvider, getNarratives, narrativeKey, narrativeSettings, produceNarratives, saveNarratives,
+  type NarrativeEntry,
+} from "../lib/narratives";
+import {
+  ANNOTATE_SIDE, annotateScan, claimAnnotations, deleteAnnotations, deleteSources, getAnnotated, getAnnotations, isAnnotatedView,
+  saveAnnotations, saveSource,
+} from "../lib/annotate";
+import { EXPORT_FORMATS, pdfFont, renderReportHtml, renderReportPdf, reportBrand, scanThumbnails, type ExportFormat } from "../lib/export";
+
 export const config = {
   runtime: "edge",
   regions: ["sin1", "hnd1", "icn1"],
@@ -5,103 +46,87 @@ export const config = {
 
 declare const process: { env: Record<string, string | undefined> };
 
-type MetricId =
-  | "texture" | "pore" | "pigmentation" | "wrinkle"
-  | "hydration" | "sebum" | "skintone" | "sensitivity"
-  | "clarity" | "elasticity" | "redness" | "brightness" | "firmness" | "pores_depth";
-
-type Tone = "stable" | "deviation" | "threshold";
-
-type Card = {
-  id: string;
-  title_en: string;
-  title_zh: string;
-  score: number;
-  max: 100;
-  signal_en: string;
-  signal_zh: string;
-  details: { label_en: string; label_zh: string; value: number | string }[];
-  recommendation_en: string;
-  recommendation_zh: string;
-  priority: number;
-  confidence: number;
-  masks?: string[];
-};
-
-type ReportSignal = {
-  id: MetricId;
-  label_en: string;
-  label_zh: string;
-  score: number;
-  tone: Tone;
-};
-
-type ReportDimension = {
-  id: string;
-  title_en: string;
-  title_zh: string;
-  score: number;
-  tone: Tone;
-  confidence: number;
-  finding_en: string;
-  finding_zh: string;
-  mechanism_en: string;
-  mechanism_zh: string;
-  protocol_en: string[];
-  protocol_zh: string[];
-  masks?: string[];
-};
-
-type Report = {
-  scan_id: string;
-  produced_at: string;
-  degraded: boolean;
-  stage: string;
-  summary_en: string;
-  summary_zh: string;
-  precheck?: { passed: boolean; warnings: string[]; tips: string[] };
-  signals14: ReportSignal[];
-  dimensions8: ReportDimension[];
-  // ✅ 新增：決策層（前端可選擇顯示；不影響舊版）
-  environment_zh?: string;
-  decision_zh?: string;
-  priority_node_zh?: string;
-  constraints_zh?: string[];
-  timeline_zh?: string[];
-};
-
-function json(data: any, status = 200) {
+// CORS 由 handler 依租戶白名單統一補上（corsHeaders）
+function json(data: any, status = 200, headers: Record<string, string> = {}) {
   return new Response(JSON.stringify(data), {
     status,
     headers: {
       "content-type": "application/json; charset=utf-8",
-      "access-control-allow-origin": "*",
-      "access-control-allow-methods": "GET, POST, OPTIONS",
-      "access-control-allow-headers": "content-type",
       "cache-control": "no-store",
+      ...headers,
     },
   });
 }
 
-function nowId() {
-  return `scan_${Date.now()}`;
+/* =========================
+   ✅ 錯誤回應（lib/errors）
+   - body 一律帶 code（穩定）+ message（依協商語系）；技術訊息放 detail
+   - status 依 ERROR_STATUS；舊欄位（error / stage / degraded / tips）照留
+   - 舊版 App：API_COMPAT=always-200 或 header x-api-compat: always-200 → 除 405 外一律回 200
+========================= */
+function errorBody(code: ErrorCode, locale: Locale, extra: Record<string, unknown> = {}) {
+  return { ...extra, code, message: catalog(locale).errors[code] };
+}
+
+function fail(code: ErrorCode, locale: Locale, extra: Record<string, unknown> = {}, headers: Record<string, string> = {}) {
+  return json(errorBody(code, locale, extra), ERROR_STATUS[code], headers);
+}
+
+function legacyCompat(req: Request) {
+  const flag = (req.headers.get("x-api-compat") || process.env.API_COMPAT || "").toLowerCase();
+  return flag === "always-200";
 }
 
-const YOUCAM_API_KEY = process.env.YOUCAM_API_KEY;
+/* =========================
+   ✅ 例外 → 降級回應
+   - 上游錯誤（lib/upstream）帶分類：upstream_timeout / upstream_network / upstream_server /
+     upstream_client / upstream_unavailable（斷路器開啟），前端可依 retryable / retry_after_sec 決定重試
+   - 其他錯誤維持 stage: "exception"（ScanError 的 details 併入 body）
+========================= */
+function exceptionBody(err: any, locale: Locale) {
+  const code = errorCodeOf(err);
+  if (!(err instanceof UpstreamError)) {
+    return errorBody(code, locale, {
+      degraded: true,
+      stage: "exception",
+      ...(err instanceof ScanError ? err.details : {}),
+      detail: err?.message || String(err),
+    });
+  }
+  return errorBody(code, locale, {
+    degraded: true,
+    stage: err.kind === "circuit_open" ? "upstream_unavailable" : `upstream_${err.kind}`,
+    service: err.service,
+    step: err.step,
+    upstream_status: err.status ?? null,
+    retryable: err.retryable,
+    retry_after_sec: err.retryAfterMs !== undefined ? Math.ceil(err.retryAfterMs / 1000) : null,
+    breaker: breakerState(err.service).state,
+    detail: err.message,
+    locale,
+    summary: catalog(locale).summary.unavailable,
+  });
+}
 
-function must(v: string | undefined, name: string) {
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
+function exceptionResponse(err: any, locale: Locale) {
+  const retryAfterMs = err instanceof UpstreamError ? err.retryAfterMs : undefined;
+  return json(
+    exceptionBody(err, locale),
+    ERROR_STATUS[errorCodeOf(err)],
+    retryAfterMs !== undefined ? { "retry-after": String(Math.ceil(retryAfterMs / 1000)) } : {},
+  );
 }
 
+const VIEWS: View[] = ["front", "left", "right"];
+
 async function getFiles(form: FormData) {
   const f1 = form.get("image1");
-  const f2 = form.get("image2");
-  const f3 = form.get("image3");
-  if (!(f1 instanceof File)) throw new Error("Missing image1");
-  const files: File[] = [f1];
-  if (f2 instanceof File) files.push(f2);
-  if (f3 instanceof File) files.push(f3);
+  if (!(f1 instanceof File)) throw new ScanError("INPUT_MISSING_IMAGE", "Missing image1");
+  const files: { view: View; file: File }[] = [];
+  VIEWS.forEach((view, i) => {
+    const f = form.get(`image${i + 1}`);
+    if (f instanceof File) files.push({ view, file: f });
+  });
   return files;
 }
 
@@ -116,87 +141,200 @@ function clampScore(x: any) {
   return Math.max(0, Math.min(100, Math.round(n)));
 }
 
-function toneForScore(score: number): Tone {
-  if (score >= 88) return "stable";
-  if (score >= 72) return "deviation";
-  return "threshold";
-}
+/* =========================
+   ✅ 拍攝品質 precheck（解碼後的真實像素）
+   - 量測在 lib/image/quality（長邊 640 基準）
+   - 每項都回實測值與門檻，前端可顯示數字
+========================= */
+const PRECHECK_RULES: {
+  code: string;
+  metric: keyof QualityMetrics | "short_side";
+  fails: (v: number) => boolean;
+  threshold: number;
+  penalty: number;
+}[] = [
+  { code: "LOW_RESOLUTION", metric: "short_side", threshold: 480, fails: (v) => v < 480, penalty: 0.2 },
+  { code: "TOO_DARK", metric: "luma_mean", threshold: 70, fails: (v) => v < 70, penalty: 0.2 },
+  { code: "TOO_BRIGHT", metric: "luma_mean", threshold: 195, fails: (v) => v > 195, penalty: 0.2 },
+  { code: "TOO_DARK", metric: "luma_p95", threshold: 110, fails: (v) => v < 110, penalty: 0.1 },
+  { code: "HIGHLIGHT_CLIPPED", metric: "clipped_highlights", threshold: 0.06, fails: (v) => v > 0.06, penalty: 0.15 },
+  { code: "BLURRY", metric: "laplacian_var", threshold: 40, fails: (v) => v < 40, penalty: 0.25 },
+  { code: "COLOR_CAST", metric: "cast_strength", threshold: 12, fails: (v) => v > 12, penalty: 0.1 },
+];
+
+// 解碼可能縮小過：寬高與 LOW_RESOLUTION 一律看原圖的真實尺寸（original），其他量測看像素
+function quickPrecheck(raster: (Raster & { original: { width: number; height: number } }) | null) {
+  const tipsFor = catalog("zh-TW").precheck;
+
+  if (!raster) {
+    return {
+      ok: false,
+      warnings: ["DECODE_FAILED"],
+      tips: [tipsFor.DECODE_FAILED],
+      checks: [] as PrecheckCheck[],
+      metrics: null,
+      quality: 0.6,
+    };
+  }
+
+  const metrics = { ...measureQuality(raster), width: raster.original.width, height: raster.original.height };
+  const values = { ...metrics, short_side: Math.min(metrics.width, metrics.height) };
+
+  const checks: PrecheckCheck[] = PRECHECK_RULES.map((r) => {
+    const value = values[r.metric];
+    return { code: r.code, metric: r.metric, value, threshold: r.threshold, passed: !r.fails(value) };
+  });
 
-function quickPrecheck(bytes: Uint8Array) {
-  const sizeKB = bytes.length / 1024;
   const warnings: string[] = [];
-  const tips: string[] = [];
+  let quality = 1;
+  PRECHECK_RULES.forEach((r, i) => {
+    if (checks[i].passed) return;
+    quality -= r.penalty;
+    if (!warnings.includes(r.code)) warnings.push(r.code);
+  });
+  const tips = warnings.map((w) => tipsFor[w]).filter(Boolean);
 
-  if (sizeKB < 60) {
-    warnings.push("LOW_RESOLUTION");
-    tips.push("畫質偏低。建議使用更清晰的正面照片。");
-  }
+  // 0.4–1：融合時的品質權重
+  quality = Math.max(0.4, Math.round(quality * 100) / 100);
+
+  return { ok: warnings.length === 0, warnings, tips, checks, metrics, quality };
+}
+
+/* =========================
+   ✅ 臉部守門（送 YouCam 前，不浪費 task）
+   - 偵測在 lib/image/face（長邊 240 基準）
+   - FACE_GATE=enforce（預設）擋下重拍；warn 只回警告；off 不檢查
+   - 解碼失敗不擋（沒有像素可判斷），交給 YouCam
+========================= */
+type FaceGateMode = "enforce" | "warn" | "off";
 
-  let sample = 0, sum = 0;
-  for (let i = 0; i < bytes.length; i += 401) { sum += bytes[i]; sample++; }
-  const avg = sample ? sum / sample : 120;
+function faceGateMode(): FaceGateMode {
+  const v = (process.env.FACE_GATE || "").toLowerCase();
+  return v === "warn" || v === "off" ? v : "enforce";
+}
 
-  if (avg < 85) { warnings.push("TOO_DARK"); tips.push("光線偏暗。請面向窗戶或補柔光。"); }
-  if (avg > 185) { warnings.push("TOO_BRIGHT"); tips.push("高光偏強。避免直射頂光。"); }
+const FACE_GATE_RULES: {
+  code: string;
+  metric: keyof FaceDetection;
+  threshold: (view: View) => number;
+  fails: (v: number, t: number) => boolean;
+}[] = [
+  { code: "NO_FACE", metric: "faces", threshold: () => 1, fails: (v, t) => v < t },
+  { code: "MULTIPLE_FACES", metric: "faces", threshold: () => 1, fails: (v, t) => v > t },
+  { code: "FACE_TOO_SMALL", metric: "area_ratio", threshold: () => 0.05, fails: (v, t) => v < t },
+  { code: "FACE_OFF_CENTER", metric: "center_dx", threshold: () => 0.2, fails: (v, t) => Math.abs(v) > t },
+  { code: "FACE_OFF_CENTER", metric: "center_dy", threshold: () => 0.22, fails: (v, t) => Math.abs(v) > t },
+  // 側面照本來就要轉頭，只擋轉過頭（看不到臉頰）
+  { code: "YAW_EXCESSIVE", metric: "yaw_deg", threshold: (view) => (view === "front" ? 20 : 60), fails: (v, t) => Math.abs(v) > t },
+  { code: "PITCH_EXCESSIVE", metric: "pitch_deg", threshold: () => 25, fails: (v, t) => Math.abs(v) > t },
+];
 
-  return { ok: warnings.length === 0, avgSignal: avg, warnings, tips };
+function faceGate(raster: Raster | null, view: View) {
+  if (!raster || faceGateMode() === "off") return null;
+
+  const face = detectFaces(raster);
+  const checks: PrecheckCheck[] = [];
+  for (const r of FACE_GATE_RULES) {
+    // 沒有臉就只回 NO_FACE，其他量測沒有意義
+    if (!face.faces && r.code !== "NO_FACE") continue;
+    const value = face[r.metric] as number;
+    const threshold = r.threshold(view);
+    checks.push({ code: r.code, metric: r.metric, value, threshold, passed: !r.fails(value, threshold) });
+  }
+  const failed = checks.find((c) => !c.passed)?.code || null;
+  return { face, checks, failed };
 }
 
 /* =========================
-   ✅ Edge 內建重編碼：補到最低尺寸再送 YouCam
-   - 目的：避免 error_below_min_image_size
-   - 不改你相機 UI，只改送去分析的影像規格
+   ✅ 重編碼：轉正 → （可選）以臉為中心裁切 → 補到最低尺寸 → 重新編碼 JPEG
+   - 目的：避免 error_below_min_image_size；側躺的手機照不會被轉著分析
+   - 輸入是 decodeImage 的像素（已依 EXIF 轉正），重新編碼 = EXIF/GPS 全部不會帶出去
+   - 有 OffscreenCanvas 用原生編碼；沒有就走 lib/image/jpeg-encode（一樣保證 ≥ minSide）
+   - FACE_CROP=on：臉太小時裁到臉部周圍，讓 YouCam 拿到更多臉部像素
+   - 臉框換算成上傳圖座標一起回傳（GET 用它把遮罩切成分區）
 ========================= */
-async function normalizeForYouCam(input: File, opts?: { minSide?: number; maxSide?: number; quality?: number }) {
+function faceCropEnabled() {
+  return (process.env.FACE_CROP || "").toLowerCase() === "on";
+}
+
+// 臉框外擴（含髮際、下巴、耳側）；裁完幾乎等於原圖就不裁
+function faceCropRegion(raster: Raster, box: FaceBox) {
+  const cx = (box.x + box.w / 2) * raster.width;
+  const cy = (box.y + box.h / 2) * raster.height;
+  const w = Math.min(raster.width, box.w * raster.width * 1.8);
+  const h = Math.min(raster.height, box.h * raster.height * 1.6);
+  if (w * h > raster.width * raster.height * 0.8) return null;
+  const x = Math.max(0, Math.min(raster.width - w, cx - w / 2));
+  const y = Math.max(0, Math.min(raster.height - h, cy - h / 2));
+  return { x, y, w, h };
+}
+
+async function encodeForUpload(r: Raster, quality: number) {
+  if (hasNativeCanvas()) {
+    try {
+      const canvas = new OffscreenCanvas(r.width, r.height);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas not supported");
+      ctx.putImageData(new ImageData(r.data as Uint8ClampedArray<ArrayBuffer>, r.width, r.height), 0, 0);
+      const outBlob = await canvas.convertToBlob({ type: "image/jpeg", quality });
+      return { bytes: new Uint8Array(await outBlob.arrayBuffer()), encoder: "canvas" as const };
+    } catch {
+      // 原生編碼失敗 → 純 JS
+    }
+  }
+  return { bytes: encodeJpeg(r, quality), encoder: "js" as const };
+}
+
+type NormalizedUpload = { bytes: Uint8Array; contentType: string; width: number; height: number; encoder: string; cropped: boolean; face: FaceBox | null };
+
+async function normalizeForYouCam(
+  raster: Raster,
+  opts?: { minSide?: number; maxSide?: number; quality?: number; face?: FaceBox | null; cropToFace?: boolean },
+) {
   const minSide = opts?.minSide ?? 720;   // ✅ 保守：至少 720
   const maxSide = opts?.maxSide ?? 1440;  // ✅ 不要太大，避免慢
   const quality = opts?.quality ?? 0.92;
 
-  const arr = await input.arrayBuffer();
-  const blob = new Blob([arr], { type: input.type || "image/jpeg" });
-
-  // createImageBitmap 在 Edge (Web APIs) 可用；若環境不支援會 throw → 我們 fallback 回原檔
-  const bmp = await createImageBitmap(blob);
+  const region = opts?.face && opts.cropToFace ? faceCropRegion(raster, opts.face) : null;
+  const src = region ? crop(raster, region.x, region.y, region.w, region.h) : raster;
 
-  const w = bmp.width;
-  const h = bmp.height;
+  const w = src.width;
+  const h = src.height;
 
-  // 先算 scale：先補到 minSide，再限制 maxSide
+  // 先限制 maxSide，再補到 minSide（極端長寬比時 minSide 優先）
   const short = Math.min(w, h);
   const long = Math.max(w, h);
 
   let scale = 1;
-  if (short < minSide) scale = minSide / short;
-  if (long * scale > maxSide) scale = maxSide / long;
+  if (long > maxSide) scale = maxSide / long;
+  if (short * scale < minSide) scale = minSide / short;
 
   const outW = Math.max(1, Math.round(w * scale));
   const outH = Math.max(1, Math.round(h * scale));
 
-  // OffscreenCanvas
-  const canvas = new OffscreenCanvas(outW, outH);
-  const ctx = canvas.getContext("2d");
-  if (!ctx) throw new Error("Canvas not supported");
-
-  ctx.drawImage(bmp, 0, 0, outW, outH);
-
-  const outBlob = await canvas.convertToBlob({ type: "image/jpeg", quality });
-  const outBuf = await outBlob.arrayBuffer();
+  const { bytes, encoder } = await encodeForUpload(resize(src, outW, outH), quality);
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+  const f = opts?.face;
+  const face: FaceBox | null = !f ? null : region ? {
+    x: round((f.x * raster.width - region.x) / region.w),
+    y: round((f.y * raster.height - region.y) / region.h),
+    w: round((f.w * raster.width) / region.w),
+    h: round((f.h * raster.height) / region.h),
+  } : f;
   return {
-    bytes: new Uint8Array(outBuf),
+    bytes,
     contentType: "image/jpeg",
     width: outW,
     height: outH,
+    encoder,
+    cropped: !!region,
+    face,
   };
 }
 
 /* =========================
-   YouCam — endpoints
+   分析供應商（lib/providers：YouCam / mock，SKIN_PROVIDER 切換）
 ========================= */
-const YOUCAM_BASE = "https://yce-api-01.makeupar.com/s2s/v2.0";
-const YOUCAM_FILE_ENDPOINT = `${YOUCAM_BASE}/file/skin-analysis`;
-const YOUCAM_TASK_CREATE = `${YOUCAM_BASE}/task/skin-analysis`;
-const YOUCAM_TASK_GET = (taskId: string) => `${YOUCAM_BASE}/task/skin-analysis/${taskId}`;
-
 // ✅ 只留你報告用得到的 actions（穩）
 const YOUCAM_HD_ACTIONS = [
   "hd_moisture",
@@ -211,796 +349,1590 @@ const YOUCAM_HD_ACTIONS = [
   "hd_acne",
 ];
 
-async function youcamInitUpload(fileBytes: Uint8Array, fileName: string) {
-  const apiKey = must(YOUCAM_API_KEY, "YOUCAM_API_KEY");
-  const payload = {
-    files: [{
-      content_type: "image/jpeg",
-      file_name: fileName || `skin_${Date.now()}.jpg`,
-      file_size: fileBytes.length,
-    }],
-  };
-
-  const r = await fetch(YOUCAM_FILE_ENDPOINT, {
-    method: "POST",
-    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
-    body: JSON.stringify(payload),
-  });
-
-  const j = await r.json().catch(() => ({}));
-  if (!r.ok || j.status !== 200) throw new Error(`YouCam file init failed: ${r.status} ${JSON.stringify(j)}`);
-
-  const f = j.data?.files?.[0];
-  const req = f?.requests?.[0];
-  if (!f?.file_id || !req?.url) throw new Error("YouCam file init missing file_id/upload url");
+/* =========================
+   ✅ 多角度融合（正面 + 左右 45°）
+   - 權重 = 角度權重 × 拍攝品質
+   - 某角度缺某 action 就只用有的角度平均
+   - masks 保留來源角度，不混在一起
+========================= */
+const VIEW_WEIGHT: Record<View, number> = { front: 1, left: 0.7, right: 0.7 };
 
-  return { fileId: f.file_id as string, putUrl: req.url as string, contentType: f.content_type as string };
+// view:task_id:quality[:x/y/w/h]（臉框可省略，舊格式照收）
+function encodeTaskRefs(refs: TaskRef[]) {
+  return refs
+    .map((r) => `${r.view}:${r.task_id}:${r.quality}${r.face ? `:${[r.face.x, r.face.y, r.face.w, r.face.h].join("/")}` : ""}`)
+    .join(",");
 }
 
-async function youcamPutBinary(putUrl: string, fileBytes: Uint8Array, contentType: string) {
-  const r = await fetch(putUrl, {
-    method: "PUT",
-    headers: { "Content-Type": contentType },
-    body: new Blob([fileBytes.buffer as ArrayBuffer]),
-  });
-  if (!r.ok) {
-    const t = await r.text().catch(() => "");
-    throw new Error(`YouCam PUT failed: ${r.status} ${t}`);
-  }
-}
-
-async function youcamCreateTask(srcFileId: string, dstActions: string[]) {
-  const apiKey = must(YOUCAM_API_KEY, "YOUCAM_API_KEY");
-  const payload = {
-    src_file_id: srcFileId,
-    dst_actions: dstActions,
-    miniserver_args: {
-      enable_mask_overlay: true,
-      enable_dark_background_hd_pore: true,
-      color_dark_background_hd_pore: "3D3D3D",
-      opacity_dark_background_hd_pore: 0.4,
-    },
-    format: "json",
-  };
-
-  const r = await fetch(YOUCAM_TASK_CREATE, {
-    method: "POST",
-    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
-    body: JSON.stringify(payload),
-  });
+function parseFaceBox(bit: string | undefined): FaceBox | undefined {
+  const n = (bit || "").split("/").map(Number);
+  if (n.length !== 4 || !n.every((v) => Number.isFinite(v) && v >= 0 && v <= 1) || !n[2] || !n[3]) return undefined;
+  return { x: n[0], y: n[1], w: n[2], h: n[3] };
+}
 
-  const j = await r.json().catch(() => ({}));
-  if (!r.ok || j.status !== 200 || !j.data?.task_id) throw new Error(`YouCam task create failed: ${r.status} ${JSON.stringify(j)}`);
-  return j.data.task_id as string;
+function parseTaskRefs(param: string): TaskRef[] {
+  const refs: TaskRef[] = [];
+  for (const part of param.split(",")) {
+    const bits = part.trim().split(":");
+    const face = bits.length >= 4 ? parseFaceBox(bits[bits.length - 1]) : undefined;
+    if (face) bits.pop();
+    const view = bits[0] as View;
+    if (!VIEWS.includes(view) || bits.length < 2) continue;
+    const q = bits.length >= 3 ? Number(bits[bits.length - 1]) : NaN;
+    const taskId = (Number.isFinite(q) ? bits.slice(1, -1) : bits.slice(1)).join(":");
+    if (!taskId) continue;
+    refs.push({ view, task_id: taskId, quality: Number.isFinite(q) ? Math.max(0, Math.min(1, q)) : 1, ...(face ? { face } : {}) });
+  }
+  return refs;
 }
 
-async function youcamGetTask(taskId: string) {
-  const apiKey = must(YOUCAM_API_KEY, "YOUCAM_API_KEY");
-  const r = await fetch(YOUCAM_TASK_GET(taskId), {
-    method: "GET",
-    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
-  });
-  const j = await r.json().catch(() => ({}));
-  if (!r.ok || j.status !== 200) throw new Error(`YouCam task get failed: ${r.status} ${JSON.stringify(j)}`);
-  return j;
-}
-
-function extractYoucamScores(j: any) {
-  const out = j?.data?.results?.output;
-  const map = new Map<string, { ui: number; raw: number; masks: string[] }>();
-  if (Array.isArray(out)) {
-    for (const x of out) {
-      const key = String(x.type);
-      map.set(key, {
-        ui: Number(x.ui_score ?? x.uiScore ?? 0),
-        raw: Number(x.raw_score ?? x.rawScore ?? 0),
-        masks: Array.isArray(x.mask_urls) ? x.mask_urls : [],
-      });
+function fuseScoreMaps(inputs: { view: View; quality: number; scores: ScoreMap }[]): ScoreMap {
+  const keys = new Set<string>();
+  for (const x of inputs) for (const k of x.scores.keys()) keys.add(k);
+
+  const fused: ScoreMap = new Map();
+  for (const k of keys) {
+    let wSum = 0, ui = 0, raw = 0;
+    const masks: MaskRef[] = [];
+    for (const x of inputs) {
+      const v = x.scores.get(k);
+      if (!v) continue;
+      const w = VIEW_WEIGHT[x.view] * x.quality;
+      wSum += w;
+      ui += v.ui * w;
+      raw += v.raw * w;
+      masks.push(...v.masks);
     }
+    if (wSum <= 0) continue;
+    fused.set(k, { ui: ui / wSum, raw: raw / wSum, masks });
   }
-  return map;
+  return fused;
+}
+
+/* =========================
+   ✅ 遮罩分區（lib/masks）：只有正面 task 帶臉框時才量
+   - 計分設定沒引用 zone:* 就不抓遮罩
+========================= */
+async function regionalZones(scoring: ScoringConfig, scoreMap: ScoreMap, front: TaskRef, masks: MaskFetcher): Promise<ZoneScores | undefined> {
+  const requests = zoneRequests(scoring);
+  if (!requests.length || !front.face || front.view !== "front") return undefined;
+  const zones = await measureZones(scoreMap, requests, front.face, "front", masks);
+  return Object.keys(zones).length ? zones : undefined;
 }
 
 /* =========================
    MAP YouCam → 8 cards（分數為真；敘事為冷靜推演）
+   - 權重與公式在 lib/scoring（版本化），這裡只組卡片
 ========================= */
-function mapYoucamToCards(scoreMap: Map<string, { ui: number; raw: number; masks: string[] }>) {
-  const get = (k: string) => scoreMap.get(k);
-  const safe = (v?: { ui: number; raw: number; masks: string[] }) => ({
-    ui: clampScore(v?.ui),
-    masks: v?.masks || [],
-  });
+// 卡片標題／子指標名稱一律從文案目錄取（_en/_zh 欄位保留給舊版前端）
+function cardTitles(id: string) {
+  return { title_en: catalog("en").cards[id].title, title_zh: catalog("zh-TW").cards[id].title };
+}
 
-  const H = safe(get("hd_moisture"));
-  const PG = safe(get("hd_age_spot"));
-  const T = safe(get("hd_texture"));
-  const S = safe(get("hd_oiliness"));
-  const P = safe(get("hd_pore"));
-  const R = safe(get("hd_radiance"));
-  const RD = safe(get("hd_redness"));
-  const F = safe(get("hd_firmness"));
-  const W = safe(get("hd_wrinkle"));
-  const AC = safe(get("hd_acne"));
-
-  const hydration: Card = {
-    id: "hydration",
-    title_en: "HYDRATION TOPOLOGY",
-    title_zh: "保濕拓撲",
-    score: H.ui,
-    max: 100,
-    signal_en: "",
-    signal_zh: "",
-    details: [
-      { label_en: "Surface Layer", label_zh: "表層含水", value: clampScore(H.ui * 0.95) },
-      { label_en: "Mid Layer", label_zh: "中層滲透", value: clampScore(H.ui * 0.88) },
-      { label_en: "Deep Layer", label_zh: "深層鎖水", value: clampScore(H.ui * 0.76) },
-    ],
-    recommendation_en: "",
-    recommendation_zh: "",
-    priority: 1,
-    confidence: 0.92,
-    masks: H.masks,
-  };
+function detailLabel(id: string, i: number) {
+  return { label_en: catalog("en").cards[id].details[i], label_zh: catalog("zh-TW").cards[id].details[i] };
+}
 
-  const melanin: Card = {
-    id: "melanin",
-    title_en: "MELANIN DISTRIBUTION",
-    title_zh: "色素分佈",
-    score: PG.ui,
+function mapYoucamToCards(scored: ScoringResult, confidence: DimensionConfidence[]): Card[] {
+  const conf = (id: string) => confidence.find((x) => x.id === id);
+  return scored.cards.map((c) => ({
+    id: c.id,
+    ...cardTitles(c.id),
+    score: c.score,
     max: 100,
     signal_en: "",
     signal_zh: "",
-    details: [
-      { label_en: "Forehead Zone", label_zh: "額頭區域", value: clampScore(PG.ui * 1.1) },
-      { label_en: "Cheek Zone", label_zh: "臉頰區域", value: clampScore(PG.ui * 0.9) },
-      { label_en: "Jaw Zone", label_zh: "下顎區域", value: clampScore(PG.ui * 0.85) },
-    ],
+    details: c.details.map((value, i) => ({ ...detailLabel(c.id, i), value })),
     recommendation_en: "",
     recommendation_zh: "",
-    priority: 2,
-    confidence: 0.88,
-    masks: PG.masks,
-  };
+    priority: c.priority,
+    confidence: conf(c.id)?.confidence ?? c.confidence,
+    low_confidence: conf(c.id)?.low_confidence ?? false,
+    masks: c.masks,
+    ...(c.regional ? { regional: c.regional } : {}),
+  }));
+}
 
-  const texture: Card = {
-    id: "texture",
-    title_en: "TEXTURE MATRIX",
-    title_zh: "紋理矩陣",
-    score: T.ui,
-    max: 100,
-    signal_en: "",
-    signal_zh: "",
-    details: [
-      { label_en: "Smoothness", label_zh: "平滑度", value: clampScore(T.ui * 0.9) },
-      { label_en: "Uniformity", label_zh: "均勻度", value: clampScore(T.ui * 0.92) },
-      { label_en: "Grain", label_zh: "顆粒感", value: clampScore(100 - T.ui) },
-    ],
-    recommendation_en: "",
-    recommendation_zh: "",
-    priority: 3,
-    confidence: 0.9,
-    masks: T.masks,
+/* =========================
+   14 signals（可推演但數值用真資料＋衍生）
+========================= */
+const SIGNAL_LABELS = {
+  get en() { return catalog("en").signals; },
+  get zh() { return catalog("zh-TW").signals; },
+};
+
+function buildSignals14(scored: ScoringResult, tone: ToneThresholds): ReportSignal[] {
+  return scored.signals.map(({ id, score }) => ({
+    id,
+    label_en: SIGNAL_LABELS.en[id],
+    label_zh: SIGNAL_LABELS.zh[id],
+    score,
+    tone: toneFor(score, tone),
+  }));
+}
+
+/* =========================
+   ✅ 冷靜推演語氣：每個維度不同（文案在 lib/locales）
+   - zh/en 版本保留原函式名，其他語系走 localeNarrative
+========================= */
+function localeNarrative(locale: Locale, dimId: string, score: number, tone: Tone) {
+  const s = clampScore(score);
+  // 「接近門檻」才走改善版推演（門檻在計分設定的 tone）
+  const low = tone === "threshold";
+  return {
+    finding: findingText(locale, dimId, s, tone),
+    mechanism: mechanismText(locale, dimId, low),
+    protocol: protocolText(locale, dimId, low),
   };
+}
 
-  const tZone = clampScore(S.ui * 1.2);
-  const uZone = clampScore(S.ui * 0.7);
-  const sebum: Card = {
-    id: "sebum",
-    title_en: "SEBUM BALANCE",
-    title_zh: "油脂平衡",
-    score: S.ui,
-    max: 100,
-    signal_en: "",
-    signal_zh: "",
-    details: [
-      { label_en: "T-Zone Output", label_zh: "T 區出油", value: tZone },
-      { label_en: "Cheek Output", label_zh: "臉頰出油", value: uZone },
-      { label_en: "Equilibrium", label_zh: "平衡值", value: clampScore((tZone + uZone) / 2) },
-    ],
-    recommendation_en: "",
-    recommendation_zh: "",
-    priority: 4,
-    confidence: 0.87,
-    masks: S.masks,
+function zhFinding(dimId: string, score: number, tone: Tone) {
+  return localeNarrative("zh-TW", dimId, score, tone).finding;
+}
+
+function zhMechanism(dimId: string, score: number, tone: Tone) {
+  return localeNarrative("zh-TW", dimId, score, tone).mechanism;
+}
+
+function zhProtocol(dimId: string, score: number, tone: Tone): string[] {
+  return localeNarrative("zh-TW", dimId, score, tone).protocol;
+}
+
+function enFinding(dimId: string, score: number, tone: Tone) {
+  return localeNarrative("en", dimId, score, tone).finding;
+}
+
+function enMechanism(dimId: string, score: number, tone: Tone) {
+  return localeNarrative("en", dimId, score, tone).mechanism;
+}
+
+function enProtocol(dimId: string, score: number, tone: Tone): string[] {
+  return localeNarrative("en", dimId, score, tone).protocol;
+}
+
+// 可信度偏低：敘事加保守前綴、protocol 先建議重拍確認（LLM 與靜態文案都套用）
+function hedge(locale: Locale, text: string, low?: boolean) {
+  return low && text ? catalog(locale).lowConfidence.hedge(text) : text;
+}
+
+function hedgeProtocol(locale: Locale, protocol: string[], low?: boolean) {
+  return low ? [catalog(locale).lowConfidence.recheck, ...protocol] : protocol;
+}
+
+function hedgeNarrative(locale: Locale, n: ReturnType<typeof localeNarrative>, low?: boolean) {
+  return {
+    finding: hedge(locale, n.finding, low),
+    mechanism: hedge(locale, n.mechanism, low),
+    protocol: hedgeProtocol(locale, n.protocol, low),
   };
+}
 
-  const pore: Card = {
-    id: "pore",
-    title_en: "PORE ARCHITECTURE",
-    title_zh: "毛孔結構",
-    score: P.ui,
-    max: 100,
-    signal_en: "",
-    signal_zh: "",
-    details: [
-      { label_en: "T-Zone", label_zh: "T 區", value: clampScore(P.ui * 0.9) },
-      { label_en: "Cheek", label_zh: "臉頰", value: clampScore(P.ui * 0.95) },
-      { label_en: "Nose", label_zh: "鼻翼", value: clampScore(P.ui * 0.8) },
-    ],
-    recommendation_en: "",
-    recommendation_zh: "",
-    priority: 5,
-    confidence: 0.91,
-    masks: P.masks,
+/* =========================
+   ✅ 決策層（只出現一次）
+   - 規則在 lib/decision/rules，依實際分數觸發；rule_id 進 report.decision_trace
+   - 門檻的 deviation / stable 跟著這份報告的計分版本（scoring.tone）
+   - 這裡只負責把觸發的規則轉成各語系文案
+========================= */
+function runDecision(signals14: ReportSignal[], cards: Card[], tone: ToneThresholds) {
+  return runDecisionRules(
+    signals14.map((s) => ({ id: s.id, score: s.score })),
+    cards.map((c) => ({ id: c.id, score: clampScore(c.score) })),
+    tone,
+  );
+}
+
+function buildDecisionLayer(run: DecisionRun, signals14: ReportSignal[], locale: Locale = "zh-TW") {
+  const sensitivity = clampScore(signals14.find((s) => s.id === "sensitivity")?.score ?? 50);
+  const c = catalog(locale);
+  const d = c.decision;
+  const text = (r: FiredRule) => c.rules[r.rule_id] || r.rule_id;
+
+  const load = sensitivity >= 80 ? "low" : sensitivity >= 65 ? "moderate" : "high";
+  const restricted = run.constraints.some((r) => r.rule_id === "C_ACID_BLOCK");
+  const [primary, secondary = primary] = run.priorities;
+
+  return {
+    environment: d.environment,
+    decision: d.text(sensitivity, load, restricted),
+    node: d.node(text(primary), text(secondary)),
+    constraints: run.constraints.map(text),
+    timeline: run.timeline.map(text),
   };
+}
 
-  const elScore = clampScore(F.ui * 0.62 + (100 - W.ui) * 0.38);
-  const elasticity: Card = {
-    id: "elasticity",
-    title_en: "ELASTICITY INDEX",
-    title_zh: "彈性指數",
-    score: elScore,
-    max: 100,
-    signal_en: "",
-    signal_zh: "",
-    details: [
-      { label_en: "Firmness", label_zh: "緊緻度", value: F.ui },
-      { label_en: "Wrinkle Depth", label_zh: "皺紋深度", value: W.ui },
-      { label_en: "Recovery", label_zh: "回彈", value: clampScore(elScore * 0.9) },
-    ],
-    recommendation_en: "",
-    recommendation_zh: "",
-    priority: 6,
-    confidence: 0.85,
-    masks: F.masks.length ? F.masks : W.masks,
+/* =========================
+   ✅ Report.texts：每個語系一份完整文案
+   - zh-TW / en 直接取報告欄位（含 LLM 個人化）
+   - 其他語系走靜態模板
+========================= */
+function buildLocaleTexts(locale: Locale, report: Report, decision: ReturnType<typeof buildDecisionLayer>): LocaleTexts {
+  const c = catalog(locale);
+  return {
+    ...localeNarrativeTexts(locale, report),
+    signals: Object.fromEntries(report.signals14.map((s) => [s.id, c.signals[s.id]])),
+    environment: decision.environment,
+    decision: decision.decision,
+    priority_node: decision.node,
+    constraints: decision.constraints,
+    timeline: decision.timeline,
   };
+}
 
-  const radiance: Card = {
-    id: "radiance",
-    title_en: "RADIANCE SPECTRUM",
-    title_zh: "光澤頻譜",
-    score: R.ui,
-    max: 100,
-    signal_en: "",
-    signal_zh: "",
-    details: [
-      { label_en: "Luminosity", label_zh: "明亮度", value: clampScore(R.ui * 1.05) },
-      { label_en: "Evenness", label_zh: "均勻度", value: clampScore(R.ui * 0.92) },
-      { label_en: "Glow Index", label_zh: "光澤", value: clampScore(R.ui * 0.88) },
-    ],
-    recommendation_en: "",
-    recommendation_zh: "",
-    priority: 7,
-    confidence: 0.89,
-    masks: R.masks,
+// 敘事部分（總結 + 各維度）；LLM 敘事晚到時只重建這塊
+function localeNarrativeTexts(locale: Locale, report: Report): Pick<LocaleTexts, "summary" | "dimensions"> {
+  const c = catalog(locale);
+
+  const dimensions: LocaleTexts["dimensions"] = {};
+  for (const d of report.dimensions8) {
+    const narrative =
+      locale === "zh-TW" ? { finding: d.finding_zh, mechanism: d.mechanism_zh, protocol: d.protocol_zh } :
+      locale === "en" ? { finding: d.finding_en, mechanism: d.mechanism_en, protocol: d.protocol_en } :
+      hedgeNarrative(locale, localeNarrative(locale, d.id, d.score, d.tone), d.low_confidence);
+    dimensions[d.id] = {
+      title: c.cards[d.id]?.title || d.title_en,
+      details: c.cards[d.id]?.details || [],
+      ...narrative,
+    };
+  }
+
+  const summary =
+    locale === "zh-TW" ? report.summary_zh :
+    locale === "en" ? report.summary_en :
+    c.summary.done;
+
+  return { summary, dimensions };
+}
+
+/* =========================
+   ✅ LLM 敘事（背景產生，不擋 GET）
+   - 報告先帶靜態文案 + narrative_status: "pending" 回去；敘事在背景產生（lib/narratives，每個維度平行）
+   - 快取 key = 分數向量 + prompt 版本（同一組數字不再叫 LLM）
+   - 之後的 GET（或 ?view=narratives、串流的 narrative_ready 事件）拿到套好敘事的報告：
+     ready → LLM 敘事（合規檢查後）；failed → static，維持靜態文案
+========================= */
+async function settleNarratives(body: any, key: string, defer?: ScanHooks["defer"]): Promise<{ body: any; changed: boolean }> {
+  const store = getStore();
+  const entry = await getNarratives(store, key);
+  if (entry && entry.status !== "pending") return { body: applyNarratives(body, entry), changed: true };
+  if (!entry && (await claimNarratives(store, key))) {
+    const producedAt = () => new Date().toISOString();
+    const job = produceNarratives(body.cards, body.report.signals14)
+      .then((r) => saveNarratives(store, key, r ? { status: "ready", ...r, produced_at: producedAt() } : { status: "failed", produced_at: producedAt() }))
+      .catch(async (err) => {
+        console.error("[LLM Narrative] background job failed:", err);
+        await saveNarratives(store, key, { status: "failed", produced_at: producedAt() });
+      });
+    // 沒有 waitUntil（本機 / 串流）就照跑不等；中途被砍 → pending 逾時後由下一個請求重來
+    if (defer) defer(job);
+  }
+  return { body, changed: false };
+}
+
+function applyNarratives(body: any, entry: Exclude<NarrativeEntry, { status: "pending" }>) {
+  const report: Report = { ...body.report };
+  if (entry.status === "failed") {
+    return { ...body, report: { ...report, narrative_status: "static", narrative_compliance: staticCompliance(body.cards) } };
+  }
+  const byId = new Map(entry.narratives.dimensions.map((n) => [n.id, n]));
+  const cards = (body.cards as Card[]).map((c) => {
+    const n = byId.get(c.id);
+    return n ? {
+      ...c,
+      signal_zh: hedge("zh-TW", n.finding_zh, c.low_confidence),
+      recommendation_zh: hedge("zh-TW", n.mechanism_zh, c.low_confidence),
+      signal_en: hedge("en", n.finding_en, c.low_confidence),
+      recommendation_en: hedge("en", n.mechanism_en, c.low_confidence),
+    } : c;
+  });
+  report.dimensions8 = report.dimensions8.map((d) => {
+    const n = byId.get(d.id);
+    return n ? {
+      ...d,
+      finding_zh: hedge("zh-TW", n.finding_zh, d.low_confidence),
+      mechanism_zh: hedge("zh-TW", n.mechanism_zh, d.low_confidence),
+      protocol_zh: hedgeProtocol("zh-TW", n.protocol_zh, d.low_confidence),
+      finding_en: hedge("en", n.finding_en, d.low_confidence),
+      mechanism_en: hedge("en", n.mechanism_en, d.low_confidence),
+      protocol_en: hedgeProtocol("en", n.protocol_en, d.low_confidence),
+    } : d;
+  });
+  report.summary_zh = entry.narratives.summary_zh || report.summary_zh;
+  report.summary_en = entry.narratives.summary_en || report.summary_en;
+  report.narrative_status = "ready";
+  report.narrative_compliance = entry.compliance;
+  report.texts = {
+    ...report.texts,
+    ...Object.fromEntries((["zh-TW", "en"] as const).map((l) => [l, { ...report.texts?.[l]!, ...localeNarrativeTexts(l, report) }])),
   };
+  return {
+    ...body,
+    cards,
+    report,
+    summary_en: `${report.summary_en}\n\n${report.environment_en}`,
+    summary_zh: `${report.summary_zh}\n\n${report.environment_zh}`,
+  };
+}
 
-  const barrierScore = clampScore((100 - RD.ui) * 0.4 + H.ui * 0.3 + (100 - AC.ui) * 0.3);
-  const barrier: Card = {
-    id: "barrier",
-    title_en: "BARRIER INTEGRITY",
-    title_zh: "屏障完整度",
-    score: barrierScore,
-    max: 100,
-    signal_en: "",
-    signal_zh: "",
-    details: [
-      { label_en: "Lipid Matrix", label_zh: "脂質基質", value: clampScore(barrierScore * 0.95) },
-      { label_en: "Ceramide Layer", label_zh: "神經醯胺", value: clampScore(barrierScore * 0.9) },
-      { label_en: "Moisture Seal", label_zh: "保濕封存", value: H.ui },
-      { label_en: "Surface Film", label_zh: "皮脂膜", value: S.ui },
-    ],
-    recommendation_en: "",
-    recommendation_zh: "",
-    priority: 8,
-    confidence: 0.86,
-    masks: RD.masks.length ? RD.masks : AC.masks,
+// ?view=narratives：只回敘事部分（輪詢用，不用每次拉整份報告）；還沒出報告 → 回原本的 processing body
+function narrativesView(body: any) {
+  const report: Report = body.report;
+  return {
+    scan_id: report.scan_id,
+    narrative_status: report.narrative_status,
+    summary_zh: report.summary_zh,
+    summary_en: report.summary_en,
+    dimensions: report.dimensions8.map((d) => ({
+      id: d.id,
+      finding_zh: d.finding_zh,
+      mechanism_zh: d.mechanism_zh,
+      protocol_zh: d.protocol_zh,
+      finding_en: d.finding_en,
+      mechanism_en: d.mechanism_en,
+      protocol_en: d.protocol_en,
+    })),
+    narrative_compliance: report.narrative_compliance,
   };
+}
 
-  return [hydration, melanin, texture, sebum, pore, elasticity, radiance, barrier];
+/* =========================
+   ✅ 標註圖（lib/annotate）：背景合成，好了再套上報告
+   - 報告先帶 annotation_status: "pending"（沒有 annotated_images）；合成不擋 GET
+   - 之後的 GET（或串流的 annotated_ready 事件）拿到 ready + annotated_images
+   - 合成失敗 → 存 failed + 錯誤碼（同敘事的 failed），報告帶 annotation_status: "failed" + annotation_error，不再重試
+========================= */
+async function settleAnnotations(body: any, scanId: string, defer?: ScanHooks["defer"], masks?: MaskFetcher): Promise<{ body: any; changed: boolean }> {
+  const store = getStore();
+  const entry = await getAnnotations(store, scanId);
+  if (entry?.status === "ready") {
+    const report: Report = { ...body.report, annotation_status: "ready", annotated_images: entry.images.length ? entry.images : undefined };
+    return { body: { ...body, report }, changed: true };
+  }
+  if (entry?.status === "failed") {
+    const report: Report = { ...body.report, annotation_status: "failed", annotation_error: entry.error, annotated_images: undefined };
+    return { body: { ...body, report }, changed: true };
+  }
+  if (!entry && (await claimAnnotations(store, scanId))) {
+    const report: Report = body.report;
+    const views = (report.views || []).filter((v) => v.status === "success").map((v) => v.view);
+    const job = annotateScan(store, scanId, views, report.dimensions8, masks)
+      .then((images) => saveAnnotations(store, scanId, { status: "ready", images, produced_at: new Date().toISOString() }))
+      .catch(async (err) => {
+        console.error("[annotate] background job failed:", err);
+        await saveAnnotations(store, scanId, { status: "failed", error: errorCodeOf(err), produced_at: new Date().toISOString() });
+      });
+    if (defer) defer(job);
+  }
+  return { body, changed: false };
 }
 
 /* =========================
-   14 signals（可推演但數值用真資料＋衍生）
+   ✅ 標註圖（GET ?view=annotated&image=<view>&scan_token=）
+   - 認 scan_token 不認 API key（<img> 帶不了 header；token 本身是租戶簽發的）
+   - 刪除掃描或過了保存期限 → 404
 ========================= */
-const SIGNAL_LABELS: Record<MetricId, { en: string; zh: string }> = {
-  hydration: { en: "Hydration Stability", zh: "含水穩定" },
-  sebum: { en: "Sebum Distribution", zh: "油脂分佈" },
-  texture: { en: "Texture Regularity", zh: "紋理規則" },
-  pore: { en: "Pore Visibility", zh: "毛孔可視" },
-  pores_depth: { en: "Pore Depth Proxy", zh: "毛孔深度推估" },
-  pigmentation: { en: "Pigment Uniformity", zh: "色素均勻" },
-  wrinkle: { en: "Wrinkle Proxy", zh: "皺紋推估" },
-  firmness: { en: "Firmness Proxy", zh: "緊緻推估" },
-  elasticity: { en: "Elasticity Response", zh: "彈性回應" },
-  redness: { en: "Redness Stability", zh: "泛紅穩定" },
-  brightness: { en: "Brightness Index", zh: "亮度指數" },
-  skintone: { en: "Tone Evenness", zh: "膚色均勻" },
-  clarity: { en: "Clarity Index", zh: "通透度" },
-  sensitivity: { en: "Sensitivity Load", zh: "敏感負載" },
-};
+async function annotatedView(req: Request, url: URL, locale: Locale) {
+  const read = await readScanToken(req, url, undefined, locale);
+  if ("response" in read) return read.response;
+  const view = url.searchParams.get("image") || "";
+  const hit = isAnnotatedView(view) ? await getAnnotated(getStore(), read.claims.scan_id, view) : null;
+  if (!hit) return fail("NOT_FOUND_ANNOTATED_IMAGE", locale, { error: "annotated_image_not_found" });
+  return new Response(hit.bytes.buffer as ArrayBuffer, {
+    status: 200,
+    headers: { "content-type": "image/png", "cache-control": "no-store" },
+  });
+}
 
-function buildSignals14(scoreMap: Map<string, { ui: number; raw: number; masks: string[] }>, cards8: Card[]): ReportSignal[] {
-  const getUi = (k: string) => clampScore(scoreMap.get(k)?.ui);
-  const card = (id: string) => cards8.find((c) => c.id === id);
-
-  const H = getUi("hd_moisture") || card("hydration")?.score || 0;
-  const PG = getUi("hd_age_spot") || card("melanin")?.score || 0;
-  const T = getUi("hd_texture") || card("texture")?.score || 0;
-  const S = getUi("hd_oiliness") || card("sebum")?.score || 0;
-  const P = getUi("hd_pore") || card("pore")?.score || 0;
-  const R = getUi("hd_radiance") || card("radiance")?.score || 0;
-  const RD = getUi("hd_redness") || 0;
-  const F = getUi("hd_firmness") || 0;
-  const W = getUi("hd_wrinkle") || 0;
-  const AC = getUi("hd_acne") || 0;
-
-  const elasticity = clampScore((F * 0.62 + (100 - W) * 0.38));
-  const barrier = card("barrier")?.score || clampScore((100 - RD) * 0.4 + H * 0.3 + (100 - AC) * 0.3);
-
-  const clarity = clampScore(T * 0.35 + P * 0.35 + (100 - AC) * 0.3);
-  const sensitivity = clampScore(barrier * 0.55 + (100 - RD) * 0.45);
-  const skintone = clampScore(R * 0.55 + (100 - RD) * 0.25 + (100 - PG) * 0.2);
-  const brightness = clampScore(R);
-  const pores_depth = clampScore(P * 0.95);
-
-  const pack = (id: MetricId, score: number): ReportSignal => ({
-    id,
-    label_en: SIGNAL_LABELS[id].en,
-    label_zh: SIGNAL_LABELS[id].zh,
-    score: clampScore(score),
-    tone: toneForScore(clampScore(score)),
+/* =========================
+   ✅ 列印版報告（GET ?format=html | pdf，lib/export）
+   - 報告還沒出來 → 照常回 JSON（processing body），前端等 done 再開列印頁
+   - 敘事 pending 時照樣匯出（靜態文案 + 提示），不等 LLM
+   - 影像縮圖用自己存的標註圖 / 原圖（以 POST 的 scan_id 找），不回頭抓供應商的遮罩網址
+   - PDF 嵌入 REPORT_PDF_FONT_PATH 的本機字型；沒有 → CONFIG_PDF_FONT_UNAVAILABLE（見 lib/export），先檢查再做縮圖
+========================= */
+async function exportReport(report: Report, format: Exclude<ExportFormat, "json">, scanId: string, views: View[]) {
+  const brand = reportBrand();
+  const font = format === "pdf" ? await pdfFont() : null;
+  const thumbs = await scanThumbnails(getStore(), scanId, views);
+  if (!font) {
+    return new Response(renderReportHtml(report, brand, thumbs), {
+      status: 200,
+      headers: { "content-type": "text/html; charset=utf-8", "cache-control": "no-store" },
+    });
+  }
+  const pdf = renderReportPdf(report, brand, thumbs, font);
+  return new Response(pdf.buffer as ArrayBuffer, {
+    status: 200,
+    headers: {
+      "content-type": "application/pdf",
+      "content-disposition": `inline; filename="${report.scan_id}.pdf"`,
+      "cache-control": "no-store",
+    },
   });
+}
 
-  return [
-    pack("hydration", H),
-    pack("sebum", S),
-    pack("texture", T),
-    pack("pore", P),
-    pack("pores_depth", pores_depth),
-    pack("pigmentation", PG),
-    pack("wrinkle", W),
-    pack("firmness", F),
-    pack("elasticity", elasticity),
-    pack("redness", clampScore(100 - RD)),
-    pack("brightness", brightness),
-    pack("skintone", skintone),
-    pack("clarity", clarity),
-    pack("sensitivity", sensitivity),
-  ];
+/* =========================
+   ✅ 歷史的讀取權（history / delta / replay 共用）
+   - 帶 scan_token → 讀 token 裡的 user_id（POST 時同意 history 的那位）；query 的 user_id 可省，帶了就要一致
+   - 沒 token、但有驗證過的租戶（API key）→ 租戶後端可讀自家任一 user_id（必填）
+   - 兩者皆無 → 400；光知道 user_id 讀不到任何人的歷史
+========================= */
+async function historyCaller(
+  req: Request,
+  url: URL,
+  tenant: string | null,
+  userId: string | null,
+  locale: Locale,
+): Promise<{ owner: HistoryOwner } | { response: Response }> {
+  if (url.searchParams.get("scan_token") || req.headers.get("x-scan-token")) {
+    const read = await readScanToken(req, url, tenant, locale);
+    if ("response" in read) return read;
+    const owner = read.claims.user_id;
+    if (!owner || (userId && userId !== owner)) return { response: fail("AUTH_SCAN_TOKEN_FORBIDDEN", locale) };
+    return { owner: { tenant: read.claims.tenant, user_id: owner } };
+  }
+  if (!tenant) return { response: fail("INPUT_MISSING_SCAN_TOKEN", locale, { error: "missing_scan_token" }) };
+  if (!userId) return { response: fail("INPUT_MISSING_USER_ID", locale, { error: "missing_user_id" }) };
+  return { owner: { tenant, user_id: userId } };
 }
 
 /* =========================
-   ✅ 冷靜推演語氣：每個維度不同（不再複製貼上）
+   ✅ 歷史 / 差異（GET ?view=history|delta&user_id=）
+   - delta 預設比最近兩次；from= / to= 可指定任兩次的 scan_id
+   - label 依協商語系；分數越高越好（trend up = 改善）
 ========================= */
-function zhFinding(dimId: string, score: number) {
-  const t = toneForScore(score);
-  const s = clampScore(score);
+async function historyView(view: "history" | "delta", owner: HistoryOwner, url: URL, locale: Locale) {
+  const userId = owner.user_id;
+  const entries = await listScans(getStore(), owner);
+
+  if (view === "history") {
+    return json({
+      user_id: userId,
+      count: entries.length,
+      scans: entries.map((e) => ({ scan_id: e.scan_id, produced_at: e.produced_at, dimensions: e.dimensions })),
+    }, 200);
+  }
 
-  const level =
-    t === "stable" ? "穩定區" :
-    t === "deviation" ? "可控偏差帶" :
-    "接近門檻";
-
-  const base = `視覺特徵顯示「${level}」(${s})，屬於可被策略化控制的波動型訊號。`;
-
-  const extraMap: Record<string, string> = {
-    hydration: "水分結構可能存在封存效率不足，表層與深層同步性偏弱。",
-    melanin: "色素呈區域差異，顴區/額區的濃度梯度可能更明顯。",
-    texture: "微紋理對比偏強，反射碎裂感上升，質感可能更粗。",
-    sebum: "油脂分佈偏區域化，T 區與臉頰輸出可能不對稱。",
-    pore: "毛孔可視度提升，孔道邊界的對比度可能偏高。",
-    elasticity: "回彈曲線偏慢，彈性回復可能受負載影響。",
-    radiance: "光澤偏漫反射，亮度被散射吸收的比例可能較高。",
-    barrier: "屏障連續性可能不足，刺激閾值有下降風險。",
-  };
+  const toId = url.searchParams.get("to");
+  const fromId = url.searchParams.get("from");
+  const to = toId ? entries.find((e) => e.scan_id === toId) : entries[entries.length - 1];
+  const from = fromId ? entries.find((e) => e.scan_id === fromId) : to && entries[entries.indexOf(to) - 1];
+  if ((toId && !to) || (fromId && !from)) return fail("NOT_FOUND_SCAN", locale, { error: "scan_not_found", user_id: userId });
+  if (!to || !from) return fail("STATE_NOT_ENOUGH_SCANS", locale, { error: "not_enough_scans", user_id: userId, count: entries.length });
+
+  const c = catalog(locale);
+  const delta = diffScans(from, to);
+  const label = (items: DeltaItem[], name: (id: string) => string | undefined) =>
+    items.map((d) => ({ ...d, label: name(d.id) || d.id }));
+
+  return json({
+    ...delta,
+    locale,
+    signals: label(delta.signals, (id) => c.signals[id as MetricId]),
+    dimensions: label(delta.dimensions, (id) => c.cards[id]?.title),
+  }, 200);
+}
+
+/* =========================
+   ✅ 計分重算（GET ?view=replay&user_id=&scan_id=&versions=a,b）
+   - 用歷史裡存的原始分數，依指定版本重算 cards / signals
+   - versions 預設 = 當時的版本 + 目前版本；兩個以上版本時回第一個 → 最後一個的差異
+========================= */
+async function replayView(owner: HistoryOwner, url: URL, locale: Locale) {
+  const userId = owner.user_id;
+  const entries = await listScans(getStore(), owner);
+  const scanId = url.searchParams.get("scan_id");
+  const entry = scanId ? entries.find((e) => e.scan_id === scanId) : entries[entries.length - 1];
+  if (!entry) return fail("NOT_FOUND_SCAN", locale, { error: "scan_not_found", user_id: userId });
+  if (!entry.raw_scores) {
+    return fail("STATE_RAW_SCORES_UNAVAILABLE", locale, { error: "raw_scores_unavailable", user_id: userId, scan_id: entry.scan_id });
+  }
+
+  const configs = await listScoringConfigs();
+  const current = await getScoringConfig();
+  const wanted = url.searchParams.get("versions")?.split(",").map((v) => v.trim()).filter(Boolean)
+    || [...new Set([entry.scoring_version || current.version, current.version])];
+  const unknown = wanted.filter((v) => !configs.some((c) => c.version === v));
+  if (unknown.length) {
+    return fail("INPUT_UNKNOWN_SCORING_VERSION", locale, {
+      error: "unknown_scoring_version", versions: unknown, available: configs.map((c) => c.version),
+    });
+  }
 
-  return `${extraMap[dimId] || ""}\n${base}`.trim();
+  const scoreMap = fromRawScores(entry.raw_scores);
+  const results = wanted.map((version) => {
+    const cfg = configs.find((c) => c.version === version)!;
+    const scored = scoreWith(cfg, scoreMap, entry.zone_scores);
+    const snap = (x: { id: string; score: number }) => ({ id: x.id, score: x.score, tone: toneFor(x.score, cfg.tone) });
+    return { scoring_version: version, signals: scored.signals.map(snap), dimensions: scored.cards.map(snap) };
+  });
+
+  const first = results[0];
+  const last = results[results.length - 1];
+  return json({
+    user_id: userId,
+    scan_id: entry.scan_id,
+    stored_version: entry.scoring_version || null,
+    results,
+    comparison: results.length > 1 ? {
+      from: first.scoring_version,
+      to: last.scoring_version,
+      signals: diffItems(first.signals, last.signals),
+      dimensions: diffItems(first.dimensions, last.dimensions),
+    } : null,
+  }, 200);
 }
 
-function zhMechanism(dimId: string, score: number) {
-  const s = clampScore(score);
-  const low = s < 72;
-
-  const map: Record<string, string> = {
-    hydration: low
-      ? "推演：角質層保水結構的封存效率偏低，日內波動可能更明顯。"
-      : "推演：保水結構可控，但封存與留存存在輕微落差。",
-    melanin: low
-      ? "推演：色素生成/轉移的局部累積可能更活躍，導致均勻性下降。"
-      : "推演：色素分佈整體可控，局部仍可能受光源/角度放大差異。",
-    texture: low
-      ? "推演：角質排列與黏著一致性不足，microrelief 造成散射提升。"
-      : "推演：紋理規則性尚可，局部微紋理仍可能造成反射破碎。",
-    sebum: low
-      ? "推演：皮脂輸出與脫水訊號交互，形成局部滯留與堵塞風險。"
-      : "推演：油脂輸出穩定，但區域差異仍可能影響孔道負載。",
-    pore: low
-      ? "推演：毛囊角化與皮脂滯留可能推高孔道可視度與邊界擴張。"
-      : "推演：孔道結構大致可控，仍需避免讓角栓負載持續累積。",
-    elasticity: low
-      ? "推演：回彈動態偏慢，可能與氧化/糖化負載及修復節奏相關。"
-      : "推演：彈性回復可用，建議以低刺激方式維持重塑節奏。",
-    radiance: low
-      ? "推演：表面散射（紋理）與微炎症訊號，可能拉低通透與亮度。"
-      : "推演：光澤可控，但散射與均勻性仍是主要影響因素。",
-    barrier: low
-      ? "推演：脂質矩陣連續性不足與 pH 漂移，可能降低耐受上限。"
-      : "推演：屏障可用，但仍需維持脂質連續性以避免裂縫風險。",
-  };
+/* =========================
+   ✅ 串流模式（Accept: text/event-stream）
+   - 伺服器端輪詢供應商（1s 起跳、×1.5 退避、上限 5s），前端不用自己一直打 GET
+   - 事件：upload → task_created → processing → scoring → narrative → report
+     report 的 narrative_status / annotation_status 是 pending → 串流繼續等，
+     LLM 敘事好了送一次完整 body（narrative_ready）、標註圖好了（或 failed）也送一次（annotated_ready），都好了才結束
+     等到時限還沒好就直接結束，前端改用 GET ?view=narratives（或一般 GET）接手
+     中途結束則是 retake / error / timeout；data 一律是 JSON
+   - timeout 會附 scan_token，前端可改回一般 GET 接手；時限 SCAN_STREAM_TIMEOUT_MS（預設 120000）
+========================= */
+type ScanEvent =
+  | "upload" | "task_created" | "processing" | "scoring" | "narrative"
+  | "report" | "narrative_ready" | "annotated_ready" | "retake" | "error" | "timeout";
+type ProgressEmit = (event: ScanEvent, data: any) => void;
 
-  return map[dimId] || "推演：訊號來源可能與結構與波動交互相關。";
+// emit：串流進度；defer：平台的 waitUntil（有就把 webhook 投遞丟到背景，不拖慢回應）
+type ScanHooks = { emit?: ProgressEmit; defer?: (job: Promise<unknown>) => void };
+
+const POLL_INITIAL_MS = 1000;
+const POLL_MAX_MS = 5000;
+const POLL_BACKOFF = 1.5;
+const NARRATIVE_POLL_MS = 1000;
+
+function wantsEventStream(req: Request) {
+  return (req.headers.get("accept") || "").includes("text/event-stream");
 }
 
-function zhProtocol(dimId: string, score: number): string[] {
-  const s = clampScore(score);
-  const low = s < 72;
-
-  const map: Record<string, [string, string]> = {
-    hydration: low
-      ? ["NMF：泛醇/胺基酸", "補脂：Ceramide 3:1:1"]
-      : ["封存：神經醯胺/脂肪酸", "節奏：夜間加強留存"],
-    melanin: low
-      ? ["抗氧鏈：Vit C + ferulic", "均勻路徑：B3/傳明酸"]
-      : ["防曬規格：廣譜穩定", "均勻節奏：低刺激長跑"],
-    texture: low
-      ? ["溫和更新：PHA/LHA", "結構支持：尿素/神經醯胺"]
-      : ["更新節奏：拉長間隔", "敏感期：避免過度摩擦"],
-    sebum: low
-      ? ["控油不破膜：Zinc PCA", "孔道清理：BHA 週2–3"]
-      : ["分區保養：T 區/臉頰分流", "負載控制：避免強清潔"],
-    pore: low
-      ? ["角化管理：BHA/視黃醇交替", "結構支撐：B3/胜肽"]
-      : ["清理節奏：低頻但持續", "支撐策略：B3/保水封存"],
-    elasticity: low
-      ? ["夜間重塑：視黃醇 2–3晚", "抗氧支援：胜肽/維E"]
-      : ["重塑維持：低頻A醇", "防護：抗氧 + 封存"],
-    radiance: low
-      ? ["抑炎抗氧：壬二酸/EGCG", "提亮鏈路：Vit C + 封存"]
-      : ["均光策略：抗氧 + 保水", "反射管理：紋理節奏"],
-    barrier: low
-      ? ["補脂修復：Ceramide/膽固醇/FA", "降刺激：停強酸/酒精香精"]
-      : ["維持連續：補脂 + 封存", "避免波動：降清潔強度"],
-  };
+function streamTimeoutMs() {
+  const ms = Number(process.env.SCAN_STREAM_TIMEOUT_MS);
+  return Number.isFinite(ms) && ms > 0 ? ms : 120_000;
+}
+
+// 非 processing 的最終 body → 事件名稱
+function finalEvent(body: any): ScanEvent {
+  if (body?.error === "scan_retake") return "retake";
+  return body?.report ? "report" : "error";
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+function streamScan(locale: Locale, work: (emit: ProgressEmit, signal: AbortSignal) => Promise<void>) {
+  const encoder = new TextEncoder();
+  // 前端斷線 → 停止輪詢，不再打供應商
+  const abort = new AbortController();
+  let seq = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: ProgressEmit = (event, data) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`id: ${++seq}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      try {
+        await work(emit, abort.signal);
+      } catch (err: any) {
+        emit("error", exceptionBody(err, locale));
+      }
+      if (!abort.signal.aborted) controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-store",
+      "x-accel-buffering": "no",
+    },
+  });
+}
+
+async function pollScan(
+  refs: TaskRef[],
+  scanId: string,
+  owner: HistoryOwner | null,
+  locale: Locale,
+  scanToken: string,
+  emit: ProgressEmit,
+  signal: AbortSignal,
+) {
+  const deadline = Date.now() + streamTimeoutMs();
+  let delay = POLL_INITIAL_MS;
+  for (let attempt = 1; !signal.aborted; attempt++) {
+    const result = await scanResult(refs, scanId, owner, locale, { emit });
+    if (result.done) {
+      emit(finalEvent(result.body), result.body);
+      const report: Report | undefined = result.body?.report;
+      if (report && backgroundPending(report)) await awaitBackground(refs, scanId, owner, locale, report, emit, signal, deadline);
+      return;
+    }
 
-  const p = map[dimId] || ["以低刺激為主", "維持節奏與追蹤"];
-  return [p[0], p[1]];
+    if (Date.now() + delay > deadline) {
+      return emit("timeout", { scan_id: scanId, stage: "stream_timeout", attempts: attempt, scan_token: scanToken });
+    }
+    emit("processing", { ...result.body, attempt, next_poll_ms: delay });
+    await sleep(delay, signal);
+    delay = Math.min(POLL_MAX_MS, Math.round(delay * POLL_BACKOFF));
+  }
+}
+
+const backgroundPending = (report?: Report) =>
+  report?.narrative_status === "pending" || report?.annotation_status === "pending";
+
+// 報告已送出、敘事 / 標註圖還在背景產生：讀快取（不查供應商）直到都好了或到時限
+async function awaitBackground(
+  refs: TaskRef[],
+  scanId: string,
+  owner: HistoryOwner | null,
+  locale: Locale,
+  first: Report,
+  emit: ProgressEmit,
+  signal: AbortSignal,
+  deadline: number,
+) {
+  // 只補送一開始是 pending 的那幾項
+  let narrative = first.narrative_status === "pending";
+  let annotated = first.annotation_status === "pending";
+  while (!signal.aborted && Date.now() + NARRATIVE_POLL_MS <= deadline) {
+    await sleep(NARRATIVE_POLL_MS, signal);
+    const result = await resolveScan(refs, scanId, owner, locale);
+    const report: Report | undefined = result.body?.report;
+    if (narrative && report?.narrative_status !== "pending") {
+      narrative = false;
+      emit("narrative_ready", result.body);
+    }
+    if (annotated && report?.annotation_status !== "pending") {
+      annotated = false;
+      emit("annotated_ready", result.body);
+    }
+    if (!backgroundPending(report)) return;
+  }
 }
 
 /* =========================
-   ✅ LLM 個人化敘事（OpenAI）
-   失敗時 fallback 回靜態模板
+   ✅ 查詢 task → 報告（GET、串流、背景輪詢共用）
+   - done=false：還在跑（processing / queued）
+   - done=true 且 POST 時有註冊 callback_url → 投遞 webhook（lib/webhooks）
 ========================= */
-async function generateLLMNarratives(cardsRaw: Card[], signals14: ReportSignal[]) {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
+async function scanResult(
+  refs: TaskRef[],
+  scanId: string,
+  owner: HistoryOwner | null,
+  locale: Locale,
+  hooks: ScanHooks = {},
+): Promise<{ status: number; done: boolean; body: any }> {
+  const result = await resolveScan(refs, scanId, owner, locale, hooks);
+  if (result.done) await notifyWebhook(scanId, result.body, hooks.defer);
+  return result;
+}
 
-  try {
-    const cardsSummary = cardsRaw.map(c =>
-      `【${c.title_zh}（${c.title_en}）】總分：${c.score}/100\n子指標：${c.details.map(d => `${d.label_zh}=${d.value}`).join('、')}`
-    ).join('\n\n');
-
-    const signalsSummary = signals14.map(s =>
-      `${s.label_zh}(${s.id}): ${s.score} [${s.tone}]`
-    ).join('、');
-
-    // 找出最差和最好的維度
-    const sorted = [...cardsRaw].sort((a, b) => a.score - b.score);
-    const worst = sorted.slice(0, 2).map(c => `${c.title_zh}(${c.score})`);
-    const best = sorted.slice(-2).map(c => `${c.title_zh}(${c.score})`);
-
-    const payload = {
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `你是台灣頂尖的皮膚科學分析系統。你的報告風格：
-
-【絕對禁止的用詞】診斷、治療、醫療、處方、疾病、病症、療程、患者、病患
-【正確的用語】系統判斷、訊號偵測、數據推演、策略建議、結構分析、行為約束
-
-每個維度的報告格式：
-1. finding_zh：系統判斷說明 + 細項數據解讀（150-250字）
-   - 必須引用具體數字（分數、子指標）
-   - 必須說明數字代表什麼意思
-   - 必須比較子指標之間的關係（例如：「T區出油 78 vs 臉頰 52，差距 26，顯示區域不對稱」）
-   - 跟其他維度的交叉影響要提到
-
-2. mechanism_zh：推演機制 + 策略建議（150-250字）
-   - 用「推演」開頭
-   - 說清楚可能的原因鏈
-   - 給出具體的保養策略，說清楚邏輯
-
-3. protocol_zh：2-3條具體策略建議
-
-重要原則：
-- 每個維度的敘事必須不同，不要複製貼上
-- 必須根據實際數字寫，不能用模板
-- 語氣專業但客人聽得懂
-- 像高端美容科技品牌的系統報告`
-        },
-        {
-          role: "user",
-          content: `以下是這位用戶的真實掃描數據：
-
-${cardsSummary}
-
-14 通道信號：${signalsSummary}
-
-特徵摘要：
-- 最弱維度：${worst.join('、')}
-- 最強維度：${best.join('、')}
-- 平均分數：${Math.round(cardsRaw.reduce((s, c) => s + c.score, 0) / cardsRaw.length)}
-
-請為每個維度生成專屬於這位用戶的報告。每個維度的敘事必須不同。`
-        }
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "narratives",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              dimensions: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    id: { type: "string" },
-                    finding_zh: { type: "string" },
-                    mechanism_zh: { type: "string" },
-                    protocol_zh: { type: "array", items: { type: "string" } }
-                  },
-                  required: ["id", "finding_zh", "mechanism_zh", "protocol_zh"],
-                  additionalProperties: false
-                }
-              },
-              summary_zh: { type: "string" }
-            },
-            required: ["dimensions", "summary_zh"],
-            additionalProperties: false
-          }
-        }
-      },
-      max_tokens: 8192,
-    };
+async function notifyWebhook(scanId: string, body: any, defer?: ScanHooks["defer"]) {
+  const store = getStore();
+  const reg = await getWebhook(store, scanId);
+  if (!reg || reg.status !== "pending") return;
+  const job = deliverWebhook(store, reg, {
+    event: body?.report ? "scan.completed" : "scan.failed",
+    payload: body,
+  }).catch((err) => console.error("[webhook] delivery failed:", err));
+  if (defer) defer(job);
+  else await job;
+}
+
+// 快取的是與使用者無關的那份；每次回應再套上這次的語系，
+// 有 owner → 寫入歷史（同一個 task 重複 GET 沿用第一次的 scan_id / produced_at）
+async function personalizeReport(body: any, rawScores: RawScores | undefined, owner: HistoryOwner | null, taskId: string, locale: Locale) {
+  const report: Report = { ...body.report, locale };
+  if (owner) {
+    const entry = await recordScan(getStore(), owner, taskId, report, rawScores);
+    report.scan_id = entry.scan_id;
+    report.produced_at = entry.produced_at;
+  }
+  return { ...body, scan_id: report.scan_id, report };
+}
+
+async function resolveScan(
+  refs: TaskRef[],
+  scanId: string,
+  owner: HistoryOwner | null,
+  locale: Locale,
+  hooks: ScanHooks = {},
+): Promise<{ status: number; done: boolean; body: any }> {
+  const { emit } = hooks;
+  const provider = getProvider();
+  const frontRef = refs.find((r) => r.view === "front") || refs[0];
+
+  // ✅ 已出過報告 → 直接回快取（不查供應商、不重算、不叫 LLM；scan_id / produced_at 沿用）
+  const store = getStore();
+  const taskKeys = refs.map((r) => `${r.view}:${r.task_id}`);
+  const cached = await getCachedReport(store, scanId, taskKeys);
+  if (cached) {
+    // 敘事還在產生 → 看好了沒，好了就套上並更新快取
+    let body = cached.body;
+    let changed = false;
+    if (body.report?.narrative_status === "pending" && cached.narrative_key) {
+      const settled = await settleNarratives(body, cached.narrative_key, hooks.defer);
+      body = settled.body;
+      changed = settled.changed;
+    }
+    // 標註圖還在合成 → 看好了沒（原本那個背景工作死掉就重來，遮罩改為自己抓）
+    if (body.report?.annotation_status === "pending") {
+      const settled = await settleAnnotations(body, scanId, hooks.defer);
+      body = settled.body;
+      changed ||= settled.changed;
+    }
+    if (changed) await cacheReport(store, scanId, { ...cached, body });
+    return { status: 200, done: true, body: await personalizeReport(body, cached.raw_scores, owner, frontRef.task_id, locale) };
+  }
 
-    const r = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
-      body: JSON.stringify(payload),
+  const tasks = await Promise.all(refs.map(async (ref) => {
+    try {
+      const task = await provider.getTask(ref.task_id);
+      return { ref, task, status: task.status };
+    } catch (err) {
+      // 側面查不到（上游暫時失敗）就當該角度 error、不納入融合；正面照常往外丟
+      if (ref === frontRef || !(err instanceof UpstreamError)) throw err;
+      const task: ProviderTask = { task_id: ref.task_id, status: "error", error: err.message, raw: null };
+      return { ref, task, status: task.status };
+    }
+  }));
+
+  // 正面是主視角：正面失敗才走 error；側面失敗就不納入融合
+  const front = tasks.find((t) => t.ref.view === "front") || tasks[0];
+  const st = front.status;
+  const pending = tasks.filter((t) => t.status !== "success" && t.status !== "error");
+
+  if (st === "success" && !pending.length) {
+    const usable = tasks.filter((t) => t.status === "success");
+    const perView: ViewScores[] = usable.map((t) => ({
+      view: t.ref.view,
+      quality: t.ref.quality,
+      weight: VIEW_WEIGHT[t.ref.view] * t.ref.quality,
+      scores: provider.scores(t.task, t.ref.view),
+    }));
+    const scoreMap = fuseScoreMaps(perView);
+    const views = tasks.map((t) => ({
+      view: t.ref.view,
+      task_id: t.ref.task_id,
+      status: t.status,
+      weight: t.status === "success" ? Math.round(VIEW_WEIGHT[t.ref.view] * t.ref.quality * 100) / 100 : 0,
+    }));
+    // ✅ 計分版本：SCORING_VERSION / 執行期設定（lib/scoring）
+    emit?.("scoring", { scan_id: scanId, views });
+    const scoring = await getScoringConfig();
+    // 分區量測與標註圖共用同一批遮罩（只抓一次）
+    const masks = maskFetcher(ANNOTATE_SIDE);
+    const zoneScores = await regionalZones(scoring, scoreMap, front.ref, masks);
+    const scored = scoreWith(scoring, scoreMap, zoneScores);
+    const confidence = computeConfidence(scoring, scoreMap, perView);
+    const cardsRaw = mapYoucamToCards(scored, confidence);
+    const signals14 = buildSignals14(scored, scoring.tone);
+
+    // ✅ 決策層只出現一次（每個語系各一份文案）
+    const decisionRun = runDecision(signals14, cardsRaw, scoring.tone);
+    const decisionLayers = Object.fromEntries(
+      LOCALES.map((l) => [l, buildDecisionLayer(decisionRun, signals14, l)]),
+    ) as Record<Locale, ReturnType<typeof buildDecisionLayer>>;
+    const decisionLayer = decisionLayers["zh-TW"];
+    const decisionLayerEn = decisionLayers.en;
+
+    // ✅ 先用靜態文案出報告；LLM 敘事在背景產生（settleNarratives），好了再套上
+    const narrativeProvider = getNarrativeProvider();
+    const narrativeStatus = narrativeProvider && !narrativeProvider.configError() ? "pending" : "static";
+    emit?.("narrative", { scan_id: scanId, llm: narrativeStatus === "pending", provider: narrativeProvider?.name ?? null, status: narrativeStatus });
+
+    const cards: Card[] = cardsRaw.map((c) => {
+      const s = clampScore(c.score);
+      const tone = toneFor(s, scoring.tone);
+      return {
+        ...c,
+        signal_zh: hedge("zh-TW", zhFinding(c.id, s, tone), c.low_confidence),
+        recommendation_zh: hedge("zh-TW", zhMechanism(c.id, s, tone), c.low_confidence),
+        signal_en: hedge("en", enFinding(c.id, s, tone), c.low_confidence),
+        recommendation_en: hedge("en", enMechanism(c.id, s, tone), c.low_confidence),
+      };
     });
 
-    if (!r.ok) {
-      console.error(`OpenAI error: ${r.status}`);
-      return null;
+    const dimensions8: ReportDimension[] = cards
+      .slice()
+      .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0))
+      .map((c) => {
+        const s = clampScore(c.score);
+        const tone = toneFor(s, scoring.tone);
+        return {
+          id: c.id,
+          title_en: c.title_en,
+          title_zh: c.title_zh,
+          score: s,
+          tone,
+          confidence: Number(c.confidence) || 0.78,
+          low_confidence: !!c.low_confidence,
+          confidence_factors: confidence.find((x) => x.id === c.id)?.factors,
+          finding_en: c.signal_en || "",
+          mechanism_en: c.recommendation_en || "",
+          protocol_en: hedgeProtocol("en", enProtocol(c.id, s, tone), c.low_confidence),
+          finding_zh: c.signal_zh || "",
+          mechanism_zh: c.recommendation_zh || "",
+          protocol_zh: hedgeProtocol("zh-TW", zhProtocol(c.id, s, tone), c.low_confidence),
+          masks: c.masks,
+        };
+      });
+
+    const report: Report = {
+      scan_id: scanId,
+      produced_at: new Date().toISOString(),
+      degraded: false,
+      stage: "youcam_success",
+      summary_en: catalog("en").summary.done,
+      summary_zh: catalog("zh-TW").summary.done,
+      precheck: undefined,
+      signals14,
+      dimensions8,
+      views,
+      environment_zh: decisionLayer.environment,
+      decision_zh: decisionLayer.decision,
+      priority_node_zh: decisionLayer.node,
+      constraints_zh: decisionLayer.constraints,
+      timeline_zh: decisionLayer.timeline,
+      environment_en: decisionLayerEn.environment,
+      decision_en: decisionLayerEn.decision,
+      priority_node_en: decisionLayerEn.node,
+      constraints_en: decisionLayerEn.constraints,
+      timeline_en: decisionLayerEn.timeline,
+      decision_trace: decisionRun.trace,
+      narrative_status: narrativeStatus,
+      narrative_compliance: narrativeStatus === "static" ? staticCompliance(cardsRaw) : undefined,
+      scoring_version: scored.scoring_version,
+      low_confidence_dimensions: confidence.filter((x) => x.low_confidence).map((x) => x.id),
+      zone_scores: zoneScores,
+      annotation_status: "pending",
+      locale,
+    };
+    report.texts = Object.fromEntries(
+      LOCALES.map((l) => [l, buildLocaleTexts(l, report, decisionLayers[l])]),
+    );
+
+    const body = {
+      scan_id: report.scan_id,
+      degraded: false,
+      stage: "youcam_success",
+      task_status: "success",
+      report,
+      cards,
+      summary_en: `${report.summary_en}\n\n${report.environment_en}`,
+      summary_zh: `${report.summary_zh}\n\n${report.environment_zh}`,
+    };
+    const rawScores = toRawScores(scoreMap);
+    const narrativeCacheKey = narrativeStatus === "pending"
+      ? await narrativeKey(cardsRaw, signals14, narrativeProvider!.name, narrativeSettings().model)
+      : undefined;
+    const narrated = narrativeCacheKey ? (await settleNarratives(body, narrativeCacheKey, hooks.defer)).body : body;
+    // ✅ 標註圖：遮罩網址會過期，趁剛抓過就在背景合成（lib/annotate），不擋這次回應
+    const settled = (await settleAnnotations(narrated, scanId, hooks.defer, masks)).body;
+    await cacheReport(store, scanId, { tasks: taskKeys, body: settled, raw_scores: rawScores, narrative_key: narrativeCacheKey });
+    return { status: 200, done: true, body: await personalizeReport(settled, rawScores, owner, front.ref.task_id, locale) };
+  }
+
+  if (st === "error") {
+    const errMsg = front.task.error || "{}";
+    // ✅ YouCam 常見：below_min_image_size → 回 scan_retake（前端顯示重拍提示）
+    if (errMsg.includes("below_min_image_size")) {
+      return { status: ERROR_STATUS.RETAKE_MIN_SIZE, done: true, body: errorBody("RETAKE_MIN_SIZE", locale, {
+        error: "scan_retake",
+        stage: "youcam_error_below_min_image_size",
+        tips: catalog("zh-TW").retake.belowMinImageSize,
+        locale,
+        texts: Object.fromEntries(LOCALES.map((l) => [l, { tips: catalog(l).retake.belowMinImageSize }])),
+      }) };
     }
+    return { status: ERROR_STATUS.UPSTREAM_TASK_FAILED, done: true, body: errorBody("UPSTREAM_TASK_FAILED", locale, {
+      scan_id: scanId,
+      degraded: true,
+      stage: "youcam_error",
+      task_status: "error",
+      detail: errMsg,
+    }) };
+  }
+
+  // processing / queued
+  return { status: 200, done: false, body: {
+    scan_id: scanId,
+    degraded: true,
+    stage: "processing",
+    task_status: st === "success" ? "processing" : st,
+    views: tasks.map((t) => ({ view: t.ref.view, task_id: t.ref.task_id, status: t.status })),
+  } };
+}
+
+/* =========================
+   ✅ 上傳 + 建立 task（POST 與串流共用）
+   - refs 只有成功建立 task 時才有；其餘（env / retake）body 直接回前端
+   - callback_url（表單欄位或 query）→ 建完 task 註冊 webhook，完成時主動通知
+   - Idempotency-Key header → 重送回第一次的結果（lib/dedup）；前一個還在跑就等它一下
+     key 與內容雜湊都以租戶區隔，不會拿到別的租戶的 task
+   - 成功時回 scan_token（lib/scantoken），之後 GET 只認它
+   - 必填同意（lib/privacy）；沒勾 history 用途就不綁 user_id、不寫歷史
+========================= */
+type CreatedScan = {
+  status: number;
+  body: any;
+  refs?: TaskRef[];
+  // 這次掃描在供應商與 KV 留下的東西，寫進 scan 紀錄供刪除用
+  artifacts?: { file_ids: string[]; upload_keys: UploadKey[] };
+  // 通過同意檢查（purpose 含 history）的 user_id；沒同意 → null，不寫歷史
+  owner?: string | null;
+};
+
+const CONSENT_CODES: Record<ConsentError, ErrorCode> = {
+  missing: "INPUT_MISSING_CONSENT",
+  version_not_accepted: "INPUT_CONSENT_VERSION_NOT_ACCEPTED",
+  invalid_purpose: "INPUT_INVALID_CONSENT_PURPOSE",
+};
+type ScanInput = { view: View; file: File; rawBytes: Uint8Array };
+
+const IDEMPOTENCY_WAIT_MS = 15_000;
+const IDEMPOTENCY_POLL_MS = 500;
+
+async function createScan(
+  req: Request,
+  locale: Locale,
+  userId: string | null,
+  tenant: string | null,
+  emit?: ProgressEmit,
+): Promise<CreatedScan> {
+  const scanId = newScanId();
+  const provider = getProvider();
+  // 敘事設定錯（未知供應商、溫度超出範圍）在這裡就丟 CONFIG_INVALID，不要等到 GET 才默默走靜態
+  const narrativeProvider = getNarrativeProvider();
+  narrativeSettings();
+  const configError = provider.configError() || scanTokenConfigError() || narrativeProvider?.configError();
+  if (configError) {
+    return { status: ERROR_STATUS.CONFIG_MISSING_KEY, body: errorBody("CONFIG_MISSING_KEY", locale, {
+      scan_id: scanId, degraded: true, stage: "env", detail: configError,
+    }) };
+  }
+  const idempotencyKey = req.headers.get("idempotency-key");
+  if (idempotencyKey !== null && !isValidIdempotencyKey(idempotencyKey)) {
+    return { status: ERROR_STATUS.INPUT_INVALID_IDEMPOTENCY_KEY, body: errorBody("INPUT_INVALID_IDEMPOTENCY_KEY", locale) };
+  }
 
-    const j: any = await r.json();
-    const content = j?.choices?.[0]?.message?.content;
-    if (!content) return null;
-    return JSON.parse(content);
+  const form = await req.formData().catch(() => {
+    throw new ScanError("INPUT_BAD_FORM", "Expected multipart/form-data");
+  });
+  const callbackUrl = String(form.get("callback_url") || new URL(req.url).searchParams.get("callback_url") || "").trim();
+  if (callbackUrl) {
+    const reason = callbackUrlError(callbackUrl);
+    if (reason) {
+      return { status: ERROR_STATUS.INPUT_INVALID_CALLBACK_URL, body: errorBody("INPUT_INVALID_CALLBACK_URL", locale, {
+        error: "invalid_callback_url", reason,
+      }) };
+    }
+    const envError = webhookConfigError();
+    if (envError) {
+      return { status: ERROR_STATUS.CONFIG_MISSING_KEY, body: errorBody("CONFIG_MISSING_KEY", locale, {
+        scan_id: scanId, degraded: true, stage: "env", detail: envError,
+      }) };
+    }
+  }
+  const consent = parseConsent(String(form.get("consent_version") || ""), String(form.get("consent_purpose") || ""));
+  if (typeof consent === "string") {
+    return { status: ERROR_STATUS[CONSENT_CODES[consent]], body: errorBody(CONSENT_CODES[consent], locale, { error: "consent_required" }) };
+  }
+  const owner = consent.purposes.includes("history") ? userId : null;
+
+  const inputs: ScanInput[] = await Promise.all(
+    (await getFiles(form)).map(async ({ view, file }) => ({ view, file, rawBytes: await toBytes(file) })),
+  );
+  const idemKey = idempotencyKey === null ? null : `${tenant ?? "-"}:${idempotencyKey}`;
+  const job = async (): Promise<CreatedScan> => {
+    const created = await uploadScan(inputs, scanId, locale, owner, tenant, callbackUrl, emit);
+    if (!created.refs || !created.artifacts) return created;
+    await saveScanRecord(getStore(), {
+      scan_id: scanId,
+      tenant,
+      ...(owner ? { user_id: owner } : {}),
+      consent,
+      created_at: new Date().toISOString(),
+      task_ids: created.refs.map((r) => r.task_id),
+      ...created.artifacts,
+      ...(idemKey ? { idempotency_key: idemKey } : {}),
+    });
+    return { ...created, owner, body: { ...created.body, consent: { version: consent.version, purposes: consent.purposes } } };
+  };
+  if (idemKey === null) return job();
+
+  const store = getStore();
+  const fingerprint = await sha256Hex(new TextEncoder().encode(
+    (await Promise.all(inputs.map(async (i) => `${i.view}:${await sha256Hex(i.rawBytes)}`))).join(","),
+  ));
+  let claim: IdempotencyClaim = await claimIdempotency(store, idemKey, fingerprint);
+  for (let waited = 0; claim.state === "pending" && waited < IDEMPOTENCY_WAIT_MS; waited += IDEMPOTENCY_POLL_MS) {
+    await new Promise((r) => setTimeout(r, IDEMPOTENCY_POLL_MS));
+    claim = await claimIdempotency(store, idemKey, fingerprint);
+  }
+  if (claim.state === "mismatch") {
+    return { status: ERROR_STATUS.INPUT_IDEMPOTENCY_KEY_REUSED, body: errorBody("INPUT_IDEMPOTENCY_KEY_REUSED", locale) };
+  }
+  if (claim.state === "pending") {
+    return { status: ERROR_STATUS.STATE_IDEMPOTENCY_IN_PROGRESS, body: errorBody("STATE_IDEMPOTENCY_IN_PROGRESS", locale) };
+  }
+  if (claim.state === "done") {
+    const { status, body, task_ids, owner: replayOwner } = claim.result;
+    return {
+      status,
+      body: { ...body, idempotent_replay: true },
+      owner: replayOwner ?? null,
+      ...(task_ids ? { refs: parseTaskRefs(task_ids) } : {}),
+    };
+  }
+
+  try {
+    const created = await job();
+    await completeIdempotency(store, idemKey, fingerprint, {
+      status: created.status,
+      body: created.body,
+      ...(created.refs ? { task_ids: encodeTaskRefs(created.refs) } : {}),
+      ...(created.owner ? { owner: created.owner } : {}),
+    });
+    return created;
   } catch (err) {
-    console.error("[LLM Narrative] fallback to static:", err);
-    return null;
+    await releaseIdempotency(store, idemKey).catch(() => {});
+    throw err;
+  }
+}
+
+// 去重範圍：同一供應商、同一租戶
+const dedupScopeOf = (provider: SkinAnalysisProvider, tenant: string | null) => `${provider.name}:${tenant ?? "-"}`;
+
+// 同一份正規化 bytes 已建過 task → 沿用；之前那個 task 失敗了（可能是暫時性錯誤）就重建
+async function reusableTask(provider: SkinAnalysisProvider, scope: string, hash: string) {
+  const store = getStore();
+  const hit = await findUpload(store, scope, hash);
+  if (!hit) return null;
+  const task = await provider.getTask(hit.task_id).catch(() => null);
+  if (task && task.status !== "error") return hit.task_id;
+  await forgetUpload(store, scope, hash);
+  return null;
+}
+
+// 解碼時保留的長邊下限：比送出去的 1440 大，裁臉時也還有像素
+const DECODE_TARGET_SIDE = 1600;
+
+async function uploadScan(
+  inputs: ScanInput[],
+  scanId: string,
+  locale: Locale,
+  userId: string | null,
+  tenant: string | null,
+  callbackUrl: string,
+  emit?: ProgressEmit,
+): Promise<CreatedScan> {
+  const provider = getProvider();
+  const dedupScope = dedupScopeOf(provider, tenant);
+
+  // 像素超過上限 → 不解碼、不上傳，請前端縮小（lib/image/decode）
+  const oversized = inputs.find((i) => tooManyPixels(i.rawBytes));
+  if (oversized) {
+    return { status: ERROR_STATUS.RETAKE_TOO_LARGE, body: errorBody("RETAKE_TOO_LARGE", locale, {
+      error: "scan_retake",
+      stage: "image_too_large",
+      tips: catalog("zh-TW").retake.tooLarge,
+      locale,
+      texts: Object.fromEntries(LOCALES.map((l) => [l, { tips: catalog(l).retake.tooLarge }])),
+      view: oversized.view,
+      max_pixels: maxImagePixels(),
+    }) };
+  }
+
+  // ✅ 送 YouCam 前：轉正、去 metadata、補到最低尺寸（關鍵）
+  const normalizeInput = async (rawBytes: Uint8Array, raster: Raster | null, gate: ReturnType<typeof faceGate>): Promise<NormalizedUpload | null> => {
+    const detected = raster ? (gate?.face ?? detectFaces(raster)) : null;
+    const face = detected?.faces ? detected.box : null;
+    try {
+      if (!raster) throw new Error("undecodable");
+      return await normalizeForYouCam(raster, {
+        minSide: 720, maxSide: 1440, quality: 0.92, face, cropToFace: faceCropEnabled(),
+      });
+    } catch (e) {
+      // fallback：JPEG 原檔去掉 EXIF/GPS 再送，至少不要整個 fail
+      if (sniffFormat(rawBytes) !== "jpeg") {
+        if (!raster) return null;
+        throw e;
+      }
+      return { bytes: stripJpegMetadata(rawBytes), contentType: "image/jpeg", width: 0, height: 0, encoder: "none", cropped: false, face: null };
+    }
+  };
+
+  // ✅ 第一段：全部角度先 precheck + 臉部守門 + 轉正 / 去 metadata / 補尺寸（任何一張不過就不上傳）
+  // 一次只解一張（純 JS 解碼很吃記憶體）；解碼時就縮小（長邊不低於 DECODE_TARGET_SIDE）
+  // 像素只活在這一張的處理期間：之後只留 precheck 結果與重編碼後的 JPEG
+  const precheckInput = async ({ view, file, rawBytes }: ScanInput) => {
+    // JPEG 解碼失敗不擋（去掉 metadata 後交給 YouCam 判斷）
+    const raster = await decodeImage(rawBytes, file.type, { targetSide: DECODE_TARGET_SIDE }).catch(() => null);
+    const check = quickPrecheck(raster);
+    const gate = faceGate(raster, view);
+    const precheck: Precheck = {
+      passed: check.ok && !gate?.failed,
+      warnings: gate?.failed ? [...check.warnings, gate.failed] : check.warnings,
+      tips: gate?.failed ? [...check.tips, ...catalog("zh-TW").retake.face[gate.failed]] : check.tips,
+      checks: [...check.checks, ...(gate?.checks || [])],
+      face: gate?.face,
+    };
+    // 會被臉部守門擋下的就不必重編碼
+    const rejected = !!gate?.failed && faceGateMode() === "enforce";
+    const normalized = rejected ? null : await normalizeInput(rawBytes, raster, gate);
+    return { view, check, gate, precheck, rejected, normalized };
+  };
+
+  const checked: Awaited<ReturnType<typeof precheckInput>>[] = [];
+  for (const input of inputs) checked.push(await precheckInput(input));
+
+  // 解不開又不是 JPEG（WebP、壞掉的 HEIC / PNG）→ 無法去 metadata，也無法補尺寸，請前端改格式
+  const undecodable = checked.find((c) => !c.rejected && !c.normalized);
+  if (undecodable) {
+    return { status: ERROR_STATUS.RETAKE_UNSUPPORTED_FORMAT, body: errorBody("RETAKE_UNSUPPORTED_FORMAT", locale, {
+      error: "scan_retake",
+      stage: "unsupported_format",
+      tips: catalog("zh-TW").retake.unsupportedFormat,
+      locale,
+      texts: Object.fromEntries(LOCALES.map((l) => [l, { tips: catalog(l).retake.unsupportedFormat }])),
+      view: undecodable.view,
+    }) };
+  }
+
+  const rejected = checked.find((c) => c.rejected);
+  if (rejected?.gate?.failed) {
+    const code = rejected.gate.failed;
+    return { status: ERROR_STATUS.RETAKE_FACE_GATE, body: errorBody("RETAKE_FACE_GATE", locale, {
+      error: "scan_retake",
+      stage: `face_gate_${code.toLowerCase()}`,
+      tips: catalog("zh-TW").retake.face[code],
+      locale,
+      texts: Object.fromEntries(LOCALES.map((l) => [l, { tips: catalog(l).retake.face[code] }])),
+      view: rejected.view,
+      face: rejected.gate.face,
+    }) };
   }
+
+  // ✅ 第二段：每個角度各自上傳 → 建 task
+  const uploads = await Promise.all(checked.map(async ({ view, check, precheck, normalized: prepared }) => {
+    const normalized = prepared!;
+
+    // ✅ 內容雜湊去重：連點 / 網路重送同一張照片不再建第二個付費 task
+    const hash = await sha256Hex(normalized.bytes);
+    const reused = await reusableTask(provider, dedupScope, hash);
+    emit?.("upload", {
+      view, width: normalized.width, height: normalized.height,
+      bytes_kb: Math.round((normalized.bytes.length / 1024) * 10) / 10,
+      ...(reused ? { reused: true } : {}),
+    });
+    let taskId = reused;
+    let fileId: string | null = null;
+    if (!taskId) {
+      fileId = await provider.upload(normalized.bytes, `skin_${view}_${Date.now()}.jpg`);
+      taskId = await provider.createTask(fileId, YOUCAM_HD_ACTIONS);
+      await rememberUpload(getStore(), dedupScope, hash, taskId);
+    }
+    await retainTask(getStore(), dedupScope, taskId, scanId, fileId);
+    // 標註圖要疊在送出去的這張上（遮罩與它對齊）
+    await saveSource(getStore(), scanId, view, normalized.bytes);
+    const ref: TaskRef = { view, task_id: taskId, quality: check.quality, ...(normalized.face ? { face: normalized.face } : {}) };
+    return { ref, precheck, normalized, reused: !!reused, fileId, uploadKey: { scope: dedupScope, hash } };
+  }));
+
+  const front = uploads[0];
+  const refs = uploads.map((u) => u.ref);
+  const scanToken = await issueScanToken({
+    scan_id: scanId,
+    task_ids: encodeTaskRefs(refs),
+    tenant,
+    ...(userId ? { user_id: userId } : {}),
+  });
+  const webhook = callbackUrl
+    ? await registerWebhook(getStore(), {
+      callback_url: callbackUrl,
+      scan_id: scanId,
+      task_ids: encodeTaskRefs(refs),
+      locale,
+      tenant,
+      ...(userId ? { user_id: userId } : {}),
+    })
+    : null;
+
+  const artifacts = {
+    file_ids: uploads.flatMap((u) => (u.fileId ? [u.fileId] : [])),
+    upload_keys: uploads.map((u) => u.uploadKey),
+  };
+  return { status: 200, refs, artifacts, body: {
+    scan_id: scanId,
+    degraded: true,
+    stage: "task_created",
+    task_id: front.ref.task_id,
+    task_ids: encodeTaskRefs(refs),
+    scan_token: scanToken.token,
+    scan_token_expires_at: scanToken.expires_at,
+    tasks: uploads.map((u) => ({ ...u.ref, precheck: u.precheck, ...(u.reused ? { reused: true } : {}) })),
+    task_status: "processing",
+    precheck: front.precheck,
+    normalized: {
+      width: front.normalized.width,
+      height: front.normalized.height,
+      bytes_kb: Math.round((front.normalized.bytes.length / 1024) * 10) / 10,
+      encoder: front.normalized.encoder,
+      cropped: front.normalized.cropped,
+    },
+    summary_en: catalog("en").summary.taskCreated,
+    summary_zh: catalog("zh-TW").summary.taskCreated,
+    locale,
+    summary: catalog(locale).summary.taskCreated,
+    ...(webhook ? { webhook: { id: webhook.id, callback_url: webhook.callback_url, status: webhook.status } } : {}),
+  } };
 }
 
 /* =========================
-   ✅ 決策層（只出現一次）
+   ✅ webhook 投遞紀錄 / 背景輪詢（lib/webhooks）
+   - ?view=webhook&scan_token=：狀態與每次投遞結果（不含 payload）
+   - ?view=webhook_poll：排程呼叫（Authorization: Bearer CRON_SECRET），
+     沒人 GET 的 task 由這裡查供應商並投遞；到期的 retrying 重送
+     每筆各自 try / catch：某筆丟錯只記在那筆（lib/webhooks 的 recordPollError），其他照跑、整批回 200
+     要有排程打這支才會有背景重試（建議每分鐘）：Vercel cron 設 path=/api/scan?view=webhook_poll，
+     環境變數 CRON_SECRET 設好後 cron 請求會自動帶 Bearer；其他平台用任何排程器帶同樣的 header 呼叫即可
 ========================= */
-function buildDecisionLayer(signals14: ReportSignal[], cards: Card[]) {
-  const sensitivity = signals14.find((s) => s.id === "sensitivity")?.score ?? 50;
-  const barrier = cards.find((c) => c.id === "barrier")?.score ?? 70;
-  const texture = cards.find((c) => c.id === "texture")?.score ?? 70;
-
-  const primary =
-    barrier < 72 ? "屏障不穩定（Barrier Instability）" : "屏障微波動（Barrier Micro-Instability）";
-  const secondary =
-    texture < 72 ? "紋理不規則（Texture Irregularity）" : "紋理漂移（Texture Drift）";
-
-  const constraints = [
-    "High % AHA：禁用",
-    "Retinol：降頻",
-    `去角質間隔：${barrier < 72 ? "≥ 10 天" : "≥ 7 天"}`,
-  ];
+async function webhookView(claims: ScanClaims, locale: Locale) {
+  const reg = await getWebhook(getStore(), claims.scan_id);
+  if (!reg) return fail("NOT_FOUND_WEBHOOK", locale, { error: "webhook_not_found", scan_id: claims.scan_id });
+  return json(deliveryLog(reg), 200);
+}
 
-  const timeline = [
-    "Week 1–2：穩定屏障",
-    "Week 3：低刺激更新",
-    "Week 4：微結構優化",
+/* =========================
+   ✅ 刪除（DELETE /api/scan?scan_token=）與收據（GET ?view=deletion&scan_token=）
+   - 照 scan 紀錄清：LLM 敘事快取、標註圖與原圖、報告快取、webhook（含 payload）、歷史、去重 key、Idempotency-Key、供應商端檔案
+   - 每一項記在收據裡（deleted / not_found / not_supported / failed / shared），收據不含個資
+   - 去重共用的供應商 task 還有別的掃描在用 → 記 shared，留給最後一個引用者清（lib/dedup 的 taskuse:）
+   - 重複 DELETE 回同一張收據
+========================= */
+async function deleteScan(claims: ScanClaims) {
+  const store = getStore();
+  const existing = await getDeletionReceipt(store, claims.tenant, claims.scan_id);
+  if (existing) return json({ ...existing, already_deleted: true }, 200);
+
+  const requestedAt = new Date().toISOString();
+  const record = await getScanRecord(store, claims.tenant, claims.scan_id);
+  const refs = parseTaskRefs(claims.task_ids);
+  const userId = record?.user_id ?? claims.user_id;
+  const owner: HistoryOwner | null = userId ? { tenant: claims.tenant, user_id: userId } : null;
+  const provider = getProvider();
+
+  const step = async (kind: string, count: number, run: () => Promise<boolean>): Promise<DeletionItem> => {
+    if (!count) return { kind, count: 0, status: "not_found" };
+    try {
+      return { kind, count, status: (await run()) ? "deleted" : "not_found" };
+    } catch (err) {
+      console.error(`[privacy] delete ${kind} failed:`, err);
+      return { kind, count, status: "failed" };
+    }
+  };
+  const any = (xs: boolean[]) => xs.some(Boolean);
+
+  // 敘事快取以分數雜湊為 key，記在報告快取裡；要先讀出來再刪報告
+  const cached = await getCachedReport(store, claims.scan_id, refs.map((r) => `${r.view}:${r.task_id}`));
+  const narrativeCacheKey = cached?.narrative_key;
+
+  const items: DeletionItem[] = [
+    await step("narratives", narrativeCacheKey ? 1 : 0, () => deleteNarratives(store, narrativeCacheKey!)),
+    await step("annotated_images", refs.length, () => deleteAnnotations(store, claims.scan_id, refs.map((r) => r.view))),
+    await step("source_images", refs.length, () => deleteSources(store, claims.scan_id, refs.map((r) => r.view))),
+    await step("report_cache", 1, () => deleteCachedReport(store, claims.scan_id)),
+    await step("webhook", 1, () => deleteWebhook(store, claims.scan_id)),
+    await step("history", owner ? 1 : 0, () => deleteScanEntry(store, owner!, claims.scan_id)),
+    await step("dedup_keys", record?.upload_keys.length ?? 0, async () =>
+      any(await Promise.all(record!.upload_keys.map((k) => forgetUpload(store, k.scope, k.hash))))),
+    await step("idempotency_key", record?.idempotency_key ? 1 : 0, () => releaseIdempotency(store, record!.idempotency_key!)),
   ];
 
-  const decision =
-`系統決策說明
-目前敏感負載較低（${clampScore(sensitivity)}）
-為避免角質代謝過快導致刺激訊號放大，
-系統已暫時限制高濃度酸類與高頻煥膚行為。
-建議 14 天內以屏障穩定為主。`;
+  // 放掉這次的引用；還有別的掃描在用的 task（與它的檔案）不清
+  const scope = dedupScopeOf(provider, claims.tenant);
+  const usage = await Promise.all(refs.map((r) => releaseTask(store, scope, r.task_id, claims.scan_id)));
+  const shared = new Set(refs.flatMap((r, i) => (usage[i]?.scan_ids.length ? [r.task_id] : [])));
+  const keptFiles = new Set(usage.flatMap((u) => (u?.scan_ids.length && u.file_id ? [u.file_id] : [])));
+  const lastFiles = usage.flatMap((u) => (u && !u.scan_ids.length && u.file_id ? [u.file_id] : []));
+  const providerIds = {
+    task_ids: [...new Set(refs.map((r) => r.task_id))].filter((id) => !shared.has(id)),
+    file_ids: [...new Set([...(record?.file_ids ?? []), ...lastFiles])].filter((id) => !keptFiles.has(id)),
+  };
+  items.push(provider.purge
+    ? await step("provider_files", providerIds.task_ids.length + providerIds.file_ids.length, async () => {
+      await provider.purge!(providerIds);
+      return true;
+    })
+    : { kind: "provider_files", count: providerIds.task_ids.length + providerIds.file_ids.length, status: "not_supported" });
+  if (shared.size) items.push({ kind: "provider_shared_tasks", count: shared.size, status: "shared" });
+  items.push({ kind: "scan_record", count: record ? 1 : 0, status: record ? "deleted" : "not_found" });
+
+  const receipt = await finalizeDeletion(store, {
+    scan_id: claims.scan_id,
+    tenant: claims.tenant,
+    record,
+    requested_at: requestedAt,
+    items,
+  });
+  return json(receipt, 200);
+}
 
-  const node =
-`SYSTEM PRIORITY NODE
-Primary Risk: ${primary}
-Secondary Drift: ${secondary}`;
+async function deletionView(claims: ScanClaims, locale: Locale) {
+  const receipt = await getDeletionReceipt(getStore(), claims.tenant, claims.scan_id);
+  if (!receipt) return fail("NOT_FOUND_DELETION_RECEIPT", locale, { scan_id: claims.scan_id });
+  return json(receipt, 200);
+}
 
-  const environment =
-`ENVIRONMENT & INFERENCE BOUNDARY / 環境與推估邊界
-• 光源會影響色素與亮度的可視判讀
-• 角度/距離會影響毛孔可視度與紋理對比
-• 當前為單次影像推估，用於決策排序與行為約束（非醫療診斷）`;
+async function webhookPoll(req: Request, locale: Locale) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return fail("AUTH_UNAUTHORIZED", locale, { error: "unauthorized" });
+  }
 
-  return { environment, decision, node, constraints, timeline };
+  const store = getStore();
+  const due = await dueWebhooks(store);
+  const results: { scan_id: string; status: string; attempts: number; error?: string }[] = [];
+  for (const reg of due) {
+    let error: string | undefined;
+    try {
+      if (reg.status === "pending") {
+        const refs = parseTaskRefs(reg.task_ids);
+        const owner = reg.user_id ? { tenant: reg.tenant ?? null, user_id: reg.user_id } : null;
+        if (refs.length) await scanResult(refs, reg.scan_id, owner, reg.locale);
+      } else {
+        await deliverWebhook(store, reg);
+      }
+    } catch (err) {
+      // 一筆壞掉（task 不存在、供應商掛了…）不能讓整批 404 / 500，記下來換下一筆
+      const code = errorCodeOf(err);
+      const status = ERROR_STATUS[code];
+      error = code;
+      console.error(`[webhook_poll] ${reg.scan_id} failed:`, err);
+      await recordPollError(store, (await getWebhook(store, reg.scan_id)) ?? reg, code, status >= 400 && status < 500);
+    }
+    const after = await getWebhook(store, reg.scan_id);
+    results.push({
+      scan_id: reg.scan_id,
+      status: after?.status ?? reg.status,
+      attempts: after?.attempts.length ?? 0,
+      ...(error ? { error } : {}),
+    });
+  }
+  return json({ checked: due.length, results }, 200);
 }
 
 /* =========================
-   MAIN HANDLER (Edge) — POST + GET
+   MAIN HANDLER (Edge) — POST + GET + DELETE
 ========================= */
-export default async function handler(req: Request) {
+type HandlerContext = { waitUntil?(job: Promise<unknown>): void };
+
+export default async function handler(req: Request, ctx?: HandlerContext) {
+  let admission: Admission = { tenant: null };
+  let res: Response;
+  try {
+    admission = await admit(req, negotiateLocale(req));
+    res = admission.response || (await route(req, admission.tenant?.id ?? null, ctx));
+  } catch (err: any) {
+    res = exceptionResponse(err, negotiateLocale(req));
+  }
+
+  const headers = new Headers(res.headers);
+  for (const [k, v] of Object.entries(corsHeaders(req, admission.tenant))) headers.set(k, v);
+  if (admission.tenant) headers.set("x-tenant-id", admission.tenant.id);
+  if (admission.rate) headers.set("x-ratelimit-remaining", String(admission.rate.remaining));
+  let status = res.status;
+  if (status !== 200 && status !== 405 && legacyCompat(req)) {
+    // 舊版 App 只看 body；原本的 status 放在 header 方便除錯
+    headers.set("x-original-status", String(status));
+    status = 200;
+  }
+  return new Response(res.body, { status, headers });
+}
+
+/* =========================
+   ✅ 入口守門（lib/auth、lib/ratelimit）
+   - 順序：IP 限流 → 驗證（API key / JWT）→ 來源白名單 → 租戶限流
+   - OPTIONS（preflight）與 webhook_poll（自己驗 CRON_SECRET）不需要 API key
+   - 標註圖（?view=annotated）不需要 API key（<img> 帶不了），改驗 scan_token；IP 限流照做
+   - 沒設定 API_TENANTS → 只做 IP 限流
+========================= */
+type Admission = { tenant: Tenant | null; response?: Response; rate?: RateDecision };
+
+const AUTH_CODES: Record<AuthFailure, ErrorCode> = {
+  missing: "AUTH_MISSING_CREDENTIALS",
+  invalid: "AUTH_INVALID_CREDENTIALS",
+  expired: "AUTH_TOKEN_EXPIRED",
+};
+
+function rateLimited(locale: Locale, scope: "ip" | "tenant", rate: RateDecision) {
+  return fail("RATE_LIMITED", locale, { scope, retry_after_sec: rate.retry_after_sec }, {
+    "retry-after": String(rate.retry_after_sec),
+    "x-ratelimit-remaining": "0",
+  });
+}
+
+async function admit(req: Request, locale: Locale): Promise<Admission> {
+  if (req.method === "OPTIONS") return { tenant: null };
+  if (new URL(req.url).searchParams.get("view") === "webhook_poll") return { tenant: null };
+
+  const store = getStore();
+  const ip = clientIp(req);
+  if (ip) {
+    const rate = await takeToken(store, `ip:${ip}`, ipRule());
+    if (!rate.ok) return { tenant: null, response: rateLimited(locale, "ip", rate) };
+  }
+  if (!authEnabled()) return { tenant: null };
+  // 標註圖靠 scan_token（annotatedView 驗），<img> 帶不了 API key；IP 限流照做
+  if (new URL(req.url).searchParams.get("view") === "annotated") return { tenant: null };
+
+  const auth = await authenticate(req);
+  if (!auth.ok) {
+    return { tenant: null, response: fail(AUTH_CODES[auth.reason], locale, { error: "unauthorized" }, {
+      "www-authenticate": `Bearer error="${auth.reason === "missing" ? "invalid_request" : "invalid_token"}"`,
+    }) };
+  }
+  const origin = req.headers.get("origin");
+  if (origin && !originAllowed(origin, auth.tenant)) {
+    return { tenant: auth.tenant, response: fail("AUTH_ORIGIN_NOT_ALLOWED", locale, { origin }) };
+  }
+  const rate = await takeToken(store, `tenant:${auth.tenant.id}`, tenantRule(auth.tenant.rate));
+  if (!rate.ok) return { tenant: auth.tenant, response: rateLimited(locale, "tenant", rate) };
+  return { tenant: auth.tenant, rate };
+}
+
+const CORS_BASE = {
+  "access-control-allow-methods": "GET, POST, DELETE, OPTIONS",
+  "access-control-allow-headers": "content-type, authorization, x-api-key, x-scan-token, idempotency-key, x-api-compat",
+  "access-control-expose-headers": "retry-after, x-ratelimit-remaining, x-tenant-id, x-original-status",
+};
+
+// 未啟用驗證 → *；否則只回應白名單內的 Origin（preflight 還不知道租戶，任一租戶允許即可）
+function corsHeaders(req: Request, tenant: Tenant | null): Record<string, string> {
+  try {
+    if (!authEnabled()) return { "access-control-allow-origin": "*", ...CORS_BASE };
+    const origin = req.headers.get("origin");
+    if (!origin || !originAllowed(origin, tenant)) return { vary: "origin" };
+    return { "access-control-allow-origin": origin, vary: "origin", ...CORS_BASE };
+  } catch {
+    // API_TENANTS 格式錯：錯誤本身已由 exceptionResponse 回 500，這裡不再開放任何來源
+    return { vary: "origin" };
+  }
+}
+
+/* =========================
+   ✅ scan_token → claims（?scan_token= 或 x-scan-token header）
+   - 簽章錯 / 過期 → 401；別的租戶發的 → 403
+   - tenant = undefined：不比對租戶（沒經過 API key 驗證的標註圖，token 本身就是憑證）
+========================= */
+async function readScanToken(req: Request, url: URL, tenant: string | null | undefined, locale: Locale): Promise<{ claims: ScanClaims; token: string } | { response: Response }> {
+  const token = url.searchParams.get("scan_token") || req.headers.get("x-scan-token");
+  if (!token) return { response: fail("INPUT_MISSING_SCAN_TOKEN", locale, { error: "missing_scan_token" }) };
+  const envError = scanTokenConfigError();
+  if (envError) return { response: fail("CONFIG_MISSING_KEY", locale, { degraded: true, stage: "env", detail: envError }) };
+  const check = await verifyScanToken(token);
+  if (!check.ok) return { response: fail(check.reason === "expired" ? "AUTH_SCAN_TOKEN_EXPIRED" : "AUTH_INVALID_SCAN_TOKEN", locale) };
+  if (tenant !== undefined && check.claims.tenant !== tenant) return { response: fail("AUTH_SCAN_TOKEN_FORBIDDEN", locale) };
+  return { claims: check.claims, token };
+}
+
+async function route(req: Request, tenant: string | null, ctx?: HandlerContext) {
   try {
     if (req.method === "OPTIONS") return json({ ok: true }, 200);
 
-    // ✅ GET：查 task 狀態，success 才回 report
+    // ✅ 語系：?lang= 或 Accept-Language；_zh/_en 欄位不受影響
+    const locale = negotiateLocale(req);
+
+    // ✅ GET：查 task 狀態（多角度時全部 success 才回 report）
     if (req.method === "GET") {
       const url = new URL(req.url);
-      const taskId = url.searchParams.get("task_id");
-      const scanId = url.searchParams.get("scan_id") || nowId();
-      if (!taskId) return json({ error: "missing_task_id" }, 400);
-
-      const task = await youcamGetTask(taskId);
-      const st = task?.data?.task_status;
-
-      if (st === "success") {
-        const scoreMap = extractYoucamScores(task);
-        const cardsRaw = mapYoucamToCards(scoreMap);
-        const signals14 = buildSignals14(scoreMap, cardsRaw);
-
-        // ✅ 決策層只出現一次
-        const decisionLayer = buildDecisionLayer(signals14, cardsRaw);
-
-        // ✅ LLM 個人化敘事（失敗 fallback 回靜態）
-        const narratives = await generateLLMNarratives(cardsRaw, signals14);
-        const useLLM = narratives && Array.isArray(narratives.dimensions) && narratives.dimensions.length > 0;
-
-        // ✅ 每張卡片：LLM 個人化 or 靜態 fallback
-        const cards: Card[] = cardsRaw.map((c) => {
-          const s = clampScore(c.score);
-          const narrative = useLLM ? narratives.dimensions.find((n: any) => n.id === c.id) : null;
-          return {
-            ...c,
-            signal_zh: narrative?.finding_zh || zhFinding(c.id, s),
-            recommendation_zh: narrative?.mechanism_zh || zhMechanism(c.id, s),
-            signal_en: "",
-            recommendation_en: "",
-          };
-        });
-
-        const dimensions8: ReportDimension[] = cards
-          .slice()
-          .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0))
-          .map((c) => {
-            const s = clampScore(c.score);
-            const tone = toneForScore(s);
-            const narrative = useLLM ? narratives.dimensions.find((n: any) => n.id === c.id) : null;
-            return {
-              id: c.id,
-              title_en: c.title_en,
-              title_zh: c.title_zh,
-              score: s,
-              tone,
-              confidence: Number(c.confidence) || 0.78,
-              finding_en: "",
-              mechanism_en: "",
-              protocol_en: [],
-              finding_zh: c.signal_zh || "",
-              mechanism_zh: c.recommendation_zh || "",
-              protocol_zh: narrative?.protocol_zh || zhProtocol(c.id, s),
-              masks: c.masks,
-            };
-          });
-
-        const report: Report = {
-          scan_id: scanId,
-          produced_at: new Date().toISOString(),
-          degraded: false,
-          stage: "youcam_success",
-          summary_en: "",
-          summary_zh: useLLM && narratives.summary_zh
-            ? narratives.summary_zh
-            : `掃描完成：14 通道已整合為 8 維度決策報告。`,
-          precheck: undefined,
-          signals14,
-          dimensions8,
-          environment_zh: decisionLayer.environment,
-          decision_zh: decisionLayer.decision,
-          priority_node_zh: decisionLayer.node,
-          constraints_zh: decisionLayer.constraints,
-          timeline_zh: decisionLayer.timeline,
-        };
-
-        return json({
-          scan_id: scanId,
-          degraded: false,
-          stage: "youcam_success",
-          task_status: "success",
-          report,
-          cards,
-          summary_en: "",
-          summary_zh: `${report.summary_zh}\n\n${report.environment_zh}`,
-        }, 200);
+      const userId = url.searchParams.get("user_id");
+      if (userId !== null && !isValidUserId(userId)) return fail("INPUT_INVALID_USER_ID", locale, { error: "invalid_user_id" });
+
+      // ✅ ?view=history / delta / replay：讀歷史，不碰供應商（要 scan_token 或租戶驗證，見 historyCaller）
+      const view = url.searchParams.get("view");
+      const format = (url.searchParams.get("format") || "json").toLowerCase() as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) return fail("INPUT_INVALID_FORMAT", locale, { error: "invalid_format" });
+      if (view === "webhook_poll") return await webhookPoll(req, locale);
+      if (view === "annotated") return await annotatedView(req, url, locale);
+      if (view === "history" || view === "delta" || view === "replay") {
+        const caller = await historyCaller(req, url, tenant, userId, locale);
+        if ("response" in caller) return caller.response;
+        if (view === "replay") return await replayView(caller.owner, url, locale);
+        return await historyView(view, caller.owner, url, locale);
       }
 
-      if (st === "error") {
-        const errMsg = JSON.stringify(task?.data || {});
-        // ✅ YouCam 常見：below_min_image_size → 回 scan_retake（前端顯示重拍提示）
-        if (errMsg.includes("below_min_image_size")) {
-          return json({
-            error: "scan_retake",
-            stage: "youcam_error_below_min_image_size",
-            tips: [
-              "影像尺寸不足（系統已嘗試補足）。",
-              "請更靠近一點拍或改用更高解析度。",
-              "避免聊天軟體壓縮後再上傳。",
-            ],
-          }, 200);
-        }
-        return json({
-          scan_id: scanId,
-          degraded: true,
-          stage: "youcam_error",
-          task_status: "error",
-          message: errMsg,
-        }, 200);
+      // ✅ 查 task 只認 POST 發的 scan_token（task_id / scan_id 都從 token 來）
+      const read = await readScanToken(req, url, tenant, locale);
+      if ("response" in read) return read.response;
+      const { claims, token } = read;
+      if (view === "deletion") return await deletionView(claims, locale);
+      if (await getDeletionReceipt(getStore(), claims.tenant, claims.scan_id)) {
+        return fail("STATE_SCAN_DELETED", locale, { scan_id: claims.scan_id, receipt_id: `del_${claims.scan_id}` });
       }
+      if (view === "webhook") return await webhookView(claims, locale);
 
-      // processing / queued
-      return json({
-        scan_id: scanId,
-        degraded: true,
-        stage: "processing",
-        task_status: st || "processing",
-      }, 200);
-    }
+      const refs = parseTaskRefs(claims.task_ids);
+      if (!refs.length) return fail("AUTH_INVALID_SCAN_TOKEN", locale);
+      const scanId = claims.scan_id;
+      // 歷史只寫 POST 時同意 history 用途的 user_id（在 token 裡）；GET 帶的 user_id 不算數
+      const owner = claims.user_id ? { tenant: claims.tenant, user_id: claims.user_id } : null;
 
-    // ✅ POST：上傳 + 建立 task → 立刻回 task_id
-    if (req.method === "POST") {
-      const scanId = nowId();
-      if (!YOUCAM_API_KEY) {
-        return json({ scan_id: scanId, degraded: true, stage: "env", message: "Missing YOUCAM_API_KEY" }, 200);
+      if (wantsEventStream(req)) {
+        return streamScan(locale, (emit, signal) => pollScan(refs, scanId, owner, locale, token, emit, signal));
       }
+      const defer = ctx?.waitUntil ? (job: Promise<unknown>) => ctx.waitUntil!(job) : undefined;
+      const result = await scanResult(refs, scanId, owner, locale, { defer });
+      // ✅ ?view=narratives：輪詢 LLM 敘事用（narrative_status 從 pending 變 ready / static）
+      if (view === "narratives" && result.done && result.body?.report) return json(narrativesView(result.body), 200);
+      if (format !== "json" && result.done && result.body?.report) return await exportReport(result.body.report, format, scanId, refs.map((r) => r.view));
+      return json(result.body, result.status);
+    }
 
-      const form = await req.formData();
-      const files = await getFiles(form);
-
-      // 先做 precheck（給前端顯示）
-      const rawBytes = await toBytes(files[0]);
-      const check = quickPrecheck(rawBytes);
-      const precheck = { passed: check.ok, warnings: check.warnings, tips: check.tips };
-
-      // ✅ 送 YouCam 前：補到最低尺寸（關鍵）
-      let normalized: { bytes: Uint8Array; contentType: string; width: number; height: number };
-      try {
-        normalized = await normalizeForYouCam(files[0], { minSide: 720, maxSide: 1440, quality: 0.92 });
-      } catch {
-        // fallback：至少不要整個 fail
-        normalized = { bytes: rawBytes, contentType: files[0].type || "image/jpeg", width: 0, height: 0 };
+    // ✅ POST：上傳 + 建立 task → 立刻回 scan_token
+    if (req.method === "POST") {
+      // ?user_id=：串流與 webhook 背景輪詢完成時寫入歷史
+      const userId = new URL(req.url).searchParams.get("user_id");
+      if (userId !== null && !isValidUserId(userId)) return fail("INPUT_INVALID_USER_ID", locale, { error: "invalid_user_id" });
+
+      // ✅ 串流：上傳 → 建 task → 伺服器端輪詢到出報告
+      if (wantsEventStream(req)) {
+        return streamScan(locale, async (emit, signal) => {
+          const created = await createScan(req, locale, userId, tenant, emit);
+          if (!created.refs) return emit(finalEvent(created.body), created.body);
+          emit("task_created", created.body);
+          // 歷史只寫同意過 history 的 owner（與 scan_token 裡的 user_id 一致），不是 query 帶來的 user_id
+          const owner = created.owner ? { tenant, user_id: created.owner } : null;
+          await pollScan(created.refs, created.body.scan_id, owner, locale, created.body.scan_token, emit, signal);
+        });
       }
+      const created = await createScan(req, locale, userId, tenant);
+      return json(created.body, created.status);
+    }
 
-      const { fileId, putUrl, contentType } = await youcamInitUpload(normalized.bytes, `skin_${Date.now()}.jpg`);
-      await youcamPutBinary(putUrl, normalized.bytes, contentType);
-
-      const taskId = await youcamCreateTask(fileId, YOUCAM_HD_ACTIONS);
-
-      return json({
-        scan_id: scanId,
-        degraded: true,
-        stage: "task_created",
-        task_id: taskId,
-        task_status: "processing",
-        precheck,
-        normalized: {
-          width: normalized.width,
-          height: normalized.height,
-          bytes_kb: Math.round((normalized.bytes.length / 1024) * 10) / 10,
-        },
-        summary_en: "",
-        summary_zh: "任務已建立，等待分析輸出。",
-      }, 200);
+    // ✅ DELETE：清除這次掃描的所有資料，回刪除收據
+    if (req.method === "DELETE") {
+      const read = await readScanToken(req, new URL(req.url), tenant, locale);
+      if ("response" in read) return read.response;
+      return await deleteScan(read.claims);
     }
 
-    return json({ error: "405", message: "GET/POST only" }, 405);
+    return fail("METHOD_NOT_ALLOWED", locale, { error: "405", detail: "GET/POST/DELETE only" });
   } catch (err: any) {
-    return json({ degraded: true, stage: "exception", message: err?.message || String(err) }, 200);
+    return exceptionResponse(err, negotiateLocale(req));
   }
 }
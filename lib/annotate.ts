@@ -0,0 +1,252 @@
+import type { ErrorCode } from "./errors";
+import { decodeImage } from "./image/decode";
+import { bitmapTextWidth, drawText, GLYPH_H } from "./image/font";
+import { encodePng } from "./image/png-encode";
+import { createRaster, downsample, resize, type Raster } from "./image/raster";
+import { maskPlane } from "./image/zones";
+import { fetchMask, type MaskFetcher } from "./masks";
+import { reportTtlSec } from "./privacy";
+import type { KVStore } from "./store";
+import type { AnnotatedImage, ReportDimension, View } from "./types";
+
+/* =========================
+   ✅ 標註圖：遮罩依維度上色，疊在上傳給供應商的那張正規化影像上，下方加圖例
+   - POST 時留一份正規化影像（source:<scan_id>:<view>，與報告同保存期限）；遮罩與它對齊
+     以 scan_id 為 key：去重共用同一個 task 的兩次掃描，刪其中一次不會清掉另一次的原圖
+   - 出報告後在背景合成（不擋 GET，同 LLM 敘事）：報告先帶 annotation_status: "pending"，
+     好了存 annotated:<scan_id>:<view> 與狀態 annotation:<scan_id>，之後的 GET 才帶 annotated_images
+   - 遮罩沿用量分區時抓的那批（lib/masks 的 maskFetcher），網址過期前就要抓好
+   - 網址 /api/scan?view=annotated&image=<view>，要帶這次掃描的 scan_token；刪除掃描時照 scan_id + 角度清
+   - composeAnnotated 是純函式：給影像與遮罩 raster 就能測（本機 fixture 遮罩見 lib/providers/mock 的 MOCK_MASK_BASE_URL）
+   - 圖例用點陣字，只能畫英文 → 用 title_en + 分數
+   - 某個角度沒有原圖 / 沒有任何遮罩抓得到 → 那個角度不出圖，不影響報告
+   - 某個角度合成丟錯 → 那個角度不出圖；一張都沒出、又有角度丟錯 → annotateScan 丟錯，呼叫端存 failed + 錯誤碼
+========================= */
+type Rgb = [number, number, number];
+
+export type AnnotationLayer = { id: string; label: string; color: Rgb; masks: Raster[] };
+
+export const ANNOTATED_PATH = "/api/scan";
+
+// 長邊上限（圖例另外加在下方）；遮罩也抓這個尺寸
+export const ANNOTATE_SIDE = 768;
+const OVERLAY_ALPHA = 0.45;
+const VIEW_ORDER: View[] = ["front", "left", "right"];
+
+export const DIMENSION_COLORS: Record<string, Rgb> = {
+  hydration: [33, 150, 243],
+  melanin: [141, 85, 36],
+  texture: [156, 39, 176],
+  sebum: [255, 193, 7],
+  pore: [255, 112, 67],
+  elasticity: [0, 150, 136],
+  radiance: [255, 235, 59],
+  barrier: [76, 175, 80],
+  acne: [229, 57, 53],
+};
+
+const FALLBACK_COLOR: Rgb = [120, 144, 156];
+
+export const colorHex = (c: Rgb) => `#${c.map((v) => v.toString(16).padStart(2, "0")).join("")}`;
+
+function toBase64(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin);
+}
+
+const fromBase64 = (s: string) => Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+
+/* ---------- 合成 ---------- */
+function legendLayout(width: number, layers: AnnotationLayer[]) {
+  const scale = width >= 480 ? 2 : 1;
+  const pad = 6 * scale;
+  const swatch = GLYPH_H * scale;
+  const rowH = swatch + 5 * scale;
+  const colW = Math.max(...layers.map((l) => swatch + 4 * scale + bitmapTextWidth(l.label, scale))) + pad * 2;
+  const cols = Math.max(1, Math.floor((width - pad) / colW));
+  const rows = Math.ceil(layers.length / cols);
+  return { scale, pad, swatch, rowH, colW, cols, height: layers.length ? rows * rowH + pad * 2 : 0 };
+}
+
+export function composeAnnotated(source: Raster, layers: AnnotationLayer[]): Raster {
+  const base = downsample(source, ANNOTATE_SIDE);
+  const { width: w, height: h } = base;
+  const legend = legendLayout(w, layers);
+  const out = createRaster(w, h + legend.height);
+  out.data.fill(255);
+  // 原圖（透明處鋪白）
+  for (let i = 0; i < w * h * 4; i += 4) {
+    const a = base.data[i + 3] / 255;
+    for (let c = 0; c < 3; c++) out.data[i + c] = base.data[i + c] * a + 255 * (1 - a);
+  }
+
+  // 同一維度多張遮罩取聯集；維度之間依序疊色
+  for (const layer of layers) {
+    const on = new Uint8Array(w * h);
+    for (const m of layer.masks) {
+      const plane = maskPlane(resize(m, w, h));
+      for (let i = 0; i < on.length; i++) on[i] |= plane.on[i];
+    }
+    for (let i = 0, p = 0; i < on.length; i++, p += 4) {
+      if (!on[i]) continue;
+      for (let c = 0; c < 3; c++) out.data[p + c] = out.data[p + c] * (1 - OVERLAY_ALPHA) + layer.color[c] * OVERLAY_ALPHA;
+    }
+  }
+
+  // 圖例：色塊 + 名稱
+  const { scale, pad, swatch, rowH, colW, cols } = legend;
+  layers.forEach((layer, i) => {
+    const x = pad + (i % cols) * colW;
+    const y = h + pad + Math.floor(i / cols) * rowH;
+    for (let yy = y; yy < y + swatch; yy++) {
+      for (let xx = x; xx < x + swatch && xx < w; xx++) {
+        const p = (yy * w + xx) * 4;
+        out.data[p] = layer.color[0];
+        out.data[p + 1] = layer.color[1];
+        out.data[p + 2] = layer.color[2];
+      }
+    }
+    drawText(out, x + swatch + 4 * scale, y, layer.label, [40, 40, 40], scale);
+  });
+  return out;
+}
+
+/* ---------- 原圖（POST 時存） ---------- */
+type StoredSource = { jpeg: string; saved_at: string };
+
+const sourceKeyOf = (scanId: string, view: View) => `source:${scanId}:${view}`;
+
+export async function saveSource(store: KVStore, scanId: string, view: View, jpeg: Uint8Array) {
+  const entry: StoredSource = { jpeg: toBase64(jpeg), saved_at: new Date().toISOString() };
+  await store.set(sourceKeyOf(scanId, view), entry, { ttlSec: reportTtlSec() });
+}
+
+export async function getSource(store: KVStore, scanId: string, view: View) {
+  const hit = await store.get<StoredSource>(sourceKeyOf(scanId, view));
+  return hit ? fromBase64(hit.jpeg) : null;
+}
+
+// 有東西被刪 → true
+export async function deleteSources(store: KVStore, scanId: string, views: View[]) {
+  const found = await Promise.all(views.map(async (view) => {
+    const existed = !!(await store.get<StoredSource>(sourceKeyOf(scanId, view)));
+    await store.delete(sourceKeyOf(scanId, view));
+    return existed;
+  }));
+  return found.some(Boolean);
+}
+
+/* ---------- 標註圖 ---------- */
+export type StoredAnnotated = { view: View; width: number; height: number; png: string; created_at: string };
+
+// 狀態與 narratives 同一套：pending 放太久（isolate 中途被砍）就當作沒有，下一個請求重來；failed 不重試
+export type AnnotationEntry =
+  | { status: "pending"; started_at: number }
+  | { status: "ready"; images: AnnotatedImage[]; produced_at: string }
+  | { status: "failed"; error: ErrorCode; produced_at: string };
+
+// 每個角度平行合成，抓遮罩最多約 10 秒
+const PENDING_STALE_MS = 60 * 1000;
+
+const annotatedKeyOf = (scanId: string, view: View) => `annotated:${scanId}:${view}`;
+const entryKeyOf = (scanId: string) => `annotation:${scanId}`;
+
+export const isAnnotatedView = (view: string): view is View => (VIEW_ORDER as string[]).includes(view);
+
+// 還要帶 scan_token（query 或 x-scan-token）；<img> 帶不了 header，前端接在網址後面
+export const annotatedUrl = (view: View) => `${ANNOTATED_PATH}?view=annotated&image=${view}`;
+
+export async function getAnnotated(store: KVStore, scanId: string, view: View) {
+  const hit = await store.get<StoredAnnotated>(annotatedKeyOf(scanId, view));
+  return hit ? { ...hit, bytes: fromBase64(hit.png) } : null;
+}
+
+export async function getAnnotations(store: KVStore, scanId: string) {
+  const entry = await store.get<AnnotationEntry>(entryKeyOf(scanId));
+  if (entry?.status === "pending" && Date.now() - entry.started_at > PENDING_STALE_MS) return null;
+  return entry;
+}
+
+// 沒有（或 pending 已過期）→ 佔位並回 true，呼叫端負責產生
+export async function claimAnnotations(store: KVStore, scanId: string) {
+  if (await getAnnotations(store, scanId)) return false;
+  await store.set<AnnotationEntry>(entryKeyOf(scanId), { status: "pending", started_at: Date.now() }, { ttlSec: reportTtlSec() });
+  return true;
+}
+
+export async function saveAnnotations(store: KVStore, scanId: string, entry: AnnotationEntry) {
+  await store.set(entryKeyOf(scanId), entry, { ttlSec: reportTtlSec() });
+}
+
+// key 由 scan_id + 角度決定，不必先讀報告快取；有東西被刪 → true
+export async function deleteAnnotations(store: KVStore, scanId: string, views: View[]) {
+  const keys = [entryKeyOf(scanId), ...views.map((v) => annotatedKeyOf(scanId, v))];
+  const found = await Promise.all(keys.map(async (key) => {
+    const existed = !!(await store.get(key));
+    await store.delete(key);
+    return existed;
+  }));
+  return found.some(Boolean);
+}
+
+async function annotateView(
+  store: KVStore,
+  scanId: string,
+  view: View,
+  dimensions: ReportDimension[],
+  fetch: MaskFetcher,
+): Promise<AnnotatedImage | null> {
+  const src = await store.get<StoredSource>(sourceKeyOf(scanId, view));
+  if (!src) return null;
+  const fetched = await Promise.all(dimensions.map(async (d) => {
+    const urls = (d.masks || []).filter((m) => m.view === view).map((m) => m.url);
+    const masks = (await Promise.all(urls.map((u) => fetch(u)))).filter((r): r is NonNullable<typeof r> => !!r);
+    const layer: AnnotationLayer = { id: d.id, label: `${d.title_en} ${d.score}`, color: DIMENSION_COLORS[d.id] || FALLBACK_COLOR, masks };
+    return layer;
+  }));
+  const layers = fetched.filter((l) => l.masks.length);
+  if (!layers.length) return null;
+
+  const image = composeAnnotated(await decodeImage(fromBase64(src.jpeg), "image/jpeg"), layers);
+  const entry: StoredAnnotated = {
+    view,
+    width: image.width,
+    height: image.height,
+    png: toBase64(await encodePng(image)),
+    created_at: new Date().toISOString(),
+  };
+  await store.set(annotatedKeyOf(scanId, view), entry, { ttlSec: reportTtlSec() });
+  return {
+    view,
+    url: annotatedUrl(view),
+    width: image.width,
+    height: image.height,
+    legend: layers.map((l) => ({ id: l.id, color: colorHex(l.color) })),
+  };
+}
+
+// 每個角度一張；fetch 傳出報告時量分區用的那個（遮罩已經抓過就不再抓）
+// 全部角度都沒出圖且有角度丟錯 → 丟第一個錯（只是沒遮罩 → 空陣列，不算失敗）
+export async function annotateScan(
+  store: KVStore,
+  scanId: string,
+  views: View[],
+  dimensions: ReportDimension[],
+  fetch: MaskFetcher = (url) => fetchMask(url, ANNOTATE_SIDE),
+): Promise<AnnotatedImage[]> {
+  const errors: unknown[] = [];
+  const done = await Promise.all(VIEW_ORDER.map(async (view) => {
+    if (!views.includes(view)) return null;
+    try {
+      return await annotateView(store, scanId, view, dimensions, fetch);
+    } catch (err) {
+      console.error(`[annotate] ${view} failed:`, err);
+      errors.push(err);
+      return null;
+    }
+  }));
+  const images = done.filter((x): x is AnnotatedImage => !!x);
+  if (!images.length && errors.length) throw errors[0];
+  return images;
+}
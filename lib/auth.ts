@@ -0,0 +1,126 @@
+import { ScanError } from "./errors";
+
+declare const process: { env: Record<string, string | undefined> };
+
+/* =========================
+   ✅ API 驗證（每個租戶一組設定）
+   - API_TENANTS（JSON 陣列）：
+     { id, keys?: string[], jwt_secret?: string, origins?: string[], rate?: { per_min, burst } }
+   - 憑證：Authorization: Bearer <API key 或 JWT>，或 x-api-key: <API key>
+   - JWT 只收 HS256，用該租戶的 jwt_secret 簽；tid（或 iss）= 租戶 id，exp 必填
+   - origins：瀏覽器來源白名單（"*" = 全部）；沒有 Origin 的伺服器端呼叫不檢查
+   - 沒設定 API_TENANTS → 不驗證（本機 / CI），CORS 維持 *
+========================= */
+export type TenantRate = { per_min: number; burst: number };
+
+export type Tenant = {
+  id: string;
+  keys: string[];
+  jwt_secret?: string;
+  origins: string[];
+  rate?: TenantRate;
+};
+
+export type AuthFailure = "missing" | "invalid" | "expired";
+
+export type AuthResult =
+  | { ok: true; tenant: Tenant; method: "api_key" | "jwt" }
+  | { ok: false; reason: AuthFailure };
+
+let parsed: { raw: string; tenants: Tenant[] } | null = null;
+
+function parseTenants(raw: string): Tenant[] {
+  let list: any;
+  try {
+    list = JSON.parse(raw);
+  } catch {
+    throw new ScanError("CONFIG_INVALID", "API_TENANTS is not valid JSON");
+  }
+  if (!Array.isArray(list)) throw new ScanError("CONFIG_INVALID", "API_TENANTS must be an array");
+  return list.map((t: any, i: number): Tenant => {
+    const strings = (x: any) => Array.isArray(x) && x.every((s) => typeof s === "string");
+    if (typeof t?.id !== "string" || !t.id) throw new ScanError("CONFIG_INVALID", `API_TENANTS[${i}]: missing id`);
+    if (t.keys !== undefined && !strings(t.keys)) throw new ScanError("CONFIG_INVALID", `API_TENANTS[${i}]: keys must be strings`);
+    if (t.origins !== undefined && !strings(t.origins)) throw new ScanError("CONFIG_INVALID", `API_TENANTS[${i}]: origins must be strings`);
+    if (!t.keys?.length && !t.jwt_secret) throw new ScanError("CONFIG_INVALID", `API_TENANTS[${i}]: needs keys or jwt_secret`);
+    const rate = t.rate && Number(t.rate.per_min) > 0
+      ? { per_min: Number(t.rate.per_min), burst: Number(t.rate.burst) > 0 ? Number(t.rate.burst) : Number(t.rate.per_min) }
+      : undefined;
+    return { id: t.id, keys: t.keys || [], jwt_secret: t.jwt_secret || undefined, origins: t.origins || [], rate };
+  });
+}
+
+export function listTenants(): Tenant[] {
+  const raw = process.env.API_TENANTS || "";
+  if (!raw.trim()) return [];
+  if (parsed?.raw !== raw) parsed = { raw, tenants: parseTenants(raw) };
+  return parsed.tenants;
+}
+
+export function authEnabled() {
+  return listTenants().length > 0;
+}
+
+// 固定時間比較，避免用回應時間猜 key
+function safeEqual(a: string, b: string) {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+}
+
+function base64UrlDecode(s: string) {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(s.length / 4) * 4, "=");
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+async function verifyJwt(token: string, tenants: Tenant[]): Promise<AuthResult> {
+  const [h, p, sig] = token.split(".");
+  let header: any, claims: any;
+  try {
+    header = JSON.parse(new TextDecoder().decode(base64UrlDecode(h)));
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(p)));
+  } catch {
+    return { ok: false, reason: "invalid" };
+  }
+  const tenantId = claims?.tid ?? claims?.iss;
+  const tenant = tenants.find((t) => t.id === tenantId && t.jwt_secret);
+  if (header?.alg !== "HS256" || !tenant) return { ok: false, reason: "invalid" };
+
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", enc.encode(tenant.jwt_secret!), { name: "HMAC", hash: "SHA-256" }, false, ["verify"]);
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify("HMAC", key, base64UrlDecode(sig), enc.encode(`${h}.${p}`));
+  } catch {
+    valid = false;
+  }
+  if (!valid) return { ok: false, reason: "invalid" };
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== "number" || claims.exp <= now) return { ok: false, reason: "expired" };
+  if (typeof claims.nbf === "number" && claims.nbf > now) return { ok: false, reason: "invalid" };
+  return { ok: true, tenant, method: "jwt" };
+}
+
+export function credentialOf(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  const bearer = /^Bearer\s+(.+)$/i.exec(auth)?.[1]?.trim();
+  return bearer || req.headers.get("x-api-key")?.trim() || null;
+}
+
+export async function authenticate(req: Request): Promise<AuthResult> {
+  const credential = credentialOf(req);
+  if (!credential) return { ok: false, reason: "missing" };
+  const tenants = listTenants();
+  if (credential.split(".").length === 3) return verifyJwt(credential, tenants);
+  for (const tenant of tenants) {
+    if (tenant.keys.some((k) => safeEqual(k, credential))) return { ok: true, tenant, method: "api_key" };
+  }
+  return { ok: false, reason: "invalid" };
+}
+
+// tenant = null（preflight 還不知道是誰）→ 任一租戶允許就放行
+export function originAllowed(origin: string, tenant: Tenant | null) {
+  const pool = tenant ? [tenant] : listTenants();
+  return pool.some((t) => t.origins.includes("*") || t.origins.includes(origin));
+}
@@ -0,0 +1,267 @@
+import type { LLMDimension, LLMNarratives } from "./narratives/types";
+import type { Card, ReportSignal } from "./types";
+
+/* =========================
+   ✅ LLM 敘事合規檢查（產生後、進報告前）
+   - 檢查每個維度的 finding / mechanism / protocol 與 summary，中英兩個語系都查
+   - 禁用詞（診斷、治療、處方… / diagnose、treat、cure…）：先換成安全用語，換完再檢查一次
+     英文不分大小寫、整個字比對（"treatment" 會抓到，"retreat" 不會）
+   - 數字：每個「分數型」數字都必須對得上實際數值（卡片分數、子指標、子指標差距、14 通道、平均）
+     帶時間 / 次數單位的數字（3 週、每天 2 次、2-3 weeks）不算分數，不檢查
+   - 換不掉的（數字對不上）→ 交給呼叫端重新要一次（只重寫有問題的維度）
+     還是不過 → 該維度整個退回靜態文案（中英一起，避免兩個語系講不同的事）
+   - 結果寫進 report.narrative_compliance，稽核時看得到哪個維度被改過、為什麼
+========================= */
+export type ComplianceIssue =
+  | { field: string; kind: "banned_term"; term: string }
+  | { field: string; kind: "unsupported_number"; value: number };
+
+export type ComplianceOutcome = "pass" | "rewritten" | "regenerated" | "fallback";
+
+export type ComplianceEntry = { id: string; outcome: ComplianceOutcome; issues: ComplianceIssue[] };
+
+export type NarrativeCompliance = {
+  source: "llm" | "static";
+  regenerated: string[];
+  dimensions: ComplianceEntry[];
+  summary: ComplianceEntry;
+};
+
+// 重新要一次：ids = 要重寫的維度（"summary" = 總結），issues 給模型看哪裡錯
+export type NarrativeRegenerate = (
+  ids: string[],
+  issues: Record<string, ComplianceIssue[]>,
+) => Promise<Partial<LLMNarratives> | null>;
+
+// 禁用詞 → 安全用語（長的先換，避免「醫療級」被「醫療」先吃掉）
+const BANNED_ZH: [string, string][] = [
+  ["醫療級", "專業級"],
+  ["診斷", "判斷"],
+  ["治療", "保養"],
+  ["醫療", "專業保養"],
+  ["處方", "策略建議"],
+  ["疾病", "膚況"],
+  ["病症", "膚況"],
+  ["療程", "保養週期"],
+  ["療效", "效果"],
+  ["治癒", "改善"],
+  ["根治", "改善"],
+  ["患者", "使用者"],
+  ["病患", "使用者"],
+];
+
+export const BANNED_TERMS_ZH = BANNED_ZH.map(([term]) => term);
+
+// 英文同一套：各詞形分開列（長的先換；"medical-grade" 連字號或空白都算）
+const BANNED_EN: [string, string][] = [
+  ["medical-grade", "professional-grade"],
+  ["diagnosis", "assessment"],
+  ["diagnoses", "assessments"],
+  ["diagnosed", "assessed"],
+  ["diagnosing", "assessing"],
+  ["diagnose", "assess"],
+  ["diagnostic", "analytical"],
+  ["treatments", "care routines"],
+  ["treatment", "care routine"],
+  ["treated", "cared for"],
+  ["treating", "caring for"],
+  ["treats", "cares for"],
+  ["treat", "care for"],
+  ["cured", "improved"],
+  ["cures", "improves"],
+  ["curing", "improving"],
+  ["cure", "improve"],
+  ["prescriptions", "strategy suggestions"],
+  ["prescription", "strategy suggestion"],
+  ["prescribed", "recommended"],
+  ["prescribe", "recommend"],
+  ["therapeutic", "skincare"],
+  ["therapy", "care routine"],
+  ["medication", "product"],
+  ["medical", "professional"],
+  ["diseases", "skin conditions"],
+  ["disease", "skin condition"],
+  ["patients", "users"],
+  ["patient", "user"],
+];
+
+export const BANNED_TERMS_EN = BANNED_EN.map(([term]) => term);
+
+const enPattern = (term: string) => new RegExp(`\\b${term.replace(/-/g, "[-\\s]")}\\b`, "gi");
+
+// 換詞時保留句首大寫
+const matchCase = (found: string, safe: string) => (/^[A-Z]/.test(found) ? safe[0].toUpperCase() + safe.slice(1) : safe);
+
+// 數字後面接這些單位 → 時間 / 次數 / 步驟，不是分數（前面可以先接一段範圍：2-3 週、2 to 3 weeks）
+const NUMBER_RANGE = /^\s*(?:[-–~至到]|to)\s*\d+(?:\.\d+)?/i;
+const NON_SCORE_UNIT = /^\s*(?:個月|天|日|週|周|月|年|小時|分鐘|秒|次|步|條|項|歲|層|種|點|晚|早)/;
+const NON_SCORE_UNIT_EN = /^\s*-?\s*(?:months?|weeks?|days?|nights?|mornings?|evenings?|hours?|hrs?|minutes?|mins?|seconds?|times?|x|steps?|years?|layers?|items?|drops?|pumps?|applications?)\b/i;
+
+function findBanned(text: string) {
+  return [
+    ...BANNED_TERMS_ZH.filter((t) => text.includes(t)),
+    ...BANNED_TERMS_EN.filter((t) => enPattern(t).test(text)),
+  ];
+}
+
+function rewriteBanned(text: string) {
+  const zh = BANNED_ZH.reduce((s, [term, safe]) => s.split(term).join(safe), text);
+  return BANNED_EN.reduce((s, [term, safe]) => s.replace(enPattern(term), (found) => matchCase(found, safe)), zh);
+}
+
+// 數字緊接在英文字母後面 → 成分 / 規格名（B3、Q10、SPF 50），不是分數；Step 2、Week 3 這類編號也不是
+const NAME_PREFIX = /(?:[A-Za-z]|SPF\s*|PA\s*|\b(?:step|week|day|phase|month|night)\s*)$/i;
+
+// 分數型數字：整數或小數，排除列點編號（「1.」「2、」開頭）與帶時間 / 次數單位的
+function scoreNumbers(text: string) {
+  const body = text.replace(/^\s*\d+\s*[.、)）]\s*/, "");
+  const out: number[] = [];
+  for (const m of body.matchAll(/\d+(?:\.\d+)?/g)) {
+    const rest = body.slice(m.index! + m[0].length).replace(NUMBER_RANGE, "");
+    if (NON_SCORE_UNIT.test(rest) || NON_SCORE_UNIT_EN.test(rest) || NAME_PREFIX.test(body.slice(0, m.index))) continue;
+    out.push(Number(m[0]));
+  }
+  return out;
+}
+
+// 敘事可以引用的數字：各卡分數、子指標、同卡子指標差距、卡片分數差距、14 通道、平均、滿分 100
+export function allowedNumbers(cards: Card[], signals: ReportSignal[]) {
+  const set = new Set<number>([100]);
+  const scores = cards.map((c) => Math.round(c.score));
+  for (const c of cards) {
+    set.add(Math.round(c.score));
+    const values = c.details.map((d) => Number(d.value)).filter(Number.isFinite);
+    values.forEach((v) => set.add(Math.round(v)));
+    for (const a of values) for (const b of values) set.add(Math.round(Math.abs(a - b)));
+  }
+  for (const a of scores) for (const b of scores) set.add(Math.abs(a - b));
+  for (const s of signals) set.add(Math.round(s.score));
+  if (cards.length) set.add(Math.round(cards.reduce((s, c) => s + c.score, 0) / cards.length));
+  return set;
+}
+
+function numberIssues(field: string, text: string, allowed: Set<number>): ComplianceIssue[] {
+  return scoreNumbers(text)
+    .filter((n) => !allowed.has(Math.round(n)))
+    .map((value) => ({ field, kind: "unsupported_number" as const, value }));
+}
+
+type Fields = Record<string, string | string[]>;
+
+// 檢查 + 換詞：回傳換完的欄位、原本的問題、換完仍未解決的問題
+function checkFields(fields: Fields, allowed: Set<number>) {
+  const fixed: Fields = {};
+  const issues: ComplianceIssue[] = [];
+  const unresolved: ComplianceIssue[] = [];
+  for (const [field, value] of Object.entries(fields)) {
+    const texts = Array.isArray(value) ? value : [value];
+    for (const t of texts) {
+      issues.push(...findBanned(t).map((term) => ({ field, kind: "banned_term" as const, term })));
+    }
+    const rewritten = texts.map(rewriteBanned);
+    for (const t of rewritten) {
+      unresolved.push(...findBanned(t).map((term) => ({ field, kind: "banned_term" as const, term })));
+      unresolved.push(...numberIssues(field, t, allowed));
+    }
+    issues.push(...rewritten.flatMap((t) => numberIssues(field, t, allowed)));
+    fixed[field] = Array.isArray(value) ? rewritten : rewritten[0];
+  }
+  return { fixed, issues, unresolved };
+}
+
+// 中英一起查：任一語系沒過，整個維度就一起重寫 / 退回
+function dimensionFields(d: LLMDimension): Fields {
+  return {
+    finding_zh: d.finding_zh || "",
+    mechanism_zh: d.mechanism_zh || "",
+    protocol_zh: d.protocol_zh || [],
+    finding_en: d.finding_en || "",
+    mechanism_en: d.mechanism_en || "",
+    protocol_en: d.protocol_en || [],
+  };
+}
+
+type Checked<T> = { value: T | null; entry: ComplianceEntry; unresolved: ComplianceIssue[] };
+
+type Summary = Pick<LLMNarratives, "summary_zh" | "summary_en">;
+
+function checkDimension(d: LLMDimension, allowed: Set<number>): Checked<LLMDimension> {
+  const { fixed, issues, unresolved } = checkFields(dimensionFields(d), allowed);
+  const outcome: ComplianceOutcome = issues.length ? "rewritten" : "pass";
+  return { value: { ...d, ...(fixed as Omit<LLMDimension, "id">) }, entry: { id: d.id, outcome, issues }, unresolved };
+}
+
+function checkSummary(summary: Summary, allowed: Set<number>): Checked<Summary> {
+  const { fixed, issues, unresolved } = checkFields({ summary_zh: summary.summary_zh || "", summary_en: summary.summary_en || "" }, allowed);
+  return { value: fixed as Summary, entry: { id: "summary", outcome: issues.length ? "rewritten" : "pass", issues }, unresolved };
+}
+
+export function staticCompliance(cards: Card[]): NarrativeCompliance {
+  return {
+    source: "static",
+    regenerated: [],
+    dimensions: cards.map((c) => ({ id: c.id, outcome: "fallback", issues: [] })),
+    summary: { id: "summary", outcome: "fallback", issues: [] },
+  };
+}
+
+// 回傳過關的敘事：沒過的維度不會出現在 dimensions 裡（呼叫端自然走靜態文案），
+// summary 任一語系沒過 → summary_zh / summary_en 都清空（呼叫端走 catalog 的 summary.done）
+export async function enforceCompliance(
+  narratives: LLMNarratives,
+  cards: Card[],
+  signals: ReportSignal[],
+  regenerate?: NarrativeRegenerate,
+): Promise<{ narratives: LLMNarratives; compliance: NarrativeCompliance }> {
+  const allowed = allowedNumbers(cards, signals);
+  const dims = new Map<string, Checked<LLMDimension>>();
+  for (const d of narratives.dimensions) {
+    if (d && typeof d.id === "string" && !dims.has(d.id)) dims.set(d.id, checkDimension(d, allowed));
+  }
+  let summary = checkSummary(narratives, allowed);
+
+  const failing = [...dims.entries()].filter(([, c]) => c.unresolved.length).map(([id]) => id);
+  if (summary.unresolved.length) failing.push("summary");
+
+  const regenerated: string[] = [];
+  if (failing.length && regenerate) {
+    const issues = Object.fromEntries(failing.map((id) => [id, id === "summary" ? summary.unresolved : dims.get(id)!.unresolved]));
+    let retry: Partial<LLMNarratives> | null = null;
+    try {
+      retry = await regenerate(failing, issues);
+    } catch (err) {
+      console.error("[Compliance] regenerate failed:", err);
+    }
+    for (const d of retry?.dimensions || []) {
+      const prev = dims.get(d?.id);
+      if (!prev?.unresolved.length) continue;
+      const again = checkDimension(d, allowed);
+      if (again.unresolved.length) continue;
+      dims.set(d.id, { ...again, entry: { id: d.id, outcome: "regenerated", issues: [...prev.entry.issues, ...again.entry.issues] } });
+      regenerated.push(d.id);
+    }
+    if (summary.unresolved.length && retry?.summary_zh) {
+      const again = checkSummary({ summary_zh: retry.summary_zh, summary_en: retry.summary_en || "" }, allowed);
+      if (!again.unresolved.length) {
+        summary = { ...again, entry: { id: "summary", outcome: "regenerated", issues: [...summary.entry.issues, ...again.entry.issues] } };
+        regenerated.push("summary");
+      }
+    }
+  }
+
+  for (const [id, c] of dims) {
+    if (c.unresolved.length) dims.set(id, { value: null, entry: { ...c.entry, outcome: "fallback" }, unresolved: c.unresolved });
+  }
+  if (summary.unresolved.length || !summary.value?.summary_zh) summary = { value: null, entry: { ...summary.entry, outcome: "fallback" }, unresolved: summary.unresolved };
+
+  // LLM 漏掉的維度也記一筆（走靜態文案）
+  const entries = cards.map((c) => dims.get(c.id)?.entry || { id: c.id, outcome: "fallback" as const, issues: [] });
+  return {
+    narratives: {
+      dimensions: [...dims.values()].map((c) => c.value).filter((d): d is LLMDimension => !!d),
+      summary_zh: summary.value?.summary_zh || "",
+      summary_en: summary.value?.summary_en || "",
+    },
+    compliance: { source: "llm", regenerated, dimensions: entries, summary: summary.entry },
+  };
+}
@@ -0,0 +1,80 @@
+import type { ToneThresholds } from "../scoring/types";
+import { DECISION_RULES } from "./rules";
+import type { DecisionRule, FiredRule, RuleCondition, RuleEvidence, ScoreInput } from "./types";
+
+export type { DecisionRule, FiredRule, RuleEvidence } from "./types";
+
+/* =========================
+   ✅ 決策規則引擎
+   - 輸入 signals14 / dimensions8 的分數，輸出觸發的規則與證據（實際分數 + 門檻）
+   - 缺分數的條件視為不成立（不會因為資料缺漏而亂加限制）
+   - "deviation" / "stable" 門檻用呼叫端傳入的 tone（報告的計分版本）換成數字
+========================= */
+export type DecisionRun = {
+  constraints: FiredRule[];
+  // 依 severity 由高到低；至少一條（P_MAINTAIN）
+  priorities: FiredRule[];
+  timeline: FiredRule[];
+  trace: FiredRule[];
+};
+
+function test(op: RuleCondition["op"], score: number, value: number) {
+  switch (op) {
+    case "<": return score < value;
+    case "<=": return score <= value;
+    case ">": return score > value;
+    case ">=": return score >= value;
+  }
+}
+
+function evaluate(rule: DecisionRule, lookup: (c: RuleCondition) => number | undefined, tone: ToneThresholds): FiredRule | null {
+  const check = (c: RuleCondition): RuleEvidence | null => {
+    const score = lookup(c);
+    const value = typeof c.value === "number" ? c.value : tone[c.value];
+    if (score === undefined || !test(c.op, score, value)) return null;
+    return { ...c, value, ...(typeof c.value === "string" ? { band: c.value } : {}), score };
+  };
+  const all = (rule.all || []).map(check);
+  if (all.some((e) => !e)) return null;
+  const any = (rule.any || []).map(check).filter((e): e is RuleEvidence => !!e);
+  if (rule.any?.length && !any.length) return null;
+
+  const evidence = [...(all as RuleEvidence[]), ...any];
+  return {
+    rule_id: rule.id,
+    kind: rule.kind,
+    group: rule.group,
+    severity: evidence.reduce((m, e) => Math.max(m, Math.abs(e.value - e.score)), 0),
+    evidence,
+  };
+}
+
+export function runDecisionRules(
+  signals: ScoreInput[],
+  dimensions: ScoreInput[],
+  tone: ToneThresholds,
+  rules: DecisionRule[] = DECISION_RULES,
+): DecisionRun {
+  const sig = new Map(signals.map((s) => [s.id, s.score]));
+  const dim = new Map(dimensions.map((d) => [d.id, d.score]));
+  const lookup = (c: RuleCondition) => (c.source === "signal" ? sig : dim).get(c.id);
+
+  const taken = new Set<string>();
+  const fired: FiredRule[] = [];
+  for (const rule of rules) {
+    if (rule.group && taken.has(`${rule.kind}:${rule.group}`)) continue;
+    const hit = evaluate(rule, lookup, tone);
+    if (!hit) continue;
+    if (rule.group) taken.add(`${rule.kind}:${rule.group}`);
+    fired.push(hit);
+  }
+
+  // priority：有實際偏差的排前面；預設規則只在不足兩條時補位
+  const real = fired.filter((r) => r.kind === "priority" && r.evidence.length).sort((a, b) => b.severity - a.severity);
+  const fallback = fired.filter((r) => r.kind === "priority" && !r.evidence.length);
+  const priorities = [...real.slice(0, 2), ...fallback].slice(0, 2);
+
+  const constraints = fired.filter((r) => r.kind === "constraint");
+  const timeline = fired.filter((r) => r.kind === "timeline");
+  return { constraints, priorities, timeline, trace: [...constraints, ...priorities, ...timeline] };
+}
@@ -0,0 +1,54 @@
+import type { DecisionRule, RuleCondition, RuleSource } from "./types";
+
+/* =========================
+   ✅ 決策規則表（皮膚科顧問審核用）
+   - 修改門檻只改這裡；文案在 lib/locales 的 catalog.rules[rule_id]
+   - 分數越高越好：< DEVIATION = 接近門檻，< STABLE = 可控偏差
+     兩者取自報告所用計分版本的 tone（1.0.0 / 1.1.0 為 72 / 88），換版本時規則跟著 tone 帶走
+   - 其他數字是顧問指定的臨床門檻，不隨 tone 變動
+========================= */
+const DEVIATION = "deviation";
+const STABLE = "stable";
+
+const cond = (source: RuleSource, id: string, op: RuleCondition["op"], value: RuleCondition["value"]): RuleCondition =>
+  ({ source, id, op, value });
+const dim = (id: string, op: RuleCondition["op"], value: RuleCondition["value"]) => cond("dimension", id, op, value);
+const sig = (id: string, op: RuleCondition["op"], value: RuleCondition["value"]) => cond("signal", id, op, value);
+
+export const DECISION_RULES: DecisionRule[] = [
+  // ---- 行為約束 ----
+  { id: "C_ACID_BLOCK", kind: "constraint", group: "acid", any: [dim("barrier", "<", DEVIATION), sig("sensitivity", "<", 65)] },
+  { id: "C_ACID_LIMIT", kind: "constraint", group: "acid", all: [dim("barrier", "<", 85)] },
+  { id: "C_RETINOL_PAUSE", kind: "constraint", group: "retinol", any: [dim("barrier", "<", 60), sig("redness", "<", 60)] },
+  { id: "C_RETINOL_REDUCE", kind: "constraint", group: "retinol", any: [dim("barrier", "<", DEVIATION), sig("sensitivity", "<", DEVIATION)] },
+  { id: "C_EXFOLIATE_10D", kind: "constraint", group: "exfoliation", all: [dim("barrier", "<", DEVIATION)] },
+  { id: "C_EXFOLIATE_7D", kind: "constraint", group: "exfoliation" },
+  { id: "C_FRAGRANCE_AVOID", kind: "constraint", all: [sig("redness", "<", 65)] },
+  { id: "C_SPF_DAILY", kind: "constraint", any: [dim("melanin", "<", DEVIATION), sig("pigmentation", "<", DEVIATION)] },
+  { id: "C_OCCLUSIVE_TZONE", kind: "constraint", all: [dim("sebum", "<", 65)] },
+
+  // ---- 優先節點（依 severity 排序，取前兩名）----
+  { id: "P_BARRIER", kind: "priority", all: [dim("barrier", "<", STABLE)] },
+  { id: "P_HYDRATION", kind: "priority", all: [dim("hydration", "<", STABLE)] },
+  { id: "P_TEXTURE", kind: "priority", all: [dim("texture", "<", STABLE)] },
+  { id: "P_MELANIN", kind: "priority", all: [dim("melanin", "<", STABLE)] },
+  { id: "P_SEBUM", kind: "priority", all: [dim("sebum", "<", STABLE)] },
+  { id: "P_PORE", kind: "priority", all: [dim("pore", "<", STABLE)] },
+  { id: "P_ELASTICITY", kind: "priority", all: [dim("elasticity", "<", STABLE)] },
+  { id: "P_RADIANCE", kind: "priority", all: [dim("radiance", "<", STABLE)] },
+  { id: "P_ACNE", kind: "priority", all: [dim("acne", "<", STABLE)] },
+  { id: "P_MAINTAIN", kind: "priority" },
+
+  // ---- 時間軸：三個階段各取一條 ----
+  { id: "T_STABILIZE_BARRIER", kind: "timeline", group: "week1_2", all: [dim("barrier", "<", DEVIATION)] },
+  { id: "T_STABILIZE_CALM", kind: "timeline", group: "week1_2", all: [sig("redness", "<", DEVIATION)] },
+  { id: "T_STABILIZE_HYDRATE", kind: "timeline", group: "week1_2", all: [dim("hydration", "<", DEVIATION)] },
+  { id: "T_STABILIZE_BASE", kind: "timeline", group: "week1_2" },
+  { id: "T_RENEW_GENTLE", kind: "timeline", group: "week3", all: [dim("barrier", "<", 80)] },
+  { id: "T_RENEW_BLEMISH", kind: "timeline", group: "week3", all: [dim("acne", "<", DEVIATION)] },
+  { id: "T_RENEW_TEXTURE", kind: "timeline", group: "week3", any: [dim("texture", "<", DEVIATION), dim("pore", "<", DEVIATION)] },
+  { id: "T_RENEW_BASE", kind: "timeline", group: "week3" },
+  { id: "T_OPTIMIZE_PIGMENT", kind: "timeline", group: "week4", all: [dim("melanin", "<", DEVIATION)] },
+  { id: "T_OPTIMIZE_FIRMNESS", kind: "timeline", group: "week4", all: [dim("elasticity", "<", DEVIATION)] },
+  { id: "T_OPTIMIZE_BASE", kind: "timeline", group: "week4" },
+];
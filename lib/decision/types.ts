@@ -0,0 +1,39 @@
+import type { ToneThresholds } from "../scoring/types";
+
+/* =========================
+   ✅ 決策規則型別
+   - 條件只看分數（分數越高越好，tone.stable 以上 = stable）
+   - 門檻可寫數字，或寫 "deviation" / "stable" 跟著計分版本的 tone 走
+   - 同一個 group 只輸出第一條觸發的規則（宣告順序 = 優先順序）
+========================= */
+export type RuleSource = "signal" | "dimension";
+export type RuleOp = "<" | "<=" | ">" | ">=";
+export type RuleKind = "constraint" | "priority" | "timeline";
+
+export type ToneBand = keyof ToneThresholds;
+
+export type RuleCondition = { source: RuleSource; id: string; op: RuleOp; value: number | ToneBand };
+
+export type DecisionRule = {
+  // 穩定 ID：報告的 decision_trace 與 catalog.rules 文案都用它
+  id: string;
+  kind: RuleKind;
+  group?: string;
+  // all 全部成立 且 any 至少一條成立；兩者皆空 = 預設規則（永遠成立）
+  all?: RuleCondition[];
+  any?: RuleCondition[];
+};
+
+// value = 實際用的門檻數字；band = 這個門檻取自哪一條 tone 設定
+export type RuleEvidence = Omit<RuleCondition, "value"> & { value: number; band?: ToneBand; score: number };
+
+export type FiredRule = {
+  rule_id: string;
+  kind: RuleKind;
+  group?: string;
+  // 觸發條件與門檻的最大距離；priority 依此排序
+  severity: number;
+  evidence: RuleEvidence[];
+};
+
+export type ScoreInput = { id: string; score: number };
@@ -0,0 +1,149 @@
+import { historyTtlSec, reportTtlSec } from "./privacy";
+import type { RawScores } from "./scoring";
+import type { KVStore } from "./store";
+
+/* =========================
+   ✅ 去重 + 報告快取（都走 lib/store 的 KV，SCAN_STORE 換 adapter 即可）
+   - Idempotency-Key：同一把 key 在 24 小時內重送 → 回第一次的結果，不再建 task
+     key 綁定上傳內容的指紋；同 key 換了照片 → mismatch（前端 bug，不要默默回舊結果）
+     KV 沒有原子的 set-if-absent，同時到達的兩個請求仍可能都拿到 new；第二道防線是內容雜湊
+   - 內容雜湊：正規化後的 bytes（真正送出去的那份）→ 同一供應商 24 小時內已建過 task 就沿用
+     沿用的 task 會被多次掃描共用 → 記引用（taskuse:），刪除掃描時只有最後一個引用者才清供應商端
+   - 報告快取：task 出結果後整份 body 以 scan_id 存起來，重複 GET 不再重算、不再叫 LLM
+     以 scan_id 為 key：共用 task 的兩次掃描各有各的報告（scan_id / 標註圖 / 刪除互不影響）
+     保存期限依 RETENTION_REPORT_DAYS（lib/privacy）
+========================= */
+const IDEMPOTENCY_TTL_SEC = 24 * 3600;
+const UPLOAD_TTL_SEC = 24 * 3600;
+// 處理中的 key 放太久（例如 isolate 中途被砍）就當作沒有
+const PENDING_STALE_MS = 2 * 60 * 1000;
+
+const IDEMPOTENCY_KEY_RE = /^[\x21-\x7e]{1,255}$/;
+
+export function isValidIdempotencyKey(key: string) {
+  return IDEMPOTENCY_KEY_RE.test(key);
+}
+
+function toHex(buf: ArrayBuffer) {
+  return [...new Uint8Array(buf)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function sha256Hex(bytes: Uint8Array) {
+  return toHex(await crypto.subtle.digest("SHA-256", bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer));
+}
+
+/* ---------- Idempotency-Key ---------- */
+// owner = 通過同意檢查的 user_id（重播時串流照樣只替它寫歷史）
+export type IdempotentResult = { status: number; body: any; task_ids?: string; owner?: string };
+
+type IdempotencyRecord =
+  | { state: "pending"; fingerprint: string; started_at: number }
+  | { state: "done"; fingerprint: string; result: IdempotentResult };
+
+export type IdempotencyClaim =
+  | { state: "new" }
+  | { state: "pending" }
+  | { state: "mismatch" }
+  | { state: "done"; result: IdempotentResult };
+
+const idemKeyOf = (key: string) => `idem:${key}`;
+
+export async function claimIdempotency(store: KVStore, key: string, fingerprint: string): Promise<IdempotencyClaim> {
+  const rec = await store.get<IdempotencyRecord>(idemKeyOf(key));
+  const stale = rec?.state === "pending" && Date.now() - rec.started_at > PENDING_STALE_MS;
+  if (rec && !stale) {
+    if (rec.fingerprint !== fingerprint) return { state: "mismatch" };
+    return rec.state === "done" ? { state: "done", result: rec.result } : { state: "pending" };
+  }
+  const pending: IdempotencyRecord = { state: "pending", fingerprint, started_at: Date.now() };
+  await store.set(idemKeyOf(key), pending, { ttlSec: IDEMPOTENCY_TTL_SEC });
+  return { state: "new" };
+}
+
+export async function completeIdempotency(store: KVStore, key: string, fingerprint: string, result: IdempotentResult) {
+  const done: IdempotencyRecord = { state: "done", fingerprint, result };
+  await store.set(idemKeyOf(key), done, { ttlSec: IDEMPOTENCY_TTL_SEC });
+}
+
+// 中途丟例外 → 放掉 key，讓前端重試時能重新來過
+export async function releaseIdempotency(store: KVStore, key: string) {
+  const existed = !!(await store.get<IdempotencyRecord>(idemKeyOf(key)));
+  await store.delete(idemKeyOf(key));
+  return existed;
+}
+
+/* ---------- 內容雜湊 → 已建立的 task ---------- */
+export type UploadRecord = { task_id: string; created_at: string };
+
+const uploadKeyOf = (provider: string, hash: string) => `upload:${provider}:${hash}`;
+
+export async function findUpload(store: KVStore, provider: string, hash: string) {
+  return store.get<UploadRecord>(uploadKeyOf(provider, hash));
+}
+
+export async function rememberUpload(store: KVStore, provider: string, hash: string, taskId: string) {
+  const rec: UploadRecord = { task_id: taskId, created_at: new Date().toISOString() };
+  await store.set(uploadKeyOf(provider, hash), rec, { ttlSec: UPLOAD_TTL_SEC });
+}
+
+export async function forgetUpload(store: KVStore, provider: string, hash: string) {
+  const existed = !!(await findUpload(store, provider, hash));
+  await store.delete(uploadKeyOf(provider, hash));
+  return existed;
+}
+
+/* ---------- 共用 task 的引用 ---------- */
+// file_id 記在這裡：建 task 的那次掃描先刪，檔案要留給最後一個引用者清
+export type TaskUsage = { scan_ids: string[]; file_id?: string };
+
+// 與 scan 紀錄同保存期限（去重只看 24 小時，但共用關係要撐到最後一個掃描被刪或過期）
+const usageKeyOf = (scope: string, taskId: string) => `taskuse:${scope}:${taskId}`;
+
+export async function retainTask(store: KVStore, scope: string, taskId: string, scanId: string, fileId?: string | null) {
+  const usage = (await store.get<TaskUsage>(usageKeyOf(scope, taskId))) || { scan_ids: [] };
+  const next: TaskUsage = {
+    scan_ids: usage.scan_ids.includes(scanId) ? usage.scan_ids : [...usage.scan_ids, scanId],
+    ...(fileId || usage.file_id ? { file_id: fileId || usage.file_id } : {}),
+  };
+  await store.set(usageKeyOf(scope, taskId), next, { ttlSec: historyTtlSec() });
+}
+
+// 放掉這次掃描的引用；回傳放掉後的狀態（沒有紀錄 → null，視為只有這次在用）
+export async function releaseTask(store: KVStore, scope: string, taskId: string, scanId: string): Promise<TaskUsage | null> {
+  const usage = await store.get<TaskUsage>(usageKeyOf(scope, taskId));
+  if (!usage) return null;
+  const next: TaskUsage = { ...usage, scan_ids: usage.scan_ids.filter((id) => id !== scanId) };
+  if (next.scan_ids.length) await store.set(usageKeyOf(scope, taskId), next, { ttlSec: historyTtlSec() });
+  else await store.delete(usageKeyOf(scope, taskId));
+  return next;
+}
+
+/* ---------- 報告快取 ---------- */
+export type CachedReport = {
+  // 產生這份報告的全部 task（view:task_id），側面組合不同就不算命中
+  tasks: string[];
+  body: any;
+  raw_scores?: RawScores;
+  // LLM 敘事快取的 key（lib/narratives）；敘事還沒好時用來查、刪除掃描時一起清
+  narrative_key?: string;
+};
+
+const reportKeyOf = (scanId: string) => `report:${scanId}`;
+
+export async function getCachedReport(store: KVStore, scanId: string, tasks: string[]) {
+  const hit = await store.get<CachedReport>(reportKeyOf(scanId));
+  if (!hit) return null;
+  const same = hit.tasks.length === tasks.length && tasks.every((t) => hit.tasks.includes(t));
+  return same ? hit : null;
+}
+
+export async function cacheReport(store: KVStore, scanId: string, entry: CachedReport) {
+  await store.set(reportKeyOf(scanId), entry, { ttlSec: reportTtlSec() });
+}
+
+// 有東西被刪 → true
+export async function deleteCachedReport(store: KVStore, scanId: string) {
+  const existed = !!(await store.get<CachedReport>(reportKeyOf(scanId)));
+  await store.delete(reportKeyOf(scanId));
+  return existed;
+}
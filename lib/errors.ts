@@ -0,0 +1,91 @@
+import { UpstreamError, type UpstreamErrorKind } from "./upstream";
+
+/* =========================
+   ✅ 錯誤代碼表（穩定代碼 → HTTP status）
+   - 前端只認 code；文案在 lib/locales 的 catalog.errors[code]
+   - 舊欄位（error / stage / degraded）照留，新增 code + message（在地化）+ detail（技術訊息）
+   - 舊版 App 可用相容模式維持「一律 200」（見 api/scan.ts 的 legacyCompat）
+========================= */
+export const ERROR_STATUS = {
+  // 請求內容
+  INPUT_MISSING_IMAGE: 400,
+  INPUT_BAD_FORM: 400,
+  INPUT_MISSING_SCAN_TOKEN: 400,
+  INPUT_MISSING_USER_ID: 400,
+  INPUT_INVALID_USER_ID: 400,
+  INPUT_INVALID_CALLBACK_URL: 400,
+  INPUT_UNKNOWN_SCORING_VERSION: 400,
+  INPUT_INVALID_IDEMPOTENCY_KEY: 400,
+  INPUT_MISSING_CONSENT: 400,
+  INPUT_CONSENT_VERSION_NOT_ACCEPTED: 400,
+  INPUT_INVALID_CONSENT_PURPOSE: 400,
+  INPUT_INVALID_FORMAT: 400,
+  // 同一把 Idempotency-Key 換了照片
+  INPUT_IDEMPOTENCY_KEY_REUSED: 422,
+  // 需要重拍（照片本身不適合分析）
+  RETAKE_MIN_SIZE: 422,
+  RETAKE_UNSUPPORTED_FORMAT: 422,
+  RETAKE_FACE_GATE: 422,
+  RETAKE_TOO_LARGE: 422,
+  // 驗證 / 限流（lib/auth、lib/ratelimit）
+  AUTH_UNAUTHORIZED: 401,
+  AUTH_MISSING_CREDENTIALS: 401,
+  AUTH_INVALID_CREDENTIALS: 401,
+  AUTH_TOKEN_EXPIRED: 401,
+  AUTH_ORIGIN_NOT_ALLOWED: 403,
+  // 掃描 token（lib/scantoken）
+  AUTH_INVALID_SCAN_TOKEN: 401,
+  AUTH_SCAN_TOKEN_EXPIRED: 401,
+  AUTH_SCAN_TOKEN_FORBIDDEN: 403,
+  RATE_LIMITED: 429,
+  NOT_FOUND_SCAN: 404,
+  NOT_FOUND_TASK: 404,
+  NOT_FOUND_WEBHOOK: 404,
+  NOT_FOUND_DELETION_RECEIPT: 404,
+  NOT_FOUND_ANNOTATED_IMAGE: 404,
+  METHOD_NOT_ALLOWED: 405,
+  STATE_NOT_ENOUGH_SCANS: 404,
+  STATE_RAW_SCORES_UNAVAILABLE: 409,
+  STATE_IDEMPOTENCY_IN_PROGRESS: 409,
+  STATE_SCAN_DELETED: 410,
+  // 部署設定
+  CONFIG_MISSING_KEY: 500,
+  CONFIG_INVALID: 500,
+  // PDF 匯出找不到字型檔（lib/export 的 REPORT_PDF_FONT_PATH）
+  CONFIG_PDF_FONT_UNAVAILABLE: 500,
+  // 上游（lib/upstream 的分類）
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_NETWORK: 502,
+  UPSTREAM_SERVER: 502,
+  UPSTREAM_REJECTED: 502,
+  UPSTREAM_UNAVAILABLE: 503,
+  UPSTREAM_TASK_FAILED: 502,
+  INTERNAL: 500,
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+export class ScanError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message?: string,
+    readonly details: Record<string, unknown> = {},
+  ) {
+    super(message || code);
+    this.name = "ScanError";
+  }
+}
+
+const UPSTREAM_CODES: Record<UpstreamErrorKind, ErrorCode> = {
+  timeout: "UPSTREAM_TIMEOUT",
+  network: "UPSTREAM_NETWORK",
+  server: "UPSTREAM_SERVER",
+  client: "UPSTREAM_REJECTED",
+  circuit_open: "UPSTREAM_UNAVAILABLE",
+};
+
+export function errorCodeOf(err: unknown): ErrorCode {
+  if (err instanceof ScanError) return err.code;
+  if (err instanceof UpstreamError) return UPSTREAM_CODES[err.kind];
+  return "INTERNAL";
+}
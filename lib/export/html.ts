@@ -0,0 +1,140 @@
+import { catalog } from "../locales";
+import type { Report, Tone } from "../types";
+import { radarSvg } from "./radar";
+import type { Thumbnail } from "./thumbnails";
+
+/* =========================
+   ✅ 列印版報告：HTML（?format=html）
+   - 中英對照；A4 列印樣式，只用系統字型（不載入網路字型）
+   - 雷達圖是 inline SVG，影像縮圖（標註圖 / 原圖）是 data URI → 存檔後離線也能開
+========================= */
+export type Brand = { name: string; color: string };
+
+export const TONE_COLORS: Record<Tone, string> = {
+  stable: "#2e7d4f",
+  deviation: "#b7791f",
+  threshold: "#c0392b",
+};
+
+const zh = catalog("zh-TW");
+const en = catalog("en");
+
+const esc = (s: unknown) =>
+  String(s ?? "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// 換行保留成 <br>
+const text = (s: unknown) => esc(s).replace(/\n/g, "<br>");
+
+function base64(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin);
+}
+
+const label = (key: keyof typeof zh.print) => `${esc(zh.print[key])} <span class="en">${esc(en.print[key])}</span>`;
+
+function badge(tone: Tone) {
+  return `<span class="badge" style="background:${TONE_COLORS[tone]}">${esc(zh.levels[tone])} · ${esc(en.levels[tone])}</span>`;
+}
+
+function list(items: string[] | undefined) {
+  return items?.length ? `<ul>${items.map((x) => `<li>${text(x)}</li>`).join("")}</ul>` : "";
+}
+
+function pair(zhText: string | undefined, enText: string | undefined) {
+  return `<p>${text(zhText)}</p><p class="en">${text(enText)}</p>`;
+}
+
+export function renderReportHtml(report: Report, brand: Brand, thumbs: Thumbnail[] = []) {
+  const signals = report.signals14.map((s) => `
+      <tr><td>${esc(s.label_zh)} <span class="en">${esc(s.label_en)}</span></td><td class="num">${esc(s.score)}</td><td>${badge(s.tone)}</td></tr>`).join("");
+
+  const dimensions = report.dimensions8.map((d) => `
+    <section class="dim">
+      <h3>${esc(d.title_zh)} <span class="en">${esc(d.title_en)}</span>
+        <span class="score">${esc(d.score)}</span> ${badge(d.tone)}
+        ${d.low_confidence ? `<span class="badge muted">${label("lowConfidence")}</span>` : ""}</h3>
+      <h4>${label("finding")}</h4>${pair(d.finding_zh, d.finding_en)}
+      <h4>${label("mechanism")}</h4>${pair(d.mechanism_zh, d.mechanism_en)}
+      <h4>${label("protocol")}</h4>
+      <div class="cols"><div>${list(d.protocol_zh)}</div><div class="en">${list(d.protocol_en)}</div></div>
+    </section>`).join("");
+
+  const images = thumbs.map((t) => `
+    <figure><img src="data:image/jpeg;base64,${base64(t.jpeg)}" width="${t.width}" height="${t.height}" alt="">
+      <figcaption>${esc(t.view)}${t.annotated ? "" : ` · ${label("unannotated")}`}</figcaption></figure>`).join("");
+
+  return `<!doctype html>
+<html lang="zh-Hant">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(brand.name)} · ${esc(zh.print.title)} ${esc(report.scan_id)}</title>
+<style>
+  @page { size: A4; margin: 14mm; }
+  body { font-family: "PingFang TC", "Noto Sans TC", "Microsoft JhengHei", system-ui, sans-serif; color: #222; margin: 0 auto; max-width: 780px; padding: 24px; font-size: 13px; line-height: 1.6; }
+  header { border-bottom: 3px solid ${esc(brand.color)}; padding-bottom: 12px; margin-bottom: 16px; }
+  header .brand { color: ${esc(brand.color)}; font-weight: 700; font-size: 20px; letter-spacing: .04em; }
+  header .meta { color: #666; font-size: 11px; }
+  h2 { color: ${esc(brand.color)}; border-left: 4px solid ${esc(brand.color)}; padding-left: 8px; margin: 24px 0 8px; font-size: 16px; }
+  h3 { margin: 0 0 6px; font-size: 15px; }
+  h4 { margin: 10px 0 2px; font-size: 12px; color: #555; }
+  p { margin: 2px 0; }
+  .en { color: #555; }
+  .badge { display: inline-block; color: #fff; border-radius: 10px; padding: 0 8px; font-size: 11px; font-weight: 600; vertical-align: middle; }
+  .badge.muted { background: #888; }
+  .badge .en { color: #fff; }
+  .score { font-size: 18px; font-weight: 700; margin: 0 6px; }
+  .note { background: #fff8e1; border: 1px solid #f0d58c; padding: 6px 10px; border-radius: 4px; }
+  .signals { display: flex; gap: 16px; align-items: flex-start; flex-wrap: wrap; }
+  table { border-collapse: collapse; font-size: 12px; }
+  td { padding: 2px 6px; border-bottom: 1px solid #eee; }
+  td.num { text-align: right; font-weight: 600; }
+  .dim { border: 1px solid #e3e7ec; border-radius: 6px; padding: 12px 14px; margin: 10px 0; break-inside: avoid; }
+  .cols { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; }
+  ul { margin: 2px 0; padding-left: 18px; }
+  .images { display: flex; gap: 10px; flex-wrap: wrap; break-inside: avoid; }
+  figure { margin: 0; text-align: center; font-size: 10px; color: #777; }
+  figure img { border: 1px solid #ddd; width: 200px; height: auto; }
+  footer { margin-top: 24px; border-top: 1px solid #ddd; padding-top: 8px; color: #777; font-size: 11px; }
+  @media print { body { padding: 0; } .dim { page-break-inside: avoid; } }
+</style>
+</head>
+<body>
+<header>
+  <div class="brand">${esc(brand.name)}</div>
+  <div>${label("title")}</div>
+  <div class="meta">${label("scanId")}: ${esc(report.scan_id)} · ${label("producedAt")}: ${esc(report.produced_at)}${report.scoring_version ? ` · ${label("scoringVersion")}: ${esc(report.scoring_version)}` : ""}</div>
+</header>
+${report.narrative_status === "pending" ? `<p class="note">${esc(zh.print.narrativePending)}<br><span class="en">${esc(en.print.narrativePending)}</span></p>` : ""}
+<h2>${label("summary")}</h2>
+${pair(report.summary_zh, report.summary_en)}
+
+<h2>${label("signals")}</h2>
+<div class="signals">
+  ${radarSvg(report.signals14, { color: brand.color })}
+  <table>${signals}
+  </table>
+</div>
+
+<h2>${label("dimensions")}</h2>
+${dimensions}
+${images ? `
+<h2>${label("images")}</h2>
+<div class="images">${images}
+</div>
+` : ""}
+<h2>${label("decision")}</h2>
+${pair(report.decision_zh, report.decision_en)}
+<h4>${label("environment")}</h4>${pair(report.environment_zh, report.environment_en)}
+<h4>${label("priorityNode")}</h4>${pair(report.priority_node_zh, report.priority_node_en)}
+<h4>${label("constraints")}</h4>
+<div class="cols"><div>${list(report.constraints_zh)}</div><div class="en">${list(report.constraints_en)}</div></div>
+<h4>${label("timeline")}</h4>
+<div class="cols"><div>${list(report.timeline_zh)}</div><div class="en">${list(report.timeline_en)}</div></div>
+
+<footer>${esc(zh.print.disclaimer)}<br>${esc(en.print.disclaimer)}</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,60 @@
+import { ScanError } from "../errors";
+import type { Brand } from "./html";
+import { parseTrueType, type TrueTypeFont } from "./truetype";
+
+declare const process: { env: Record<string, string | undefined> };
+
+export { renderReportHtml, type Brand } from "./html";
+export { renderReportPdf } from "./pdf";
+export { scanThumbnails, type Thumbnail } from "./thumbnails";
+export type { TrueTypeFont } from "./truetype";
+
+/* =========================
+   ✅ 列印版報告匯出（GET ?format=html | pdf）
+   - REPORT_BRAND_NAME：頁首品牌名稱（預設 Skin Signal）
+   - REPORT_BRAND_COLOR：主色，#rrggbb（預設 #1f3a5f）；格式不對 → CONFIG_INVALID
+   - REPORT_PDF_FONT_PATH：PDF 嵌入的中文字型（.ttf，glyf 外框，例如 Noto Sans TC 的 TTF 版），
+     跟著部署一起打包的本機檔案路徑（離線 kiosk 映像檔裡放一份）；不從網路下載
+     每個 isolate 讀一次、只嵌入用到的字
+   - 沒設 / 讀不到 / 格式不對 → ?format=pdf 回 CONFIG_PDF_FONT_UNAVAILABLE（500），不產出中文變方塊的 PDF
+     node:fs 用動態 import：Edge 沒有檔案系統，PDF 匯出只在 Node 部署（kiosk）可用，Edge 上請用 ?format=html 列印
+========================= */
+export type ExportFormat = "json" | "html" | "pdf";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["json", "html", "pdf"];
+
+const DEFAULT_BRAND: Brand = { name: "Skin Signal", color: "#1f3a5f" };
+
+export function reportBrand(): Brand {
+  const color = process.env.REPORT_BRAND_COLOR?.trim() || DEFAULT_BRAND.color;
+  if (!/^#[0-9a-f]{6}$/i.test(color)) {
+    throw new ScanError("CONFIG_INVALID", "REPORT_BRAND_COLOR must be a hex color like #1f3a5f");
+  }
+  return { name: process.env.REPORT_BRAND_NAME?.trim() || DEFAULT_BRAND.name, color };
+}
+
+type FsPromises = { readFile(path: string): Promise<Uint8Array> };
+
+const FS_MODULE = "node:fs/promises";
+
+let fontLoad: { path: string; font: Promise<TrueTypeFont> } | null = null;
+
+async function loadPdfFont(path: string) {
+  try {
+    const fs: FsPromises = await import(FS_MODULE);
+    return parseTrueType(new Uint8Array(await fs.readFile(path)));
+  } catch (err: any) {
+    fontLoad = null; // 下一個請求再試（字型檔可能之後才放上去）
+    throw new ScanError("CONFIG_PDF_FONT_UNAVAILABLE", `REPORT_PDF_FONT_PATH unreadable (${path}): ${err?.message || err}`);
+  }
+}
+
+// 沒設 REPORT_PDF_FONT_PATH 或讀不到 → CONFIG_PDF_FONT_UNAVAILABLE
+export function pdfFont(): Promise<TrueTypeFont> {
+  const path = process.env.REPORT_PDF_FONT_PATH?.trim();
+  if (!path) {
+    return Promise.reject(new ScanError("CONFIG_PDF_FONT_UNAVAILABLE", "REPORT_PDF_FONT_PATH is not set"));
+  }
+  if (fontLoad?.path !== path) fontLoad = { path, font: loadPdfFont(path) };
+  return fontLoad.font;
+}
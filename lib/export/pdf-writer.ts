@@ -0,0 +1,258 @@
+import type { TrueTypeFont } from "./truetype";
+
+/* =========================
+   ✅ 最小 PDF 寫出器（給 pdf.ts 用；不需要 headless 瀏覽器，不自己下載字型）
+   - 英數字：Helvetica（PDF 內建 14 種標準字型之一）
+   - 中文：呼叫端給的 cjkFont（.ttf）一律嵌入子集（CIDFontType2 + Identity-H + ToUnicode），哪個閱讀器都看得到
+     不退回不嵌入的 CID 字型（MSung-Light 之類）：那只有裝了亞洲字型包的 Acrobat 顯示得出來，其他閱讀器是方塊
+     字型從哪來由 lib/export 的 pdfFont 負責（本機字型檔；找不到就不產 PDF）
+     文字依字元切成 latin / cjk 兩種 run，各自換字型；寬度用下方的表估算換行（中文一律當 1 em）
+   - 圖片只收 JPEG（DCTDecode 原樣嵌入）；內容串流不壓縮
+   - 座標：左下角為原點（PDF 慣例），單位 pt
+========================= */
+export const A4 = { width: 595.28, height: 841.89 };
+
+type Rgb = [number, number, number];
+
+// Helvetica 字寬（/1000 em），字元 32–126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+export type Run = { cjk: boolean; text: string };
+
+const isLatin = (code: number) => code >= 32 && code <= 126;
+
+// 依字元切 run；控制字元丟掉，BMP 以外（emoji 等）UCS-2 表示不了也丟掉
+export function runsOf(text: string): Run[] {
+  const runs: Run[] = [];
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (code < 32 || code > 0xffff) continue;
+    const cjk = !isLatin(code);
+    const last = runs[runs.length - 1];
+    if (last && last.cjk === cjk) last.text += ch;
+    else runs.push({ cjk, text: ch });
+  }
+  return runs;
+}
+
+export function charWidth(ch: string, size: number) {
+  const code = ch.charCodeAt(0);
+  return (isLatin(code) ? HELVETICA_WIDTHS[code - 32] : 1000) * size / 1000;
+}
+
+export function textWidth(text: string, size: number) {
+  let w = 0;
+  for (const ch of text) w += charWidth(ch, size);
+  return w;
+}
+
+// 依寬度換行：英文以單字為單位、中文逐字；保留原本的 \n
+export function wrapText(text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const para of text.split("\n")) {
+    // 英文單字（含後面的空白）或單一非英文字元
+    const tokens = para.match(/[\x21-\x7e]+ *| +|[^\x20-\x7e]/g) || [];
+    let line = "";
+    let width = 0;
+    for (const tok of tokens) {
+      const w = textWidth(tok, size);
+      if (width + w > maxWidth && line.trim()) {
+        lines.push(line.trimEnd());
+        line = tok.trimStart();
+        width = textWidth(line, size);
+        continue;
+      }
+      line += tok;
+      width += w;
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+}
+
+const latinString = (s: string) => `(${s.replace(/[\\()]/g, (c) => `\\${c}`)})`;
+
+const ucs2Hex = (s: string) =>
+  `<${[...s].map((ch) => ch.charCodeAt(0).toString(16).padStart(4, "0")).join("")}>`;
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+export function hexColor(hex: string): Rgb {
+  const m = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex.trim());
+  return m ? [parseInt(m[1], 16) / 255, parseInt(m[2], 16) / 255, parseInt(m[3], 16) / 255] : [0, 0, 0];
+}
+
+const rgb = (c: Rgb) => c.map(num).join(" ");
+
+export type PdfImage = { name: string; width: number; height: number; jpeg: Uint8Array };
+
+// 子集字型名稱前綴（6 個大寫字母，PDF 規範要求）：依用到的字形算，同一組字形同一個前綴
+function subsetTag(gids: number[]) {
+  let h = 0x811c9dc5;
+  for (const g of gids) h = Math.imul(h ^ g, 0x01000193) >>> 0;
+  let tag = "";
+  for (let i = 0; i < 6; i++, h = Math.floor(h / 26)) tag += String.fromCharCode(65 + (h % 26));
+  return tag;
+}
+
+function toUnicodeCMap(chars: string[]) {
+  const entries = chars.map((ch, i) => `<${(i + 1).toString(16).padStart(4, "0")}> ${ucs2Hex(ch)}`);
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const part = entries.slice(i, i + 100);
+    blocks.push(`${part.length} beginbfchar\n${part.join("\n")}\nendbfchar`);
+  }
+  return [
+    "/CIDInit /ProcSet findresource begin", "12 dict begin", "begincmap",
+    "/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def",
+    "/CMapName /Adobe-Identity-UCS def", "/CMapType 2 def",
+    "1 begincodespacerange", "<0000> <FFFF>", "endcodespacerange",
+    ...blocks,
+    "endcmap", "CMapName currentdict /CMap defineresource pop", "end", "end",
+  ].join("\n");
+}
+
+export function createPdf(title: string, opts: { cjkFont: TrueTypeFont }) {
+  const pages: string[][] = [];
+  const images: PdfImage[] = [];
+  let ops: string[] = [];
+
+  // 嵌入字型：CID 依第一次出現的順序編號（1..n），0 = 字型裡沒有的字（.notdef）
+  const font = opts.cjkFont;
+  const cidOfGid = new Map<number, number>();
+  const cidGids: number[] = [];
+  const cidChars: string[] = [];
+  const cjkHex = (text: string) => {
+    const cids = [...text].map((ch) => {
+      const gid = font.glyphOf(ch.charCodeAt(0));
+      if (!gid) return 0;
+      let cid = cidOfGid.get(gid);
+      if (!cid) {
+        cidGids.push(gid);
+        cidChars.push(ch);
+        cid = cidGids.length;
+        cidOfGid.set(gid, cid);
+      }
+      return cid;
+    });
+    return `<${cids.map((c) => c.toString(16).padStart(4, "0")).join("")}>`;
+  };
+
+  const doc = {
+    addPage() {
+      ops = [];
+      pages.push(ops);
+    },
+
+    text(x: number, y: number, text: string, size: number, color: Rgb = [0, 0, 0]) {
+      const body = runsOf(text)
+        .map((r) => `/${r.cjk ? "F2" : "F1"} ${num(size)} Tf ${r.cjk ? cjkHex(r.text) : latinString(r.text)} Tj`)
+        .join(" ");
+      if (body) ops.push(`BT ${rgb(color)} rg ${num(x)} ${num(y)} Td ${body} ET`);
+    },
+
+    rect(x: number, y: number, w: number, h: number, fill: Rgb) {
+      ops.push(`${rgb(fill)} rg ${num(x)} ${num(y)} ${num(w)} ${num(h)} re f`);
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, color: Rgb, width = 0.5) {
+      ops.push(`${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+    },
+
+    // 封閉多邊形；fill 有給就填色（opacity 用 ExtGState /GS1，固定 0.25）
+    polygon(points: { x: number; y: number }[], stroke: Rgb, opts: { fill?: Rgb; width?: number } = {}) {
+      if (!points.length) return;
+      const path = points.map((p, i) => `${num(p.x)} ${num(p.y)} ${i ? "l" : "m"}`).join(" ") + " h";
+      if (opts.fill) ops.push(`q /GS1 gs ${rgb(opts.fill)} rg ${path} f Q`);
+      ops.push(`${rgb(stroke)} RG ${num(opts.width ?? 0.5)} w ${path} S`);
+    },
+
+    image(img: Omit<PdfImage, "name">, x: number, y: number, w: number, h: number) {
+      const name = `Im${images.length + 1}`;
+      images.push({ ...img, name });
+      ops.push(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(y)} cm /${name} Do Q`);
+    },
+
+    build(): Uint8Array {
+      const enc = new TextEncoder();
+      const chunks: Uint8Array[] = [];
+      const offsets: number[] = [];
+      let size = 0;
+      const push = (b: Uint8Array) => {
+        chunks.push(b);
+        size += b.length;
+      };
+      const write = (s: string) => push(enc.encode(s));
+
+      // 物件編號：1 Catalog、2 Pages、3 Helvetica、4–6 中文字型、7 ExtGState、8 Info、
+      // 9 FontFile2、10 ToUnicode，之後圖片、頁面
+      const firstImage = 11;
+      const firstPage = firstImage + images.length;
+      const pageRefs = pages.map((_, i) => `${firstPage + i * 2} 0 R`);
+      const xobjects = images.map((im, i) => `/${im.name} ${firstImage + i} 0 R`).join(" ");
+      const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >> /ExtGState << /GS1 7 0 R >> /XObject << ${xobjects} >> >>`;
+
+      const object = (id: number, body: string | Uint8Array[]) => {
+        offsets[id] = size;
+        write(`${id} 0 obj\n`);
+        if (typeof body === "string") write(body);
+        else body.forEach(push);
+        write("\nendobj\n");
+      };
+      const stream = (dict: string, data: Uint8Array) =>
+        [enc.encode(`<< ${dict} /Length ${data.length} >>\nstream\n`), data, enc.encode("\nendstream")];
+
+      push(new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x34, 0x0a, 0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // %PDF-1.4 + 二進位標記
+      object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+      object(2, `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pages.length} >>`);
+      object(3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+      const em = (v: number) => Math.round((v * 1000) / font.unitsPerEm);
+      const name = `${subsetTag(cidGids)}+ReportCJK`;
+      const widths = cidGids.map((g) => em(font.advanceOf(g))).join(" ");
+      object(4, `<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H /DescendantFonts [5 0 R] /ToUnicode 10 0 R >>`);
+      object(5, `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} ` +
+        `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor 6 0 R ` +
+        `/DW 1000${widths ? ` /W [1 [${widths}]]` : ""} /CIDToGIDMap /Identity >>`);
+      object(6, `<< /Type /FontDescriptor /FontName /${name} /Flags 4 /FontBBox [${font.bbox.map(em).join(" ")}] ` +
+        `/ItalicAngle 0 /Ascent ${em(font.ascent)} /Descent ${em(font.descent)} /CapHeight ${em(font.ascent)} /StemV 80 /FontFile2 9 0 R >>`);
+      object(7, "<< /Type /ExtGState /ca 0.25 >>");
+      object(8, `<< /Title <feff${ucs2Hex(title).slice(1, -1)}> /Producer (scan report export) >>`);
+      const file = font.subset(cidGids);
+      object(9, stream(`/Length1 ${file.length}`, file));
+      object(10, stream("", enc.encode(toUnicodeCMap(cidChars))));
+      images.forEach((im, i) => object(firstImage + i, stream(
+        `/Type /XObject /Subtype /Image /Width ${im.width} /Height ${im.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+        im.jpeg,
+      )));
+      pages.forEach((p, i) => {
+        const id = firstPage + i * 2;
+        object(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] /Resources ${resources} /Contents ${id + 1} 0 R >>`);
+        object(id + 1, stream("", enc.encode(p.join("\n"))));
+      });
+
+      const count = firstPage + pages.length * 2;
+      const xref = size;
+      write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+      for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+      write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 8 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+      const out = new Uint8Array(size);
+      let at = 0;
+      for (const c of chunks) {
+        out.set(c, at);
+        at += c.length;
+      }
+      return out;
+    },
+  };
+  return doc;
+}
+
+export type PdfDoc = ReturnType<typeof createPdf>;
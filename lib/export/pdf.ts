@@ -0,0 +1,216 @@
+import { catalog } from "../locales";
+import type { Report, Tone } from "../types";
+import type { Brand } from "./html";
+import { TONE_COLORS } from "./html";
+import { A4, createPdf, hexColor, textWidth, wrapText } from "./pdf-writer";
+import { radarGeometry } from "./radar";
+import type { Thumbnail } from "./thumbnails";
+import type { TrueTypeFont } from "./truetype";
+
+/* =========================
+   ✅ 列印版報告：PDF（?format=pdf）
+   - 內容與 HTML 版相同（總結、14 通道雷達、8 維度、標註影像、決策層），中英對照
+   - 純 TS 產生，不靠 headless 瀏覽器；中文字型由呼叫端給（lib/export 的 pdfFont，讀本機字型檔），一律嵌入
+   - 版面是由上往下排的游標；放不下就換頁
+========================= */
+const MARGIN = 42;
+const WIDTH = A4.width - MARGIN * 2;
+const GRAY: [number, number, number] = [0.4, 0.4, 0.4];
+const RULE: [number, number, number] = [0.84, 0.86, 0.89];
+const BLACK: [number, number, number] = [0.13, 0.13, 0.13];
+const WHITE: [number, number, number] = [1, 1, 1];
+
+const zh = catalog("zh-TW");
+const en = catalog("en");
+
+type PrintKey = keyof typeof zh.print;
+
+export function renderReportPdf(
+  report: Report,
+  brand: Brand,
+  thumbs: Thumbnail[],
+  cjkFont: TrueTypeFont,
+): Uint8Array {
+  const brandColor = hexColor(brand.color);
+  const pdf = createPdf(`${brand.name} · ${zh.print.title} ${report.scan_id}`, { cjkFont });
+  let y = 0;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = A4.height - MARGIN;
+  };
+  // 還剩不到 h 就換頁
+  const ensure = (h: number) => {
+    if (y - h < MARGIN) newPage();
+  };
+
+  const paragraph = (text: string | undefined, size = 10, color = BLACK, indent = 0) => {
+    if (!text) return;
+    for (const line of wrapText(text, size, WIDTH - indent)) {
+      ensure(size * 1.5);
+      y -= size * 1.5;
+      pdf.text(MARGIN + indent, y, line, size, color);
+    }
+  };
+
+  const bullets = (items: string[] | undefined, size = 10, color = BLACK) => {
+    for (const item of items || []) {
+      const lines = wrapText(item, size, WIDTH - 12);
+      lines.forEach((line, i) => {
+        ensure(size * 1.5);
+        y -= size * 1.5;
+        if (i === 0) pdf.text(MARGIN + 2, y, "-", size, color);
+        pdf.text(MARGIN + 12, y, line, size, color);
+      });
+    }
+  };
+
+  const pair = (zhText: string | undefined, enText: string | undefined) => {
+    paragraph(zhText);
+    paragraph(enText, 9, GRAY);
+  };
+
+  const heading = (key: PrintKey) => {
+    ensure(40);
+    y -= 28;
+    pdf.rect(MARGIN, y - 2, 3, 14, brandColor);
+    pdf.text(MARGIN + 9, y, zh.print[key], 13, brandColor);
+    pdf.text(MARGIN + 9 + textWidth(zh.print[key], 13) + 6, y, en.print[key], 10, GRAY);
+  };
+
+  const subheading = (key: PrintKey) => {
+    ensure(24);
+    y -= 18;
+    pdf.text(MARGIN, y, `${zh.print[key]}  ${en.print[key]}`, 9, GRAY);
+  };
+
+  // 圓角就不畫了，純色方塊 + 白字
+  const badge = (x: number, baseline: number, tone: Tone) => {
+    const label = `${zh.levels[tone]} · ${en.levels[tone]}`;
+    const w = textWidth(label, 8) + 10;
+    pdf.rect(x, baseline - 3, w, 12, hexColor(TONE_COLORS[tone]));
+    pdf.text(x + 5, baseline, label, 8, WHITE);
+    return w;
+  };
+
+  /* === 頁首 === */
+  newPage();
+  y -= 18;
+  pdf.text(MARGIN, y, brand.name, 18, brandColor);
+  y -= 18;
+  pdf.text(MARGIN, y, `${zh.print.title}  ${en.print.title}`, 11, BLACK);
+  y -= 14;
+  const meta = [
+    `${en.print.scanId}: ${report.scan_id}`,
+    `${en.print.producedAt}: ${report.produced_at}`,
+    report.scoring_version ? `${en.print.scoringVersion}: ${report.scoring_version}` : "",
+  ].filter(Boolean).join("   ");
+  pdf.text(MARGIN, y, meta, 8, GRAY);
+  y -= 8;
+  pdf.rect(MARGIN, y, WIDTH, 2, brandColor);
+
+  if (report.narrative_status === "pending") {
+    y -= 6;
+    paragraph(zh.print.narrativePending, 9, GRAY);
+    paragraph(en.print.narrativePending, 9, GRAY);
+  }
+
+  /* === 總結 === */
+  heading("summary");
+  pair(report.summary_zh, report.summary_en);
+
+  /* === 14 通道雷達（SVG 座標 y 向下，這裡翻過來）+ 分數表 === */
+  heading("signals");
+  const size = 260;
+  ensure(size);
+  const g = radarGeometry(report.signals14, size);
+  const top = y;
+  const at = (p: { x: number; y: number }) => ({ x: MARGIN + p.x, y: top - p.y });
+  for (const ring of g.rings) pdf.polygon(ring.map(at), RULE);
+  const c = at(g.center);
+  for (const a of g.axes) {
+    const end = at(a.end);
+    pdf.line(c.x, c.y, end.x, end.y, RULE);
+    const label = `${a.text} ${a.score}`;
+    const w = textWidth(label, 7);
+    const pos = at(a.label);
+    const x = a.anchor === "middle" ? pos.x - w / 2 : a.anchor === "end" ? pos.x - w : pos.x;
+    pdf.text(x, pos.y - 2.5, label, 7, BLACK);
+  }
+  pdf.polygon(g.shape.map(at), brandColor, { fill: brandColor, width: 1.5 });
+
+  let rowY = top - 12;
+  const tableX = MARGIN + size + 16;
+  for (const s of report.signals14) {
+    pdf.text(tableX, rowY, s.label_zh, 8, BLACK);
+    pdf.text(tableX + 72, rowY, s.label_en, 7, GRAY);
+    pdf.text(tableX + 170, rowY, String(s.score), 8, BLACK);
+    badge(tableX + 190, rowY, s.tone);
+    rowY -= 17;
+  }
+  y = Math.min(top - size, rowY);
+
+  /* === 8 維度 === */
+  heading("dimensions");
+  for (const d of report.dimensions8) {
+    ensure(60);
+    y -= 22;
+    pdf.rect(MARGIN, y + 16, WIDTH, 0.5, RULE);
+    pdf.text(MARGIN, y, d.title_zh, 12, BLACK);
+    let x = MARGIN + textWidth(d.title_zh, 12) + 6;
+    pdf.text(x, y, d.title_en, 9, GRAY);
+    x += textWidth(d.title_en, 9) + 8;
+    pdf.text(x, y, String(d.score), 12, brandColor);
+    x += textWidth(String(d.score), 12) + 8;
+    x += badge(x, y + 1, d.tone) + 6;
+    if (d.low_confidence) pdf.text(x, y + 1, `${zh.print.lowConfidence} ${en.print.lowConfidence}`, 8, GRAY);
+
+    subheading("finding");
+    pair(d.finding_zh, d.finding_en);
+    subheading("mechanism");
+    pair(d.mechanism_zh, d.mechanism_en);
+    subheading("protocol");
+    bullets(d.protocol_zh);
+    bullets(d.protocol_en, 9, GRAY);
+  }
+
+  /* === 標註影像（每個角度一張，並排） === */
+  if (thumbs.length) {
+    heading("images");
+    const side = 160;
+    ensure(side + 24);
+    y -= side + 8;
+    thumbs.forEach((t, i) => {
+      const scale = side / Math.max(t.width, t.height, 1);
+      const x0 = MARGIN + i * (side + 12);
+      pdf.image(t, x0, y + side - t.height * scale, t.width * scale, t.height * scale);
+      const caption = t.annotated ? t.view : `${t.view} · ${zh.print.unannotated} ${en.print.unannotated}`;
+      for (const [j, line] of wrapText(caption, 7, side).entries()) pdf.text(x0, y - 10 - j * 9, line, 7, GRAY);
+    });
+    y -= 30;
+  }
+
+  /* === 決策層 === */
+  heading("decision");
+  pair(report.decision_zh, report.decision_en);
+  subheading("environment");
+  pair(report.environment_zh, report.environment_en);
+  subheading("priorityNode");
+  pair(report.priority_node_zh, report.priority_node_en);
+  subheading("constraints");
+  bullets(report.constraints_zh);
+  bullets(report.constraints_en, 9, GRAY);
+  subheading("timeline");
+  bullets(report.timeline_zh);
+  bullets(report.timeline_en, 9, GRAY);
+
+  /* === 免責聲明 === */
+  ensure(50);
+  y -= 16;
+  pdf.rect(MARGIN, y, WIDTH, 0.5, RULE);
+  y -= 4;
+  paragraph(zh.print.disclaimer, 8, GRAY);
+  paragraph(en.print.disclaimer, 8, GRAY);
+
+  return pdf.build();
+}
@@ -0,0 +1,74 @@
+import type { ReportSignal } from "../types";
+
+/* =========================
+   ✅ 14 通道雷達圖（HTML 與 PDF 共用同一份幾何）
+   - 第一個通道在正上方，順時針排列；分數 0–100 對應圓心到外框
+   - 格線 25 / 50 / 75 / 100；標籤放在外框外側，依左右決定對齊
+========================= */
+export type Point = { x: number; y: number };
+
+export type RadarAxis = { end: Point; label: Point; anchor: "start" | "middle" | "end"; text: string; score: number };
+
+export type RadarGeometry = {
+  size: number;
+  center: Point;
+  radius: number;
+  rings: Point[][];
+  axes: RadarAxis[];
+  shape: Point[];
+};
+
+const RING_LEVELS = [25, 50, 75, 100];
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+export function radarGeometry(signals: ReportSignal[], size = 400, label: (s: ReportSignal) => string = (s) => s.label_zh): RadarGeometry {
+  const center = { x: size / 2, y: size / 2 };
+  // 外圈留給標籤
+  const radius = size * 0.28;
+  const n = Math.max(signals.length, 3);
+  const at = (i: number, r: number): Point => {
+    const a = -Math.PI / 2 + (2 * Math.PI * i) / n;
+    return { x: round(center.x + r * Math.cos(a)), y: round(center.y + r * Math.sin(a)) };
+  };
+  const clamp = (v: number) => Math.max(0, Math.min(100, Number(v) || 0));
+
+  return {
+    size,
+    center,
+    radius,
+    rings: RING_LEVELS.map((lv) => Array.from({ length: n }, (_, i) => at(i, (radius * lv) / 100))),
+    axes: signals.map((s, i) => {
+      const end = at(i, radius);
+      const pos = at(i, radius + 14);
+      const dx = pos.x - center.x;
+      return {
+        end,
+        label: pos,
+        anchor: Math.abs(dx) < 4 ? "middle" : dx > 0 ? "start" : "end",
+        text: label(s),
+        score: clamp(s.score),
+      };
+    }),
+    shape: signals.map((s, i) => at(i, (radius * clamp(s.score)) / 100)),
+  };
+}
+
+const esc = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const pts = (ps: Point[]) => ps.map((p) => `${p.x},${p.y}`).join(" ");
+
+export function radarSvg(signals: ReportSignal[], opts: { size?: number; color?: string } = {}) {
+  const g = radarGeometry(signals, opts.size);
+  const color = opts.color || "#1f3a5f";
+  const rings = g.rings.map((r) => `<polygon points="${pts(r)}" fill="none" stroke="#d5dbe3" stroke-width="1"/>`).join("");
+  const axes = g.axes.map((a) =>
+    `<line x1="${g.center.x}" y1="${g.center.y}" x2="${a.end.x}" y2="${a.end.y}" stroke="#d5dbe3" stroke-width="1"/>` +
+    `<text x="${a.label.x}" y="${a.label.y}" text-anchor="${a.anchor}" dominant-baseline="middle" font-size="10" fill="#333">${esc(a.text)} ${a.score}</text>`,
+  ).join("");
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${g.size} ${g.size}" width="${g.size}" height="${g.size}" role="img">` +
+    rings + axes +
+    `<polygon points="${pts(g.shape)}" fill="${esc(color)}" fill-opacity="0.25" stroke="${esc(color)}" stroke-width="2"/>` +
+    g.shape.map((p) => `<circle cx="${p.x}" cy="${p.y}" r="2.5" fill="${esc(color)}"/>`).join("") +
+    `</svg>`;
+}
@@ -0,0 +1,38 @@
+import { getAnnotated, getSource } from "../annotate";
+import { decodeImage } from "../image/decode";
+import { encodeJpeg } from "../image/jpeg-encode";
+import { downsample } from "../image/raster";
+import type { KVStore } from "../store";
+import type { View } from "../types";
+
+/* =========================
+   ✅ 影像縮圖（列印版報告用）
+   - 每個角度一張：有標註圖（lib/annotate，遮罩與圖例已疊好）就用它，還沒合成好 / 沒出圖 → POST 時存的原圖
+     都是我們自己 KV 裡的東西，不再抓供應商的 mask_urls（網址會過期，匯出舊報告時早就失效）
+   - 縮到 THUMB_SIDE 轉 JPEG：HTML 用 data URI、PDF 直接嵌 DCTDecode，文件本身不再引用外部網址
+   - 讀不到 / 解不開就跳過（列印不因縮圖失敗而中斷）；原圖過了保存期限 → 沒有縮圖
+========================= */
+export type Thumbnail = { view: View; annotated: boolean; width: number; height: number; jpeg: Uint8Array };
+
+const THUMB_SIDE = 320;
+const VIEW_ORDER: View[] = ["front", "left", "right"];
+
+async function thumbnailOf(store: KVStore, scanId: string, view: View): Promise<Thumbnail | null> {
+  const annotated = await getAnnotated(store, scanId, view);
+  const bytes = annotated?.bytes ?? (await getSource(store, scanId, view));
+  if (!bytes) return null;
+  const r = downsample(await decodeImage(bytes, annotated ? "image/png" : "image/jpeg", { targetSide: THUMB_SIDE }), THUMB_SIDE);
+  return { view, annotated: !!annotated, width: r.width, height: r.height, jpeg: encodeJpeg(r, 0.85) };
+}
+
+export async function scanThumbnails(store: KVStore, scanId: string, views: View[]): Promise<Thumbnail[]> {
+  const done = await Promise.all(VIEW_ORDER.filter((v) => views.includes(v)).map(async (view) => {
+    try {
+      return await thumbnailOf(store, scanId, view);
+    } catch (err) {
+      console.error(`[Export] ${view} thumbnail failed:`, err);
+      return null;
+    }
+  }));
+  return done.filter((t): t is Thumbnail => !!t);
+}
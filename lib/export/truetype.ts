@@ -0,0 +1,245 @@
+/* =========================
+   ✅ TrueType 子集（PDF 嵌入中文字型用，給 pdf-writer）
+   - 只收 glyf 外框的 .ttf（例如 Noto Sans TC 的 TTF 版）；CFF 外框（OTTO）、.ttc 不收 → 丟錯
+   - 子集：只留用到的字形（含複合字形引用的零件），字形編號從 1 重新排（0 = .notdef）
+     PDF 那邊用 Identity-H + CIDToGIDMap /Identity，CID 就是新的字形編號，所以不需要 cmap 表
+   - 只讀 BMP 的 cmap（format 4 / 12 都可）；pdf-writer 本來就丟掉 BMP 以外的字元
+========================= */
+export type TrueTypeFont = {
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  bbox: [number, number, number, number];
+  // 字元 → 原字型的字形編號；字型裡沒有 → 0
+  glyphOf(code: number): number;
+  advanceOf(gid: number): number;
+  // gids 依序成為新字型的 1..n
+  subset(gids: number[]): Uint8Array;
+};
+
+type Table = { offset: number; length: number };
+
+// 子集照抄的表（hinting 相關的有就帶上）；cmap 不需要，post 改成 3.0（不帶字形名稱）
+const COPY_TABLES = ["OS/2", "cvt ", "fpgm", "prep", "name"];
+
+// 複合字形旗標
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+function readTables(view: DataView) {
+  const tables = new Map<string, Table>();
+  const count = view.getUint16(4);
+  for (let i = 0; i < count; i++) {
+    const at = 12 + i * 16;
+    const tag = String.fromCharCode(view.getUint8(at), view.getUint8(at + 1), view.getUint8(at + 2), view.getUint8(at + 3));
+    tables.set(tag, { offset: view.getUint32(at + 8), length: view.getUint32(at + 12) });
+  }
+  return tables;
+}
+
+// 挑 Unicode 的 subtable：format 12（3,10 / 0,4…）優先，其次 format 4（3,1 / 0,3…）
+function cmapLookup(view: DataView, cmap: Table): (code: number) => number {
+  const count = view.getUint16(cmap.offset + 2);
+  let best: { format: number; offset: number } | null = null;
+  for (let i = 0; i < count; i++) {
+    const rec = cmap.offset + 4 + i * 8;
+    const platform = view.getUint16(rec);
+    const encoding = view.getUint16(rec + 2);
+    const offset = cmap.offset + view.getUint32(rec + 4);
+    const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    const format = view.getUint16(offset);
+    if (!unicode || (format !== 4 && format !== 12)) continue;
+    if (!best || (format === 12 && best.format === 4)) best = { format, offset };
+  }
+  if (!best) throw new Error("Font has no Unicode cmap");
+  const { format, offset } = best;
+
+  if (format === 12) {
+    const groups = view.getUint32(offset + 12);
+    return (code) => {
+      let lo = 0;
+      let hi = groups - 1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const g = offset + 16 + mid * 12;
+        const start = view.getUint32(g);
+        if (code < start) hi = mid - 1;
+        else if (code > view.getUint32(g + 4)) lo = mid + 1;
+        else return view.getUint32(g + 8) + code - start;
+      }
+      return 0;
+    };
+  }
+
+  const segs = view.getUint16(offset + 6) / 2;
+  const ends = offset + 14;
+  const starts = ends + segs * 2 + 2;
+  const deltas = starts + segs * 2;
+  const ranges = deltas + segs * 2;
+  return (code) => {
+    for (let i = 0; i < segs; i++) {
+      if (code > view.getUint16(ends + i * 2)) continue;
+      const start = view.getUint16(starts + i * 2);
+      if (code < start) return 0;
+      const delta = view.getInt16(deltas + i * 2);
+      const rangeOffset = view.getUint16(ranges + i * 2);
+      if (!rangeOffset) return (code + delta) & 0xffff;
+      const gid = view.getUint16(ranges + i * 2 + rangeOffset + (code - start) * 2);
+      return gid ? (gid + delta) & 0xffff : 0;
+    }
+    return 0;
+  };
+}
+
+// 表要 4 byte 對齊；checksum 閱讀器不驗，一律填 0
+function assemble(tables: [string, Uint8Array][]) {
+  const headerSize = 12 + tables.length * 16;
+  const padded = (n: number) => (n + 3) & ~3;
+  const total = tables.reduce((n, [, t]) => n + padded(t.length), headerSize);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  const log2 = Math.floor(Math.log2(tables.length));
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tables.length);
+  view.setUint16(6, 16 * 2 ** log2);
+  view.setUint16(8, log2);
+  view.setUint16(10, tables.length * 16 - 16 * 2 ** log2);
+  let at = headerSize;
+  [...tables].sort(([a], [b]) => (a < b ? -1 : 1)).forEach(([tag, data], i) => {
+    const rec = 12 + i * 16;
+    for (let c = 0; c < 4; c++) out[rec + c] = tag.charCodeAt(c);
+    view.setUint32(rec + 8, at);
+    view.setUint32(rec + 12, data.length);
+    out.set(data, at);
+    at += padded(data.length);
+  });
+  return out;
+}
+
+export function parseTrueType(bytes: Uint8Array): TrueTypeFont {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint32(0);
+  if (version !== 0x00010000 && version !== 0x74727565) {
+    throw new Error("Only TrueType (glyf) fonts can be embedded; CFF-based .otf and .ttc are not supported");
+  }
+  const tables = readTables(view);
+  const table = (tag: string) => {
+    const t = tables.get(tag);
+    if (!t) throw new Error(`Font is missing the ${tag} table`);
+    return t;
+  };
+  const head = table("head");
+  const hhea = table("hhea");
+  const maxp = table("maxp");
+  const hmtx = table("hmtx");
+  const loca = table("loca");
+  const glyf = table("glyf");
+  const glyphOf = cmapLookup(view, table("cmap"));
+
+  const numGlyphs = view.getUint16(maxp.offset + 4);
+  const numHMetrics = view.getUint16(hhea.offset + 34);
+  const longLoca = view.getInt16(head.offset + 50) === 1;
+  const slice = (t: Table) => bytes.slice(t.offset, t.offset + t.length);
+
+  const glyphRange = (gid: number) => {
+    const at = (i: number) => (longLoca ? view.getUint32(loca.offset + i * 4) : view.getUint16(loca.offset + i * 2) * 2);
+    return gid < numGlyphs ? { start: glyf.offset + at(gid), end: glyf.offset + at(gid + 1) } : { start: 0, end: 0 };
+  };
+
+  const advanceOf = (gid: number) => view.getUint16(hmtx.offset + Math.min(gid, numHMetrics - 1) * 4);
+  const lsbOf = (gid: number) =>
+    gid < numHMetrics ? view.getInt16(hmtx.offset + gid * 4 + 2) : view.getInt16(hmtx.offset + numHMetrics * 4 + (gid - numHMetrics) * 2);
+
+  // 複合字形：回傳每個零件 glyphIndex 在字形資料裡的位置
+  const components = (start: number, end: number) => {
+    const out: { at: number; gid: number }[] = [];
+    if (end - start < 10 || view.getInt16(start) >= 0) return out;
+    let p = start + 10;
+    for (;;) {
+      const flags = view.getUint16(p);
+      out.push({ at: p + 2 - start, gid: view.getUint16(p + 2) });
+      p += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+      if (flags & WE_HAVE_A_SCALE) p += 2;
+      else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) p += 4;
+      else if (flags & WE_HAVE_A_TWO_BY_TWO) p += 8;
+      if (!(flags & MORE_COMPONENTS)) return out;
+    }
+  };
+
+  const subset = (gids: number[]) => {
+    // 新編號：0 = .notdef，接著是呼叫端給的順序，最後補複合字形的零件
+    const order = [0, ...gids.filter((g) => g > 0)];
+    const newId = new Map(order.map((g, i) => [g, i]));
+    for (let i = 0; i < order.length; i++) {
+      const { start, end } = glyphRange(order[i]);
+      for (const c of components(start, end)) {
+        if (!newId.has(c.gid)) {
+          newId.set(c.gid, order.length);
+          order.push(c.gid);
+        }
+      }
+    }
+
+    const glyphs = order.map((gid) => {
+      const { start, end } = glyphRange(gid);
+      const data = bytes.slice(start, end);
+      const dv = new DataView(data.buffer);
+      for (const c of components(start, end)) dv.setUint16(c.at, newId.get(c.gid)!);
+      return data;
+    });
+
+    const glyfOut = new Uint8Array(glyphs.reduce((n, g) => n + ((g.length + 3) & ~3), 0));
+    const locaOut = new Uint8Array((order.length + 1) * 4);
+    const locaView = new DataView(locaOut.buffer);
+    let at = 0;
+    glyphs.forEach((g, i) => {
+      locaView.setUint32(i * 4, at);
+      glyfOut.set(g, at);
+      at += (g.length + 3) & ~3;
+    });
+    locaView.setUint32(order.length * 4, at);
+
+    const hmtxOut = new Uint8Array(order.length * 4);
+    const hmtxView = new DataView(hmtxOut.buffer);
+    order.forEach((gid, i) => {
+      hmtxView.setUint16(i * 4, advanceOf(gid));
+      hmtxView.setInt16(i * 4 + 2, lsbOf(gid));
+    });
+
+    const headOut = slice(head);
+    new DataView(headOut.buffer).setUint32(8, 0); // checkSumAdjustment
+    new DataView(headOut.buffer).setInt16(50, 1); // loca 用 32 位元
+    const hheaOut = slice(hhea);
+    new DataView(hheaOut.buffer).setUint16(34, order.length);
+    const maxpOut = slice(maxp);
+    new DataView(maxpOut.buffer).setUint16(4, order.length);
+    const postOut = new Uint8Array(32);
+    const post = tables.get("post");
+    if (post) postOut.set(bytes.subarray(post.offset, post.offset + Math.min(32, post.length)));
+    new DataView(postOut.buffer).setUint32(0, 0x00030000);
+
+    return assemble([
+      ["head", headOut],
+      ["hhea", hheaOut],
+      ["maxp", maxpOut],
+      ["hmtx", hmtxOut],
+      ["loca", locaOut],
+      ["glyf", glyfOut],
+      ["post", postOut],
+      ...COPY_TABLES.filter((tag) => tables.has(tag)).map((tag): [string, Uint8Array] => [tag, slice(tables.get(tag)!)]),
+    ]);
+  };
+
+  return {
+    unitsPerEm: view.getUint16(head.offset + 18),
+    ascent: view.getInt16(hhea.offset + 4),
+    descent: view.getInt16(hhea.offset + 6),
+    bbox: [0, 2, 4, 6].map((o) => view.getInt16(head.offset + 36 + o)) as [number, number, number, number],
+    glyphOf,
+    advanceOf,
+    subset,
+  };
+}
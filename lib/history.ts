@@ -0,0 +1,147 @@
+import { historyTtlSec, retention } from "./privacy";
+import type { RawScores, ZoneScores } from "./scoring";
+import type { KVStore } from "./store";
+import type { Report, Tone } from "./types";
+
+/* =========================
+   ✅ 每位使用者的掃描歷史 + 兩次掃描的差異
+   - 只存分數快照（signals14 / dimensions8 的 id、score、tone）與融合後的原始分數，不存影像與文案
+   - 原始分數（＋遮罩分區分數）+ scoring_version → 之後可用任何計分版本重算（replay）
+   - 同一個 task 重複 GET 只算一次（以正面 task_id upsert），scan_id 因此固定
+   - KV key：history:<tenant>:<user_id>（未啟用驗證的租戶記為 "-"），值是依 produced_at 排序的陣列
+     user_id 只在租戶內唯一；兩個租戶用同一個 user_id 不會共用歷史
+   - 超過 RETENTION_HISTORY_DAYS（lib/privacy）的紀錄讀取時就濾掉，下次寫入時一併清除
+========================= */
+export type ScoreSnapshot = { id: string; score: number; tone: Tone };
+
+// 歷史的主人：租戶（驗證後的 tenant id；未啟用驗證 → null）+ 租戶內的 user_id
+export type HistoryOwner = { tenant: string | null; user_id: string };
+
+export type HistoryEntry = {
+  scan_id: string;
+  user_id: string;
+  task_id: string;
+  produced_at: string;
+  scoring_version?: string;
+  raw_scores?: RawScores;
+  zone_scores?: ZoneScores;
+  signals: ScoreSnapshot[];
+  dimensions: ScoreSnapshot[];
+};
+
+export type Trend = "up" | "down" | "flat";
+
+export type DeltaItem = {
+  id: string;
+  from: number;
+  to: number;
+  delta: number;
+  trend: Trend;
+  tone_from: Tone;
+  tone_to: Tone;
+  tone_changed: boolean;
+};
+
+export type ScanDelta = {
+  user_id: string;
+  from: { scan_id: string; produced_at: string };
+  to: { scan_id: string; produced_at: string };
+  days_between: number;
+  signals: DeltaItem[];
+  dimensions: DeltaItem[];
+  summary: { improved: number; declined: number; unchanged: number };
+};
+
+// ±2 以內視為量測雜訊
+const FLAT_BAND = 2;
+
+const USER_ID_RE = /^[A-Za-z0-9_.:@-]{1,128}$/;
+
+export function isValidUserId(userId: string) {
+  return USER_ID_RE.test(userId);
+}
+
+const keyOf = (owner: HistoryOwner) => `history:${owner.tenant ?? "-"}:${owner.user_id}`;
+
+export async function listScans(store: KVStore, owner: HistoryOwner): Promise<HistoryEntry[]> {
+  const cutoff = new Date(Date.now() - retention().history_days * 24 * 3600 * 1000).toISOString();
+  return ((await store.get<HistoryEntry[]>(keyOf(owner))) || []).filter((e) => e.produced_at >= cutoff);
+}
+
+// 以 scan_id 去重：同一次掃描重複 GET 只記一筆；去重共用 task 的兩次掃描各記一筆
+export async function recordScan(
+  store: KVStore,
+  owner: HistoryOwner,
+  taskId: string,
+  report: Report,
+  rawScores?: RawScores,
+): Promise<HistoryEntry> {
+  const entries = await listScans(store, owner);
+  const existing = entries.find((e) => e.scan_id === report.scan_id);
+  if (existing) return existing;
+
+  const entry: HistoryEntry = {
+    scan_id: report.scan_id,
+    user_id: owner.user_id,
+    task_id: taskId,
+    produced_at: report.produced_at,
+    scoring_version: report.scoring_version,
+    raw_scores: rawScores,
+    zone_scores: report.zone_scores,
+    signals: report.signals14.map((s) => ({ id: s.id, score: s.score, tone: s.tone })),
+    dimensions: report.dimensions8.map((d) => ({ id: d.id, score: d.score, tone: d.tone })),
+  };
+  entries.push(entry);
+  entries.sort((a, b) => a.produced_at.localeCompare(b.produced_at));
+  await store.set(keyOf(owner), entries, { ttlSec: historyTtlSec() });
+  return entry;
+}
+
+// 刪除某次掃描；有刪到 → true
+export async function deleteScanEntry(store: KVStore, owner: HistoryOwner, scanId: string) {
+  const entries = await listScans(store, owner);
+  const kept = entries.filter((e) => e.scan_id !== scanId);
+  if (kept.length === entries.length) return false;
+  if (kept.length) await store.set(keyOf(owner), kept, { ttlSec: historyTtlSec() });
+  else await store.delete(keyOf(owner));
+  return true;
+}
+
+export function diffItems(from: ScoreSnapshot[], to: ScoreSnapshot[]): DeltaItem[] {
+  const before = new Map(from.map((x) => [x.id, x]));
+  return to
+    .filter((x) => before.has(x.id))
+    .map((x) => {
+      const b = before.get(x.id)!;
+      const delta = x.score - b.score;
+      return {
+        id: x.id,
+        from: b.score,
+        to: x.score,
+        delta,
+        trend: delta > FLAT_BAND ? "up" : delta < -FLAT_BAND ? "down" : "flat",
+        tone_from: b.tone,
+        tone_to: x.tone,
+        tone_changed: b.tone !== x.tone,
+      };
+    });
+}
+
+// 分數越高越好：up = 改善
+export function diffScans(from: HistoryEntry, to: HistoryEntry): ScanDelta {
+  const signals = diffItems(from.signals, to.signals);
+  const dimensions = diffItems(from.dimensions, to.dimensions);
+  // summary 以 dimensions8 計（使用者看到的八張卡）
+  const count = (t: Trend) => dimensions.filter((d) => d.trend === t).length;
+  const ms = Date.parse(to.produced_at) - Date.parse(from.produced_at);
+
+  return {
+    user_id: to.user_id,
+    from: { scan_id: from.scan_id, produced_at: from.produced_at },
+    to: { scan_id: to.scan_id, produced_at: to.produced_at },
+    days_between: Math.round((ms / 86_400_000) * 10) / 10,
+    signals,
+    dimensions,
+    summary: { improved: count("up"), declined: count("down"), unchanged: count("flat") },
+  };
+}
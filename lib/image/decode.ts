@@ -0,0 +1,117 @@
+import { readOrientation } from "./exif";
+import { decodeHeic, readHeicSize } from "./heic";
+import { decodeJpeg } from "./jpeg";
+import { decodePng, isPng } from "./png";
+import { orient, type Raster } from "./raster";
+
+declare const process: { env: Record<string, string | undefined> };
+
+/* =========================
+   ✅ 影像解碼入口
+   - 有 createImageBitmap + OffscreenCanvas → 原生解碼（快）
+   - 沒有（或原生失敗）→ 純 JS：JPEG / PNG / HEIC（lib/image/heic，libheif-js）
+   - 回傳的像素一律已依 EXIF orientation 轉正
+   - 像素上限 IMAGE_MAX_PIXELS（預設 4096×4096）：先讀標頭的尺寸，超過就不解，不配置任何像素
+     純 JS 解一張 12 MP 的 JPEG ≈ DCT 係數 36 MB + RGBA 48 MB，Edge isolate 只有 128 MB
+   - targetSide：JPEG 解碼時直接縮小（1/2、1/4、1/8，長邊不低於 targetSide），RGBA 只配置縮小後的
+   - original：原圖（轉正後）的真實尺寸；縮小解碼時 width / height 是縮小後的
+========================= */
+export type ImageFormat = "jpeg" | "png" | "heic" | "webp" | "unknown";
+
+export function sniffFormat(data: Uint8Array): ImageFormat {
+  if (data[0] === 0xff && data[1] === 0xd8) return "jpeg";
+  if (isPng(data)) return "png";
+  const ascii = (a: number, b: number) => String.fromCharCode(...data.subarray(a, b));
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "webp";
+  if (ascii(4, 8) === "ftyp" && /^(heic|heix|hevc|hevx|heim|heis|mif1|msf1)$/.test(ascii(8, 12))) return "heic";
+  return "unknown";
+}
+
+const DEFAULT_MAX_PIXELS = 4096 * 4096;
+
+export function maxImagePixels() {
+  const n = Number(process.env.IMAGE_MAX_PIXELS);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_MAX_PIXELS;
+}
+
+// 只讀標頭（JPEG SOF / PNG IHDR / HEIC ispe）；其他格式或讀不到 → null
+export function readImageSize(data: Uint8Array): { width: number; height: number } | null {
+  const format = sniffFormat(data);
+  if (format === "heic") return readHeicSize(data);
+  if (format === "png" && data.length >= 24) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (format !== "jpeg") return null;
+  let offset = 2;
+  while (offset + 9 <= data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    if (marker === 0xff) { offset++; continue; }
+    if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) { offset += 2; continue; }
+    // SOF0–SOF15（DHT / JPG / DAC 除外）
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: (data[offset + 5] << 8) | data[offset + 6], width: (data[offset + 7] << 8) | data[offset + 8] };
+    }
+    if (marker === 0xda || marker === 0xd9) return null;
+    offset += 2 + ((data[offset + 2] << 8) | data[offset + 3]);
+  }
+  return null;
+}
+
+export function tooManyPixels(data: Uint8Array) {
+  const size = readImageSize(data);
+  return !!size && size.width * size.height > maxImagePixels();
+}
+
+export function hasNativeCanvas() {
+  return typeof createImageBitmap === "function" && typeof OffscreenCanvas !== "undefined";
+}
+
+async function decodeNative(data: Uint8Array, type: string): Promise<Raster> {
+  const bmp = await createImageBitmap(new Blob([data as BlobPart], { type }), { imageOrientation: "from-image" });
+  const canvas = new OffscreenCanvas(bmp.width, bmp.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.drawImage(bmp, 0, 0);
+  const img = ctx.getImageData(0, 0, bmp.width, bmp.height);
+  return { width: img.width, height: img.height, data: img.data };
+}
+
+export async function decodeImage(
+  data: Uint8Array,
+  type?: string,
+  opts?: { targetSide?: number },
+): Promise<Raster & { format: ImageFormat; original: { width: number; height: number } }> {
+  const format = sniffFormat(data);
+  if (tooManyPixels(data)) throw new Error(`Image exceeds ${maxImagePixels()} pixels`);
+  const sizeOf = (r: Raster) => ({ width: r.width, height: r.height });
+
+  if (hasNativeCanvas()) {
+    try {
+      const r = await decodeNative(data, type || `image/${format}`);
+      return { ...r, format, original: sizeOf(r) };
+    } catch {
+      // 原生不支援這個格式 → 走純 JS
+    }
+  }
+
+  const orientation = readOrientation(data, format);
+  if (format === "jpeg") {
+    const r = orient(decodeJpeg(data, opts?.targetSide), orientation);
+    const header = readImageSize(data);
+    const original = !header ? sizeOf(r) : orientation >= 5 && orientation <= 8
+      ? { width: header.height, height: header.width }
+      : header;
+    return { ...r, format, original };
+  }
+  if (format === "png") {
+    const r = orient(await decodePng(data), orientation);
+    return { ...r, format, original: sizeOf(r) };
+  }
+  if (format === "heic") {
+    const r = await decodeHeic(data);
+    return { ...r, format, original: sizeOf(r) };
+  }
+  throw new Error(`Unsupported image format: ${format}`);
+}
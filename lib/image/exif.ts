@@ -0,0 +1,83 @@
+import type { ImageFormat } from "./decode";
+
+/* =========================
+   ✅ EXIF：讀方向、去掉 metadata
+   - 手機直拍常是 orientation=6（像素橫躺，靠 EXIF 轉正）
+   - JPEG 看 APP1 "Exif"；PNG 看 eXIf chunk；兩者都是 TIFF 結構
+   - HEIC 的方向在 irot/imir box，原生解碼與 libheif（lib/image/heic）都會處理
+========================= */
+export type Orientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+function tiffOrientation(tiff: Uint8Array): Orientation {
+  if (tiff.length < 8) return 1;
+  const le = tiff[0] === 0x49 && tiff[1] === 0x49;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const u16 = (o: number) => view.getUint16(o, le);
+  const u32 = (o: number) => view.getUint32(o, le);
+  if (u16(2) !== 42) return 1;
+
+  const ifd = u32(4);
+  if (ifd + 2 > tiff.length) return 1;
+  const count = u16(ifd);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    if (u16(entry) !== 0x0112) continue;
+    const v = u16(entry + 8);
+    return v >= 1 && v <= 8 ? (v as Orientation) : 1;
+  }
+  return 1;
+}
+
+export function readOrientation(data: Uint8Array, format: ImageFormat): Orientation {
+  try {
+    if (format === "jpeg") {
+      let offset = 2;
+      while (offset + 4 <= data.length && data[offset] === 0xff) {
+        const marker = data[offset + 1];
+        const len = (data[offset + 2] << 8) | data[offset + 3];
+        if (marker === 0xda) break; // SOS 之後就是影像資料
+        const body = data.subarray(offset + 4, offset + 2 + len);
+        if (marker === 0xe1 && String.fromCharCode(...body.subarray(0, 6)) === "Exif\0\0") {
+          return tiffOrientation(body.subarray(6));
+        }
+        offset += 2 + len;
+      }
+    }
+    if (format === "png") {
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      let offset = 8;
+      while (offset + 8 <= data.length) {
+        const len = view.getUint32(offset);
+        const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+        if (type === "eXIf") return tiffOrientation(data.subarray(offset + 8, offset + 8 + len));
+        if (type === "IDAT" || type === "IEND") break;
+        offset += 12 + len;
+      }
+    }
+  } catch {
+    // 壞掉的 EXIF 不影響解碼
+  }
+  return 1;
+}
+
+// 無損去掉 JPEG 的 APP1–APP15 / COM（EXIF、GPS、XMP、MakerNote）
+// 保留 APP0（JFIF）與 APP14（Adobe，CMYK 解讀要用）；只在解不開、無法重編碼時使用
+export function stripJpegMetadata(data: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [data.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker === 0xda) break;
+    const len = (data[offset + 2] << 8) | data[offset + 3];
+    const keep = !((marker >= 0xe1 && marker <= 0xef && marker !== 0xee) || marker === 0xfe);
+    if (keep) parts.push(data.subarray(offset, offset + 2 + len));
+    offset += 2 + len;
+  }
+  parts.push(data.subarray(offset));
+
+  const out = new Uint8Array(parts.reduce((s, p) => s + p.length, 0));
+  let o = 0;
+  for (const p of parts) { out.set(p, o); o += p.length; }
+  return out;
+}
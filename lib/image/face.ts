@@ -0,0 +1,151 @@
+import { downsample, type Raster } from "./raster";
+
+/* =========================
+   ✅ 輕量臉部偵測（不靠模型，送 YouCam 前的守門）
+   - YCbCr 膚色遮罩 → 連通區塊 → 形狀篩選
+   - 區塊內上半部要有「洞」（眼睛/眉毛），沒有就不是臉（牆、手、木頭）
+   - yaw：雙眼中點相對臉框中心的偏移；pitch：眼線高度 / 臉寬
+   - 只量不判斷；門檻在 api/scan.ts 的 FACE_GATE_RULES
+========================= */
+const DETECT_SIDE = 240;
+
+export type FaceBox = { x: number; y: number; w: number; h: number };
+
+export type FaceDetection = {
+  faces: number;
+  // 最大的臉（0–1 正規化座標）
+  box: FaceBox | null;
+  area_ratio: number;
+  // 臉框中心相對畫面中心的偏移（-0.5–0.5）
+  center_dx: number;
+  center_dy: number;
+  yaw_deg: number;
+  pitch_deg: number;
+};
+
+function isSkin(r: number, g: number, b: number) {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > 40 && cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+type Blob = { label: number; area: number; x0: number; y0: number; x1: number; y1: number };
+
+function labelSkin(mask: Uint8Array, w: number, h: number) {
+  const labels = new Int32Array(w * h);
+  const stack = new Int32Array(w * h);
+  const blobs: Blob[] = [];
+  let next = 1;
+
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i] || labels[i]) continue;
+    const blob: Blob = { label: next, area: 0, x0: w, y0: h, x1: 0, y1: 0 };
+    let sp = 0;
+    stack[sp++] = i;
+    labels[i] = next;
+    while (sp > 0) {
+      const p = stack[--sp];
+      const x = p % w, y = (p / w) | 0;
+      blob.area++;
+      if (x < blob.x0) blob.x0 = x;
+      if (x > blob.x1) blob.x1 = x;
+      if (y < blob.y0) blob.y0 = y;
+      if (y > blob.y1) blob.y1 = y;
+      const nb = [x > 0 ? p - 1 : -1, x < w - 1 ? p + 1 : -1, y > 0 ? p - w : -1, y < h - 1 ? p + w : -1];
+      for (const q of nb) {
+        if (q >= 0 && mask[q] && !labels[q]) {
+          labels[q] = next;
+          stack[sp++] = q;
+        }
+      }
+    }
+    blobs.push(blob);
+    next++;
+  }
+  return { labels, blobs };
+}
+
+// 眼帶（臉框 12%–68% 高）裡，被膚色左右包住的非膚色像素 = 五官的洞
+function findFeatures(labels: Int32Array, w: number, b: Blob) {
+  const bw = b.x1 - b.x0 + 1;
+  const bh = b.y1 - b.y0 + 1;
+  const top = b.y0 + Math.floor(bh * 0.12);
+  const bottom = b.y0 + Math.floor(bh * 0.68);
+  const midX = b.x0 + bw / 2;
+
+  let holes = 0, band = 0, sumY = 0;
+  let lN = 0, lX = 0, rN = 0, rX = 0;
+  for (let y = top; y <= bottom; y++) {
+    let first = -1, last = -1;
+    for (let x = b.x0; x <= b.x1; x++) {
+      if (labels[y * w + x] === b.label) {
+        if (first < 0) first = x;
+        last = x;
+      }
+    }
+    if (first < 0) continue;
+    band += last - first + 1;
+    for (let x = first; x <= last; x++) {
+      if (labels[y * w + x] === b.label) continue;
+      holes++;
+      sumY += y;
+      if (x < midX) { lN++; lX += x; } else { rN++; rX += x; }
+    }
+  }
+
+  if (!band || holes / band < 0.015 || (!lN && !rN)) return null;
+  const eyeY = sumY / holes;
+  const eyesMidX = lN && rN ? (lX / lN + rX / rN) / 2 : lN ? lX / lN : rX / rN;
+  return { eyeY, eyesMidX, holeRatio: holes / band };
+}
+
+export function detectFaces(full: Raster): FaceDetection {
+  const r = downsample(full, DETECT_SIDE);
+  const { width: w, height: h, data } = r;
+  const mask = new Uint8Array(w * h);
+  for (let i = 0, p = 0; i < mask.length; i++, p += 4) {
+    mask[i] = isSkin(data[p], data[p + 1], data[p + 2]) ? 1 : 0;
+  }
+
+  const { labels, blobs } = labelSkin(mask, w, h);
+  const minArea = w * h * 0.01;
+
+  const candidates = blobs
+    .filter((b) => b.area >= minArea)
+    .map((b) => {
+      const bw = b.x1 - b.x0 + 1;
+      const bh = b.y1 - b.y0 + 1;
+      const aspect = bh / bw;
+      const fill = b.area / (bw * bh);
+      if (aspect < 0.7 || aspect > 2.6 || fill < 0.35) return null;
+      const features = findFeatures(labels, w, b);
+      if (!features) return null;
+      return { b, bw, bh, ...features };
+    })
+    .filter((x): x is NonNullable<typeof x> => !!x)
+    .sort((a, z) => z.b.area - a.b.area);
+
+  const empty: FaceDetection = { faces: 0, box: null, area_ratio: 0, center_dx: 0, center_dy: 0, yaw_deg: 0, pitch_deg: 0 };
+  if (!candidates.length) return empty;
+
+  const main = candidates[0];
+  // 比最大臉小太多的（背景海報、手）不算第二張臉
+  const faces = candidates.filter((c) => c.b.area >= main.b.area * 0.35).length;
+
+  const box = { x: main.b.x0 / w, y: main.b.y0 / h, w: main.bw / w, h: main.bh / h };
+  const offset = (main.eyesMidX - (main.b.x0 + main.bw / 2)) / (main.bw / 2);
+  const yaw = (Math.asin(Math.max(-1, Math.min(1, offset / 0.6))) * 180) / Math.PI;
+  const pitch = Math.max(-90, Math.min(90, ((main.eyeY - main.b.y0) / main.bw - 0.5) * 120));
+
+  const round = (v: number, d = 3) => Math.round(v * 10 ** d) / 10 ** d;
+  return {
+    faces,
+    box: { x: round(box.x), y: round(box.y), w: round(box.w), h: round(box.h) },
+    area_ratio: round(main.b.area / (w * h)),
+    center_dx: round(box.x + box.w / 2 - 0.5),
+    center_dy: round(box.y + box.h / 2 - 0.5),
+    yaw_deg: Math.round(yaw),
+    pitch_deg: Math.round(pitch),
+  };
+}
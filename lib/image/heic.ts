@@ -0,0 +1,78 @@
+import { createRaster, type Raster } from "./raster";
+
+/* =========================
+   ✅ 純 JS HEIC 解碼（沒有原生解碼器時的 fallback）
+   - libheif-js 的 asm.js 版（libheif + libde265 編成純 JS，不需要 wasm / 原生模組）
+   - 第一次遇到 HEIC 才載入（約 3 MB），之後同一個 isolate 共用
+   - 解 primary image；irot / imir 由 libheif 套用 → 回傳的像素已轉正
+   - 尺寸看 ispe box（iPhone 的 grid 影像：最大的那個 ispe 就是整張的尺寸）
+========================= */
+type HeifImage = {
+  get_width(): number;
+  get_height(): number;
+  is_primary(): boolean;
+  display(target: { data: Uint8ClampedArray; width: number; height: number }, done: (out: { data: Uint8ClampedArray } | null) => void): void;
+  free(): void;
+};
+
+type LibHeif = {
+  HeifDecoder: new () => { decoder: number | null; decode(data: Uint8Array): HeifImage[] };
+  heif_context_free(ctx: number): void;
+};
+
+let libheif: Promise<LibHeif> | null = null;
+
+function loadLibHeif() {
+  libheif ||= import("libheif-js").then((m: any) => (m.default ?? m) as LibHeif);
+  return libheif;
+}
+
+export async function decodeHeic(data: Uint8Array): Promise<Raster> {
+  const lib = await loadLibHeif();
+  const decoder = new lib.HeifDecoder();
+  const images = decoder.decode(data);
+  try {
+    const image = images.find((i) => i.is_primary()) ?? images[0];
+    if (!image) throw new Error("HEIC has no image");
+    const out = createRaster(image.get_width(), image.get_height());
+    const shown = await new Promise<{ data: Uint8ClampedArray } | null>((resolve) => image.display(out, resolve));
+    if (!shown) throw new Error("HEIC decode failed");
+    return out;
+  } finally {
+    for (const image of images) image.free();
+    if (decoder.decoder) lib.heif_context_free(decoder.decoder);
+  }
+}
+
+// ftyp → meta → iprp → ipco 裡的 ispe；讀不到 → null
+export function readHeicSize(data: Uint8Array): { width: number; height: number } | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const type = (o: number) => String.fromCharCode(...data.subarray(o + 4, o + 8));
+  let best: { width: number; height: number } | null = null;
+
+  const walk = (start: number, end: number, path: string[]) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const size = view.getUint32(offset);
+      const t = type(offset);
+      const boxEnd = size === 0 ? end : offset + size;
+      if (size !== 0 && size < 8) return;
+      if (boxEnd > end) return;
+      if (t === "meta" && !path.length) walk(offset + 12, boxEnd, ["meta"]);
+      else if ((t === "iprp" && path.length === 1) || (t === "ipco" && path.length === 2)) walk(offset + 8, boxEnd, [...path, t]);
+      else if (t === "ispe" && path.length === 3 && offset + 20 <= boxEnd) {
+        const width = view.getUint32(offset + 12);
+        const height = view.getUint32(offset + 16);
+        if (!best || width * height > best.width * best.height) best = { width, height };
+      }
+      offset = boxEnd;
+    }
+  };
+
+  try {
+    walk(0, data.length, []);
+  } catch {
+    return null;
+  }
+  return best;
+}
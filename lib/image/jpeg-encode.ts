@@ -0,0 +1,256 @@
+import { ZIGZAG } from "./jpeg";
+import type { Raster } from "./raster";
+
+/* =========================
+   ✅ 純 JS JPEG 編碼（baseline，4:4:4）
+   - 沒有 OffscreenCanvas 時的重編碼路徑
+   - 只寫 SOI / APP0(JFIF) / DQT / SOF0 / DHT / SOS / EOI → 天生沒有 EXIF/GPS
+   - 量化表、Huffman 表用 JPEG 標準附錄 K；quality 0–1 同 canvas.convertToBlob
+========================= */
+const STD_LUMA_Q = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const STD_CHROMA_Q = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+type HuffSpec = { bits: number[]; values: number[] };
+
+const DC_LUMA: HuffSpec = {
+  bits: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const DC_CHROMA: HuffSpec = {
+  bits: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const AC_LUMA: HuffSpec = {
+  bits: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  values: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+    0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+    0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+    0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+    0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+    0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+const AC_CHROMA: HuffSpec = {
+  bits: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  values: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+    0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+    0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+    0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+    0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+    0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+    0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+// 標準表 → 每個 symbol 的 (code, length)
+function buildCodes(spec: HuffSpec) {
+  const code = new Uint16Array(256);
+  const size = new Uint8Array(256);
+  let c = 0, k = 0;
+  for (let len = 1; len <= 16; len++) {
+    for (let i = 0; i < spec.bits[len - 1]; i++) {
+      const sym = spec.values[k++];
+      code[sym] = c++;
+      size[sym] = len;
+    }
+    c <<= 1;
+  }
+  return { code, size };
+}
+
+// IJG 的 quality 縮放（quality 50 = 標準表）
+function scaleTable(base: number[], quality: number) {
+  const q = Math.max(1, Math.min(100, Math.round(quality * 100)));
+  const s = q < 50 ? 5000 / q : 200 - q * 2;
+  return base.map((v) => Math.max(1, Math.min(255, Math.floor((v * s + 50) / 100))));
+}
+
+const DCT_COS = (() => {
+  const t = new Float32Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      t[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) * Math.cos(((2 * x + 1) * u * Math.PI) / 16) / 2;
+    }
+  }
+  return t;
+})();
+
+// 可分離 2D DCT：先列後行
+function fdct(block: Float32Array, out: Float32Array, tmp: Float32Array) {
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let s = 0;
+      for (let x = 0; x < 8; x++) s += block[y * 8 + x] * DCT_COS[x * 8 + u];
+      tmp[y * 8 + u] = s;
+    }
+  }
+  for (let u = 0; u < 8; u++) {
+    for (let v = 0; v < 8; v++) {
+      let s = 0;
+      for (let y = 0; y < 8; y++) s += tmp[y * 8 + u] * DCT_COS[y * 8 + v];
+      out[v * 8 + u] = s;
+    }
+  }
+}
+
+class BitWriter {
+  private buf = new Uint8Array(1 << 16);
+  private len = 0;
+  private acc = 0;
+  private nbits = 0;
+
+  private byte(b: number) {
+    if (this.len + 2 > this.buf.length) {
+      const next = new Uint8Array(this.buf.length * 2);
+      next.set(this.buf);
+      this.buf = next;
+    }
+    this.buf[this.len++] = b;
+  }
+
+  bytes(arr: ArrayLike<number>) {
+    for (let i = 0; i < arr.length; i++) this.byte(arr[i]);
+  }
+
+  bits(value: number, count: number) {
+    for (let i = count - 1; i >= 0; i--) {
+      this.acc = (this.acc << 1) | ((value >> i) & 1);
+      if (++this.nbits === 8) {
+        this.byte(this.acc);
+        if (this.acc === 0xff) this.byte(0); // byte stuffing
+        this.acc = 0;
+        this.nbits = 0;
+      }
+    }
+  }
+
+  // 剩下的位元補 1
+  flush() {
+    if (this.nbits) this.bits((1 << (8 - this.nbits)) - 1, 8 - this.nbits);
+  }
+
+  result() {
+    return this.buf.slice(0, this.len);
+  }
+}
+
+function category(v: number) {
+  let a = Math.abs(v), n = 0;
+  while (a) { n++; a >>= 1; }
+  return n;
+}
+
+export function encodeJpeg(r: Raster, quality = 0.92): Uint8Array {
+  const { width: w, height: h, data } = r;
+  const qLuma = scaleTable(STD_LUMA_Q, quality);
+  const qChroma = scaleTable(STD_CHROMA_Q, quality);
+  const dcL = buildCodes(DC_LUMA), acL = buildCodes(AC_LUMA);
+  const dcC = buildCodes(DC_CHROMA), acC = buildCodes(AC_CHROMA);
+
+  const out = new BitWriter();
+  const u16 = (v: number) => [(v >> 8) & 0xff, v & 0xff];
+
+  out.bytes([0xff, 0xd8]);
+  // APP0 JFIF 1.01，72 dpi
+  out.bytes([0xff, 0xe0, ...u16(16), 0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, ...u16(1), ...u16(1), 0, 0]);
+  out.bytes([0xff, 0xdb, ...u16(2 + 65 * 2)]);
+  for (const [id, table] of [[0, qLuma], [1, qChroma]] as const) {
+    out.bytes([id, ...Array.from({ length: 64 }, (_, k) => table[ZIGZAG[k]])]);
+  }
+  out.bytes([0xff, 0xc0, ...u16(17), 8, ...u16(h), ...u16(w), 3, 1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1]);
+  const specs: [number, HuffSpec][] = [[0x00, DC_LUMA], [0x10, AC_LUMA], [0x01, DC_CHROMA], [0x11, AC_CHROMA]];
+  out.bytes([0xff, 0xc4, ...u16(2 + specs.reduce((s, [, t]) => s + 17 + t.values.length, 0))]);
+  for (const [id, t] of specs) out.bytes([id, ...t.bits, ...t.values]);
+  out.bytes([0xff, 0xda, ...u16(12), 3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0]);
+
+  const planes = [new Float32Array(64), new Float32Array(64), new Float32Array(64)];
+  const coeffs = new Float32Array(64);
+  const tmp = new Float32Array(64);
+  const pred = [0, 0, 0];
+  const tables = [
+    { q: qLuma, dc: dcL, ac: acL },
+    { q: qChroma, dc: dcC, ac: acC },
+    { q: qChroma, dc: dcC, ac: acC },
+  ];
+  const zz = new Int32Array(64);
+
+  for (let by = 0; by < h; by += 8) {
+    for (let bx = 0; bx < w; bx += 8) {
+      // 取 8×8（邊緣複製最後一列/行），透明像素疊在白底上
+      for (let y = 0; y < 8; y++) {
+        const sy = Math.min(h - 1, by + y);
+        for (let x = 0; x < 8; x++) {
+          const p = (sy * w + Math.min(w - 1, bx + x)) * 4;
+          const a = data[p + 3] / 255;
+          const R = data[p] * a + 255 * (1 - a);
+          const G = data[p + 1] * a + 255 * (1 - a);
+          const B = data[p + 2] * a + 255 * (1 - a);
+          const i = y * 8 + x;
+          planes[0][i] = 0.299 * R + 0.587 * G + 0.114 * B - 128;
+          planes[1][i] = -0.168736 * R - 0.331264 * G + 0.5 * B;
+          planes[2][i] = 0.5 * R - 0.418688 * G - 0.081312 * B;
+        }
+      }
+
+      for (let c = 0; c < 3; c++) {
+        const t = tables[c];
+        fdct(planes[c], coeffs, tmp);
+        for (let k = 0; k < 64; k++) {
+          const n = ZIGZAG[k];
+          zz[k] = Math.round(coeffs[n] / t.q[n]);
+        }
+
+        const diff = zz[0] - pred[c];
+        pred[c] = zz[0];
+        const dcSize = category(diff);
+        out.bits(t.dc.code[dcSize], t.dc.size[dcSize]);
+        if (dcSize) out.bits(diff < 0 ? diff + (1 << dcSize) - 1 : diff, dcSize);
+
+        let run = 0;
+        for (let k = 1; k < 64; k++) {
+          const v = zz[k];
+          if (!v) { run++; continue; }
+          while (run > 15) {
+            out.bits(t.ac.code[0xf0], t.ac.size[0xf0]);
+            run -= 16;
+          }
+          const s = category(v);
+          const sym = (run << 4) | s;
+          out.bits(t.ac.code[sym], t.ac.size[sym]);
+          out.bits(v < 0 ? v + (1 << s) - 1 : v, s);
+          run = 0;
+        }
+        if (run) out.bits(t.ac.code[0x00], t.ac.size[0x00]);
+      }
+    }
+  }
+
+  out.flush();
+  out.bytes([0xff, 0xd9]);
+  return out.result();
+}
@@ -0,0 +1,577 @@
+import type { Raster } from "./raster";
+
+/* =========================
+   ✅ 純 JS JPEG 解碼（baseline + progressive）
+   - Edge 沒有 OffscreenCanvas 時的備援路徑
+   - 支援 1/3/4 components、restart interval、Adobe transform
+   - 不支援 lossless / arithmetic coding（手機相機不會出這種檔）
+========================= */
+export const ZIGZAG = new Int32Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+type Huffman = { maxcode: Int32Array; valptr: Int32Array; mincode: Int32Array; values: Uint8Array };
+
+type Component = {
+  id: number;
+  h: number;
+  v: number;
+  tq: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  blocksPerLineForMcu: number;
+  blocksPerColumnForMcu: number;
+  coeffs: Int16Array;
+  pred: number;
+  dc?: Huffman;
+  ac?: Huffman;
+};
+
+type Frame = {
+  progressive: boolean;
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: Component[];
+};
+
+// JPEG 規格 F.2.2.3：用 maxcode/valptr/mincode 逐 bit 解碼
+function buildHuffman(bits: Uint8Array, values: Uint8Array): Huffman {
+  const maxcode = new Int32Array(17).fill(-1);
+  const valptr = new Int32Array(17);
+  const mincode = new Int32Array(17);
+  let code = 0, k = 0;
+  for (let l = 1; l <= 16; l++) {
+    const n = bits[l - 1];
+    if (n) {
+      valptr[l] = k;
+      mincode[l] = code;
+      code += n;
+      k += n;
+      maxcode[l] = code - 1;
+    }
+    code <<= 1;
+  }
+  return { maxcode, valptr, mincode, values: values.slice() };
+}
+
+function findNextMarker(data: Uint8Array, from: number) {
+  for (let i = from; i < data.length - 1; i++) {
+    if (data[i] === 0xff && data[i + 1] !== 0x00 && data[i + 1] !== 0xff) return i;
+  }
+  return -1;
+}
+
+function decodeScan(
+  data: Uint8Array,
+  start: number,
+  frame: Frame,
+  components: Component[],
+  resetInterval: number,
+  spectralStart: number,
+  spectralEnd: number,
+  successivePrev: number,
+  successive: number,
+) {
+  let offset = start;
+  let bitsData = 0, bitsCount = 0;
+
+  // 碰到 marker 就不再吃資料，補 0（padding 不會走到這裡，但壞檔不要整個 throw）
+  const readBit = () => {
+    if (bitsCount > 0) {
+      bitsCount--;
+      return (bitsData >> bitsCount) & 1;
+    }
+    if (offset >= data.length) return 0;
+    bitsData = data[offset];
+    if (bitsData === 0xff) {
+      const next = data[offset + 1];
+      if (next !== 0x00) return 0;
+      offset += 2;
+    } else {
+      offset++;
+    }
+    bitsCount = 7;
+    return (bitsData >> 7) & 1;
+  };
+
+  const decodeHuffman = (t: Huffman | undefined) => {
+    if (!t) throw new Error("JPEG: missing huffman table");
+    let code = readBit();
+    let l = 1;
+    while (code > t.maxcode[l]) {
+      code = (code << 1) | readBit();
+      l++;
+      if (l > 16) throw new Error("JPEG: invalid huffman code");
+    }
+    return t.values[t.valptr[l] + code - t.mincode[l]];
+  };
+
+  const receive = (length: number) => {
+    let n = 0;
+    while (length > 0) {
+      n = (n << 1) | readBit();
+      length--;
+    }
+    return n;
+  };
+
+  const receiveAndExtend = (length: number) => {
+    if (length === 1) return readBit() ? 1 : -1;
+    const n = receive(length);
+    if (n >= 1 << (length - 1)) return n;
+    return n + (-1 << length) + 1;
+  };
+
+  let eobrun = 0;
+  let acState = 0;
+  let acNextValue = 0;
+
+  const decodeBaseline = (c: Component, off: number) => {
+    const t = decodeHuffman(c.dc);
+    const diff = t === 0 ? 0 : receiveAndExtend(t);
+    c.pred += diff;
+    c.coeffs[off] = c.pred;
+    let k = 1;
+    while (k < 64) {
+      const rs = decodeHuffman(c.ac);
+      const s = rs & 15, r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coeffs[off + ZIGZAG[k]] = receiveAndExtend(s);
+      k++;
+    }
+  };
+
+  const decodeDCFirst = (c: Component, off: number) => {
+    const t = decodeHuffman(c.dc);
+    const diff = t === 0 ? 0 : receiveAndExtend(t) * (1 << successive);
+    c.pred += diff;
+    c.coeffs[off] = c.pred;
+  };
+
+  const decodeDCSuccessive = (c: Component, off: number) => {
+    if (readBit()) c.coeffs[off] |= 1 << successive;
+  };
+
+  const decodeACFirst = (c: Component, off: number) => {
+    if (eobrun > 0) {
+      eobrun--;
+      return;
+    }
+    let k = spectralStart;
+    while (k <= spectralEnd) {
+      const rs = decodeHuffman(c.ac);
+      const s = rs & 15, r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobrun = receive(r) + (1 << r) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coeffs[off + ZIGZAG[k]] = receiveAndExtend(s) * (1 << successive);
+      k++;
+    }
+  };
+
+  const decodeACSuccessive = (c: Component, off: number) => {
+    let k = spectralStart;
+    let r = 0;
+    while (k <= spectralEnd) {
+      const z = off + ZIGZAG[k];
+      const sign = c.coeffs[z] < 0 ? -1 : 1;
+      switch (acState) {
+        case 0: {
+          const rs = decodeHuffman(c.ac);
+          const s = rs & 15;
+          r = rs >> 4;
+          if (s === 0) {
+            if (r < 15) {
+              eobrun = receive(r) + (1 << r);
+              acState = 4;
+            } else {
+              r = 16;
+              acState = 1;
+            }
+          } else {
+            if (s !== 1) throw new Error("JPEG: invalid ACn encoding");
+            acNextValue = receiveAndExtend(s);
+            acState = r ? 2 : 3;
+          }
+          continue;
+        }
+        case 1:
+        case 2:
+          if (c.coeffs[z]) {
+            c.coeffs[z] += sign * (readBit() << successive);
+          } else {
+            r--;
+            if (r === 0) acState = acState === 2 ? 3 : 0;
+          }
+          break;
+        case 3:
+          if (c.coeffs[z]) {
+            c.coeffs[z] += sign * (readBit() << successive);
+          } else {
+            c.coeffs[z] = acNextValue << successive;
+            acState = 0;
+          }
+          break;
+        case 4:
+          if (c.coeffs[z]) c.coeffs[z] += sign * (readBit() << successive);
+          break;
+      }
+      k++;
+    }
+    if (acState === 4) {
+      eobrun--;
+      if (eobrun === 0) acState = 0;
+    }
+  };
+
+  const decodeFn = !frame.progressive
+    ? decodeBaseline
+    : spectralStart === 0
+      ? (successivePrev === 0 ? decodeDCFirst : decodeDCSuccessive)
+      : (successivePrev === 0 ? decodeACFirst : decodeACSuccessive);
+
+  const blockOffset = (c: Component, row: number, col: number) => 64 * (row * c.blocksPerLineForMcu + col);
+
+  const single = components.length === 1;
+  const mcuExpected = single
+    ? components[0].blocksPerLine * components[0].blocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+
+  let mcu = 0;
+  while (mcu < mcuExpected) {
+    const toRead = resetInterval ? Math.min(mcuExpected - mcu, resetInterval) : mcuExpected;
+    for (const c of components) c.pred = 0;
+    eobrun = 0;
+    acState = 0;
+
+    for (let n = 0; n < toRead; n++, mcu++) {
+      if (single) {
+        const c = components[0];
+        const row = (mcu / c.blocksPerLine) | 0;
+        const col = mcu % c.blocksPerLine;
+        decodeFn(c, blockOffset(c, row, col));
+      } else {
+        const mcuRow = (mcu / frame.mcusPerLine) | 0;
+        const mcuCol = mcu % frame.mcusPerLine;
+        for (const c of components) {
+          for (let v = 0; v < c.v; v++) {
+            for (let h = 0; h < c.h; h++) {
+              decodeFn(c, blockOffset(c, mcuRow * c.v + v, mcuCol * c.h + h));
+            }
+          }
+        }
+      }
+    }
+
+    // restart marker：對齊到下一個 RSTn 繼續；其他 marker 表示 scan 結束
+    bitsCount = 0;
+    const m = findNextMarker(data, offset);
+    if (m < 0) return data.length;
+    const code = data[m + 1];
+    if (code >= 0xd0 && code <= 0xd7) {
+      offset = m + 2;
+    } else {
+      return m;
+    }
+  }
+
+  const m = findNextMarker(data, offset);
+  return m < 0 ? data.length : m;
+}
+
+// 可分離浮點 IDCT；AC 全 0 的 block 直接填 DC
+const IDCT_COS = (() => {
+  const t = new Float32Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      t[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return t;
+})();
+
+function buildPlane(c: Component, qt: Uint16Array) {
+  const lineW = c.blocksPerLineForMcu * 8;
+  const plane = new Uint8ClampedArray(lineW * c.blocksPerColumnForMcu * 8);
+  const f = new Float32Array(64);
+  const tmp = new Float32Array(64);
+
+  for (let br = 0; br < c.blocksPerColumnForMcu; br++) {
+    for (let bc = 0; bc < c.blocksPerLineForMcu; bc++) {
+      const off = 64 * (br * c.blocksPerLineForMcu + bc);
+      let acZero = true;
+      for (let i = 1; i < 64; i++) {
+        if (c.coeffs[off + i]) { acZero = false; break; }
+      }
+      const base = br * 8 * lineW + bc * 8;
+
+      if (acZero) {
+        const v = (c.coeffs[off] * qt[0]) / 8 + 128;
+        for (let y = 0; y < 8; y++) plane.fill(v, base + y * lineW, base + y * lineW + 8);
+        continue;
+      }
+
+      for (let i = 0; i < 64; i++) f[i] = c.coeffs[off + i] * qt[i];
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let s = 0;
+          for (let u = 0; u < 8; u++) s += IDCT_COS[x * 8 + u] * f[v * 8 + u];
+          tmp[v * 8 + x] = s;
+        }
+      }
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          let s = 0;
+          for (let v = 0; v < 8; v++) s += IDCT_COS[y * 8 + v] * tmp[v * 8 + x];
+          plane[base + y * lineW + x] = s / 4 + 128;
+        }
+      }
+    }
+  }
+  return { plane, lineW };
+}
+
+// 縮小倍數：2 的次方、最多 1/8，縮完長邊仍 ≥ targetSide
+function decodeStep(width: number, height: number, targetSide?: number) {
+  let step = 1;
+  while (targetSide && step < 8 && Math.max(width, height) / (step * 2) >= targetSide) step *= 2;
+  return step;
+}
+
+export function decodeJpeg(data: Uint8Array, targetSide?: number): Raster {
+  if (data[0] !== 0xff || data[1] !== 0xd8) throw new Error("JPEG: missing SOI");
+
+  const qts: Uint16Array[] = [];
+  const dcTables: Huffman[] = [];
+  const acTables: Huffman[] = [];
+  let frame: Frame | null = null;
+  let resetInterval = 0;
+  let adobeTransform = -1;
+  let offset = 2;
+
+  const u16 = () => {
+    const v = (data[offset] << 8) | data[offset + 1];
+    offset += 2;
+    return v;
+  };
+
+  while (offset < data.length) {
+    if (data[offset] !== 0xff) {
+      const m = findNextMarker(data, offset);
+      if (m < 0) break;
+      offset = m;
+    }
+    const marker = u16();
+    if (marker === 0xffd9) break; // EOI
+    if (marker === 0xffff) { offset--; continue; }
+    if (marker >= 0xffd0 && marker <= 0xffd7) continue;
+
+    switch (marker) {
+      case 0xffdb: { // DQT
+        const end = offset + u16() - 2;
+        while (offset < end) {
+          const b = data[offset++];
+          const table = new Uint16Array(64);
+          for (let j = 0; j < 64; j++) table[ZIGZAG[j]] = b >> 4 ? u16() : data[offset++];
+          qts[b & 15] = table;
+        }
+        break;
+      }
+      case 0xffc0: case 0xffc1: case 0xffc2: { // SOF0/1/2
+        if (frame) throw new Error("JPEG: multiple frames");
+        const len = u16();
+        const end = offset + len - 2;
+        offset++; // precision
+        const height = u16();
+        const width = u16();
+        const n = data[offset++];
+        if (!width || !height) throw new Error("JPEG: DNL not supported");
+        const components: Component[] = [];
+        for (let i = 0; i < n; i++) {
+          const id = data[offset];
+          const h = data[offset + 1] >> 4 || 1;
+          const v = data[offset + 1] & 15 || 1;
+          const tq = data[offset + 2];
+          offset += 3;
+          components.push({
+            id, h, v, tq,
+            blocksPerLine: 0, blocksPerColumn: 0, blocksPerLineForMcu: 0, blocksPerColumnForMcu: 0,
+            coeffs: new Int16Array(0), pred: 0,
+          });
+        }
+        const maxH = Math.max(...components.map((c) => c.h));
+        const maxV = Math.max(...components.map((c) => c.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        for (const c of components) {
+          c.blocksPerLine = Math.ceil(Math.ceil((width * c.h) / maxH) / 8);
+          c.blocksPerColumn = Math.ceil(Math.ceil((height * c.v) / maxV) / 8);
+          c.blocksPerLineForMcu = mcusPerLine * c.h;
+          c.blocksPerColumnForMcu = mcusPerColumn * c.v;
+          c.coeffs = new Int16Array(c.blocksPerLineForMcu * c.blocksPerColumnForMcu * 64);
+        }
+        frame = {
+          progressive: marker === 0xffc2,
+          width, height, maxH, maxV, mcusPerLine, mcusPerColumn, components,
+        };
+        offset = end;
+        break;
+      }
+      case 0xffc4: { // DHT
+        const end = offset + u16() - 2;
+        while (offset < end) {
+          const b = data[offset++];
+          const bits = data.subarray(offset, offset + 16);
+          offset += 16;
+          let total = 0;
+          for (let i = 0; i < 16; i++) total += bits[i];
+          const values = data.subarray(offset, offset + total);
+          offset += total;
+          (b >> 4 ? acTables : dcTables)[b & 15] = buildHuffman(bits, values);
+        }
+        break;
+      }
+      case 0xffdd: // DRI
+        offset += 2;
+        resetInterval = u16();
+        break;
+      case 0xffda: { // SOS
+        if (!frame) throw new Error("JPEG: SOS before SOF");
+        const len = u16();
+        const n = data[offset];
+        const scanComponents: Component[] = [];
+        for (let i = 0; i < n; i++) {
+          const id = data[offset + 1 + i * 2];
+          const t = data[offset + 2 + i * 2];
+          const c = frame.components.find((x) => x.id === id);
+          if (!c) throw new Error("JPEG: unknown scan component");
+          c.dc = dcTables[t >> 4];
+          c.ac = acTables[t & 15];
+          scanComponents.push(c);
+        }
+        const p = offset + 1 + n * 2;
+        const ss = data[p], se = data[p + 1], a = data[p + 2];
+        offset += len - 2;
+        offset = decodeScan(data, offset, frame, scanComponents, resetInterval, ss, se, a >> 4, a & 15);
+        break;
+      }
+      case 0xffee: { // APP14 Adobe
+        const len = u16();
+        if (data[offset] === 0x41 && data[offset + 1] === 0x64 && data[offset + 2] === 0x6f && data[offset + 3] === 0x62 && data[offset + 4] === 0x65) {
+          adobeTransform = data[offset + 11];
+        }
+        offset += len - 2;
+        break;
+      }
+      default:
+        if ((marker >= 0xffc3 && marker <= 0xffcf) && marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc) {
+          throw new Error(`JPEG: unsupported SOF ${marker.toString(16)}`);
+        }
+        // APPn / COM / 其他帶長度的 segment：跳過
+        offset += u16() - 2;
+    }
+  }
+
+  if (!frame) throw new Error("JPEG: no frame");
+
+  const planes = frame.components.map((c) => {
+    const qt = qts[c.tq];
+    if (!qt) throw new Error("JPEG: missing quantization table");
+    const built = { c, ...buildPlane(c, qt) };
+    // 係數用完就放掉，不與 RGBA 同時佔記憶體
+    c.coeffs = new Int16Array(0);
+    return built;
+  });
+
+  const { width, height, maxH, maxV } = frame;
+  // step > 1：逐列累加，每 step 列寫出一列 step×step 的平均
+  const step = decodeStep(width, height, targetSide);
+  const outW = Math.ceil(width / step);
+  const outH = Math.ceil(height / step);
+  const out = new Uint8ClampedArray(outW * outH * 4);
+  const acc = new Float32Array(outW * 3);
+  const count = new Uint16Array(outW);
+  const clamp = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+  const nComp = planes.length;
+  const transform = adobeTransform >= 0 ? adobeTransform : nComp === 3 ? 1 : 0;
+
+  // 色度取樣：最近鄰上採樣
+  const xMaps = planes.map(({ c }) => {
+    const m = new Int32Array(width);
+    for (let x = 0; x < width; x++) m[x] = Math.floor((x * c.h) / maxH);
+    return m;
+  });
+
+  for (let y = 0; y < height; y++) {
+    const rows = planes.map(({ c, lineW }) => Math.floor((y * c.v) / maxV) * lineW);
+    for (let x = 0; x < width; x++) {
+      const o = Math.floor(x / step);
+      const a = o * 3;
+      count[o]++;
+      if (nComp === 1) {
+        const g = planes[0].plane[rows[0] + xMaps[0][x]];
+        acc[a] += g;
+        acc[a + 1] += g;
+        acc[a + 2] += g;
+      } else {
+        const c0 = planes[0].plane[rows[0] + xMaps[0][x]];
+        const c1 = planes[1].plane[rows[1] + xMaps[1][x]];
+        const c2 = planes[2].plane[rows[2] + xMaps[2][x]];
+        let r = c0, g = c1, b = c2;
+        if (transform) {
+          r = c0 + 1.402 * (c2 - 128);
+          g = c0 - 0.344136 * (c1 - 128) - 0.714136 * (c2 - 128);
+          b = c0 + 1.772 * (c1 - 128);
+        }
+        if (nComp === 4) {
+          // CMYK / YCCK（Adobe 反相存法）
+          const k = planes[3].plane[rows[3] + xMaps[3][x]];
+          if (transform === 2) {
+            r = 255 - Math.max(0, Math.min(255, r));
+            g = 255 - Math.max(0, Math.min(255, g));
+            b = 255 - Math.max(0, Math.min(255, b));
+          }
+          r = (r * k) / 255;
+          g = (g * k) / 255;
+          b = (b * k) / 255;
+        }
+        acc[a] += clamp(r);
+        acc[a + 1] += clamp(g);
+        acc[a + 2] += clamp(b);
+      }
+    }
+    if ((y + 1) % step && y !== height - 1) continue;
+    const row = Math.floor(y / step) * outW * 4;
+    for (let o = 0; o < outW; o++) {
+      const p = row + o * 4;
+      out[p] = acc[o * 3] / count[o];
+      out[p + 1] = acc[o * 3 + 1] / count[o];
+      out[p + 2] = acc[o * 3 + 2] / count[o];
+      out[p + 3] = 255;
+    }
+    acc.fill(0);
+    count.fill(0);
+  }
+
+  return { width: outW, height: outH, data: out };
+}
@@ -0,0 +1,76 @@
+import type { Raster } from "./raster";
+
+/* =========================
+   ✅ 純 JS PNG 編碼（標註圖用）
+   - 輸出 8-bit RGB（color type 2）；alpha 丟掉，呼叫端先合成好底色
+   - 每列用 Sub 濾波；deflate 交給 CompressionStream（與 png.ts 的 inflate 對稱）
+========================= */
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(bytes: Uint8Array) {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+async function deflate(data: Uint8Array) {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function chunk(type: string, data: Uint8Array) {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+export async function encodePng(r: Raster): Promise<Uint8Array> {
+  const stride = r.width * 3;
+  const raw = new Uint8Array((stride + 1) * r.height);
+  for (let y = 0; y < r.height; y++) {
+    const row = y * (stride + 1);
+    raw[row] = 1; // Sub
+    for (let x = 0; x < r.width; x++) {
+      const p = (y * r.width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const left = x > 0 ? r.data[p - 4 + c] : 0;
+        raw[row + 1 + x * 3 + c] = (r.data[p + c] - left) & 0xff;
+      }
+    }
+  }
+
+  const ihdr = new Uint8Array(13);
+  const hv = new DataView(ihdr.buffer);
+  hv.setUint32(0, r.width);
+  hv.setUint32(4, r.height);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 2; // RGB
+
+  const parts = [
+    new Uint8Array(SIGNATURE),
+    chunk("IHDR", ihdr),
+    chunk("IDAT", await deflate(raw)),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
@@ -0,0 +1,169 @@
+import type { Raster } from "./raster";
+
+/* =========================
+   ✅ 純 JS PNG 解碼
+   - inflate 交給 DecompressionStream("deflate")（Edge / Node 18+ 都有）
+   - 支援 color type 0/2/3/4/6、bit depth 1–16、Adam7 交錯
+========================= */
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export function isPng(data: Uint8Array) {
+  return SIGNATURE.every((b, i) => data[i] === b);
+}
+
+export async function inflate(data: Uint8Array) {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+function unfilter(src: Uint8Array, offset: number, w: number, h: number, bpp: number, bitsPerPixel: number) {
+  const stride = Math.ceil((w * bitsPerPixel) / 8);
+  const out = new Uint8Array(stride * h);
+  let p = offset;
+  for (let y = 0; y < h; y++) {
+    const type = src[p++];
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = src[p++];
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? out[prev + x - bpp] : 0;
+      let v = raw;
+      switch (type) {
+        case 1: v = raw + a; break;
+        case 2: v = raw + b; break;
+        case 3: v = raw + ((a + b) >> 1); break;
+        case 4: v = raw + paeth(a, b, c); break;
+      }
+      out[row + x] = v & 0xff;
+    }
+  }
+  return { pixels: out, stride, consumed: p - offset };
+}
+
+export async function decodePng(data: Uint8Array): Promise<Raster> {
+  if (!isPng(data)) throw new Error("PNG: bad signature");
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let width = 0, height = 0, depth = 8, colorType = 0, interlace = 0;
+  let palette: Uint8Array | null = null;
+  let trns: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const len = view.getUint32(offset);
+    const type = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const body = data.subarray(offset + 8, offset + 8 + len);
+    offset += 12 + len;
+    if (type === "IHDR") {
+      width = view.getUint32(body.byteOffset - data.byteOffset);
+      height = view.getUint32(body.byteOffset - data.byteOffset + 4);
+      depth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === "PLTE") {
+      palette = body;
+    } else if (type === "tRNS") {
+      trns = body;
+    } else if (type === "IDAT") {
+      idat.push(body);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+  if (!width || !height) throw new Error("PNG: missing IHDR");
+
+  const total = idat.reduce((s, x) => s + x.length, 0);
+  const joined = new Uint8Array(total);
+  let o = 0;
+  for (const x of idat) { joined.set(x, o); o += x.length; }
+  const raw = await inflate(joined);
+
+  const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+  if (!channels) throw new Error(`PNG: unsupported color type ${colorType}`);
+  const bitsPerPixel = channels * depth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const maxV = (1 << depth) - 1;
+
+  const out = new Uint8ClampedArray(width * height * 4);
+
+  const sample = (pixels: Uint8Array, stride: number, x: number, y: number, ch: number) => {
+    if (depth === 8) return pixels[y * stride + x * channels + ch];
+    if (depth === 16) return pixels[y * stride + (x * channels + ch) * 2];
+    const bitPos = (x * channels + ch) * depth;
+    const byte = pixels[y * stride + (bitPos >> 3)];
+    return (byte >> (8 - depth - (bitPos & 7))) & maxV;
+  };
+  const sample16 = (pixels: Uint8Array, stride: number, x: number, y: number, ch: number) =>
+    depth === 16 ? (pixels[y * stride + (x * channels + ch) * 2] << 8) | pixels[y * stride + (x * channels + ch) * 2 + 1] : -1;
+
+  const toByte = (v: number) => (depth === 16 ? v : depth === 8 ? v : Math.round((v * 255) / maxV));
+
+  const put = (pixels: Uint8Array, stride: number, sx: number, sy: number, dx: number, dy: number) => {
+    const d = (dy * width + dx) * 4;
+    let r = 0, g = 0, b = 0, a = 255;
+    if (colorType === 3) {
+      const i = sample(pixels, stride, sx, sy, 0);
+      r = palette ? palette[i * 3] : 0;
+      g = palette ? palette[i * 3 + 1] : 0;
+      b = palette ? palette[i * 3 + 2] : 0;
+      a = trns && i < trns.length ? trns[i] : 255;
+    } else {
+      const vals: number[] = [];
+      for (let ch = 0; ch < channels; ch++) vals.push(toByte(sample(pixels, stride, sx, sy, ch)));
+      if (colorType === 0 || colorType === 4) {
+        r = g = b = vals[0];
+        if (colorType === 4) a = vals[1];
+      } else {
+        [r, g, b] = vals;
+        if (colorType === 6) a = vals[3];
+      }
+      if (trns && (colorType === 0 || colorType === 2)) {
+        // tRNS 以原始 bit depth 比較
+        const key = colorType === 0 ? [(trns[0] << 8) | trns[1]] : [0, 2, 4].map((i) => (trns![i] << 8) | trns![i + 1]);
+        const rawVals: number[] = [];
+        for (let ch = 0; ch < channels; ch++) {
+          rawVals.push(depth === 16 ? sample16(pixels, stride, sx, sy, ch) : sample(pixels, stride, sx, sy, ch));
+        }
+        if (key.every((k, i) => k === rawVals[i])) a = 0;
+      }
+    }
+    out[d] = r;
+    out[d + 1] = g;
+    out[d + 2] = b;
+    out[d + 3] = a;
+  };
+
+  if (!interlace) {
+    const { pixels, stride } = unfilter(raw, 0, width, height, bpp, bitsPerPixel);
+    for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) put(pixels, stride, x, y, x, y);
+  } else {
+    // Adam7：7 個 pass 各自 unfilter 再散回原位
+    const passes = [
+      [0, 0, 8, 8], [4, 0, 8, 8], [0, 4, 4, 8], [2, 0, 4, 4], [0, 2, 2, 4], [1, 0, 2, 2], [0, 1, 1, 2],
+    ];
+    let p = 0;
+    for (const [x0, y0, dx, dy] of passes) {
+      const pw = Math.ceil((width - x0) / dx);
+      const ph = Math.ceil((height - y0) / dy);
+      if (pw <= 0 || ph <= 0) continue;
+      const { pixels, stride, consumed } = unfilter(raw, p, pw, ph, bpp, bitsPerPixel);
+      p += consumed;
+      for (let y = 0; y < ph; y++) {
+        for (let x = 0; x < pw; x++) put(pixels, stride, x, y, x0 + x * dx, y0 + y * dy);
+      }
+    }
+  }
+
+  return { width, height, data: out };
+}
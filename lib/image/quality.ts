@@ -0,0 +1,99 @@
+import { downsample, lumaPlane, type Raster } from "./raster";
+
+/* =========================
+   ✅ 影像品質量測（解碼後的真實像素）
+   - 統一縮到長邊 640 再量，門檻才有可比性
+   - 只量不判斷；門檻在 api/scan.ts 的 quickPrecheck
+========================= */
+export const ANALYSIS_SIDE = 640;
+
+export type QualityMetrics = {
+  width: number;
+  height: number;
+  luma_mean: number;
+  luma_p5: number;
+  luma_p50: number;
+  luma_p95: number;
+  // 亮度 ≥ 250 的像素比例（過曝）
+  clipped_highlights: number;
+  // 亮度 ≤ 5 的像素比例（死黑）
+  clipped_shadows: number;
+  // Laplacian 變異數：越低越糊
+  laplacian_var: number;
+  // 近中性像素的平均色偏（Cb/Cr 偏移量，0 = 無色偏）
+  cast_cb: number;
+  cast_cr: number;
+  cast_strength: number;
+};
+
+function percentile(hist: Uint32Array, total: number, p: number) {
+  const target = total * p;
+  let acc = 0;
+  for (let i = 0; i < hist.length; i++) {
+    acc += hist[i];
+    if (acc >= target) return i;
+  }
+  return hist.length - 1;
+}
+
+export function measureQuality(full: Raster): QualityMetrics {
+  const r = downsample(full, ANALYSIS_SIDE);
+  const luma = lumaPlane(r);
+  const n = luma.length;
+
+  const hist = new Uint32Array(256);
+  let sum = 0, hi = 0, lo = 0;
+  for (let i = 0; i < n; i++) {
+    const y = luma[i];
+    sum += y;
+    hist[Math.min(255, Math.max(0, Math.round(y)))]++;
+    if (y >= 250) hi++;
+    if (y <= 5) lo++;
+  }
+
+  // 4 鄰域 Laplacian
+  let lapSum = 0, lapSq = 0, lapN = 0;
+  for (let y = 1; y < r.height - 1; y++) {
+    for (let x = 1; x < r.width - 1; x++) {
+      const i = y * r.width + x;
+      const l = luma[i - 1] + luma[i + 1] + luma[i - r.width] + luma[i + r.width] - 4 * luma[i];
+      lapSum += l;
+      lapSq += l * l;
+      lapN++;
+    }
+  }
+  const lapMean = lapN ? lapSum / lapN : 0;
+  const laplacianVar = lapN ? lapSq / lapN - lapMean * lapMean : 0;
+
+  // 色偏：只看低彩度、中間亮度的像素（白牆、灰階背景應該是中性的）
+  let cbSum = 0, crSum = 0, neutral = 0;
+  for (let i = 0, p = 0; i < n; i++, p += 4) {
+    const y = luma[i];
+    if (y < 40 || y > 230) continue;
+    const cb = -0.168736 * r.data[p] - 0.331264 * r.data[p + 1] + 0.5 * r.data[p + 2];
+    const cr = 0.5 * r.data[p] - 0.418688 * r.data[p + 1] - 0.081312 * r.data[p + 2];
+    if (Math.hypot(cb, cr) > 20) continue;
+    cbSum += cb;
+    crSum += cr;
+    neutral++;
+  }
+  const castCb = neutral ? cbSum / neutral : 0;
+  const castCr = neutral ? crSum / neutral : 0;
+
+  const round = (v: number, d = 1) => Math.round(v * 10 ** d) / 10 ** d;
+
+  return {
+    width: full.width,
+    height: full.height,
+    luma_mean: round(n ? sum / n : 0),
+    luma_p5: percentile(hist, n, 0.05),
+    luma_p50: percentile(hist, n, 0.5),
+    luma_p95: percentile(hist, n, 0.95),
+    clipped_highlights: round(n ? hi / n : 0, 4),
+    clipped_shadows: round(n ? lo / n : 0, 4),
+    laplacian_var: round(laplacianVar),
+    cast_cb: round(castCb),
+    cast_cr: round(castCr),
+    cast_strength: round(Math.hypot(castCb, castCr)),
+  };
+}
@@ -0,0 +1,128 @@
+/* =========================
+   RGBA 像素緩衝（解碼結果、分析、重編碼共用）
+========================= */
+export type Raster = { width: number; height: number; data: Uint8ClampedArray };
+
+export function createRaster(width: number, height: number): Raster {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+// Rec.601 luma（0–255）
+export function lumaPlane(r: Raster) {
+  const out = new Float32Array(r.width * r.height);
+  for (let i = 0, p = 0; i < out.length; i++, p += 4) {
+    out[i] = 0.299 * r.data[p] + 0.587 * r.data[p + 1] + 0.114 * r.data[p + 2];
+  }
+  return out;
+}
+
+// 等比縮小到長邊 ≤ maxSide（box filter）；已經夠小就原樣回傳
+export function downsample(r: Raster, maxSide: number): Raster {
+  const long = Math.max(r.width, r.height);
+  if (long <= maxSide) return r;
+  const scale = maxSide / long;
+  const w = Math.max(1, Math.round(r.width * scale));
+  const h = Math.max(1, Math.round(r.height * scale));
+  const out = createRaster(w, h);
+
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.floor((y * r.height) / h);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * r.height) / h));
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.floor((x * r.width) / w);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * r.width) / w));
+      let sr = 0, sg = 0, sb = 0, sa = 0, n = 0;
+      for (let yy = y0; yy < y1; yy++) {
+        let p = (yy * r.width + x0) * 4;
+        for (let xx = x0; xx < x1; xx++, p += 4) {
+          sr += r.data[p];
+          sg += r.data[p + 1];
+          sb += r.data[p + 2];
+          sa += r.data[p + 3];
+          n++;
+        }
+      }
+      const o = (y * w + x) * 4;
+      out.data[o] = sr / n;
+      out.data[o + 1] = sg / n;
+      out.data[o + 2] = sb / n;
+      out.data[o + 3] = sa / n;
+    }
+  }
+  return out;
+}
+
+// 雙線性縮放到指定尺寸（放大補最低尺寸用）
+export function resize(r: Raster, w: number, h: number): Raster {
+  if (w === r.width && h === r.height) return r;
+  if (w <= r.width && h <= r.height) {
+    const d = downsample(r, Math.max(w, h));
+    if (d.width === w && d.height === h) return d;
+  }
+  const out = createRaster(w, h);
+  const sx = r.width / w, sy = r.height / h;
+  for (let y = 0; y < h; y++) {
+    const fy = Math.max(0, (y + 0.5) * sy - 0.5);
+    const y0 = Math.min(r.height - 1, Math.floor(fy));
+    const y1 = Math.min(r.height - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < w; x++) {
+      const fx = Math.max(0, (x + 0.5) * sx - 0.5);
+      const x0 = Math.min(r.width - 1, Math.floor(fx));
+      const x1 = Math.min(r.width - 1, x0 + 1);
+      const tx = fx - x0;
+      const p00 = (y0 * r.width + x0) * 4, p01 = (y0 * r.width + x1) * 4;
+      const p10 = (y1 * r.width + x0) * 4, p11 = (y1 * r.width + x1) * 4;
+      const o = (y * w + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const a = r.data[p00 + c] + (r.data[p01 + c] - r.data[p00 + c]) * tx;
+        const b = r.data[p10 + c] + (r.data[p11 + c] - r.data[p10 + c]) * tx;
+        out.data[o + c] = a + (b - a) * ty;
+      }
+    }
+  }
+  return out;
+}
+
+// 依 EXIF orientation 把像素轉正（5–8 會寬高互換）
+export function orient(r: Raster, orientation: number): Raster {
+  if (orientation < 2 || orientation > 8) return r;
+  const { width: w, height: h } = r;
+  const swap = orientation >= 5;
+  const out = createRaster(swap ? h : w, swap ? w : h);
+  const ow = out.width, oh = out.height;
+  const src = new Uint32Array(r.data.buffer, r.data.byteOffset, w * h);
+  const dst = new Uint32Array(out.data.buffer, 0, ow * oh);
+
+  for (let y = 0; y < oh; y++) {
+    for (let x = 0; x < ow; x++) {
+      let sx = x, sy = y;
+      switch (orientation) {
+        case 2: sx = w - 1 - x; break;
+        case 3: sx = w - 1 - x; sy = h - 1 - y; break;
+        case 4: sy = h - 1 - y; break;
+        case 5: sx = y; sy = x; break;
+        case 6: sx = y; sy = h - 1 - x; break;
+        case 7: sx = w - 1 - y; sy = h - 1 - x; break;
+        case 8: sx = w - 1 - y; sy = x; break;
+      }
+      dst[y * ow + x] = src[sy * w + sx];
+    }
+  }
+  return out;
+}
+
+// 裁切（座標會夾在畫面內）
+export function crop(r: Raster, x: number, y: number, w: number, h: number): Raster {
+  const x0 = Math.max(0, Math.min(r.width - 1, Math.round(x)));
+  const y0 = Math.max(0, Math.min(r.height - 1, Math.round(y)));
+  const cw = Math.max(1, Math.min(r.width - x0, Math.round(w)));
+  const ch = Math.max(1, Math.min(r.height - y0, Math.round(h)));
+  if (x0 === 0 && y0 === 0 && cw === r.width && ch === r.height) return r;
+  const out = createRaster(cw, ch);
+  for (let row = 0; row < ch; row++) {
+    const start = ((y0 + row) * r.width + x0) * 4;
+    out.data.set(r.data.subarray(start, start + cw * 4), row * cw * 4);
+  }
+  return out;
+}
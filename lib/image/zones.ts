@@ -0,0 +1,81 @@
+import type { FaceBox } from "./face";
+import type { Raster } from "./raster";
+
+/* =========================
+   ✅ 臉部分區（額頭 / T 區 / 鼻翼 / 臉頰 / 下顎）
+   - 多邊形座標以臉框為基準（0–1），臉框來自 lib/image/face（上傳圖的正規化座標）
+   - 遮罩與上傳圖對齊，所以同一組正規化座標可直接套在遮罩上
+   - coverage = 分區內被遮罩標記的像素比例；沒有任何像素落在畫面內 → null
+========================= */
+export type ZoneId = "forehead" | "t_zone" | "nose" | "cheeks" | "jaw";
+
+type Point = [number, number];
+
+export const FACE_ZONES: Record<ZoneId, Point[][]> = {
+  forehead: [[[0.2, 0.02], [0.8, 0.02], [0.82, 0.24], [0.18, 0.24]]],
+  t_zone: [[
+    [0.25, 0.04], [0.75, 0.04], [0.75, 0.24], [0.58, 0.24],
+    [0.58, 0.66], [0.42, 0.66], [0.42, 0.24], [0.25, 0.24],
+  ]],
+  nose: [[[0.4, 0.36], [0.6, 0.36], [0.65, 0.66], [0.35, 0.66]]],
+  cheeks: [
+    [[0.08, 0.4], [0.36, 0.4], [0.36, 0.72], [0.14, 0.76]],
+    [[0.64, 0.4], [0.92, 0.4], [0.86, 0.76], [0.64, 0.72]],
+  ],
+  jaw: [[[0.14, 0.78], [0.86, 0.78], [0.72, 0.98], [0.28, 0.98]]],
+};
+
+export const ZONE_IDS = Object.keys(FACE_ZONES) as ZoneId[];
+
+// 遮罩二值平面（1 = 被標記）
+export type MaskPlane = { width: number; height: number; on: Uint8Array };
+
+// 有透明度就看 alpha；全不透明的遮罩（黑底彩色標記）看最亮的通道
+export function maskPlane(r: Raster): MaskPlane {
+  const n = r.width * r.height;
+  let hasAlpha = false;
+  for (let p = 3; p < r.data.length; p += 4) {
+    if (r.data[p] < 250) { hasAlpha = true; break; }
+  }
+  const on = new Uint8Array(n);
+  for (let i = 0, p = 0; i < n; i++, p += 4) {
+    on[i] = hasAlpha
+      ? r.data[p + 3] >= 128 ? 1 : 0
+      : Math.max(r.data[p], r.data[p + 1], r.data[p + 2]) >= 64 ? 1 : 0;
+  }
+  return { width: r.width, height: r.height, on };
+}
+
+function inside(px: number, py: number, poly: Point[]) {
+  let hit = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const [xi, yi] = poly[i], [xj, yj] = poly[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) hit = !hit;
+  }
+  return hit;
+}
+
+export function zoneCoverage(mask: MaskPlane, face: FaceBox): Record<ZoneId, number | null> {
+  const { width: w, height: h, on } = mask;
+  const out = {} as Record<ZoneId, number | null>;
+
+  for (const id of ZONE_IDS) {
+    let total = 0, marked = 0;
+    for (const poly of FACE_ZONES[id]) {
+      // 臉框座標 → 遮罩像素座標
+      const pts = poly.map(([u, v]): Point => [(face.x + u * face.w) * w, (face.y + v * face.h) * h]);
+      const xs = pts.map((p) => p[0]), ys = pts.map((p) => p[1]);
+      const x0 = Math.max(0, Math.floor(Math.min(...xs))), x1 = Math.min(w - 1, Math.ceil(Math.max(...xs)));
+      const y0 = Math.max(0, Math.floor(Math.min(...ys))), y1 = Math.min(h - 1, Math.ceil(Math.max(...ys)));
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          if (!inside(x + 0.5, y + 0.5, pts)) continue;
+          total++;
+          marked += on[y * w + x];
+        }
+      }
+    }
+    out[id] = total ? marked / total : null;
+  }
+  return out;
+}
@@ -0,0 +1,1119 @@
+import type { ErrorCode } from "./errors";
+import type { Locale, MetricId, Tone } from "./types";
+
+/* =========================
+   ✅ 多語系文案目錄
+   - 每個語系一份 Catalog，新增語系 = 新增一份 + 加進 LOCALES
+   - 報告文字只從這裡取，api/scan.ts 不再寫死字串
+========================= */
+export type Catalog = {
+  signals: Record<MetricId, string>;
+  cards: Record<string, { title: string; details: string[] }>;
+  levels: Record<Tone, string>;
+  findingBase: (level: string, score: number) => string;
+  finding: Record<string, string>;
+  // [偏低, 可控]
+  mechanism: Record<string, [string, string]>;
+  mechanismDefault: string;
+  protocol: Record<string, { low: [string, string]; ok: [string, string] }>;
+  protocolDefault: [string, string];
+  decision: {
+    // load：敏感負載等級（分數越高負載越低）；restricted：是否觸發酸類限制
+    text: (sensitivity: number, load: "low" | "moderate" | "high", restricted: boolean) => string;
+    node: (primary: string, secondary: string) => string;
+    environment: string;
+  };
+  // 決策規則 ID → 文案（lib/decision/rules）
+  rules: Record<string, string>;
+  summary: { done: string; taskCreated: string; unavailable: string };
+  // 列印版報告（?format=html|pdf，lib/export）的標題與欄位名
+  print: {
+    title: string; summary: string; signals: string; dimensions: string;
+    finding: string; mechanism: string; protocol: string; images: string; unannotated: string;
+    decision: string; environment: string; priorityNode: string; constraints: string; timeline: string;
+    scanId: string; producedAt: string; scoringVersion: string; lowConfidence: string;
+    narrativePending: string; disclaimer: string;
+  };
+  retake: { belowMinImageSize: string[]; unsupportedFormat: string[]; tooLarge: string[]; face: Record<string, string[]> };
+  // quickPrecheck 警告代碼 → 提示
+  precheck: Record<string, string>;
+  // 可信度偏低的維度：敘事加保守前綴、protocol 最前面加重拍建議
+  lowConfidence: { hedge: (text: string) => string; recheck: string };
+  // 錯誤代碼 → 給使用者看的訊息（lib/errors）
+  errors: Record<ErrorCode, string>;
+};
+
+const zhTW: Catalog = {
+  signals: {
+    hydration: "含水穩定",
+    sebum: "油脂分佈",
+    texture: "紋理規則",
+    pore: "毛孔可視",
+    pores_depth: "毛孔深度推估",
+    pigmentation: "色素均勻",
+    wrinkle: "皺紋推估",
+    firmness: "緊緻推估",
+    elasticity: "彈性回應",
+    redness: "泛紅穩定",
+    brightness: "亮度指數",
+    skintone: "膚色均勻",
+    clarity: "通透度",
+    sensitivity: "敏感負載",
+    acne: "痘痘穩定",
+  },
+  cards: {
+    hydration: { title: "保濕拓撲", details: ["表層含水", "中層滲透", "深層鎖水"] },
+    melanin: { title: "色素分佈", details: ["額頭區域", "臉頰區域", "下顎區域"] },
+    texture: { title: "紋理矩陣", details: ["平滑度", "均勻度", "顆粒感"] },
+    sebum: { title: "油脂平衡", details: ["T 區出油", "臉頰出油", "平衡值"] },
+    pore: { title: "毛孔結構", details: ["T 區", "臉頰", "鼻翼"] },
+    elasticity: { title: "彈性指數", details: ["緊緻度", "皺紋深度", "回彈"] },
+    radiance: { title: "光澤頻譜", details: ["明亮度", "均勻度", "光澤"] },
+    barrier: { title: "屏障完整度", details: ["脂質基質", "神經醯胺", "保濕封存", "皮脂膜"] },
+    acne: { title: "痘痘分佈", details: ["額頭區域", "臉頰區域", "下顎區域"] },
+  },
+  levels: { stable: "穩定區", deviation: "可控偏差帶", threshold: "接近門檻" },
+  findingBase: (level, s) => `視覺特徵顯示「${level}」(${s})，屬於可被策略化控制的波動型訊號。`,
+  finding: {
+    hydration: "水分結構可能存在封存效率不足，表層與深層同步性偏弱。",
+    melanin: "色素呈區域差異，顴區/額區的濃度梯度可能更明顯。",
+    texture: "微紋理對比偏強，反射碎裂感上升，質感可能更粗。",
+    sebum: "油脂分佈偏區域化，T 區與臉頰輸出可能不對稱。",
+    pore: "毛孔可視度提升，孔道邊界的對比度可能偏高。",
+    elasticity: "回彈曲線偏慢，彈性回復可能受負載影響。",
+    radiance: "光澤偏漫反射，亮度被散射吸收的比例可能較高。",
+    barrier: "屏障連續性可能不足，刺激閾值有下降風險。",
+    acne: "痘痘訊號呈區域聚集，下顎與臉頰的發炎點可能較集中。",
+  },
+  mechanism: {
+    hydration: [
+      "推演：角質層保水結構的封存效率偏低，日內波動可能更明顯。",
+      "推演：保水結構可控，但封存與留存存在輕微落差。",
+    ],
+    melanin: [
+      "推演：色素生成/轉移的局部累積可能更活躍，導致均勻性下降。",
+      "推演：色素分佈整體可控，局部仍可能受光源/角度放大差異。",
+    ],
+    texture: [
+      "推演：角質排列與黏著一致性不足，microrelief 造成散射提升。",
+      "推演：紋理規則性尚可，局部微紋理仍可能造成反射破碎。",
+    ],
+    sebum: [
+      "推演：皮脂輸出與脫水訊號交互，形成局部滯留與堵塞風險。",
+      "推演：油脂輸出穩定，但區域差異仍可能影響孔道負載。",
+    ],
+    pore: [
+      "推演：毛囊角化與皮脂滯留可能推高孔道可視度與邊界擴張。",
+      "推演：孔道結構大致可控，仍需避免讓角栓負載持續累積。",
+    ],
+    elasticity: [
+      "推演：回彈動態偏慢，可能與氧化/糖化負載及修復節奏相關。",
+      "推演：彈性回復可用，建議以低刺激方式維持重塑節奏。",
+    ],
+    radiance: [
+      "推演：表面散射（紋理）與微炎症訊號，可能拉低通透與亮度。",
+      "推演：光澤可控，但散射與均勻性仍是主要影響因素。",
+    ],
+    barrier: [
+      "推演：脂質矩陣連續性不足與 pH 漂移，可能降低耐受上限。",
+      "推演：屏障可用，但仍需維持脂質連續性以避免裂縫風險。",
+    ],
+    acne: [
+      "推演：皮脂滯留與角化堵塞疊加，局部發炎點可能反覆出現。",
+      "推演：痘痘訊號可控，但分區差異仍需避免堵塞負載累積。",
+    ],
+  },
+  mechanismDefault: "推演：訊號來源可能與結構與波動交互相關。",
+  protocol: {
+    hydration: { low: ["NMF：泛醇/胺基酸", "補脂：Ceramide 3:1:1"], ok: ["封存：神經醯胺/脂肪酸", "節奏：夜間加強留存"] },
+    melanin: { low: ["抗氧鏈：Vit C + ferulic", "均勻路徑：B3/傳明酸"], ok: ["防曬規格：廣譜穩定", "均勻節奏：低刺激長跑"] },
+    texture: { low: ["溫和更新：PHA/LHA", "結構支持：尿素/神經醯胺"], ok: ["更新節奏：拉長間隔", "敏感期：避免過度摩擦"] },
+    sebum: { low: ["控油不破膜：Zinc PCA", "孔道清理：BHA 週2–3"], ok: ["分區保養：T 區/臉頰分流", "負載控制：避免強清潔"] },
+    pore: { low: ["角化管理：BHA/視黃醇交替", "結構支撐：B3/胜肽"], ok: ["清理節奏：低頻但持續", "支撐策略：B3/保水封存"] },
+    elasticity: { low: ["夜間重塑：視黃醇 2–3晚", "抗氧支援：胜肽/維E"], ok: ["重塑維持：低頻A醇", "防護：抗氧 + 封存"] },
+    radiance: { low: ["抑炎抗氧：壬二酸/EGCG", "提亮鏈路：Vit C + 封存"], ok: ["均光策略：抗氧 + 保水", "反射管理：紋理節奏"] },
+    barrier: { low: ["補脂修復：Ceramide/膽固醇/FA", "降刺激：停強酸/酒精香精"], ok: ["維持連續：補脂 + 封存", "避免波動：降清潔強度"] },
+    acne: { low: ["局部處理：BHA/壬二酸點塗", "降負載：不擠壓、枕套勤換"], ok: ["預防堵塞：低頻 BHA", "分區保養：油性區域減少封閉"] },
+  },
+  protocolDefault: ["以低刺激為主", "維持節奏與追蹤"],
+  decision: {
+    text: (sens, load, restricted) =>
+`系統決策說明
+目前敏感負載${{ low: "較低", moderate: "中等", high: "偏高" }[load]}（${sens}）
+${restricted
+  ? `為避免角質代謝過快導致刺激訊號放大，
+系統已暫時限制高濃度酸類與高頻煥膚行為。
+建議 14 天內以屏障穩定為主。`
+  : `目前沒有需要限制酸類的訊號，
+可維持既有保養節奏，並依下方優先節點調整。`}`,
+    node: (p, s) =>
+`SYSTEM PRIORITY NODE
+Primary Risk: ${p}
+Secondary Drift: ${s}`,
+    environment:
+`ENVIRONMENT & INFERENCE BOUNDARY / 環境與推估邊界
+• 光源會影響色素與亮度的可視判讀
+• 角度/距離會影響毛孔可視度與紋理對比
+• 當前為單次影像推估，用於決策排序與行為約束（非醫療診斷）`,
+  },
+  rules: {
+    C_ACID_BLOCK: "High % AHA：禁用",
+    C_ACID_LIMIT: "酸類：低濃度、每週 ≤ 2 次",
+    C_RETINOL_PAUSE: "Retinol：暫停",
+    C_RETINOL_REDUCE: "Retinol：降頻",
+    C_EXFOLIATE_10D: "去角質間隔：≥ 10 天",
+    C_EXFOLIATE_7D: "去角質間隔：≥ 7 天",
+    C_FRAGRANCE_AVOID: "香精 / 精油：避免",
+    C_SPF_DAILY: "SPF 50 / PA++++：每日使用，戶外每 2 小時補擦",
+    C_OCCLUSIVE_TZONE: "厚重封閉型油脂：T 區避免",
+    P_BARRIER: "屏障不穩定（Barrier Instability）",
+    P_HYDRATION: "保水封存不足（Hydration Deficit）",
+    P_TEXTURE: "紋理不規則（Texture Irregularity）",
+    P_MELANIN: "色素分佈不均（Pigment Unevenness）",
+    P_SEBUM: "油脂失衡（Sebum Imbalance）",
+    P_PORE: "毛孔可視度上升（Pore Visibility）",
+    P_ELASTICITY: "彈性回應下降（Elasticity Decline）",
+    P_RADIANCE: "光澤散射（Radiance Scatter）",
+    P_ACNE: "痘痘活躍（Blemish Activity）",
+    P_MAINTAIN: "維持穩定（Maintenance）",
+    T_STABILIZE_BARRIER: "Week 1–2：穩定屏障",
+    T_STABILIZE_CALM: "Week 1–2：降低泛紅負載",
+    T_STABILIZE_HYDRATE: "Week 1–2：補水與封存",
+    T_STABILIZE_BASE: "Week 1–2：維持基礎保養",
+    T_RENEW_GENTLE: "Week 3：低刺激更新",
+    T_RENEW_BLEMISH: "Week 3：局部處理（痘痘區域）",
+    T_RENEW_TEXTURE: "Week 3：溫和代謝（紋理 / 毛孔）",
+    T_RENEW_BASE: "Week 3：規律代謝",
+    T_OPTIMIZE_PIGMENT: "Week 4：色素均勻化",
+    T_OPTIMIZE_FIRMNESS: "Week 4：彈性支撐",
+    T_OPTIMIZE_BASE: "Week 4：微結構優化",
+  },
+  summary: {
+    done: "掃描完成：各訊號通道已整合為維度決策報告。",
+    taskCreated: "任務已建立，等待分析輸出。",
+    unavailable: "分析服務暫時無法連線，請稍後再試。",
+  },
+  print: {
+    title: "肌膚訊號報告",
+    summary: "總結",
+    signals: "14 通道訊號",
+    dimensions: "維度分析",
+    finding: "系統判斷",
+    mechanism: "推演與策略",
+    protocol: "策略建議",
+    images: "標註影像",
+    unannotated: "原圖（標註圖未產生）",
+    decision: "決策層",
+    environment: "環境",
+    priorityNode: "優先節點",
+    constraints: "行為約束",
+    timeline: "時程",
+    scanId: "掃描編號",
+    producedAt: "產出時間",
+    scoringVersion: "計分版本",
+    lowConfidence: "可信度偏低",
+    narrativePending: "個人化敘事產生中，以下為標準文案。",
+    disclaimer: "本報告為外觀影像訊號分析，僅供保養參考。",
+  },
+  retake: {
+    belowMinImageSize: [
+      "影像尺寸不足（系統已嘗試補足）。",
+      "請更靠近一點拍或改用更高解析度。",
+      "避免聊天軟體壓縮後再上傳。",
+    ],
+    unsupportedFormat: ["無法讀取這個影像格式。", "請在相機設定改用 JPEG（相容性最佳），或截圖後再上傳。"],
+    tooLarge: ["照片像素太高，無法處理。", "請把相機解析度調到 1600 萬像素以下，或縮小後再上傳。"],
+    face: {
+      NO_FACE: ["畫面中沒有偵測到臉部。", "請讓整張臉進入取景框，並移除遮擋物。"],
+      MULTIPLE_FACES: ["畫面中偵測到多張臉。", "請確保只有本人入鏡。"],
+      FACE_TOO_SMALL: ["臉部在畫面中太小。", "請靠近一點，讓臉部填滿取景框。"],
+      FACE_OFF_CENTER: ["臉部偏離畫面中心。", "請將臉部置中於取景框內。"],
+      YAW_EXCESSIVE: ["頭部左右轉動角度過大。", "正面照請直視鏡頭；側面照請轉約 45°。"],
+      PITCH_EXCESSIVE: ["頭部上下傾斜角度過大。", "請保持下巴水平，鏡頭與眼睛同高。"],
+    },
+  },
+  precheck: {
+    LOW_RESOLUTION: "畫質偏低。建議使用更清晰的正面照片。",
+    TOO_DARK: "光線偏暗。請面向窗戶或補柔光。",
+    TOO_BRIGHT: "高光偏強。避免直射頂光。",
+    HIGHLIGHT_CLIPPED: "局部過曝。請避開鏡面反光或閃光燈。",
+    BLURRY: "影像模糊。請穩住手機、對焦後再拍。",
+    COLOR_CAST: "光源偏色。建議改用自然白光。",
+    DECODE_FAILED: "無法解析影像格式。建議改用 JPEG 上傳。",
+  },
+  lowConfidence: {
+    hedge: (t) => `初步判讀（可信度偏低，僅供參考）：${t}`,
+    recheck: "建議在均勻光線、正面角度下重拍一次，確認這個維度的結果。",
+  },
+  errors: {
+    INPUT_MISSING_IMAGE: "缺少正面照片（image1）。",
+    INPUT_BAD_FORM: "請以 multipart/form-data 上傳照片。",
+    INPUT_MISSING_SCAN_TOKEN: "缺少 scan_token。",
+    INPUT_MISSING_USER_ID: "此查詢需要 user_id。",
+    INPUT_INVALID_USER_ID: "user_id 格式不正確。",
+    INPUT_INVALID_CALLBACK_URL: "callback_url 不是可接受的網址。",
+    INPUT_UNKNOWN_SCORING_VERSION: "指定的計分版本不存在。",
+    INPUT_INVALID_IDEMPOTENCY_KEY: "Idempotency-Key 格式不正確。",
+    INPUT_MISSING_CONSENT: "請先同意隱私條款（需要 consent_version 與 consent_purpose，用途須包含 skin_analysis）。",
+    INPUT_CONSENT_VERSION_NOT_ACCEPTED: "同意書版本已過期，請重新確認最新的隱私條款。",
+    INPUT_INVALID_CONSENT_PURPOSE: "consent_purpose 含有不支援的用途。",
+    INPUT_INVALID_FORMAT: "format 只支援 json、html、pdf。",
+    INPUT_IDEMPOTENCY_KEY_REUSED: "這個 Idempotency-Key 已用於其他照片。",
+    RETAKE_MIN_SIZE: "照片解析度不足，請重新拍攝。",
+    RETAKE_UNSUPPORTED_FORMAT: "無法讀取此照片格式，請改用 JPEG 或 PNG。",
+    RETAKE_FACE_GATE: "照片中的臉部位置不符合分析條件，請依提示重新拍攝。",
+    RETAKE_TOO_LARGE: "照片像素太高，請調低解析度或縮小後再上傳。",
+    AUTH_UNAUTHORIZED: "未授權的請求。",
+    AUTH_MISSING_CREDENTIALS: "缺少 API 金鑰或存取權杖。",
+    AUTH_INVALID_CREDENTIALS: "API 金鑰或存取權杖無效。",
+    AUTH_TOKEN_EXPIRED: "存取權杖已過期，請重新取得。",
+    AUTH_ORIGIN_NOT_ALLOWED: "此來源網站未被允許呼叫 API。",
+    AUTH_INVALID_SCAN_TOKEN: "scan_token 無效。",
+    AUTH_SCAN_TOKEN_EXPIRED: "scan_token 已過期，請重新掃描。",
+    AUTH_SCAN_TOKEN_FORBIDDEN: "這個 scan_token 不屬於目前的帳戶。",
+    RATE_LIMITED: "請求過於頻繁，請稍後再試。",
+    NOT_FOUND_SCAN: "找不到這筆掃描紀錄。",
+    NOT_FOUND_TASK: "找不到這個分析任務。",
+    NOT_FOUND_WEBHOOK: "這個任務沒有註冊 webhook。",
+    NOT_FOUND_DELETION_RECEIPT: "找不到這筆掃描的刪除收據。",
+    NOT_FOUND_ANNOTATED_IMAGE: "標註圖不存在或已過期。",
+    METHOD_NOT_ALLOWED: "不支援此請求方法。",
+    STATE_NOT_ENOUGH_SCANS: "至少需要兩次掃描才能比較。",
+    STATE_RAW_SCORES_UNAVAILABLE: "這筆掃描沒有保存原始分數，無法重算。",
+    STATE_IDEMPOTENCY_IN_PROGRESS: "相同的請求仍在處理中，請稍候再試。",
+    STATE_SCAN_DELETED: "這筆掃描的資料已依要求刪除。",
+    CONFIG_MISSING_KEY: "服務設定不完整，請聯絡管理員。",
+    CONFIG_INVALID: "服務設定有誤，請聯絡管理員。",
+    CONFIG_PDF_FONT_UNAVAILABLE: "這個部署沒有可用的 PDF 中文字型，暫時無法匯出 PDF；請改用 HTML 版列印。",
+    UPSTREAM_TIMEOUT: "分析服務回應逾時，請稍後再試。",
+    UPSTREAM_NETWORK: "無法連線到分析服務，請稍後再試。",
+    UPSTREAM_SERVER: "分析服務暫時發生錯誤，請稍後再試。",
+    UPSTREAM_REJECTED: "分析服務拒絕了這次請求。",
+    UPSTREAM_UNAVAILABLE: "分析服務暫時無法使用，請稍後再試。",
+    UPSTREAM_TASK_FAILED: "分析任務失敗，請重新掃描。",
+    INTERNAL: "系統發生未預期的錯誤。",
+  },
+};
+
+const en: Catalog = {
+  signals: {
+    hydration: "Hydration Stability",
+    sebum: "Sebum Distribution",
+    texture: "Texture Regularity",
+    pore: "Pore Visibility",
+    pores_depth: "Pore Depth Proxy",
+    pigmentation: "Pigment Uniformity",
+    wrinkle: "Wrinkle Proxy",
+    firmness: "Firmness Proxy",
+    elasticity: "Elasticity Response",
+    redness: "Redness Stability",
+    brightness: "Brightness Index",
+    skintone: "Tone Evenness",
+    clarity: "Clarity Index",
+    sensitivity: "Sensitivity Load",
+    acne: "Blemish Control",
+  },
+  cards: {
+    hydration: { title: "HYDRATION TOPOLOGY", details: ["Surface Layer", "Mid Layer", "Deep Layer"] },
+    melanin: { title: "MELANIN DISTRIBUTION", details: ["Forehead Zone", "Cheek Zone", "Jaw Zone"] },
+    texture: { title: "TEXTURE MATRIX", details: ["Smoothness", "Uniformity", "Grain"] },
+    sebum: { title: "SEBUM BALANCE", details: ["T-Zone Output", "Cheek Output", "Equilibrium"] },
+    pore: { title: "PORE ARCHITECTURE", details: ["T-Zone", "Cheek", "Nose"] },
+    elasticity: { title: "ELASTICITY INDEX", details: ["Firmness", "Wrinkle Depth", "Recovery"] },
+    radiance: { title: "RADIANCE SPECTRUM", details: ["Luminosity", "Evenness", "Glow Index"] },
+    barrier: { title: "BARRIER INTEGRITY", details: ["Lipid Matrix", "Ceramide Layer", "Moisture Seal", "Surface Film"] },
+    acne: { title: "BLEMISH MAP", details: ["Forehead Zone", "Cheek Zone", "Jaw Zone"] },
+  },
+  levels: { stable: "stable band", deviation: "controllable deviation band", threshold: "near threshold" },
+  findingBase: (level, s) => `Visual features sit in the "${level}" (${s}), a fluctuating signal that can be managed strategically.`,
+  finding: {
+    hydration: "Moisture retention may be under-sealed; surface and deep layers are weakly synchronized.",
+    melanin: "Pigment varies by region; the density gradient across cheekbone/forehead may be more visible.",
+    texture: "Micro-texture contrast is elevated; fragmented reflection may make the surface look coarser.",
+    sebum: "Sebum output is regionalized; T-zone and cheek output may be asymmetric.",
+    pore: "Pore visibility is up; contrast at pore boundaries may be high.",
+    elasticity: "The rebound curve is slow; elastic recovery may be affected by load.",
+    radiance: "Glow is diffuse; a larger share of brightness may be lost to scattering.",
+    barrier: "Barrier continuity may be insufficient; the irritation threshold is at risk of dropping.",
+    acne: "Blemish signals cluster by zone; inflamed spots may concentrate along the jaw and cheeks.",
+  },
+  mechanism: {
+    hydration: [
+      "Inference: the stratum corneum seals water inefficiently, so intraday swings may be larger.",
+      "Inference: water retention is controllable, with a slight gap between sealing and holding.",
+    ],
+    melanin: [
+      "Inference: local pigment production/transfer may be more active, lowering uniformity.",
+      "Inference: pigment is broadly controlled; light and angle may still amplify local differences.",
+    ],
+    texture: [
+      "Inference: corneocyte alignment and cohesion are uneven, and microrelief raises scattering.",
+      "Inference: texture regularity is fair; local micro-texture may still break up reflection.",
+    ],
+    sebum: [
+      "Inference: sebum output interacts with dehydration signals, creating local retention and clogging risk.",
+      "Inference: sebum output is steady, but regional differences may still load the pores.",
+    ],
+    pore: [
+      "Inference: follicular keratinization and sebum retention may raise pore visibility and widen edges.",
+      "Inference: pore structure is largely controlled; avoid letting keratin plugs accumulate.",
+    ],
+    elasticity: [
+      "Inference: rebound is slow, possibly linked to oxidative/glycation load and repair rhythm.",
+      "Inference: elastic recovery is usable; keep a low-irritation remodeling rhythm.",
+    ],
+    radiance: [
+      "Inference: surface scattering (texture) and micro-inflammation signals may reduce clarity and brightness.",
+      "Inference: glow is controlled; scattering and evenness remain the main factors.",
+    ],
+    barrier: [
+      "Inference: gaps in the lipid matrix and pH drift may lower the tolerance ceiling.",
+      "Inference: the barrier is usable; keep lipids continuous to avoid micro-cracks.",
+    ],
+    acne: [
+      "Inference: sebum retention stacked with follicular clogging may keep local inflammation recurring.",
+      "Inference: blemish signals are controlled; zone differences still call for limiting clogging load.",
+    ],
+  },
+  mechanismDefault: "Inference: the signal likely reflects an interaction between structure and fluctuation.",
+  protocol: {
+    hydration: { low: ["NMF: panthenol / amino acids", "Lipids: ceramide 3:1:1"], ok: ["Seal: ceramides / fatty acids", "Rhythm: reinforce retention at night"] },
+    melanin: { low: ["Antioxidant chain: Vit C + ferulic", "Evenness path: B3 / tranexamic acid"], ok: ["Sunscreen: broad-spectrum, stable", "Evenness rhythm: low-irritation, long-term"] },
+    texture: { low: ["Gentle renewal: PHA / LHA", "Structural support: urea / ceramides"], ok: ["Renewal rhythm: longer intervals", "Sensitive phases: avoid friction"] },
+    sebum: { low: ["Oil control without stripping: zinc PCA", "Pore clearing: BHA 2–3x / week"], ok: ["Zoned care: split T-zone / cheeks", "Load control: avoid harsh cleansing"] },
+    pore: { low: ["Keratinization: alternate BHA / retinol", "Structural support: B3 / peptides"], ok: ["Clearing rhythm: low frequency, consistent", "Support: B3 / hydration seal"] },
+    elasticity: { low: ["Night remodeling: retinol 2–3 nights", "Antioxidant support: peptides / Vit E"], ok: ["Maintain remodeling: low-frequency retinoid", "Protection: antioxidants + seal"] },
+    radiance: { low: ["Calm + antioxidant: azelaic acid / EGCG", "Brightening chain: Vit C + seal"], ok: ["Even-glow strategy: antioxidants + hydration", "Reflection: manage texture rhythm"] },
+    barrier: { low: ["Lipid repair: ceramide / cholesterol / FA", "Reduce irritation: pause strong acids, alcohol, fragrance"], ok: ["Keep continuity: lipids + seal", "Avoid swings: gentler cleansing"] },
+    acne: { low: ["Spot care: BHA / azelaic acid", "Lower load: no picking, change pillowcases often"], ok: ["Prevent clogging: low-frequency BHA", "Zoned care: fewer occlusives on oily zones"] },
+  },
+  protocolDefault: ["Favor low irritation", "Keep rhythm and track"],
+  decision: {
+    text: (sens, load, restricted) =>
+`System decision
+Current sensitivity load is ${load} (${sens})
+${restricted
+  ? `To keep accelerated keratin turnover from amplifying irritation signals,
+the system has temporarily restricted high-concentration acids and frequent resurfacing.
+Focus on barrier stability for the next 14 days.`
+  : `No signal currently calls for restricting acids.
+Keep your existing routine and adjust according to the priority nodes below.`}`,
+    node: (p, s) =>
+`SYSTEM PRIORITY NODE
+Primary Risk: ${p}
+Secondary Drift: ${s}`,
+    environment:
+`ENVIRONMENT & INFERENCE BOUNDARY
+• Lighting affects how pigment and brightness read
+• Angle/distance affects pore visibility and texture contrast
+• This is a single-capture estimate for prioritization and behavior constraints (not a medical assessment)`,
+  },
+  rules: {
+    C_ACID_BLOCK: "High % AHA: not allowed",
+    C_ACID_LIMIT: "Acids: low concentration, ≤ 2 times a week",
+    C_RETINOL_PAUSE: "Retinol: pause",
+    C_RETINOL_REDUCE: "Retinol: reduce frequency",
+    C_EXFOLIATE_10D: "Exfoliation interval: ≥ 10 days",
+    C_EXFOLIATE_7D: "Exfoliation interval: ≥ 7 days",
+    C_FRAGRANCE_AVOID: "Fragrance / essential oils: avoid",
+    C_SPF_DAILY: "SPF 50 / PA++++: daily, reapply every 2 hours outdoors",
+    C_OCCLUSIVE_TZONE: "Heavy occlusive oils: avoid on the T-zone",
+    P_BARRIER: "Barrier Instability",
+    P_HYDRATION: "Hydration Deficit",
+    P_TEXTURE: "Texture Irregularity",
+    P_MELANIN: "Pigment Unevenness",
+    P_SEBUM: "Sebum Imbalance",
+    P_PORE: "Pore Visibility",
+    P_ELASTICITY: "Elasticity Decline",
+    P_RADIANCE: "Radiance Scatter",
+    P_ACNE: "Blemish Activity",
+    P_MAINTAIN: "Maintenance",
+    T_STABILIZE_BARRIER: "Week 1–2: stabilize the barrier",
+    T_STABILIZE_CALM: "Week 1–2: reduce redness load",
+    T_STABILIZE_HYDRATE: "Week 1–2: hydrate and seal",
+    T_STABILIZE_BASE: "Week 1–2: keep the basic routine",
+    T_RENEW_GENTLE: "Week 3: low-irritation renewal",
+    T_RENEW_BLEMISH: "Week 3: targeted care (blemish zones)",
+    T_RENEW_TEXTURE: "Week 3: gentle turnover (texture / pores)",
+    T_RENEW_BASE: "Week 3: regular turnover",
+    T_OPTIMIZE_PIGMENT: "Week 4: even out pigment",
+    T_OPTIMIZE_FIRMNESS: "Week 4: elasticity support",
+    T_OPTIMIZE_BASE: "Week 4: micro-structure refinement",
+  },
+  summary: {
+    done: "Scan complete: all signal channels consolidated into a dimensional decision report.",
+    taskCreated: "Task created, waiting for analysis output.",
+    unavailable: "The analysis service is temporarily unreachable. Please try again shortly.",
+  },
+  print: {
+    title: "Skin Signal Report",
+    summary: "Summary",
+    signals: "14-Channel Signals",
+    dimensions: "Dimensions",
+    finding: "Finding",
+    mechanism: "Mechanism & Strategy",
+    protocol: "Protocol",
+    images: "Annotated images",
+    unannotated: "original photo (no annotation yet)",
+    decision: "Decision Layer",
+    environment: "Environment",
+    priorityNode: "Priority Node",
+    constraints: "Constraints",
+    timeline: "Timeline",
+    scanId: "Scan ID",
+    producedAt: "Produced",
+    scoringVersion: "Scoring version",
+    lowConfidence: "Low confidence",
+    narrativePending: "Personalized narrative is still being generated; standard copy is shown.",
+    disclaimer: "This report analyzes visible skin signals for skincare reference only.",
+  },
+  retake: {
+    belowMinImageSize: [
+      "Image is too small (the system already tried to upscale it).",
+      "Move a little closer or use a higher resolution.",
+      "Avoid uploading photos compressed by chat apps.",
+    ],
+    unsupportedFormat: ["This image format could not be read.", "Switch your camera to JPEG (Most Compatible), or upload a screenshot instead."],
+    tooLarge: ["This photo has too many pixels to process.", "Set your camera to 16 MP or lower, or resize the photo before uploading."],
+    face: {
+      NO_FACE: ["No face was detected.", "Fit your whole face in the frame and remove anything covering it."],
+      MULTIPLE_FACES: ["More than one face was detected.", "Make sure only you are in the frame."],
+      FACE_TOO_SMALL: ["Your face is too small in the frame.", "Move closer so your face fills the guide."],
+      FACE_OFF_CENTER: ["Your face is off-center.", "Center your face inside the guide."],
+      YAW_EXCESSIVE: ["Your head is turned too far to the side.", "Look straight at the camera for the front shot; turn about 45° for side shots."],
+      PITCH_EXCESSIVE: ["Your head is tilted too far up or down.", "Keep your chin level with the camera at eye height."],
+    },
+  },
+  precheck: {
+    LOW_RESOLUTION: "Image resolution is low. Use a sharper front-facing photo.",
+    TOO_DARK: "Lighting is too dark. Face a window or add soft light.",
+    TOO_BRIGHT: "Highlights are too strong. Avoid direct overhead light.",
+    HIGHLIGHT_CLIPPED: "Parts of the image are overexposed. Avoid glare and flash.",
+    BLURRY: "Image is blurry. Hold the phone steady and focus before shooting.",
+    COLOR_CAST: "Lighting has a color cast. Use neutral white light.",
+    DECODE_FAILED: "The image format could not be read. Upload a JPEG instead.",
+  },
+  lowConfidence: {
+    hedge: (t) => `Tentative reading (low confidence, for reference only): ${t}`,
+    recheck: "Rescan once in even lighting, facing the camera, to confirm this dimension.",
+  },
+  errors: {
+    INPUT_MISSING_IMAGE: "The front photo (image1) is missing.",
+    INPUT_BAD_FORM: "Upload photos as multipart/form-data.",
+    INPUT_MISSING_SCAN_TOKEN: "scan_token is required.",
+    INPUT_MISSING_USER_ID: "This query requires user_id.",
+    INPUT_INVALID_USER_ID: "user_id is malformed.",
+    INPUT_INVALID_CALLBACK_URL: "callback_url is not an acceptable URL.",
+    INPUT_UNKNOWN_SCORING_VERSION: "The requested scoring version does not exist.",
+    INPUT_INVALID_IDEMPOTENCY_KEY: "The Idempotency-Key is malformed.",
+    INPUT_MISSING_CONSENT: "Consent is required (consent_version and consent_purpose, including skin_analysis).",
+    INPUT_CONSENT_VERSION_NOT_ACCEPTED: "This consent version is no longer accepted. Please review the latest privacy terms.",
+    INPUT_INVALID_CONSENT_PURPOSE: "consent_purpose contains an unsupported purpose.",
+    INPUT_INVALID_FORMAT: "format must be json, html or pdf.",
+    INPUT_IDEMPOTENCY_KEY_REUSED: "This Idempotency-Key was already used for different photos.",
+    RETAKE_MIN_SIZE: "The photo resolution is too low. Please retake it.",
+    RETAKE_UNSUPPORTED_FORMAT: "This photo format cannot be read. Please use JPEG or PNG.",
+    RETAKE_FACE_GATE: "The face in the photo does not meet the capture requirements. Please retake it following the tips.",
+    RETAKE_TOO_LARGE: "This photo is too large. Please lower the resolution or resize it and upload again.",
+    AUTH_UNAUTHORIZED: "The request is not authorized.",
+    AUTH_MISSING_CREDENTIALS: "An API key or access token is required.",
+    AUTH_INVALID_CREDENTIALS: "The API key or access token is invalid.",
+    AUTH_TOKEN_EXPIRED: "The access token has expired. Please obtain a new one.",
+    AUTH_ORIGIN_NOT_ALLOWED: "This origin is not allowed to call the API.",
+    AUTH_INVALID_SCAN_TOKEN: "The scan_token is invalid.",
+    AUTH_SCAN_TOKEN_EXPIRED: "The scan_token has expired. Please scan again.",
+    AUTH_SCAN_TOKEN_FORBIDDEN: "This scan_token does not belong to the current account.",
+    RATE_LIMITED: "Too many requests. Please try again shortly.",
+    NOT_FOUND_SCAN: "Scan record not found.",
+    NOT_FOUND_TASK: "Analysis task not found.",
+    NOT_FOUND_WEBHOOK: "No webhook is registered for this task.",
+    NOT_FOUND_DELETION_RECEIPT: "No deletion receipt exists for this scan.",
+    NOT_FOUND_ANNOTATED_IMAGE: "The annotated image does not exist or has expired.",
+    METHOD_NOT_ALLOWED: "This request method is not supported.",
+    STATE_NOT_ENOUGH_SCANS: "At least two scans are needed for a comparison.",
+    STATE_RAW_SCORES_UNAVAILABLE: "This scan has no stored raw scores and cannot be recomputed.",
+    STATE_IDEMPOTENCY_IN_PROGRESS: "The same request is still being processed. Please try again shortly.",
+    STATE_SCAN_DELETED: "The data for this scan has been deleted on request.",
+    CONFIG_MISSING_KEY: "The service is not fully configured. Please contact the administrator.",
+    CONFIG_INVALID: "The service configuration is invalid. Please contact the administrator.",
+    CONFIG_PDF_FONT_UNAVAILABLE: "PDF export is unavailable because no report font is installed. Print the HTML version instead.",
+    UPSTREAM_TIMEOUT: "The analysis service timed out. Please try again shortly.",
+    UPSTREAM_NETWORK: "The analysis service could not be reached. Please try again shortly.",
+    UPSTREAM_SERVER: "The analysis service hit a temporary error. Please try again shortly.",
+    UPSTREAM_REJECTED: "The analysis service rejected this request.",
+    UPSTREAM_UNAVAILABLE: "The analysis service is temporarily unavailable. Please try again shortly.",
+    UPSTREAM_TASK_FAILED: "The analysis task failed. Please scan again.",
+    INTERNAL: "An unexpected error occurred.",
+  },
+};
+
+const ja: Catalog = {
+  signals: {
+    hydration: "水分安定度",
+    sebum: "皮脂分布",
+    texture: "キメ規則性",
+    pore: "毛穴の目立ち",
+    pores_depth: "毛穴深度推定",
+    pigmentation: "色素均一性",
+    wrinkle: "シワ推定",
+    firmness: "ハリ推定",
+    elasticity: "弾力応答",
+    redness: "赤み安定度",
+    brightness: "明るさ指数",
+    skintone: "肌色均一性",
+    clarity: "透明感",
+    sensitivity: "敏感負荷",
+    acne: "ニキビ安定",
+  },
+  cards: {
+    hydration: { title: "保湿トポロジー", details: ["表層水分", "中層浸透", "深層保水"] },
+    melanin: { title: "色素分布", details: ["額エリア", "頬エリア", "あごエリア"] },
+    texture: { title: "キメマトリクス", details: ["なめらかさ", "均一性", "ざらつき"] },
+    sebum: { title: "皮脂バランス", details: ["Tゾーン皮脂", "頬の皮脂", "バランス値"] },
+    pore: { title: "毛穴構造", details: ["Tゾーン", "頬", "小鼻"] },
+    elasticity: { title: "弾力指数", details: ["ハリ", "シワの深さ", "復元力"] },
+    radiance: { title: "ツヤスペクトル", details: ["明度", "均一性", "ツヤ"] },
+    barrier: { title: "バリア完全性", details: ["脂質マトリクス", "セラミド層", "保湿シール", "皮脂膜"] },
+    acne: { title: "ニキビ分布", details: ["額エリア", "頬エリア", "あごエリア"] },
+  },
+  levels: { stable: "安定域", deviation: "コントロール可能な偏差域", threshold: "しきい値付近" },
+  findingBase: (level, s) => `視覚的特徴は「${level}」(${s})を示しており、戦略的にコントロールできる変動型シグナルです。`,
+  finding: {
+    hydration: "水分の封じ込め効率が不足している可能性があり、表層と深層の同調が弱めです。",
+    melanin: "色素に部位差があり、頬骨・額の濃度勾配がより目立つ可能性があります。",
+    texture: "微細なキメのコントラストが強く、反射の乱れにより質感が粗く見える可能性があります。",
+    sebum: "皮脂分布が部位ごとに偏り、Tゾーンと頬の出方が非対称の可能性があります。",
+    pore: "毛穴の目立ちが増し、毛穴の輪郭のコントラストが高めの可能性があります。",
+    elasticity: "復元カーブが遅めで、弾力の戻りが負荷の影響を受けている可能性があります。",
+    radiance: "ツヤが拡散反射寄りで、明るさが散乱に吸収される割合が高い可能性があります。",
+    barrier: "バリアの連続性が不足している可能性があり、刺激のしきい値が下がるリスクがあります。",
+    acne: "ニキビのシグナルはエリアごとに偏り、あご・頬に炎症点が集まりやすい可能性があります。",
+  },
+  mechanism: {
+    hydration: [
+      "推定：角層の保水構造の封じ込め効率が低く、日中の変動が大きくなる可能性があります。",
+      "推定：保水構造はコントロール可能ですが、封じ込めと保持にわずかな差があります。",
+    ],
+    melanin: [
+      "推定：局所的な色素の生成・移動が活発で、均一性が低下している可能性があります。",
+      "推定：色素分布は全体的にコントロールされていますが、光源や角度で差が強調されることがあります。",
+    ],
+    texture: [
+      "推定：角層の配列と接着が不均一で、microrelief により散乱が増えています。",
+      "推定：キメの規則性はおおむね良好ですが、局所的な微細なキメが反射を乱すことがあります。",
+    ],
+    sebum: [
+      "推定：皮脂分泌と乾燥シグナルが相互作用し、局所的な滞留と詰まりのリスクがあります。",
+      "推定：皮脂分泌は安定していますが、部位差が毛穴の負荷に影響する可能性があります。",
+    ],
+    pore: [
+      "推定：毛包の角化と皮脂の滞留が、毛穴の目立ちと輪郭の広がりを押し上げている可能性があります。",
+      "推定：毛穴構造はおおむねコントロールされていますが、角栓の蓄積は避ける必要があります。",
+    ],
+    elasticity: [
+      "推定：復元の動きが遅く、酸化・糖化負荷や修復リズムと関係している可能性があります。",
+      "推定：弾力の戻りは保たれています。低刺激で再構築のリズムを維持しましょう。",
+    ],
+    radiance: [
+      "推定：表面散乱（キメ）と微弱な炎症シグナルが、透明感と明るさを下げている可能性があります。",
+      "推定：ツヤはコントロールされていますが、散乱と均一性が主な影響要因です。",
+    ],
+    barrier: [
+      "推定：脂質マトリクスの連続性不足と pH のずれが、耐性の上限を下げている可能性があります。",
+      "推定：バリアは機能していますが、脂質の連続性を保ちひび割れを防ぐ必要があります。",
+    ],
+    acne: [
+      "推定：皮脂の滞留と角化による詰まりが重なり、局所的な炎症が繰り返されている可能性があります。",
+      "推定：ニキビのシグナルはコントロール可能ですが、エリア差による詰まり負荷の蓄積は避けましょう。",
+    ],
+  },
+  mechanismDefault: "推定：シグナルは構造と変動の相互作用に由来する可能性があります。",
+  protocol: {
+    hydration: { low: ["NMF：パンテノール／アミノ酸", "脂質補給：セラミド 3:1:1"], ok: ["封じ込め：セラミド／脂肪酸", "リズム：夜の保持を強化"] },
+    melanin: { low: ["抗酸化チェーン：ビタミンC + フェルラ酸", "均一化：B3／トラネキサム酸"], ok: ["日焼け止め：広域・安定処方", "均一化リズム：低刺激で長期継続"] },
+    texture: { low: ["やさしいターンオーバー：PHA／LHA", "構造サポート：尿素／セラミド"], ok: ["更新リズム：間隔を長めに", "敏感期：摩擦を避ける"] },
+    sebum: { low: ["膜を壊さない皮脂コントロール：亜鉛PCA", "毛穴ケア：BHA 週2–3回"], ok: ["部位別ケア：Tゾーン／頬を分ける", "負荷管理：強い洗浄を避ける"] },
+    pore: { low: ["角化管理：BHA／レチノール交互", "構造サポート：B3／ペプチド"], ok: ["ケアリズム：低頻度で継続", "サポート：B3／保湿の封じ込め"] },
+    elasticity: { low: ["夜の再構築：レチノール 2–3晩", "抗酸化サポート：ペプチド／ビタミンE"], ok: ["再構築の維持：低頻度レチノイド", "防御：抗酸化 + 封じ込め"] },
+    radiance: { low: ["鎮静・抗酸化：アゼライン酸／EGCG", "明るさ：ビタミンC + 封じ込め"], ok: ["均一なツヤ：抗酸化 + 保湿", "反射管理：キメのリズム"] },
+    barrier: { low: ["脂質補修：セラミド／コレステロール／脂肪酸", "刺激軽減：強い酸・アルコール・香料を中止"], ok: ["連続性の維持：脂質 + 封じ込め", "変動回避：洗浄を穏やかに"] },
+    acne: { low: ["部分ケア：BHA／アゼライン酸のスポット使い", "負荷軽減：触らない・枕カバーをこまめに交換"], ok: ["詰まり予防：低頻度の BHA", "エリア別ケア：皮脂の多い部位は密閉を控える"] },
+  },
+  protocolDefault: ["低刺激を基本に", "リズムを保ち経過を追う"],
+  decision: {
+    text: (sens, load, restricted) =>
+`システム判断の説明
+現在の敏感負荷は${{ low: "低め", moderate: "中程度", high: "高め" }[load]}です（${sens}）
+${restricted
+  ? `角層代謝が速まり刺激シグナルが増幅されるのを避けるため、
+高濃度の酸や高頻度のピーリングを一時的に制限しています。
+14 日間はバリアの安定を優先してください。`
+  : `現在、酸の使用を制限するシグナルはありません。
+今のケアを続け、下の優先ノードに沿って調整してください。`}`,
+    node: (p, s) =>
+`SYSTEM PRIORITY NODE
+Primary Risk: ${p}
+Secondary Drift: ${s}`,
+    environment:
+`ENVIRONMENT & INFERENCE BOUNDARY / 環境と推定の限界
+• 光源は色素と明るさの見え方に影響します
+• 角度・距離は毛穴の目立ちとキメのコントラストに影響します
+• 単回の画像推定であり、優先順位付けと行動制約のためのものです（医療的な判断ではありません）`,
+  },
+  rules: {
+    C_ACID_BLOCK: "高濃度 AHA：使用不可",
+    C_ACID_LIMIT: "酸：低濃度、週 2 回まで",
+    C_RETINOL_PAUSE: "レチノール：一時停止",
+    C_RETINOL_REDUCE: "レチノール：頻度を下げる",
+    C_EXFOLIATE_10D: "角質ケアの間隔：10 日以上",
+    C_EXFOLIATE_7D: "角質ケアの間隔：7 日以上",
+    C_FRAGRANCE_AVOID: "香料・精油：避ける",
+    C_SPF_DAILY: "SPF 50 / PA++++：毎日、屋外では 2 時間ごとに塗り直し",
+    C_OCCLUSIVE_TZONE: "重い密閉系オイル：T ゾーンは避ける",
+    P_BARRIER: "バリア不安定（Barrier Instability）",
+    P_HYDRATION: "保水不足（Hydration Deficit）",
+    P_TEXTURE: "キメ不規則（Texture Irregularity）",
+    P_MELANIN: "色素のムラ（Pigment Unevenness）",
+    P_SEBUM: "皮脂バランスの乱れ（Sebum Imbalance）",
+    P_PORE: "毛穴の目立ち（Pore Visibility）",
+    P_ELASTICITY: "弾力低下（Elasticity Decline）",
+    P_RADIANCE: "ツヤの拡散（Radiance Scatter）",
+    P_ACNE: "ニキビの活動性（Blemish Activity）",
+    P_MAINTAIN: "現状維持（Maintenance）",
+    T_STABILIZE_BARRIER: "Week 1–2：バリアを安定",
+    T_STABILIZE_CALM: "Week 1–2：赤みの負荷を下げる",
+    T_STABILIZE_HYDRATE: "Week 1–2：保水と封じ込め",
+    T_STABILIZE_BASE: "Week 1–2：基本ケアを継続",
+    T_RENEW_GENTLE: "Week 3：低刺激ターンオーバー",
+    T_RENEW_BLEMISH: "Week 3：部分ケア（ニキビエリア）",
+    T_RENEW_TEXTURE: "Week 3：穏やかな代謝（キメ・毛穴）",
+    T_RENEW_BASE: "Week 3：規則的なターンオーバー",
+    T_OPTIMIZE_PIGMENT: "Week 4：色素の均一化",
+    T_OPTIMIZE_FIRMNESS: "Week 4：弾力サポート",
+    T_OPTIMIZE_BASE: "Week 4：微細構造の最適化",
+  },
+  summary: {
+    done: "スキャン完了：各シグナルチャンネルを次元別の判断レポートに統合しました。",
+    taskCreated: "タスクを作成しました。解析結果をお待ちください。",
+    unavailable: "解析サービスに一時的に接続できません。しばらくしてから再度お試しください。",
+  },
+  print: {
+    title: "スキンシグナルレポート",
+    summary: "サマリー",
+    signals: "14 チャンネルシグナル",
+    dimensions: "次元別分析",
+    finding: "システム判定",
+    mechanism: "推論と戦略",
+    protocol: "戦略提案",
+    images: "注釈付き画像",
+    unannotated: "元画像（注釈画像なし）",
+    decision: "判断レイヤー",
+    environment: "環境",
+    priorityNode: "優先ノード",
+    constraints: "行動制約",
+    timeline: "タイムライン",
+    scanId: "スキャン ID",
+    producedAt: "作成日時",
+    scoringVersion: "スコアリング版",
+    lowConfidence: "信頼度低",
+    narrativePending: "パーソナライズ文章を生成中のため、標準文章を表示しています。",
+    disclaimer: "本レポートは外観画像シグナルの分析であり、スキンケアの参考用です。",
+  },
+  retake: {
+    belowMinImageSize: [
+      "画像サイズが不足しています（システムで補完を試みました）。",
+      "もう少し近づくか、より高い解像度で撮影してください。",
+      "チャットアプリで圧縮された画像のアップロードは避けてください。",
+    ],
+    unsupportedFormat: ["この画像形式は読み込めません。", "カメラ設定で JPEG（互換性優先）に切り替えるか、スクリーンショットをアップロードしてください。"],
+    tooLarge: ["写真の画素数が多すぎて処理できません。", "カメラの解像度を 1600 万画素以下にするか、縮小してからアップロードしてください。"],
+    face: {
+      NO_FACE: ["顔が検出されませんでした。", "顔全体をフレームに入れ、隠れているものを外してください。"],
+      MULTIPLE_FACES: ["複数の顔が検出されました。", "ご本人だけが写るようにしてください。"],
+      FACE_TOO_SMALL: ["顔が小さすぎます。", "もう少し近づき、ガイドいっぱいに顔を収めてください。"],
+      FACE_OFF_CENTER: ["顔が中心からずれています。", "ガイドの中央に顔を合わせてください。"],
+      YAW_EXCESSIVE: ["顔の左右の向きが大きすぎます。", "正面はカメラをまっすぐ見て、側面は約 45° 向けてください。"],
+      PITCH_EXCESSIVE: ["顔の上下の傾きが大きすぎます。", "あごを水平に保ち、カメラを目の高さにしてください。"],
+    },
+  },
+  precheck: {
+    LOW_RESOLUTION: "画質が低めです。より鮮明な正面写真を使用してください。",
+    TOO_DARK: "光が暗めです。窓の方を向くか、やわらかい光を足してください。",
+    TOO_BRIGHT: "ハイライトが強すぎます。真上からの直射光を避けてください。",
+    HIGHLIGHT_CLIPPED: "一部が白飛びしています。反射やフラッシュを避けてください。",
+    BLURRY: "画像がぼやけています。スマホを固定し、ピントを合わせてから撮影してください。",
+    COLOR_CAST: "光源に色かぶりがあります。自然な白色光で撮影してください。",
+    DECODE_FAILED: "画像形式を読み取れません。JPEG でアップロードしてください。",
+  },
+  lowConfidence: {
+    hedge: (t) => `暫定的な判読（信頼度低・参考値）：${t}`,
+    recheck: "均一な光の下、正面からもう一度撮影し、この項目の結果を確認してください。",
+  },
+  errors: {
+    INPUT_MISSING_IMAGE: "正面写真（image1）がありません。",
+    INPUT_BAD_FORM: "写真は multipart/form-data でアップロードしてください。",
+    INPUT_MISSING_SCAN_TOKEN: "scan_token が必要です。",
+    INPUT_MISSING_USER_ID: "この照会には user_id が必要です。",
+    INPUT_INVALID_USER_ID: "user_id の形式が正しくありません。",
+    INPUT_INVALID_CALLBACK_URL: "callback_url は受け付けられない URL です。",
+    INPUT_UNKNOWN_SCORING_VERSION: "指定されたスコアリングバージョンは存在しません。",
+    INPUT_INVALID_IDEMPOTENCY_KEY: "Idempotency-Key の形式が正しくありません。",
+    INPUT_MISSING_CONSENT: "同意が必要です（consent_version と consent_purpose、用途に skin_analysis を含めてください）。",
+    INPUT_CONSENT_VERSION_NOT_ACCEPTED: "この同意書のバージョンは受け付けていません。最新のプライバシー規約をご確認ください。",
+    INPUT_INVALID_CONSENT_PURPOSE: "consent_purpose にサポートされていない用途が含まれています。",
+    INPUT_INVALID_FORMAT: "format は json・html・pdf のいずれかを指定してください。",
+    INPUT_IDEMPOTENCY_KEY_REUSED: "この Idempotency-Key は別の写真で使用済みです。",
+    RETAKE_MIN_SIZE: "写真の解像度が不足しています。撮り直してください。",
+    RETAKE_UNSUPPORTED_FORMAT: "この写真形式は読み込めません。JPEG または PNG を使用してください。",
+    RETAKE_FACE_GATE: "写真の顔の位置が解析条件を満たしていません。ヒントに沿って撮り直してください。",
+    RETAKE_TOO_LARGE: "写真が大きすぎます。解像度を下げるか縮小してからアップロードしてください。",
+    AUTH_UNAUTHORIZED: "認証されていないリクエストです。",
+    AUTH_MISSING_CREDENTIALS: "API キーまたはアクセストークンが必要です。",
+    AUTH_INVALID_CREDENTIALS: "API キーまたはアクセストークンが無効です。",
+    AUTH_TOKEN_EXPIRED: "アクセストークンの有効期限が切れています。再取得してください。",
+    AUTH_ORIGIN_NOT_ALLOWED: "このオリジンからの API 呼び出しは許可されていません。",
+    AUTH_INVALID_SCAN_TOKEN: "scan_token が無効です。",
+    AUTH_SCAN_TOKEN_EXPIRED: "scan_token の有効期限が切れています。もう一度スキャンしてください。",
+    AUTH_SCAN_TOKEN_FORBIDDEN: "この scan_token は現在のアカウントのものではありません。",
+    RATE_LIMITED: "リクエストが多すぎます。しばらくしてから再度お試しください。",
+    NOT_FOUND_SCAN: "スキャン記録が見つかりません。",
+    NOT_FOUND_TASK: "解析タスクが見つかりません。",
+    NOT_FOUND_WEBHOOK: "このタスクには webhook が登録されていません。",
+    NOT_FOUND_DELETION_RECEIPT: "このスキャンの削除証明が見つかりません。",
+    NOT_FOUND_ANNOTATED_IMAGE: "注釈画像が存在しないか、有効期限が切れています。",
+    METHOD_NOT_ALLOWED: "このリクエストメソッドはサポートされていません。",
+    STATE_NOT_ENOUGH_SCANS: "比較には 2 回以上のスキャンが必要です。",
+    STATE_RAW_SCORES_UNAVAILABLE: "このスキャンには元スコアが保存されていないため、再計算できません。",
+    STATE_IDEMPOTENCY_IN_PROGRESS: "同じリクエストを処理中です。しばらくしてから再度お試しください。",
+    STATE_SCAN_DELETED: "このスキャンのデータはご要望により削除されました。",
+    CONFIG_MISSING_KEY: "サービスの設定が不完全です。管理者に連絡してください。",
+    CONFIG_INVALID: "サービスの設定に誤りがあります。管理者に連絡してください。",
+    CONFIG_PDF_FONT_UNAVAILABLE: "PDF 用のフォントが用意されていないため PDF を出力できません。HTML 版を印刷してください。",
+    UPSTREAM_TIMEOUT: "解析サービスの応答がタイムアウトしました。しばらくしてから再度お試しください。",
+    UPSTREAM_NETWORK: "解析サービスに接続できません。しばらくしてから再度お試しください。",
+    UPSTREAM_SERVER: "解析サービスで一時的なエラーが発生しました。しばらくしてから再度お試しください。",
+    UPSTREAM_REJECTED: "解析サービスがこのリクエストを拒否しました。",
+    UPSTREAM_UNAVAILABLE: "解析サービスは一時的に利用できません。しばらくしてから再度お試しください。",
+    UPSTREAM_TASK_FAILED: "解析タスクが失敗しました。もう一度スキャンしてください。",
+    INTERNAL: "予期しないエラーが発生しました。",
+  },
+};
+
+const ko: Catalog = {
+  signals: {
+    hydration: "수분 안정도",
+    sebum: "피지 분포",
+    texture: "결 규칙성",
+    pore: "모공 가시성",
+    pores_depth: "모공 깊이 추정",
+    pigmentation: "색소 균일도",
+    wrinkle: "주름 추정",
+    firmness: "탄탄함 추정",
+    elasticity: "탄력 반응",
+    redness: "홍조 안정도",
+    brightness: "밝기 지수",
+    skintone: "피부톤 균일도",
+    clarity: "투명도",
+    sensitivity: "민감 부하",
+    acne: "트러블 안정",
+  },
+  cards: {
+    hydration: { title: "수분 토폴로지", details: ["표층 수분", "중층 침투", "심층 보습"] },
+    melanin: { title: "색소 분포", details: ["이마 영역", "볼 영역", "턱 영역"] },
+    texture: { title: "결 매트릭스", details: ["매끄러움", "균일도", "거칠기"] },
+    sebum: { title: "유수분 밸런스", details: ["T존 피지", "볼 피지", "밸런스 값"] },
+    pore: { title: "모공 구조", details: ["T존", "볼", "콧방울"] },
+    elasticity: { title: "탄력 지수", details: ["탄탄함", "주름 깊이", "회복력"] },
+    radiance: { title: "광채 스펙트럼", details: ["밝기", "균일도", "광채"] },
+    barrier: { title: "장벽 완전성", details: ["지질 매트릭스", "세라마이드층", "보습 밀봉", "피지막"] },
+    acne: { title: "트러블 분포", details: ["이마 영역", "볼 영역", "턱 영역"] },
+  },
+  levels: { stable: "안정 구간", deviation: "관리 가능한 편차 구간", threshold: "임계값 근접" },
+  findingBase: (level, s) => `시각적 특징이 「${level}」(${s})을 보이며, 전략적으로 관리할 수 있는 변동형 신호입니다.`,
+  finding: {
+    hydration: "수분 밀봉 효율이 부족할 수 있으며, 표층과 심층의 동조가 약합니다.",
+    melanin: "색소에 부위별 차이가 있으며, 광대/이마의 농도 구배가 더 뚜렷할 수 있습니다.",
+    texture: "미세한 결의 대비가 강해 반사가 흩어지고, 질감이 거칠어 보일 수 있습니다.",
+    sebum: "피지 분포가 부위별로 치우쳐 T존과 볼의 분비가 비대칭일 수 있습니다.",
+    pore: "모공 가시성이 높아졌으며, 모공 경계의 대비가 높을 수 있습니다.",
+    elasticity: "회복 곡선이 느리며, 탄력 회복이 부하의 영향을 받을 수 있습니다.",
+    radiance: "광채가 확산 반사 쪽에 가까워, 밝기가 산란으로 손실되는 비율이 높을 수 있습니다.",
+    barrier: "장벽 연속성이 부족할 수 있으며, 자극 임계값이 낮아질 위험이 있습니다.",
+    acne: "트러블 신호가 영역별로 몰려 있으며, 턱과 볼에 염증 포인트가 집중될 수 있습니다.",
+  },
+  mechanism: {
+    hydration: [
+      "추론: 각질층 보습 구조의 밀봉 효율이 낮아 하루 중 변동이 더 클 수 있습니다.",
+      "추론: 보습 구조는 관리 가능하지만, 밀봉과 유지 사이에 약간의 차이가 있습니다.",
+    ],
+    melanin: [
+      "추론: 국소적인 색소 생성/이동이 활발하여 균일도가 낮아졌을 수 있습니다.",
+      "추론: 색소 분포는 전반적으로 관리되고 있으나, 조명/각도에 따라 차이가 커 보일 수 있습니다.",
+    ],
+    texture: [
+      "추론: 각질 배열과 결합이 고르지 않아 microrelief로 인한 산란이 증가했습니다.",
+      "추론: 결 규칙성은 양호하나, 국소적인 미세 결이 반사를 흩뜨릴 수 있습니다.",
+    ],
+    sebum: [
+      "추론: 피지 분비와 탈수 신호가 상호작용하여 국소 정체와 막힘 위험이 있습니다.",
+      "추론: 피지 분비는 안정적이지만, 부위별 차이가 모공 부하에 영향을 줄 수 있습니다.",
+    ],
+    pore: [
+      "추론: 모낭 각화와 피지 정체가 모공 가시성과 경계 확장을 높였을 수 있습니다.",
+      "추론: 모공 구조는 대체로 관리되고 있으나, 각질 마개가 쌓이지 않도록 해야 합니다.",
+    ],
+    elasticity: [
+      "추론: 회복 반응이 느리며, 산화/당화 부하 및 회복 리듬과 관련될 수 있습니다.",
+      "추론: 탄력 회복은 유지되고 있습니다. 저자극으로 리모델링 리듬을 유지하세요.",
+    ],
+    radiance: [
+      "추론: 표면 산란(결)과 미세 염증 신호가 투명도와 밝기를 낮출 수 있습니다.",
+      "추론: 광채는 관리되고 있으나, 산란과 균일도가 주요 영향 요인입니다.",
+    ],
+    barrier: [
+      "추론: 지질 매트릭스의 연속성 부족과 pH 변동이 내성 한계를 낮출 수 있습니다.",
+      "추론: 장벽은 기능하지만, 미세 균열을 막기 위해 지질 연속성을 유지해야 합니다.",
+    ],
+    acne: [
+      "추론: 피지 정체와 각질 막힘이 겹쳐 국소 염증이 반복될 수 있습니다.",
+      "추론: 트러블 신호는 관리 가능하지만, 영역 차이로 인한 막힘 부하 누적은 피하세요.",
+    ],
+  },
+  mechanismDefault: "추론: 신호는 구조와 변동의 상호작용에서 비롯되었을 수 있습니다.",
+  protocol: {
+    hydration: { low: ["NMF: 판테놀/아미노산", "지질 보충: 세라마이드 3:1:1"], ok: ["밀봉: 세라마이드/지방산", "리듬: 야간 보습 강화"] },
+    melanin: { low: ["항산화 체인: 비타민C + 페룰산", "균일 경로: B3/트라넥삼산"], ok: ["자외선 차단: 광범위·안정 제형", "균일 리듬: 저자극 장기 관리"] },
+    texture: { low: ["부드러운 각질 관리: PHA/LHA", "구조 지원: 요소/세라마이드"], ok: ["관리 리듬: 간격을 길게", "민감기: 마찰 피하기"] },
+    sebum: { low: ["장벽을 지키는 피지 조절: 징크 PCA", "모공 관리: BHA 주 2–3회"], ok: ["부위별 관리: T존/볼 분리", "부하 관리: 강한 세정 피하기"] },
+    pore: { low: ["각화 관리: BHA/레티놀 교대", "구조 지원: B3/펩타이드"], ok: ["관리 리듬: 낮은 빈도로 꾸준히", "지원 전략: B3/보습 밀봉"] },
+    elasticity: { low: ["야간 리모델링: 레티놀 2–3일 밤", "항산화 지원: 펩타이드/비타민E"], ok: ["리모델링 유지: 저빈도 레티노이드", "보호: 항산화 + 밀봉"] },
+    radiance: { low: ["진정·항산화: 아젤라산/EGCG", "브라이트닝: 비타민C + 밀봉"], ok: ["균일 광채: 항산화 + 보습", "반사 관리: 결 리듬"] },
+    barrier: { low: ["지질 회복: 세라마이드/콜레스테롤/지방산", "자극 줄이기: 강한 산·알코올·향료 중단"], ok: ["연속성 유지: 지질 + 밀봉", "변동 피하기: 세정 강도 낮추기"] },
+    acne: { low: ["국소 관리: BHA/아젤라산 스팟", "부하 줄이기: 짜지 않기, 베개 커버 자주 교체"], ok: ["막힘 예방: 저빈도 BHA", "영역별 관리: 유분 많은 부위는 밀폐 줄이기"] },
+  },
+  protocolDefault: ["저자극 위주로", "리듬 유지 및 추적"],
+  decision: {
+    text: (sens, load, restricted) =>
+`시스템 판단 설명
+현재 민감 부하는 ${{ low: "낮은 편", moderate: "중간", high: "높은 편" }[load]}입니다(${sens})
+${restricted
+  ? `각질 대사가 빨라져 자극 신호가 증폭되는 것을 막기 위해,
+고농도 산과 잦은 필링을 일시적으로 제한했습니다.
+14일 동안은 장벽 안정에 집중하세요.`
+  : `현재 산 사용을 제한할 신호는 없습니다.
+기존 루틴을 유지하고 아래 우선 노드에 따라 조정하세요.`}`,
+    node: (p, s) =>
+`SYSTEM PRIORITY NODE
+Primary Risk: ${p}
+Secondary Drift: ${s}`,
+    environment:
+`ENVIRONMENT & INFERENCE BOUNDARY / 환경 및 추정 한계
+• 조명은 색소와 밝기 판독에 영향을 줍니다
+• 각도/거리는 모공 가시성과 결 대비에 영향을 줍니다
+• 단일 이미지 기반 추정으로, 우선순위와 행동 제약을 위한 것입니다(의료적 판단 아님)`,
+  },
+  rules: {
+    C_ACID_BLOCK: "고농도 AHA: 사용 금지",
+    C_ACID_LIMIT: "산: 저농도, 주 2회 이하",
+    C_RETINOL_PAUSE: "레티놀: 일시 중단",
+    C_RETINOL_REDUCE: "레티놀: 빈도 낮추기",
+    C_EXFOLIATE_10D: "각질 관리 간격: 10일 이상",
+    C_EXFOLIATE_7D: "각질 관리 간격: 7일 이상",
+    C_FRAGRANCE_AVOID: "향료 / 에센셜 오일: 피하기",
+    C_SPF_DAILY: "SPF 50 / PA++++: 매일, 야외에서는 2시간마다 덧바르기",
+    C_OCCLUSIVE_TZONE: "무거운 밀폐형 오일: T존은 피하기",
+    P_BARRIER: "장벽 불안정(Barrier Instability)",
+    P_HYDRATION: "수분 보유 부족(Hydration Deficit)",
+    P_TEXTURE: "결 불규칙(Texture Irregularity)",
+    P_MELANIN: "색소 불균일(Pigment Unevenness)",
+    P_SEBUM: "피지 불균형(Sebum Imbalance)",
+    P_PORE: "모공 가시성 증가(Pore Visibility)",
+    P_ELASTICITY: "탄력 저하(Elasticity Decline)",
+    P_RADIANCE: "광채 산란(Radiance Scatter)",
+    P_ACNE: "트러블 활동성(Blemish Activity)",
+    P_MAINTAIN: "현상 유지(Maintenance)",
+    T_STABILIZE_BARRIER: "Week 1–2: 장벽 안정",
+    T_STABILIZE_CALM: "Week 1–2: 홍조 부하 낮추기",
+    T_STABILIZE_HYDRATE: "Week 1–2: 수분 공급과 밀봉",
+    T_STABILIZE_BASE: "Week 1–2: 기본 루틴 유지",
+    T_RENEW_GENTLE: "Week 3: 저자극 턴오버",
+    T_RENEW_BLEMISH: "Week 3: 국소 관리(트러블 영역)",
+    T_RENEW_TEXTURE: "Week 3: 부드러운 대사(결 / 모공)",
+    T_RENEW_BASE: "Week 3: 규칙적인 턴오버",
+    T_OPTIMIZE_PIGMENT: "Week 4: 색소 균일화",
+    T_OPTIMIZE_FIRMNESS: "Week 4: 탄력 지원",
+    T_OPTIMIZE_BASE: "Week 4: 미세 구조 최적화",
+  },
+  summary: {
+    done: "스캔 완료: 모든 신호 채널을 차원별 판단 리포트로 통합했습니다.",
+    taskCreated: "작업이 생성되었습니다. 분석 결과를 기다리는 중입니다.",
+    unavailable: "분석 서비스에 일시적으로 연결할 수 없습니다. 잠시 후 다시 시도하세요.",
+  },
+  print: {
+    title: "피부 신호 리포트",
+    summary: "요약",
+    signals: "14 채널 신호",
+    dimensions: "차원별 분석",
+    finding: "시스템 판단",
+    mechanism: "추론 및 전략",
+    protocol: "전략 제안",
+    images: "주석 이미지",
+    unannotated: "원본 사진 (주석 이미지 없음)",
+    decision: "결정 레이어",
+    environment: "환경",
+    priorityNode: "우선 노드",
+    constraints: "행동 제약",
+    timeline: "타임라인",
+    scanId: "스캔 ID",
+    producedAt: "생성 시각",
+    scoringVersion: "스코어링 버전",
+    lowConfidence: "신뢰도 낮음",
+    narrativePending: "개인화 문장을 생성 중이라 표준 문장을 표시합니다.",
+    disclaimer: "본 리포트는 외관 이미지 신호 분석으로, 스킨케어 참고용입니다.",
+  },
+  retake: {
+    belowMinImageSize: [
+      "이미지 크기가 부족합니다(시스템이 보정을 시도했습니다).",
+      "조금 더 가까이에서 찍거나 더 높은 해상도를 사용하세요.",
+      "채팅 앱으로 압축된 사진은 업로드하지 마세요.",
+    ],
+    unsupportedFormat: ["이 이미지 형식을 읽을 수 없습니다.", "카메라 설정에서 JPEG(호환성 우선)로 바꾸거나 스크린샷을 올려 주세요."],
+    tooLarge: ["사진의 화소 수가 너무 많아 처리할 수 없습니다.", "카메라 해상도를 1600만 화소 이하로 낮추거나 크기를 줄여서 올려 주세요."],
+    face: {
+      NO_FACE: ["얼굴이 감지되지 않았습니다.", "얼굴 전체가 프레임에 들어오게 하고 가리는 것을 치워 주세요."],
+      MULTIPLE_FACES: ["여러 얼굴이 감지되었습니다.", "본인만 화면에 나오도록 해 주세요."],
+      FACE_TOO_SMALL: ["얼굴이 화면에서 너무 작습니다.", "조금 더 가까이 와서 얼굴이 가이드를 채우게 하세요."],
+      FACE_OFF_CENTER: ["얼굴이 중앙에서 벗어났습니다.", "가이드 중앙에 얼굴을 맞춰 주세요."],
+      YAW_EXCESSIVE: ["고개가 옆으로 너무 많이 돌아갔습니다.", "정면 사진은 카메라를 똑바로, 측면 사진은 약 45° 돌려 주세요."],
+      PITCH_EXCESSIVE: ["고개가 위아래로 너무 기울었습니다.", "턱을 수평으로 유지하고 카메라를 눈높이에 두세요."],
+    },
+  },
+  precheck: {
+    LOW_RESOLUTION: "화질이 낮습니다. 더 선명한 정면 사진을 사용하세요.",
+    TOO_DARK: "조명이 어둡습니다. 창문을 바라보거나 부드러운 조명을 더하세요.",
+    TOO_BRIGHT: "하이라이트가 너무 강합니다. 머리 위 직사광을 피하세요.",
+    HIGHLIGHT_CLIPPED: "일부가 과다 노출되었습니다. 반사광과 플래시를 피하세요.",
+    BLURRY: "이미지가 흐립니다. 휴대폰을 고정하고 초점을 맞춘 뒤 촬영하세요.",
+    COLOR_CAST: "조명에 색이 끼어 있습니다. 자연스러운 흰색 조명을 사용하세요.",
+    DECODE_FAILED: "이미지 형식을 읽을 수 없습니다. JPEG로 업로드하세요.",
+  },
+  lowConfidence: {
+    hedge: (t) => `잠정 판독(신뢰도 낮음, 참고용): ${t}`,
+    recheck: "균일한 조명에서 정면으로 한 번 더 촬영해 이 항목의 결과를 확인하세요.",
+  },
+  errors: {
+    INPUT_MISSING_IMAGE: "정면 사진(image1)이 없습니다.",
+    INPUT_BAD_FORM: "사진은 multipart/form-data로 업로드하세요.",
+    INPUT_MISSING_SCAN_TOKEN: "scan_token이 필요합니다.",
+    INPUT_MISSING_USER_ID: "이 조회에는 user_id가 필요합니다.",
+    INPUT_INVALID_USER_ID: "user_id 형식이 올바르지 않습니다.",
+    INPUT_INVALID_CALLBACK_URL: "callback_url은 허용되지 않는 URL입니다.",
+    INPUT_UNKNOWN_SCORING_VERSION: "지정한 점수 산정 버전이 없습니다.",
+    INPUT_INVALID_IDEMPOTENCY_KEY: "Idempotency-Key 형식이 올바르지 않습니다.",
+    INPUT_MISSING_CONSENT: "동의가 필요합니다(consent_version과 consent_purpose, 용도에 skin_analysis 포함).",
+    INPUT_CONSENT_VERSION_NOT_ACCEPTED: "이 동의서 버전은 더 이상 허용되지 않습니다. 최신 개인정보 약관을 확인하세요.",
+    INPUT_INVALID_CONSENT_PURPOSE: "consent_purpose에 지원하지 않는 용도가 포함되어 있습니다.",
+    INPUT_INVALID_FORMAT: "format은 json, html, pdf 중 하나여야 합니다.",
+    INPUT_IDEMPOTENCY_KEY_REUSED: "이 Idempotency-Key는 이미 다른 사진에 사용되었습니다.",
+    RETAKE_MIN_SIZE: "사진 해상도가 부족합니다. 다시 촬영하세요.",
+    RETAKE_UNSUPPORTED_FORMAT: "이 사진 형식은 읽을 수 없습니다. JPEG 또는 PNG를 사용하세요.",
+    RETAKE_FACE_GATE: "사진 속 얼굴 위치가 분석 조건에 맞지 않습니다. 안내에 따라 다시 촬영하세요.",
+    RETAKE_TOO_LARGE: "사진이 너무 큽니다. 해상도를 낮추거나 크기를 줄여서 다시 올려 주세요.",
+    AUTH_UNAUTHORIZED: "인증되지 않은 요청입니다.",
+    AUTH_MISSING_CREDENTIALS: "API 키 또는 액세스 토큰이 필요합니다.",
+    AUTH_INVALID_CREDENTIALS: "API 키 또는 액세스 토큰이 유효하지 않습니다.",
+    AUTH_TOKEN_EXPIRED: "액세스 토큰이 만료되었습니다. 다시 발급받으세요.",
+    AUTH_ORIGIN_NOT_ALLOWED: "이 출처에서는 API를 호출할 수 없습니다.",
+    AUTH_INVALID_SCAN_TOKEN: "scan_token이 유효하지 않습니다.",
+    AUTH_SCAN_TOKEN_EXPIRED: "scan_token이 만료되었습니다. 다시 스캔하세요.",
+    AUTH_SCAN_TOKEN_FORBIDDEN: "이 scan_token은 현재 계정에 속하지 않습니다.",
+    RATE_LIMITED: "요청이 너무 많습니다. 잠시 후 다시 시도하세요.",
+    NOT_FOUND_SCAN: "스캔 기록을 찾을 수 없습니다.",
+    NOT_FOUND_TASK: "분석 작업을 찾을 수 없습니다.",
+    NOT_FOUND_WEBHOOK: "이 작업에 등록된 webhook이 없습니다.",
+    NOT_FOUND_DELETION_RECEIPT: "이 스캔의 삭제 확인서를 찾을 수 없습니다.",
+    NOT_FOUND_ANNOTATED_IMAGE: "주석 이미지가 없거나 만료되었습니다.",
+    METHOD_NOT_ALLOWED: "지원하지 않는 요청 메서드입니다.",
+    STATE_NOT_ENOUGH_SCANS: "비교하려면 최소 두 번의 스캔이 필요합니다.",
+    STATE_RAW_SCORES_UNAVAILABLE: "이 스캔에는 원본 점수가 저장되어 있지 않아 다시 계산할 수 없습니다.",
+    STATE_IDEMPOTENCY_IN_PROGRESS: "같은 요청을 아직 처리 중입니다. 잠시 후 다시 시도하세요.",
+    STATE_SCAN_DELETED: "이 스캔의 데이터는 요청에 따라 삭제되었습니다.",
+    CONFIG_MISSING_KEY: "서비스 설정이 완전하지 않습니다. 관리자에게 문의하세요.",
+    CONFIG_INVALID: "서비스 설정에 오류가 있습니다. 관리자에게 문의하세요.",
+    CONFIG_PDF_FONT_UNAVAILABLE: "PDF용 글꼴이 설치되어 있지 않아 PDF를 내보낼 수 없습니다. HTML 버전을 인쇄하세요.",
+    UPSTREAM_TIMEOUT: "분석 서비스 응답 시간이 초과되었습니다. 잠시 후 다시 시도하세요.",
+    UPSTREAM_NETWORK: "분석 서비스에 연결할 수 없습니다. 잠시 후 다시 시도하세요.",
+    UPSTREAM_SERVER: "분석 서비스에 일시적인 오류가 발생했습니다. 잠시 후 다시 시도하세요.",
+    UPSTREAM_REJECTED: "분석 서비스가 이 요청을 거부했습니다.",
+    UPSTREAM_UNAVAILABLE: "분석 서비스를 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도하세요.",
+    UPSTREAM_TASK_FAILED: "분석 작업이 실패했습니다. 다시 스캔하세요.",
+    INTERNAL: "예기치 않은 오류가 발생했습니다.",
+  },
+};
+
+const CATALOGS: Record<Locale, Catalog> = { "zh-TW": zhTW, en, ja, ko };
+
+export const LOCALES = Object.keys(CATALOGS) as Locale[];
+export const DEFAULT_LOCALE: Locale = "zh-TW";
+
+export function catalog(locale: Locale): Catalog {
+  return CATALOGS[locale] || CATALOGS[DEFAULT_LOCALE];
+}
+
+// "zh-Hant-TW" / "zh" → zh-TW、"ja-JP" → ja …；不認得就 null
+export function matchLocale(tag: string): Locale | null {
+  const t = tag.trim().toLowerCase();
+  if (!t) return null;
+  for (const l of LOCALES) if (l.toLowerCase() === t) return l;
+  const base = t.split("-")[0];
+  if (base === "zh") return "zh-TW";
+  for (const l of LOCALES) if (l.toLowerCase().split("-")[0] === base) return l;
+  return null;
+}
+
+// ✅ 語系協商：?lang= 優先，其次 Accept-Language（依 q 值），都沒有 → zh-TW
+export function negotiateLocale(req: Request): Locale {
+  const url = new URL(req.url);
+  const lang = url.searchParams.get("lang");
+  if (lang) {
+    const l = matchLocale(lang);
+    if (l) return l;
+  }
+
+  const header = req.headers.get("accept-language") || "";
+  const ranked = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.split(";");
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+      return { tag: tag.trim(), q: q ? Number(q.slice(2)) || 0 : 1 };
+    })
+    .filter((x) => x.tag && x.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const x of ranked) {
+    const l = matchLocale(x.tag);
+    if (l) return l;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function findingText(locale: Locale, dimId: string, score: number, tone: Tone) {
+  const c = catalog(locale);
+  const base = c.findingBase(c.levels[tone], score);
+  return `${c.finding[dimId] || ""}\n${base}`.trim();
+}
+
+export function mechanismText(locale: Locale, dimId: string, low: boolean) {
+  const c = catalog(locale);
+  const m = c.mechanism[dimId];
+  if (!m) return c.mechanismDefault;
+  return low ? m[0] : m[1];
+}
+
+export function protocolText(locale: Locale, dimId: string, low: boolean): string[] {
+  const c = catalog(locale);
+  const p = c.protocol[dimId];
+  if (!p) return [...c.protocolDefault];
+  return [...(low ? p.low : p.ok)];
+}
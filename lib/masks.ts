@@ -0,0 +1,87 @@
+import { decodeImage } from "./image/decode";
+import type { FaceBox } from "./image/face";
+import { downsample, resize, type Raster } from "./image/raster";
+import { maskPlane, zoneCoverage, type MaskPlane } from "./image/zones";
+import type { ZoneScores } from "./scoring";
+import type { ScoreMap, View } from "./types";
+import { upstreamFetch } from "./upstream";
+
+/* =========================
+   ✅ 遮罩 → 分區分數（取代用單一 ui 分數乘係數的假分區）
+   - 只量正面（臉框只在正面可靠）；同一 action 多張遮罩取聯集
+   - 分區分數 = 100 ×（1 − 覆蓋率 / ZONE_FULL_COVERAGE），越高越乾淨（與其他分數同向）
+   - 抓不到 / 解不開 / 分區落在畫面外 → 該分區不給值，計分時走設定裡的 fallback
+   - 同一次出報告的分區量測與標註圖（lib/annotate）共用 maskFetcher：每張遮罩只抓、只解一次
+========================= */
+const MASK_SIDE = 512;
+const MASK_MAX_BYTES = 4 * 1024 * 1024;
+const MASK_TIMEOUT_MS = 4000;
+// 分區被標記到 35% 就視為 0 分
+const ZONE_FULL_COVERAGE = 0.35;
+
+// 抓遮罩並縮到 side 以內；失敗一律 null（報告匯出的縮圖也用這個）
+export async function fetchMask(url: string, side = MASK_SIDE) {
+  try {
+    const r = await upstreamFetch(url, {}, { service: "youcam_masks", step: "mask", idempotent: true, retries: 1, timeoutMs: MASK_TIMEOUT_MS });
+    const bytes = new Uint8Array(await r.arrayBuffer());
+    if (!bytes.length || bytes.length > MASK_MAX_BYTES) return null;
+    return downsample(await decodeImage(bytes, r.headers.get("content-type") || undefined), side);
+  } catch {
+    return null;
+  }
+}
+
+export type MaskFetcher = (url: string) => Promise<Raster | null>;
+
+// 依網址記住結果（含進行中的 promise）；side 取用途裡最大的那個，量分區時再縮
+export function maskFetcher(side = MASK_SIDE): MaskFetcher {
+  const memo = new Map<string, Promise<Raster | null>>();
+  return (url) => {
+    let hit = memo.get(url);
+    if (!hit) {
+      hit = fetchMask(url, side);
+      memo.set(url, hit);
+    }
+    return hit;
+  };
+}
+
+async function unionMask(urls: string[], fetch: MaskFetcher): Promise<MaskPlane | null> {
+  const rasters = (await Promise.all(urls.map(async (u) => {
+    const r = await fetch(u);
+    return r && downsample(r, MASK_SIDE);
+  }))).filter((r) => !!r);
+  if (!rasters.length) return null;
+  const { width, height } = rasters[0];
+  const on = new Uint8Array(width * height);
+  for (const r of rasters) {
+    const plane = maskPlane(resize(r, width, height));
+    for (let i = 0; i < on.length; i++) on[i] |= plane.on[i];
+  }
+  return { width, height, on };
+}
+
+export async function measureZones(
+  scoreMap: ScoreMap,
+  requests: { action: string; zones: string[] }[],
+  face: FaceBox,
+  view: View = "front",
+  fetch: MaskFetcher = fetchMask,
+): Promise<ZoneScores> {
+  const out: ZoneScores = {};
+  await Promise.all(requests.map(async ({ action, zones }) => {
+    const urls = (scoreMap.get(action)?.masks || []).filter((m) => m.view === view).map((m) => m.url);
+    if (!urls.length) return;
+    const mask = await unionMask(urls, fetch);
+    if (!mask) return;
+    const coverage = zoneCoverage(mask, face) as Record<string, number | null>;
+    const scores: Record<string, number> = {};
+    for (const z of zones) {
+      const c = coverage[z];
+      if (c === null || c === undefined) continue;
+      scores[z] = Math.max(0, Math.min(100, Math.round(100 * (1 - c / ZONE_FULL_COVERAGE))));
+    }
+    if (Object.keys(scores).length) out[action] = scores;
+  }));
+  return out;
+}
@@ -0,0 +1,61 @@
+import type { NarrativeCompliance } from "../compliance";
+import { sha256Hex } from "../dedup";
+import { reportTtlSec } from "../privacy";
+import type { KVStore } from "../store";
+import type { Card, ReportSignal } from "../types";
+import { NARRATIVE_PROMPT_VERSION } from "./prompt";
+import type { LLMNarratives } from "./types";
+
+/* =========================
+   ✅ 敘事快取（lib/store 的 KV）
+   - key = 分數向量（卡片分數、子指標、可信度、14 通道）+ prompt 版本 + 供應商 / 模型 的雜湊
+     同一組數字、同一版 prompt → 同一份敘事，不再叫 LLM
+   - pending：有人在產生了；放太久（isolate 中途被砍）就當作沒有，下一個請求重新來過
+   - failed：全部維度都沒產生出來 → 報告維持靜態文案
+   - 保存期限同報告快取（RETENTION_REPORT_DAYS）；刪除掃描時一起清
+   - KV 沒有原子的 set-if-absent，同時到達的兩個請求可能各產生一次，結果相同、只是多花一次額度
+========================= */
+export type NarrativeEntry =
+  | { status: "pending"; started_at: number }
+  | { status: "ready"; narratives: LLMNarratives; compliance: NarrativeCompliance; produced_at: string }
+  | { status: "failed"; produced_at: string };
+
+// 每個維度 45 秒、可重送一次，合規不過再要一次 → 最壞約 3 分鐘
+const PENDING_STALE_MS = 4 * 60 * 1000;
+
+const keyOf = (hash: string) => `narrative:${hash}`;
+
+export async function narrativeKey(cards: Card[], signals: ReportSignal[], provider: string, model: string) {
+  const vector = {
+    v: NARRATIVE_PROMPT_VERSION,
+    provider,
+    model,
+    cards: cards.map((c) => [c.id, c.score, c.details.map((d) => d.value), c.confidence, !!c.low_confidence, c.regional ?? null]),
+    signals: signals.map((s) => [s.id, s.score, s.tone]),
+  };
+  return sha256Hex(new TextEncoder().encode(JSON.stringify(vector)));
+}
+
+export async function getNarratives(store: KVStore, hash: string) {
+  const entry = await store.get<NarrativeEntry>(keyOf(hash));
+  if (entry?.status === "pending" && Date.now() - entry.started_at > PENDING_STALE_MS) return null;
+  return entry;
+}
+
+// 沒有（或 pending 已過期）→ 佔位並回 true，呼叫端負責產生
+export async function claimNarratives(store: KVStore, hash: string) {
+  if (await getNarratives(store, hash)) return false;
+  await store.set<NarrativeEntry>(keyOf(hash), { status: "pending", started_at: Date.now() }, { ttlSec: reportTtlSec() });
+  return true;
+}
+
+export async function saveNarratives(store: KVStore, hash: string, entry: NarrativeEntry) {
+  await store.set(keyOf(hash), entry, { ttlSec: reportTtlSec() });
+}
+
+// 有東西被刪 → true
+export async function deleteNarratives(store: KVStore, hash: string) {
+  const existed = !!(await store.get<NarrativeEntry>(keyOf(hash)));
+  await store.delete(keyOf(hash));
+  return existed;
+}
@@ -0,0 +1,102 @@
+import { enforceCompliance, type NarrativeCompliance } from "../compliance";
+import { ScanError } from "../errors";
+import type { Card, ReportSignal } from "../types";
+import { fixtureNarrativeProvider } from "./fixture";
+import { compatibleNarrativeProvider, openaiNarrativeProvider } from "./openai";
+import { buildNarrativeMessages } from "./prompt";
+import { validateNarratives } from "./schema";
+import type { LLMNarratives, NarrativeProvider, NarrativeScope, NarrativeSettings } from "./types";
+
+declare const process: { env: Record<string, string | undefined> };
+
+export type { LLMDimension, LLMNarratives, NarrativeProvider, NarrativeRepair, NarrativeScope, NarrativeSettings } from "./types";
+export { claimNarratives, deleteNarratives, getNarratives, narrativeKey, saveNarratives, type NarrativeEntry } from "./cache";
+
+/* =========================
+   ✅ LLM 個人化敘事
+   - NARRATIVE_PROVIDER：openai | openai-compatible | fixture | none
+     未設定 → 有 OPENAI_API_KEY 就走 openai，否則不產生（報告用靜態文案）
+   - NARRATIVE_MODEL（預設 gpt-4o）、NARRATIVE_TEMPERATURE（0–2，未設定不送）、NARRATIVE_MAX_TOKENS（預設 8192）
+   - 回覆一律過 schema 檢查（lib/narratives/schema）；不過、逾時、斷路器開著 → 回 null，呼叫端走靜態 fallback
+   - produceNarratives：每個維度各叫一次 + 總結一次，全部平行；再過合規檢查（lib/compliance）
+     某個維度失敗只影響那個維度（合規結果記 fallback）
+========================= */
+const PROVIDERS: Record<string, NarrativeProvider> = {
+  openai: openaiNarrativeProvider,
+  "openai-compatible": compatibleNarrativeProvider,
+  fixture: fixtureNarrativeProvider,
+};
+
+const DEFAULT_MODEL = "gpt-4o";
+const DEFAULT_MAX_TOKENS = 8192;
+
+export function getNarrativeProvider(): NarrativeProvider | null {
+  const raw = (process.env.NARRATIVE_PROVIDER || "").trim().toLowerCase();
+  if (!raw) return process.env.OPENAI_API_KEY ? openaiNarrativeProvider : null;
+  if (raw === "none") return null;
+  const p = PROVIDERS[raw];
+  if (!p) throw new ScanError("CONFIG_INVALID", `Unknown NARRATIVE_PROVIDER: ${raw}`);
+  return p;
+}
+
+export function narrativeSettings(): NarrativeSettings {
+  const t = process.env.NARRATIVE_TEMPERATURE?.trim();
+  const temperature = t ? Number(t) : undefined;
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+    throw new ScanError("CONFIG_INVALID", "NARRATIVE_TEMPERATURE must be a number between 0 and 2");
+  }
+  const m = process.env.NARRATIVE_MAX_TOKENS?.trim();
+  const maxTokens = m ? Number(m) : DEFAULT_MAX_TOKENS;
+  if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+    throw new ScanError("CONFIG_INVALID", "NARRATIVE_MAX_TOKENS must be a positive integer");
+  }
+  return { model: process.env.NARRATIVE_MODEL?.trim() || DEFAULT_MODEL, temperature, max_tokens: maxTokens };
+}
+
+// scope 未指定 → 全部維度 + 總結一次要齊；repair（合規檢查沒過，lib/compliance）→ 只重寫那幾個
+export async function generateNarratives(cards: Card[], signals: ReportSignal[], scope?: NarrativeScope): Promise<LLMNarratives | null> {
+  const provider = getNarrativeProvider();
+  if (!provider || provider.configError()) return null;
+  const want = scope || { ids: cards.map((c) => c.id), summary: true };
+  try {
+    const raw = await provider.generate(
+      { ...want, cards, signals, messages: buildNarrativeMessages(cards, signals, want) },
+      narrativeSettings(),
+    );
+    const checked = validateNarratives(raw, {
+      ids: want.ids,
+      summary: want.summary,
+      extra: scope ? "drop" : "reject",
+    });
+    if (!checked.ok) {
+      console.error(`[LLM Narrative] ${provider.name} reply failed schema, fallback to static:`, checked.errors.slice(0, 10));
+      return null;
+    }
+    return checked.value;
+  } catch (err) {
+    console.error("[LLM Narrative] fallback to static:", err);
+    return null;
+  }
+}
+
+export async function produceNarratives(
+  cards: Card[],
+  signals: ReportSignal[],
+): Promise<{ narratives: LLMNarratives; compliance: NarrativeCompliance } | null> {
+  const [summary, ...dims] = await Promise.all([
+    generateNarratives(cards, signals, { ids: [], summary: true }),
+    ...cards.map((c) => generateNarratives(cards, signals, { ids: [c.id], summary: false })),
+  ]);
+  const merged: LLMNarratives = {
+    dimensions: dims.flatMap((d) => d?.dimensions || []),
+    summary_zh: summary?.summary_zh || "",
+    summary_en: summary?.summary_en || "",
+  };
+  if (!merged.dimensions.length && !merged.summary_zh) return null;
+  return enforceCompliance(merged, cards, signals, (ids, issues) =>
+    generateNarratives(cards, signals, {
+      ids: ids.filter((id) => id !== "summary"),
+      summary: ids.includes("summary"),
+      repair: { ids, issues },
+    }));
+}
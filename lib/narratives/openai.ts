@@ -0,0 +1,59 @@
+import { UpstreamError, upstreamFetch } from "../upstream";
+import { NARRATIVE_JSON_SCHEMA } from "./schema";
+import type { NarrativeProvider } from "./types";
+
+declare const process: { env: Record<string, string | undefined> };
+
+/* =========================
+   OpenAI chat completions（含相容 API）
+   - openai：api.openai.com，OPENAI_API_KEY 必填
+   - openai-compatible：NARRATIVE_BASE_URL（例如自架 vLLM / Ollama 的 http://host:8000/v1），
+     NARRATIVE_API_KEY 選填（有設才帶 Authorization）
+   - HTTP 層走 lib/upstream：沒有副作用，可重送一次；斷路器開著會直接丟錯 → 呼叫端走靜態 fallback
+========================= */
+const OPENAI_BASE = "https://api.openai.com/v1";
+
+type ChatEndpoint = { baseUrl: string | null; apiKey: string | null };
+
+function chatProvider(name: string, endpoint: () => ChatEndpoint, configError: () => string | null): NarrativeProvider {
+  return {
+    name,
+    configError,
+    async generate(req, settings) {
+      const { baseUrl, apiKey } = endpoint();
+      const payload = {
+        model: settings.model,
+        messages: req.messages,
+        response_format: { type: "json_schema", json_schema: NARRATIVE_JSON_SCHEMA },
+        max_tokens: settings.max_tokens,
+        ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+      };
+      const r = await upstreamFetch(`${baseUrl!.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify(payload),
+      }, { service: name, step: "narratives", idempotent: true, retries: 1, timeoutMs: 45_000 });
+
+      const j: any = await r.json().catch(() => null);
+      const content = j?.choices?.[0]?.message?.content;
+      if (typeof content !== "string" || !content) throw new UpstreamError(name, "narratives", "client", `${name} returned no content`, r.status);
+      try {
+        return JSON.parse(content);
+      } catch {
+        throw new UpstreamError(name, "narratives", "client", `${name} returned invalid JSON`, r.status);
+      }
+    },
+  };
+}
+
+export const openaiNarrativeProvider = chatProvider(
+  "openai",
+  () => ({ baseUrl: OPENAI_BASE, apiKey: process.env.OPENAI_API_KEY || null }),
+  () => (process.env.OPENAI_API_KEY ? null : "Missing OPENAI_API_KEY"),
+);
+
+export const compatibleNarrativeProvider = chatProvider(
+  "openai-compatible",
+  () => ({ baseUrl: process.env.NARRATIVE_BASE_URL || null, apiKey: process.env.NARRATIVE_API_KEY || null }),
+  () => (process.env.NARRATIVE_BASE_URL ? null : "Missing NARRATIVE_BASE_URL"),
+);
@@ -0,0 +1,103 @@
+import type { Card, ReportSignal } from "../types";
+import { PROTOCOL_ITEMS } from "./schema";
+import type { ChatMessage, NarrativeRepair, NarrativeScope } from "./types";
+
+/* =========================
+   ✅ 敘事 prompt（所有 chat 型供應商共用）
+   - system：用詞限制 + 每個維度的格式
+   - user：這次掃描的實際數字（合規檢查只認這些數字，見 lib/compliance）
+   - scope：每個維度各叫一次（平行）時，只要那一個維度；總結另外一次
+   - repair：合規檢查沒過 → 附上問題清單，只重寫那幾個維度
+   - NARRATIVE_PROMPT_VERSION 是敘事快取 key 的一部分：改 prompt / schema 時要跟著改，舊快取自然失效
+========================= */
+export const NARRATIVE_PROMPT_VERSION = "v3";
+
+const SYSTEM_PROMPT = `你是台灣頂尖的皮膚科學分析系統。你的報告風格：
+
+【絕對禁止的用詞】診斷、治療、醫療、處方、疾病、病症、療程、患者、病患
+【正確的用語】系統判斷、訊號偵測、數據推演、策略建議、結構分析、行為約束
+
+每個維度的報告格式：
+1. finding_zh：系統判斷說明 + 細項數據解讀（150-250字）
+   - 必須引用具體數字（分數、子指標）
+   - 必須說明數字代表什麼意思
+   - 必須比較子指標之間的關係（例如：「T區出油 78 vs 臉頰 52，差距 26，顯示區域不對稱」）
+   - 跟其他維度的交叉影響要提到
+
+2. mechanism_zh：推演機制 + 策略建議（150-250字）
+   - 用「推演」開頭
+   - 說清楚可能的原因鏈
+   - 給出具體的保養策略，說清楚邏輯
+
+3. protocol_zh：${PROTOCOL_ITEMS.min}-${PROTOCOL_ITEMS.max}條具體策略建議
+
+4. finding_en / mechanism_en / protocol_en：上述三項的英文版（給國際站）
+   - 內容與中文一致，不是另寫一份
+   - mechanism_en 以「Inference:」開頭
+   - 同樣禁止 diagnose / diagnosis、treat / treatment、cure、therapy、medical、medical-grade、prescription、disease、patient 等用詞
+   - 英文裡的分數、子指標同樣只能引用下面給的數字
+
+重要原則：
+- 每個維度的敘事必須不同，不要複製貼上
+- 必須根據實際數字寫，不能用模板
+- 語氣專業但客人聽得懂
+- 像高端美容科技品牌的系統報告`;
+
+function repairPrompt(repair: NarrativeRepair) {
+  const lines = repair.ids.map((id) => {
+    const problems = (repair.issues[id] || []).map((i) =>
+      i.kind === "banned_term" ? `${i.field} 使用了禁用詞「${i.term}」` : `${i.field} 的數字 ${i.value} 不在上面的數據裡`,
+    );
+    return `- ${id}：${problems.join("；")}`;
+  });
+  return `上一版有以下問題（合規檢查未通過）：
+${lines.join("\n")}
+
+請只重寫上面列出的維度${repair.ids.includes("summary") ? "與 summary" : ""}：
+- 禁用詞一律不得出現
+- 分數、子指標只能引用上面給的數字（或它們之間的差距），不能自己估算`;
+}
+
+function scopePrompt(scope: NarrativeScope) {
+  if (!scope.ids.length) return "這次只輸出 summary_zh / summary_en（整體總結），dimensions 回空陣列。";
+  return `這次只輸出以下維度的 dimensions：${scope.ids.join('、')}${scope.summary ? "" : "；summary_zh / summary_en 回空字串"}。`;
+}
+
+export function buildNarrativeMessages(cards: Card[], signals: ReportSignal[], scope: NarrativeScope): ChatMessage[] {
+  const cardsSummary = cards.map(c =>
+    `【${c.title_zh}（${c.title_en}）】總分：${c.score}/100\n子指標：${c.details.map(d => `${d.label_zh}=${d.value}`).join('、')}` +
+    `\n可信度：${c.confidence}${c.low_confidence ? "（偏低：語氣保守、不要下定論）" : ""}` +
+    (c.regional === "estimated" ? "\n分區子指標：無遮罩，沿用整體分數（不要比較分區差異）" : "")
+  ).join('\n\n');
+
+  const signalsSummary = signals.map(s =>
+    `${s.label_zh}(${s.id}): ${s.score} [${s.tone}]`
+  ).join('、');
+
+  // 找出最差和最好的維度
+  const sorted = [...cards].sort((a, b) => a.score - b.score);
+  const worst = sorted.slice(0, 2).map(c => `${c.title_zh}(${c.score})`);
+  const best = sorted.slice(-2).map(c => `${c.title_zh}(${c.score})`);
+
+  const user = `以下是這位用戶的真實掃描數據：
+
+${cardsSummary}
+
+維度 id（dimensions[].id 必須逐一對應，不能漏、不能自創）：${cards.map(c => c.id).join('、')}
+
+${signals.length} 通道信號：${signalsSummary}
+
+特徵摘要：
+- 最弱維度：${worst.join('、')}
+- 最強維度：${best.join('、')}
+- 平均分數：${Math.round(cards.reduce((s, c) => s + c.score, 0) / cards.length)}
+
+請為每個維度生成專屬於這位用戶的報告（中英文各一份）。每個維度的敘事必須不同。`;
+
+  return [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: user },
+    ...(scope.repair ? [{ role: "user" as const, content: repairPrompt(scope.repair) }] : []),
+    ...(!scope.repair && (scope.ids.length < cards.length || !scope.summary) ? [{ role: "user" as const, content: scopePrompt(scope) }] : []),
+  ];
+}
@@ -0,0 +1,111 @@
+import type { LLMDimension, LLMNarratives } from "./types";
+
+/* =========================
+   ✅ 敘事 JSON schema
+   - NARRATIVE_JSON_SCHEMA：送給模型的 response_format（strict）
+   - validateNarratives：回來的 JSON 一律在這裡再檢查一次（自架模型不一定守 strict）
+     欄位型別、每個維度都要有（不能漏、不能重複、不能多出不認得的）、protocol 條數
+========================= */
+export const PROTOCOL_ITEMS = { min: 2, max: 3 };
+
+const DIMENSION_TEXT = ["finding_zh", "mechanism_zh", "finding_en", "mechanism_en"] as const;
+const DIMENSION_LIST = ["protocol_zh", "protocol_en"] as const;
+
+export const NARRATIVE_JSON_SCHEMA = {
+  name: "narratives",
+  strict: true,
+  schema: {
+    type: "object",
+    properties: {
+      dimensions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            finding_zh: { type: "string" },
+            mechanism_zh: { type: "string" },
+            protocol_zh: { type: "array", items: { type: "string" } },
+            finding_en: { type: "string" },
+            mechanism_en: { type: "string" },
+            protocol_en: { type: "array", items: { type: "string" } },
+          },
+          required: ["id", ...DIMENSION_TEXT, ...DIMENSION_LIST],
+          additionalProperties: false,
+        },
+      },
+      summary_zh: { type: "string" },
+      summary_en: { type: "string" },
+    },
+    required: ["dimensions", "summary_zh", "summary_en"],
+    additionalProperties: false,
+  },
+};
+
+export type NarrativeValidation =
+  | { ok: true; value: LLMNarratives }
+  | { ok: false; errors: string[] };
+
+const nonEmpty = (x: unknown): x is string => typeof x === "string" && x.trim().length > 0;
+
+// ids：這次必須涵蓋的維度；summary：是否要求 summary_zh / summary_en
+// extra = "drop"（repair 時模型多回了沒要求的維度）→ 丟掉；"reject" → 當錯誤
+export function validateNarratives(
+  raw: unknown,
+  expect: { ids: string[]; summary: boolean; extra: "drop" | "reject" },
+): NarrativeValidation {
+  const errors: string[] = [];
+  const j = raw as any;
+  if (!j || typeof j !== "object" || !Array.isArray(j.dimensions)) return { ok: false, errors: ["dimensions: expected array"] };
+
+  const seen = new Set<string>();
+  const dimensions: LLMDimension[] = [];
+  for (const [i, d] of (j.dimensions as any[]).entries()) {
+    const at = `dimensions[${i}]`;
+    if (!d || typeof d !== "object" || !nonEmpty(d.id)) {
+      errors.push(`${at}.id: expected string`);
+      continue;
+    }
+    if (!expect.ids.includes(d.id)) {
+      if (expect.extra === "reject") errors.push(`${at}.id: unknown dimension "${d.id}"`);
+      continue;
+    }
+    if (seen.has(d.id)) {
+      errors.push(`${at}.id: duplicate "${d.id}"`);
+      continue;
+    }
+    seen.add(d.id);
+    const before = errors.length;
+    for (const k of DIMENSION_TEXT) if (!nonEmpty(d[k])) errors.push(`${at}.${k}: expected non-empty string`);
+    for (const k of DIMENSION_LIST) {
+      const list = d[k];
+      if (!Array.isArray(list) || !list.every(nonEmpty)) errors.push(`${at}.${k}: expected array of non-empty strings`);
+      else if (list.length < PROTOCOL_ITEMS.min || list.length > PROTOCOL_ITEMS.max) {
+        errors.push(`${at}.${k}: expected ${PROTOCOL_ITEMS.min}-${PROTOCOL_ITEMS.max} items, got ${list.length}`);
+      }
+    }
+    if (errors.length === before) {
+      dimensions.push({
+        id: d.id,
+        finding_zh: d.finding_zh, mechanism_zh: d.mechanism_zh, protocol_zh: d.protocol_zh,
+        finding_en: d.finding_en, mechanism_en: d.mechanism_en, protocol_en: d.protocol_en,
+      });
+    }
+  }
+  const missing = expect.ids.filter((id) => !seen.has(id));
+  if (missing.length) errors.push(`dimensions: missing ${missing.join(", ")}`);
+
+  if (expect.summary) {
+    if (!nonEmpty(j.summary_zh)) errors.push("summary_zh: expected non-empty string");
+    if (!nonEmpty(j.summary_en)) errors.push("summary_en: expected non-empty string");
+  }
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      dimensions,
+      summary_zh: nonEmpty(j.summary_zh) ? j.summary_zh : "",
+      summary_en: nonEmpty(j.summary_en) ? j.summary_en : "",
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import type { ComplianceIssue } from "../compliance";
+import type { Card, ReportSignal } from "../types";
+
+/* =========================
+   敘事供應商介面
+   - generate 回傳「還沒驗證」的 JSON；schema 檢查統一在 lib/narratives/schema
+   - 報告層只認 LLMNarratives，不管後面是 OpenAI、自架模型還是 fixture
+========================= */
+export type LLMDimension = {
+  id: string;
+  finding_zh: string;
+  mechanism_zh: string;
+  protocol_zh: string[];
+  finding_en: string;
+  mechanism_en: string;
+  protocol_en: string[];
+};
+
+export type LLMNarratives = { dimensions: LLMDimension[]; summary_zh: string; summary_en: string };
+
+// 合規檢查沒過 → 只重寫這幾個（"summary" = 總結）
+export type NarrativeRepair = { ids: string[]; issues: Record<string, ComplianceIssue[]> };
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+// 這次要產生哪些：ids = 維度（每個維度各叫一次時只有一個），summary = 要不要總結
+export type NarrativeScope = { ids: string[]; summary: boolean; repair?: NarrativeRepair };
+
+export type NarrativeRequest = NarrativeScope & {
+  cards: Card[];
+  signals: ReportSignal[];
+  messages: ChatMessage[];
+};
+
+export type NarrativeSettings = { model: string; temperature?: number; max_tokens: number };
+
+export interface NarrativeProvider {
+  readonly name: string;
+  // 缺設定時回傳說明（例如 "Missing OPENAI_API_KEY"），正常回 null
+  configError(): string | null;
+  generate(req: NarrativeRequest, settings: NarrativeSettings): Promise<unknown>;
+}
@@ -0,0 +1,127 @@
+import type { KVStore } from "./store";
+
+declare const process: { env: Record<string, string | undefined> };
+
+/* =========================
+   ✅ 隱私：同意紀錄、保存期限、刪除收據
+   - POST 必填 consent_version + consent_purpose（逗號分隔；skin_analysis 必須有，history 才會寫入歷史）
+     CONSENT_VERSIONS（逗號分隔）設定後只收清單內的版本
+   - 每次掃描一筆 scan:<tenant>:<scan_id>：同意內容 + 這次掃描留下的所有東西（task / file / 去重 key），刪除時照表清
+     scan_id 是隨機 UUID（同一毫秒建立的兩次掃描不會撞）；key 含租戶，別的租戶拿同一個 scan_id 也碰不到
+   - 保存期限：RETENTION_REPORT_DAYS（報告快取、LLM 敘事快取、標註圖與其原圖、webhook 紀錄，預設 7）
+              RETENTION_HISTORY_DAYS（歷史與 scan 紀錄，預設 365）
+              RETENTION_RECEIPT_DAYS（刪除收據，預設 1095）
+   - 我們不存原始影像；只留送給供應商的正規化影像（已去 metadata）給標註圖用（lib/annotate），刪除時一起清
+     供應商端的檔案與遮罩只能靠供應商的 purge（沒有就在收據註明 not_supported）
+   - 刪除後只留收據（deletion:<tenant>:<scan_id>，不含 user_id / task / file），之後拿同一個 scan_token 查 → 410
+========================= */
+export const CONSENT_PURPOSES = ["skin_analysis", "history"] as const;
+export type ConsentPurpose = (typeof CONSENT_PURPOSES)[number];
+
+export type Consent = { version: string; purposes: ConsentPurpose[]; accepted_at: string };
+
+export type ConsentError = "missing" | "version_not_accepted" | "invalid_purpose";
+
+export type UploadKey = { scope: string; hash: string };
+
+export type ScanRecord = {
+  scan_id: string;
+  tenant: string | null;
+  user_id?: string;
+  consent: Consent;
+  created_at: string;
+  task_ids: string[];
+  file_ids: string[];
+  upload_keys: UploadKey[];
+  idempotency_key?: string;
+};
+
+// shared：供應商 task 因內容去重還被別的掃描共用，留給最後一個引用者刪
+export type DeletionItem = { kind: string; count: number; status: "deleted" | "not_found" | "not_supported" | "failed" | "shared" };
+
+export type DeletionReceipt = {
+  receipt_id: string;
+  scan_id: string;
+  tenant: string | null;
+  requested_at: string;
+  completed_at: string;
+  consent_version: string | null;
+  items: DeletionItem[];
+  // 收據內容（不含 digest）的 SHA-256；稽核時重算比對
+  digest: string;
+};
+
+const DAY_SEC = 24 * 3600;
+
+function days(name: string, fallback: number) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function retention() {
+  return {
+    report_days: days("RETENTION_REPORT_DAYS", 7),
+    history_days: days("RETENTION_HISTORY_DAYS", 365),
+    receipt_days: days("RETENTION_RECEIPT_DAYS", 1095),
+  };
+}
+
+export const reportTtlSec = () => Math.round(retention().report_days * DAY_SEC);
+export const historyTtlSec = () => Math.round(retention().history_days * DAY_SEC);
+
+export function parseConsent(version: string, purposes: string): Consent | ConsentError {
+  const v = version.trim();
+  const list = [...new Set(purposes.split(",").map((p) => p.trim()).filter(Boolean))];
+  if (!v || v.length > 64 || !list.length) return "missing";
+  const accepted = (process.env.CONSENT_VERSIONS || "").split(",").map((x) => x.trim()).filter(Boolean);
+  if (accepted.length && !accepted.includes(v)) return "version_not_accepted";
+  if (!list.every((p) => (CONSENT_PURPOSES as readonly string[]).includes(p))) return "invalid_purpose";
+  if (!list.includes("skin_analysis")) return "missing";
+  return { version: v, purposes: list as ConsentPurpose[], accepted_at: new Date().toISOString() };
+}
+
+// 未啟用驗證（tenant = null）的掃描共用 "-"
+const recordKeyOf = (tenant: string | null, scanId: string) => `scan:${tenant ?? "-"}:${scanId}`;
+const receiptKeyOf = (tenant: string | null, scanId: string) => `deletion:${tenant ?? "-"}:${scanId}`;
+
+export function newScanId() {
+  return `scan_${crypto.randomUUID()}`;
+}
+
+export async function saveScanRecord(store: KVStore, rec: ScanRecord) {
+  await store.set(recordKeyOf(rec.tenant, rec.scan_id), rec, { ttlSec: historyTtlSec() });
+}
+
+export async function getScanRecord(store: KVStore, tenant: string | null, scanId: string) {
+  return store.get<ScanRecord>(recordKeyOf(tenant, scanId));
+}
+
+export async function getDeletionReceipt(store: KVStore, tenant: string | null, scanId: string) {
+  return store.get<DeletionReceipt>(receiptKeyOf(tenant, scanId));
+}
+
+async function sha256Hex(text: string) {
+  const buf = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(buf)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// 刪除步驟由呼叫端給（各模組自己知道 key 長怎樣）；這裡負責收尾：清掉 scan 紀錄、寫收據
+export async function finalizeDeletion(
+  store: KVStore,
+  input: { scan_id: string; tenant: string | null; record: ScanRecord | null; requested_at: string; items: DeletionItem[] },
+): Promise<DeletionReceipt> {
+  await store.delete(recordKeyOf(input.tenant, input.scan_id));
+  const completedAt = new Date().toISOString();
+  const body = {
+    receipt_id: `del_${input.scan_id}`,
+    scan_id: input.scan_id,
+    tenant: input.tenant,
+    requested_at: input.requested_at,
+    completed_at: completedAt,
+    consent_version: input.record?.consent.version ?? null,
+    items: input.items,
+  };
+  const receipt: DeletionReceipt = { ...body, digest: await sha256Hex(JSON.stringify(body)) };
+  await store.set(receiptKeyOf(input.tenant, input.scan_id), receipt, { ttlSec: Math.round(retention().receipt_days * DAY_SEC) });
+  return receipt;
+}
@@ -0,0 +1,21 @@
+import { ScanError } from "../errors";
+import { mockProvider } from "./mock";
+import { youcamProvider } from "./youcam";
+import type { SkinAnalysisProvider } from "./types";
+
+declare const process: { env: Record<string, string | undefined> };
+
+export type { ProviderTask, ProviderTaskStatus, SkinAnalysisProvider } from "./types";
+
+const PROVIDERS: Record<string, SkinAnalysisProvider> = {
+  youcam: youcamProvider,
+  mock: mockProvider,
+};
+
+// SKIN_PROVIDER=mock → 離線 / CI；未設定 → YouCam
+export function getProvider(): SkinAnalysisProvider {
+  const name = (process.env.SKIN_PROVIDER || "youcam").toLowerCase();
+  const p = PROVIDERS[name];
+  if (!p) throw new ScanError("CONFIG_INVALID", `Unknown SKIN_PROVIDER: ${name}`);
+  return p;
+}
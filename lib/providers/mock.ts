@@ -0,0 +1,108 @@
+import { ScanError } from "../errors";
+import { extractYoucamScores } from "./youcam";
+import type { ProviderTask, SkinAnalysisProvider } from "./types";
+
+declare const process: { env: Record<string, string | undefined> };
+
+/* =========================
+   ✅ Mock 供應商（CI / 離線用，不打 YouCam）
+   - 同一張圖 → 同一組分數（用 bytes hash 當 seed）
+   - 情境由 MOCK_SCENARIO 決定，寫進 task_id，GET 時不需任何狀態
+     success（預設）| error | below_min_image_size | processing | slow
+   - slow：建立後 MOCK_DELAY_MS（預設 3000）內回 processing，之後 success
+   - MOCK_MASK_BASE_URL：設定後每個 action 回一張 <base>/<action>.png 遮罩（本機 fixture 伺服器），測遮罩分區與標註圖
+   - 不實作 purge：供應商端本來就沒存東西，刪除收據照實寫 not_supported
+========================= */
+type MockScenario = "success" | "error" | "below_min_image_size" | "processing" | "slow";
+
+const SCENARIOS: MockScenario[] = ["success", "error", "below_min_image_size", "processing", "slow"];
+
+function scenario(): MockScenario {
+  const s = (process.env.MOCK_SCENARIO || "success") as MockScenario;
+  return SCENARIOS.includes(s) ? s : "success";
+}
+
+// FNV-1a：edge 上同步可用，夠當 seed
+function fnv1a(input: Uint8Array | string) {
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : input;
+  let h = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    h ^= bytes[i];
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+function parseTaskId(taskId: string) {
+  // mock_<scenario>_<seed>_<createdAt>
+  const m = /^mock_([a-z_]+)_([0-9a-f]+)_(\d+)$/.exec(taskId);
+  if (!m || !SCENARIOS.includes(m[1] as MockScenario)) return null;
+  return { scenario: m[1] as MockScenario, seed: m[2], createdAt: Number(m[3]) };
+}
+
+function maskUrls(action: string) {
+  const base = process.env.MOCK_MASK_BASE_URL?.replace(/\/+$/, "");
+  return base ? [`${base}/${action}.png`] : [];
+}
+
+function cannedOutput(seed: string, actions: string[]) {
+  return actions.map((type) => {
+    const h = fnv1a(`${seed}:${type}`);
+    const ui = 45 + (h % 51);
+    const raw = Math.round((ui * 0.9 + ((h >>> 8) % 10)) * 10) / 10;
+    return { type, ui_score: ui, raw_score: raw, mask_urls: maskUrls(type) };
+  });
+}
+
+const MOCK_ACTIONS = [
+  "hd_moisture", "hd_age_spot", "hd_texture", "hd_oiliness", "hd_pore",
+  "hd_firmness", "hd_wrinkle", "hd_radiance", "hd_redness", "hd_acne",
+];
+
+function youcamShaped(taskId: string, status: string, extra: Record<string, any> = {}) {
+  return { status: 200, data: { task_id: taskId, task_status: status, ...extra } };
+}
+
+export const mockProvider: SkinAnalysisProvider = {
+  name: "mock",
+
+  configError() {
+    return null;
+  },
+
+  async upload(bytes) {
+    return `mockfile_${fnv1a(bytes).toString(16)}`;
+  },
+
+  async createTask(fileId) {
+    const seed = fileId.replace(/^mockfile_/, "") || "0";
+    return `mock_${scenario()}_${seed}_${Date.now()}`;
+  },
+
+  async getTask(taskId): Promise<ProviderTask> {
+    const t = parseTaskId(taskId);
+    if (!t) throw new ScanError("NOT_FOUND_TASK", `Mock task get failed: unknown task ${taskId}`, { task_id: taskId });
+
+    const delay = Number(process.env.MOCK_DELAY_MS ?? 3000);
+    const processing =
+      t.scenario === "processing" ||
+      (t.scenario === "slow" && Date.now() - t.createdAt < delay);
+
+    if (processing) {
+      return { task_id: taskId, status: "processing", raw: youcamShaped(taskId, "running") };
+    }
+
+    if (t.scenario === "error" || t.scenario === "below_min_image_size") {
+      const code = t.scenario === "error" ? "error_internal" : "error_below_min_image_size";
+      const raw = youcamShaped(taskId, "error", { error: code, error_message: `mock ${code}` });
+      return { task_id: taskId, status: "error", error: JSON.stringify(raw.data), raw };
+    }
+
+    const raw = youcamShaped(taskId, "success", { results: { output: cannedOutput(t.seed, MOCK_ACTIONS) } });
+    return { task_id: taskId, status: "success", raw };
+  },
+
+  scores(task, view) {
+    return extractYoucamScores(task.raw, view);
+  },
+};
@@ -0,0 +1,28 @@
+import type { ScoreMap, View } from "../types";
+
+/* =========================
+   皮膚分析供應商介面
+   - upload → createTask → getTask 輪詢 → scores 正規化成 hd_* ScoreMap
+   - 報告層只認 ScoreMap，不管後面是誰
+========================= */
+export type ProviderTaskStatus = "success" | "error" | "processing";
+
+export type ProviderTask = {
+  task_id: string;
+  status: ProviderTaskStatus;
+  // error 時的原始錯誤內容（含 error_below_min_image_size 之類的代碼）
+  error?: string;
+  raw: any;
+};
+
+export interface SkinAnalysisProvider {
+  readonly name: string;
+  // 缺設定時回傳說明（例如 "Missing YOUCAM_API_KEY"），正常回 null
+  configError(): string | null;
+  upload(bytes: Uint8Array, fileName: string): Promise<string>;
+  createTask(fileId: string, actions: string[]): Promise<string>;
+  getTask(taskId: string): Promise<ProviderTask>;
+  scores(task: ProviderTask, view: View): ScoreMap;
+  // 刪除供應商端的檔案 / task（含遮罩）；供應商沒有刪除 API 就不實作，刪除收據會註明 not_supported
+  purge?(ids: { task_ids: string[]; file_ids: string[] }): Promise<void>;
+}
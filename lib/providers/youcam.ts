@@ -0,0 +1,151 @@
+import { ScanError } from "../errors";
+import type { ScoreMap, View } from "../types";
+import { UpstreamError, upstreamFetch } from "../upstream";
+import type { ProviderTask, SkinAnalysisProvider } from "./types";
+
+declare const process: { env: Record<string, string | undefined> };
+
+/* =========================
+   YouCam — endpoints
+   - HTTP 層（逾時 / 重試 / 斷路器）走 lib/upstream；建立 task 不重試（避免重複扣額度）
+========================= */
+const YOUCAM_BASE = "https://yce-api-01.makeupar.com/s2s/v2.0";
+const YOUCAM_FILE_ENDPOINT = `${YOUCAM_BASE}/file/skin-analysis`;
+const YOUCAM_TASK_CREATE = `${YOUCAM_BASE}/task/skin-analysis`;
+const YOUCAM_TASK_GET = (taskId: string) => `${YOUCAM_BASE}/task/skin-analysis/${taskId}`;
+
+const YOUCAM_API_KEY = process.env.YOUCAM_API_KEY;
+
+function must(v: string | undefined, name: string) {
+  if (!v) throw new ScanError("CONFIG_MISSING_KEY", `Missing env: ${name}`, { key: name });
+  return v;
+}
+
+// HTTP 200 但 JSON 內的 status 不對 → 視為被拒（client，不重試、不計入斷路器）
+function rejected(step: string, message: string, status: number) {
+  return new UpstreamError("youcam", step, "client", message, status);
+}
+async function youcamInitUpload(fileBytes: Uint8Array, fileName: string) {
+  const apiKey = must(YOUCAM_API_KEY, "YOUCAM_API_KEY");
+  const payload = {
+    files: [{
+      content_type: "image/jpeg",
+      file_name: fileName || `skin_${Date.now()}.jpg`,
+      file_size: fileBytes.length,
+    }],
+  };
+
+  const r = await upstreamFetch(YOUCAM_FILE_ENDPOINT, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  }, { service: "youcam", step: "file_init", idempotent: true });
+
+  const j = await r.json().catch(() => ({}));
+  if (j.status !== 200) throw rejected("file_init", `YouCam file init failed: ${r.status} ${JSON.stringify(j)}`, r.status);
+
+  const f = j.data?.files?.[0];
+  const req = f?.requests?.[0];
+  if (!f?.file_id || !req?.url) throw rejected("file_init", "YouCam file init missing file_id/upload url", r.status);
+
+  return { fileId: f.file_id as string, putUrl: req.url as string, contentType: f.content_type as string };
+}
+
+async function youcamPutBinary(putUrl: string, fileBytes: Uint8Array, contentType: string) {
+  // 預簽 URL 的 PUT 可重送；body 每次重建
+  await upstreamFetch(putUrl, {
+    method: "PUT",
+    headers: { "Content-Type": contentType },
+    body: new Blob([fileBytes.buffer as ArrayBuffer]),
+  }, { service: "youcam", step: "file_put", idempotent: true, timeoutMs: 20_000 });
+}
+
+async function youcamCreateTask(srcFileId: string, dstActions: string[]) {
+  const apiKey = must(YOUCAM_API_KEY, "YOUCAM_API_KEY");
+  const payload = {
+    src_file_id: srcFileId,
+    dst_actions: dstActions,
+    miniserver_args: {
+      enable_mask_overlay: true,
+      enable_dark_background_hd_pore: true,
+      color_dark_background_hd_pore: "3D3D3D",
+      opacity_dark_background_hd_pore: 0.4,
+    },
+    format: "json",
+  };
+
+  const r = await upstreamFetch(YOUCAM_TASK_CREATE, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  }, { service: "youcam", step: "task_create" });
+
+  const j = await r.json().catch(() => ({}));
+  if (j.status !== 200 || !j.data?.task_id) throw rejected("task_create", `YouCam task create failed: ${r.status} ${JSON.stringify(j)}`, r.status);
+  return j.data.task_id as string;
+}
+
+async function youcamGetTask(taskId: string) {
+  const apiKey = must(YOUCAM_API_KEY, "YOUCAM_API_KEY");
+  const r = await upstreamFetch(YOUCAM_TASK_GET(taskId), {
+    method: "GET",
+    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+  }, { service: "youcam", step: "task_get", idempotent: true, timeoutMs: 8000 });
+  const j = await r.json().catch(() => ({}));
+  if (j.status !== 200) throw rejected("task_get", `YouCam task get failed: ${r.status} ${JSON.stringify(j)}`, r.status);
+  return j;
+}
+
+export function extractYoucamScores(j: any, view: View = "front") {
+  const out = j?.data?.results?.output;
+  const map: ScoreMap = new Map();
+  if (Array.isArray(out)) {
+    for (const x of out) {
+      const key = String(x.type);
+      map.set(key, {
+        ui: Number(x.ui_score ?? x.uiScore ?? 0),
+        raw: Number(x.raw_score ?? x.rawScore ?? 0),
+        masks: Array.isArray(x.mask_urls) ? x.mask_urls.map((url: string) => ({ view, url })) : [],
+      });
+    }
+  }
+  return map;
+}
+
+
+function toProviderTask(taskId: string, j: any): ProviderTask {
+  const st = j?.data?.task_status;
+  const status = st === "success" || st === "error" ? st : "processing";
+  return {
+    task_id: taskId,
+    status,
+    error: status === "error" ? JSON.stringify(j?.data || {}) : undefined,
+    raw: j,
+  };
+}
+
+export const youcamProvider: SkinAnalysisProvider = {
+  name: "youcam",
+
+  configError() {
+    return YOUCAM_API_KEY ? null : "Missing YOUCAM_API_KEY";
+  },
+
+  async upload(bytes, fileName) {
+    const { fileId, putUrl, contentType } = await youcamInitUpload(bytes, fileName);
+    await youcamPutBinary(putUrl, bytes, contentType);
+    return fileId;
+  },
+
+  createTask(fileId, actions) {
+    return youcamCreateTask(fileId, actions);
+  },
+
+  async getTask(taskId) {
+    return toProviderTask(taskId, await youcamGetTask(taskId));
+  },
+
+  scores(task, view) {
+    return extractYoucamScores(task.raw, view);
+  },
+};
@@ -0,0 +1,46 @@
+import type { KVStore } from "./store";
+
+declare const process: { env: Record<string, string | undefined> };
+
+/* =========================
+   ✅ Token bucket 限流（每個租戶、每個 IP 各一桶，存在 lib/store 的 KV）
+   - 桶容量 = burst，每分鐘補 per_min 個；每個請求拿 1 個，拿不到 → 429 + retry-after
+   - 租戶：API_TENANTS 裡的 rate，沒寫用 RATE_LIMIT_TENANT_PER_MIN / _BURST（預設 600 / 60）
+   - IP：RATE_LIMIT_IP_PER_MIN / _BURST（預設 120 / 30）；IP 取 x-forwarded-for 第一段
+   - 讀改寫不是原子操作，同時到達時可能多放幾個，這裡只求擋住濫用
+========================= */
+export type RateRule = { per_min: number; burst: number };
+
+export type RateDecision = { ok: boolean; remaining: number; retry_after_sec: number };
+
+type Bucket = { tokens: number; updated_at: number };
+
+function envRule(prefix: string, perMin: number, burst: number): RateRule {
+  const p = Number(process.env[`${prefix}_PER_MIN`]);
+  const b = Number(process.env[`${prefix}_BURST`]);
+  return { per_min: p > 0 ? p : perMin, burst: b > 0 ? b : burst };
+}
+
+export const tenantRule = (override?: RateRule) => override || envRule("RATE_LIMIT_TENANT", 600, 60);
+export const ipRule = () => envRule("RATE_LIMIT_IP", 120, 30);
+
+export function clientIp(req: Request) {
+  const fwd = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return fwd || req.headers.get("x-real-ip")?.trim() || null;
+}
+
+export async function takeToken(store: KVStore, key: string, rule: RateRule): Promise<RateDecision> {
+  const now = Date.now();
+  const perMs = rule.per_min / 60_000;
+  const prev = await store.get<Bucket>(`rl:${key}`);
+  const tokens = prev ? Math.min(rule.burst, prev.tokens + (now - prev.updated_at) * perMs) : rule.burst;
+  // 桶補滿所需時間後就可以丟掉
+  const ttlSec = Math.ceil(rule.burst / perMs / 1000) + 1;
+
+  if (tokens < 1) {
+    await store.set<Bucket>(`rl:${key}`, { tokens, updated_at: now }, { ttlSec });
+    return { ok: false, remaining: 0, retry_after_sec: Math.max(1, Math.ceil((1 - tokens) / perMs / 1000)) };
+  }
+  await store.set<Bucket>(`rl:${key}`, { tokens: tokens - 1, updated_at: now }, { ttlSec });
+  return { ok: true, remaining: Math.floor(tokens - 1), retry_after_sec: 0 };
+}
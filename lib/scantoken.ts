@@ -0,0 +1,72 @@
+declare const process: { env: Record<string, string | undefined> };
+
+/* =========================
+   ✅ 掃描 token（POST 發、GET 只認它）
+   - 綁定 scan_id、task（view:task_id:quality[:臉框]，同 task_ids 格式）、租戶、user_id、到期時間
+   - 格式：st1.<payload base64url>.<HMAC-SHA256(SCAN_TOKEN_SECRET) base64url>
+     payload 看得到但改不了；前端請當成不透明字串
+   - 效期 SCAN_TOKEN_TTL_SEC（預設 7 天，與報告快取、webhook 紀錄一致）
+========================= */
+export type ScanClaims = {
+  scan_id: string;
+  task_ids: string;
+  // 未啟用驗證時為 null
+  tenant: string | null;
+  user_id?: string;
+  exp: number;
+};
+
+export type ScanTokenCheck =
+  | { ok: true; claims: ScanClaims }
+  | { ok: false; reason: "invalid" | "expired" };
+
+const PREFIX = "st1";
+const DEFAULT_TTL_SEC = 7 * 24 * 3600;
+
+export function scanTokenConfigError() {
+  return process.env.SCAN_TOKEN_SECRET ? null : "Missing SCAN_TOKEN_SECRET";
+}
+
+function ttlSec() {
+  const n = Number(process.env.SCAN_TOKEN_TTL_SEC);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_TTL_SEC;
+}
+
+function b64url(bytes: Uint8Array) {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromB64url(s: string) {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(s.length / 4) * 4, "=");
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+async function hmacKey(usage: "sign" | "verify") {
+  const enc = new TextEncoder();
+  return crypto.subtle.importKey("raw", enc.encode(process.env.SCAN_TOKEN_SECRET || ""), { name: "HMAC", hash: "SHA-256" }, false, [usage]);
+}
+
+export async function issueScanToken(input: Omit<ScanClaims, "exp">): Promise<{ token: string; expires_at: string }> {
+  const claims: ScanClaims = { ...input, exp: Math.floor(Date.now() / 1000) + ttlSec() };
+  const payload = b64url(new TextEncoder().encode(JSON.stringify(claims)));
+  const sig = await crypto.subtle.sign("HMAC", await hmacKey("sign"), new TextEncoder().encode(`${PREFIX}.${payload}`));
+  return { token: `${PREFIX}.${payload}.${b64url(new Uint8Array(sig))}`, expires_at: new Date(claims.exp * 1000).toISOString() };
+}
+
+export async function verifyScanToken(token: string): Promise<ScanTokenCheck> {
+  const [prefix, payload, sig] = token.split(".");
+  if (prefix !== PREFIX || !payload || !sig) return { ok: false, reason: "invalid" };
+  let claims: ScanClaims;
+  try {
+    const valid = await crypto.subtle.verify("HMAC", await hmacKey("verify"), fromB64url(sig), new TextEncoder().encode(`${PREFIX}.${payload}`));
+    if (!valid) return { ok: false, reason: "invalid" };
+    claims = JSON.parse(new TextDecoder().decode(fromB64url(payload)));
+  } catch {
+    return { ok: false, reason: "invalid" };
+  }
+  if (typeof claims?.scan_id !== "string" || typeof claims.task_ids !== "string") return { ok: false, reason: "invalid" };
+  if (typeof claims.exp !== "number" || claims.exp <= Math.floor(Date.now() / 1000)) return { ok: false, reason: "expired" };
+  return { ok: true, claims };
+}
@@ -0,0 +1,94 @@
+import type { ScoreMap, View } from "../types";
+import type { Formula, ScoringConfig } from "./types";
+
+/* =========================
+   ✅ 每個維度的可信度（取代寫死的 0.92 / 0.88…）
+   - 基準 = 計分設定的 card.confidence（該維度在理想條件下的上限）
+   - 乘上四個因子（各 0–1）：
+     agreement：YouCam raw_score 與 ui_score 的一致程度
+     quality：拍攝品質（precheck quality，依角度權重平均）
+     angle_variance：多角度時同一 action 的分數離散度（單角度 = 1）
+     missing_actions：計分需要但沒回來的 action 比例
+   - < LOW_CONFIDENCE 標成 low_confidence，敘事改用保守語氣
+========================= */
+export const LOW_CONFIDENCE = 0.6;
+
+// raw 與 ui 差 40 分以上視為完全不一致
+const AGREEMENT_SPAN = 40;
+// 角度間標準差 50 分 → 因子降到下限
+const VARIANCE_SPAN = 50;
+
+export type ConfidenceFactors = {
+  agreement: number;
+  quality: number;
+  angle_variance: number;
+  missing_actions: number;
+};
+
+export type DimensionConfidence = {
+  id: string;
+  confidence: number;
+  low_confidence: boolean;
+  factors: ConfidenceFactors;
+  missing: string[];
+};
+
+export type ViewScores = { view: View; quality: number; weight: number; scores: ScoreMap };
+
+const round2 = (x: number) => Math.round(x * 100) / 100;
+
+// 公式實際用到的 action（展開 derived 與 card:<id>）
+function actionsOf(cfg: ScoringConfig, formula: Formula, seen = new Set<string>()): Set<string> {
+  const out = new Set<string>();
+  for (const t of formula.terms) {
+    if (seen.has(t.var)) continue;
+    seen.add(t.var);
+    if (cfg.inputs[t.var]) out.add(cfg.inputs[t.var]);
+    else if (cfg.derived[t.var]) actionsOf(cfg, cfg.derived[t.var], seen).forEach((a) => out.add(a));
+    else if (t.var.startsWith("card:")) {
+      const card = cfg.cards.find((c) => c.id === t.var.slice(5));
+      if (card) actionsOf(cfg, card.score, seen).forEach((a) => out.add(a));
+    }
+  }
+  return out;
+}
+
+function stddev(xs: number[]) {
+  const m = xs.reduce((s, x) => s + x, 0) / xs.length;
+  return Math.sqrt(xs.reduce((s, x) => s + (x - m) ** 2, 0) / xs.length);
+}
+
+export function computeConfidence(cfg: ScoringConfig, fused: ScoreMap, views: ViewScores[]): DimensionConfidence[] {
+  const wSum = views.reduce((s, v) => s + v.weight, 0);
+  const quality = wSum > 0 ? views.reduce((s, v) => s + v.quality * v.weight, 0) / wSum : 1;
+
+  return cfg.cards.map((card) => {
+    const actions = [...actionsOf(cfg, card.score)];
+    const present = actions.filter((a) => fused.has(a));
+    const missing = actions.filter((a) => !fused.has(a));
+
+    // raw_score 缺（0）就不納入一致性
+    const gaps = present
+      .map((a) => fused.get(a)!)
+      .filter((e) => e.raw > 0)
+      .map((e) => Math.min(1, Math.abs(e.ui - e.raw) / AGREEMENT_SPAN));
+    const agreement = gaps.length ? 1 - gaps.reduce((s, g) => s + g, 0) / gaps.length : 1;
+
+    const spreads = present
+      .map((a) => views.map((v) => v.scores.get(a)?.ui).filter((x): x is number => x !== undefined))
+      .filter((xs) => xs.length > 1)
+      .map(stddev);
+    const spread = spreads.length ? spreads.reduce((s, x) => s + x, 0) / spreads.length : 0;
+
+    const factors: ConfidenceFactors = {
+      agreement: round2(0.7 + 0.3 * agreement),
+      quality: round2(0.6 + 0.4 * quality),
+      angle_variance: round2(1 - 0.3 * Math.min(1, spread / VARIANCE_SPAN)),
+      missing_actions: round2(actions.length ? 1 - 0.8 * (missing.length / actions.length) : 1),
+    };
+    const confidence = round2(
+      card.confidence * factors.agreement * factors.quality * factors.angle_variance * factors.missing_actions,
+    );
+    return { id: card.id, confidence, low_confidence: confidence < LOW_CONFIDENCE, factors, missing };
+  });
+}
@@ -0,0 +1,123 @@
+import type { MaskRef, MetricId, ScoreMap, Tone } from "../types";
+import type { Formula, RawScores, ScoringConfig, ToneThresholds, ZoneScores } from "./types";
+
+/* =========================
+   ✅ 計分引擎：原始分數 + 計分設定 → 卡片 / 14 signals 分數
+   - 純函式；同一份 RawScores 用不同版本重算即可比較
+========================= */
+export type ScoredCard = {
+  id: string;
+  score: number;
+  details: number[];
+  priority: number;
+  confidence: number;
+  masks: MaskRef[];
+  // 有引用分區變數的卡片才有：全部來自遮罩 = mask，有任一 fallback = estimated
+  regional?: "mask" | "estimated";
+};
+
+export type ScoringResult = {
+  scoring_version: string;
+  cards: ScoredCard[];
+  signals: { id: MetricId; score: number }[];
+};
+
+function clamp100(x: number) {
+  if (!Number.isFinite(x)) return 0;
+  return Math.max(0, Math.min(100, Math.round(x)));
+}
+
+export function toneFor(score: number, t: ToneThresholds): Tone {
+  if (score >= t.stable) return "stable";
+  if (score >= t.deviation) return "deviation";
+  return "threshold";
+}
+
+export function evalFormula(formula: Formula, vars: Map<string, number>) {
+  let sum = formula.bias ?? 0;
+  for (const t of formula.terms) {
+    const v = vars.get(t.var);
+    if (v === undefined) throw new Error(`Unknown scoring variable: ${t.var}`);
+    sum += t.weight * (t.invert ? 100 - v : v);
+  }
+  return clamp100(sum);
+}
+
+const ZONE_VAR = /^zone:([^:]+):(.+)$/;
+
+function formulasOf(cfg: ScoringConfig): Formula[] {
+  return [
+    ...Object.values(cfg.derived),
+    ...cfg.cards.flatMap((c) => [c.score, ...c.details]),
+    ...cfg.signals.map((s) => s.score),
+  ];
+}
+
+function zoneVarsOf(formulas: Formula[]) {
+  return [...new Set(formulas.flatMap((f) => f.terms.map((t) => t.var)).filter((v) => ZONE_VAR.test(v)))];
+}
+
+// 這份設定要量哪些 action 的哪些分區（lib/masks 用）
+export function zoneRequests(cfg: ScoringConfig): { action: string; zones: string[] }[] {
+  const byAction = new Map<string, string[]>();
+  for (const name of zoneVarsOf(formulasOf(cfg))) {
+    const [, input, zone] = ZONE_VAR.exec(name)!;
+    const action = cfg.inputs[input];
+    if (!action) continue;
+    byAction.set(action, [...(byAction.get(action) || []), zone]);
+  }
+  return [...byAction].map(([action, zones]) => ({ action, zones }));
+}
+
+// 分區變數：有量到用遮罩值，否則用 zones[input] fallback；回傳走 fallback 的變數
+export function seedZoneVars(cfg: ScoringConfig, vars: Map<string, number>, zones?: ZoneScores) {
+  const fallback = new Set<string>();
+  for (const name of zoneVarsOf(formulasOf(cfg))) {
+    const [, input, zone] = ZONE_VAR.exec(name)!;
+    const measured = zones?.[cfg.inputs[input]]?.[zone];
+    if (measured !== undefined && Number.isFinite(measured)) {
+      vars.set(name, clamp100(measured));
+      continue;
+    }
+    const f = cfg.zones?.[input];
+    if (!f) throw new Error(`Missing zone fallback for input: ${input}`);
+    vars.set(name, evalFormula(f, vars));
+    fallback.add(name);
+  }
+  return fallback;
+}
+
+export function scoreWith(cfg: ScoringConfig, scoreMap: ScoreMap, zones?: ZoneScores): ScoringResult {
+  const vars = new Map<string, number>();
+  for (const [name, action] of Object.entries(cfg.inputs)) vars.set(name, clamp100(scoreMap.get(action)?.ui ?? 0));
+  const fallback = seedZoneVars(cfg, vars, zones);
+  for (const [name, formula] of Object.entries(cfg.derived)) vars.set(name, evalFormula(formula, vars));
+
+  const cards = cfg.cards.map((c) => {
+    const score = evalFormula(c.score, vars);
+    vars.set(`card:${c.id}`, score);
+    const maskSource = c.masks.map((name) => scoreMap.get(cfg.inputs[name])?.masks || []).find((m) => m.length);
+    const zoneVars = zoneVarsOf([c.score, ...c.details]);
+    return {
+      id: c.id,
+      score,
+      details: c.details.map((d) => evalFormula(d, vars)),
+      priority: c.priority,
+      confidence: c.confidence,
+      masks: maskSource || [],
+      ...(zoneVars.length ? { regional: zoneVars.some((v) => fallback.has(v)) ? "estimated" as const : "mask" as const } : {}),
+    };
+  });
+
+  const signals = cfg.signals.map((s) => ({ id: s.id, score: evalFormula(s.score, vars) }));
+  return { scoring_version: cfg.version, cards, signals };
+}
+
+// ScoreMap ↔ 可存進 KV 的純物件（遮罩 URL 會過期，不存）
+export function toRawScores(scoreMap: ScoreMap): RawScores {
+  return Object.fromEntries([...scoreMap].map(([k, v]) => [k, { ui: v.ui, raw: v.raw }]));
+}
+
+export function fromRawScores(raw: RawScores): ScoreMap {
+  return new Map(Object.entries(raw).map(([k, v]) => [k, { ui: v.ui, raw: v.raw, masks: [] }]));
+}
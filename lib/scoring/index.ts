@@ -0,0 +1,102 @@
+import { evalFormula, seedZoneVars } from "./engine";
+import { BUILTIN_SCORING } from "./versions";
+import type { Formula, ScoringConfig } from "./types";
+import { ScanError } from "../errors";
+import { upstreamFetch } from "../upstream";
+
+declare const process: { env: Record<string, string | undefined> };
+
+export { fromRawScores, scoreWith, toRawScores, toneFor, zoneRequests, type ScoredCard, type ScoringResult } from "./engine";
+export { computeConfidence, LOW_CONFIDENCE, type DimensionConfidence, type ViewScores } from "./confidence";
+export type { RawScores, ScoringConfig, ToneThresholds, ZoneScores } from "./types";
+
+/* =========================
+   ✅ 計分版本登錄
+   - 內建版本（lib/scoring/versions）＋ 執行期載入：
+     SCORING_CONFIG（JSON，單一設定或陣列）/ SCORING_CONFIG_URL（JSON，快取 5 分鐘）
+   - SCORING_VERSION 指定目前版本；未設定 → 執行期設定的最後一份，否則最新內建版
+   - 遠端設定抓不到或格式錯 → 沿用上一份成功的（沒有就只用內建），不讓掃描失敗
+========================= */
+const REMOTE_TTL_MS = 5 * 60 * 1000;
+let remote: { at: number; configs: ScoringConfig[] } | null = null;
+
+// 驗證＋試算一次（用全 50 分），公式引用錯誤在載入時就擋下
+export function validateScoringConfig(x: any): ScoringConfig {
+  const fail = (msg: string): never => {
+    throw new ScanError("CONFIG_INVALID", `Invalid scoring config${x?.version ? ` ${x.version}` : ""}: ${msg}`);
+  };
+  const isFormula = (f: any): f is Formula =>
+    !!f && Array.isArray(f.terms) &&
+    f.terms.every((t: any) => typeof t?.var === "string" && Number.isFinite(t?.weight)) &&
+    (f.bias === undefined || Number.isFinite(f.bias));
+
+  if (!x || typeof x !== "object") fail("not an object");
+  if (typeof x.version !== "string" || !x.version) fail("missing version");
+  if (!x.inputs || Object.values(x.inputs).some((a) => typeof a !== "string")) fail("inputs must map names to actions");
+  if (!x.derived || !Object.values(x.derived).every(isFormula)) fail("derived must be formulas");
+  if (x.zones !== undefined && (typeof x.zones !== "object" || !Object.values(x.zones).every(isFormula))) {
+    fail("zones must map inputs to fallback formulas");
+  }
+  if (!(x.tone?.stable > x.tone?.deviation)) fail("tone.stable must be greater than tone.deviation");
+  if (!Array.isArray(x.cards) || !x.cards.length) fail("cards required");
+  if (!Array.isArray(x.signals) || !x.signals.length) fail("signals required");
+  for (const c of x.cards) {
+    if (typeof c?.id !== "string" || !isFormula(c.score) || !Array.isArray(c.details) || !c.details.every(isFormula)) {
+      fail(`bad card ${c?.id ?? "?"}`);
+    }
+    if (!Array.isArray(c.masks) || !Number.isFinite(c.priority) || !Number.isFinite(c.confidence)) fail(`bad card ${c.id}`);
+  }
+  for (const s of x.signals) if (typeof s?.id !== "string" || !isFormula(s.score)) fail(`bad signal ${s?.id ?? "?"}`);
+
+  const vars = new Map<string, number>(Object.keys(x.inputs).map((k) => [k, 50]));
+  try {
+    seedZoneVars(x, vars);
+    for (const [name, f] of Object.entries(x.derived)) vars.set(name, evalFormula(f as Formula, vars));
+    for (const c of x.cards) {
+      vars.set(`card:${c.id}`, evalFormula(c.score, vars));
+      c.details.forEach((d: Formula) => evalFormula(d, vars));
+    }
+    for (const s of x.signals) evalFormula(s.score, vars);
+  } catch (e: any) {
+    fail(e?.message || String(e));
+  }
+  return x as ScoringConfig;
+}
+
+function parseConfigs(json: any): ScoringConfig[] {
+  return (Array.isArray(json) ? json : [json]).map(validateScoringConfig);
+}
+
+async function runtimeConfigs(): Promise<ScoringConfig[]> {
+  const inline = process.env.SCORING_CONFIG ? parseConfigs(JSON.parse(process.env.SCORING_CONFIG)) : [];
+  const url = process.env.SCORING_CONFIG_URL;
+  if (!url) return inline;
+
+  if (!remote || Date.now() - remote.at > REMOTE_TTL_MS) {
+    try {
+      const r = await upstreamFetch(url, { headers: { accept: "application/json" } }, { service: "scoring_config", step: "fetch", idempotent: true });
+      remote = { at: Date.now(), configs: parseConfigs(await r.json()) };
+    } catch {
+      remote = { at: Date.now(), configs: remote?.configs || [] };
+    }
+  }
+  return [...inline, ...remote.configs];
+}
+
+// 同版本號以執行期設定優先（方便熱修），其次內建
+export async function listScoringConfigs(): Promise<ScoringConfig[]> {
+  const runtime = await runtimeConfigs();
+  const seen = new Set(runtime.map((c) => c.version));
+  return [...BUILTIN_SCORING.filter((c) => !seen.has(c.version)), ...runtime];
+}
+
+export async function getScoringConfig(version?: string | null): Promise<ScoringConfig> {
+  const all = await listScoringConfigs();
+  const wanted = version || process.env.SCORING_VERSION;
+  if (wanted) {
+    const hit = all.find((c) => c.version === wanted);
+    if (!hit) throw new ScanError("CONFIG_INVALID", `Unknown scoring version: ${wanted}`, { version: wanted });
+    return hit;
+  }
+  return all[all.length - 1];
+}
@@ -0,0 +1,44 @@
+import type { MetricId } from "../types";
+
+/* =========================
+   ✅ 計分設定型別
+   - 公式一律是線性式：bias + Σ weight × 變數（invert = 用 100 − 變數）
+   - 每個公式結果都會 clamp 到 0–100 並四捨五入（與舊版 clampScore 一致）
+   - 變數名稱：inputs 的 key、derived 的 key、card:<id>（已算好的卡片分數）、
+     zone:<input>:<zoneId>（遮罩量出的分區分數，見 lib/masks；沒有遮罩時用 zones[input] 的 fallback）
+========================= */
+export type Term = { var: string; weight: number; invert?: boolean };
+export type Formula = { terms: Term[]; bias?: number };
+
+export type ToneThresholds = { stable: number; deviation: number };
+
+export type CardSpec = {
+  id: string;
+  score: Formula;
+  details: Formula[];
+  priority: number;
+  confidence: number;
+  // 依序取第一個有遮罩的 input
+  masks: string[];
+};
+
+export type SignalSpec = { id: MetricId; score: Formula };
+
+export type ScoringConfig = {
+  version: string;
+  // 變數 → 供應商 action（取 ui 分數）
+  inputs: Record<string, string>;
+  // 依宣告順序計算，可引用前面的變數
+  derived: Record<string, Formula>;
+  // 有引用 zone:<input>:* 的 input 必須在這裡給 fallback 公式（只能用 inputs）
+  zones?: Record<string, Formula>;
+  tone: ToneThresholds;
+  cards: CardSpec[];
+  signals: SignalSpec[];
+};
+
+// 可持久化的原始分數（去掉遮罩），replay 用
+export type RawScores = Record<string, { ui: number; raw: number }>;
+
+// 遮罩量出的分區分數：action → zoneId → 0–100
+export type ZoneScores = Record<string, Record<string, number>>;
@@ -0,0 +1,127 @@
+import type { Formula, ScoringConfig, Term } from "./types";
+
+/* =========================
+   ✅ 內建計分版本
+   - 1.0.0 = 原本寫死在 mapYoucamToCards / buildSignals14 / toneForScore 的數字，一個不改
+   - 1.1.0 = 新增痘痘維度與訊號；色素 / 油脂 / 毛孔 / 痘痘的分區改用遮罩量測（zone:*）
+   - 新版本請新增一份（不要改舊的），舊報告才能用原版本重算
+========================= */
+const v = (name: string, weight = 1): Term => ({ var: name, weight });
+const inv = (name: string, weight = 1): Term => ({ var: name, weight, invert: true });
+const f = (...terms: Term[]): Formula => ({ terms });
+
+export const SCORING_V1: ScoringConfig = {
+  version: "1.0.0",
+  inputs: {
+    H: "hd_moisture",
+    PG: "hd_age_spot",
+    T: "hd_texture",
+    S: "hd_oiliness",
+    P: "hd_pore",
+    R: "hd_radiance",
+    RD: "hd_redness",
+    F: "hd_firmness",
+    W: "hd_wrinkle",
+    AC: "hd_acne",
+  },
+  derived: {
+    t_zone: f(v("S", 1.2)),
+    u_zone: f(v("S", 0.7)),
+    elasticity: f(v("F", 0.62), inv("W", 0.38)),
+    barrier: f(inv("RD", 0.4), v("H", 0.3), inv("AC", 0.3)),
+  },
+  tone: { stable: 88, deviation: 72 },
+  cards: [
+    {
+      id: "hydration", score: f(v("H")), priority: 1, confidence: 0.92, masks: ["H"],
+      details: [f(v("H", 0.95)), f(v("H", 0.88)), f(v("H", 0.76))],
+    },
+    {
+      id: "melanin", score: f(v("PG")), priority: 2, confidence: 0.88, masks: ["PG"],
+      details: [f(v("PG", 1.1)), f(v("PG", 0.9)), f(v("PG", 0.85))],
+    },
+    {
+      id: "texture", score: f(v("T")), priority: 3, confidence: 0.9, masks: ["T"],
+      details: [f(v("T", 0.9)), f(v("T", 0.92)), f(inv("T"))],
+    },
+    {
+      id: "sebum", score: f(v("S")), priority: 4, confidence: 0.87, masks: ["S"],
+      details: [f(v("t_zone")), f(v("u_zone")), f(v("t_zone", 0.5), v("u_zone", 0.5))],
+    },
+    {
+      id: "pore", score: f(v("P")), priority: 5, confidence: 0.91, masks: ["P"],
+      details: [f(v("P", 0.9)), f(v("P", 0.95)), f(v("P", 0.8))],
+    },
+    {
+      id: "elasticity", score: f(v("elasticity")), priority: 6, confidence: 0.85, masks: ["F", "W"],
+      details: [f(v("F")), f(v("W")), f(v("elasticity", 0.9))],
+    },
+    {
+      id: "radiance", score: f(v("R")), priority: 7, confidence: 0.89, masks: ["R"],
+      details: [f(v("R", 1.05)), f(v("R", 0.92)), f(v("R", 0.88))],
+    },
+    {
+      id: "barrier", score: f(v("barrier")), priority: 8, confidence: 0.86, masks: ["RD", "AC"],
+      details: [f(v("barrier", 0.95)), f(v("barrier", 0.9)), f(v("H")), f(v("S"))],
+    },
+  ],
+  signals: [
+    { id: "hydration", score: f(v("H")) },
+    { id: "sebum", score: f(v("S")) },
+    { id: "texture", score: f(v("T")) },
+    { id: "pore", score: f(v("P")) },
+    { id: "pores_depth", score: f(v("P", 0.95)) },
+    { id: "pigmentation", score: f(v("PG")) },
+    { id: "wrinkle", score: f(v("W")) },
+    { id: "firmness", score: f(v("F")) },
+    { id: "elasticity", score: f(v("F", 0.62), inv("W", 0.38)) },
+    { id: "redness", score: f(inv("RD")) },
+    { id: "brightness", score: f(v("R")) },
+    { id: "skintone", score: f(v("R", 0.55), inv("RD", 0.25), inv("PG", 0.2)) },
+    { id: "clarity", score: f(v("T", 0.35), v("P", 0.35), inv("AC", 0.3)) },
+    { id: "sensitivity", score: f(v("card:barrier", 0.55), inv("RD", 0.45)) },
+  ],
+};
+
+// 分區變數：zone:<input>:<forehead|t_zone|nose|cheeks|jaw>（lib/image/zones）
+const zone = (input: string, id: string, weight = 1): Term => v(`zone:${input}:${id}`, weight);
+
+const byId = <T extends { id: string }>(xs: T[], id: string) => xs.find((x) => x.id === id)!;
+
+export const SCORING_V1_1: ScoringConfig = {
+  ...SCORING_V1,
+  version: "1.1.0",
+  // 沒有遮罩（mock、遮罩過期、沒有臉框）時分區等於整體分數，不再乘係數假裝有差異
+  zones: {
+    PG: f(v("PG")),
+    S: f(v("S")),
+    P: f(v("P")),
+    AC: f(inv("AC")),
+  },
+  cards: [
+    byId(SCORING_V1.cards, "hydration"),
+    {
+      ...byId(SCORING_V1.cards, "melanin"),
+      details: [f(zone("PG", "forehead")), f(zone("PG", "cheeks")), f(zone("PG", "jaw"))],
+    },
+    byId(SCORING_V1.cards, "texture"),
+    {
+      ...byId(SCORING_V1.cards, "sebum"),
+      details: [f(zone("S", "t_zone")), f(zone("S", "cheeks")), f(zone("S", "t_zone", 0.5), zone("S", "cheeks", 0.5))],
+    },
+    {
+      ...byId(SCORING_V1.cards, "pore"),
+      details: [f(zone("P", "t_zone")), f(zone("P", "cheeks")), f(zone("P", "nose"))],
+    },
+    byId(SCORING_V1.cards, "elasticity"),
+    byId(SCORING_V1.cards, "radiance"),
+    byId(SCORING_V1.cards, "barrier"),
+    {
+      id: "acne", score: f(inv("AC")), priority: 9, confidence: 0.84, masks: ["AC"],
+      details: [f(zone("AC", "forehead")), f(zone("AC", "cheeks")), f(zone("AC", "jaw"))],
+    },
+  ],
+  signals: [...SCORING_V1.signals, { id: "acne", score: f(inv("AC")) }],
+};
+
+export const BUILTIN_SCORING: ScoringConfig[] = [SCORING_V1, SCORING_V1_1];
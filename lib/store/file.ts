@@ -0,0 +1,74 @@
+import { expiresAt, isExpired, type KVEnvelope, type KVStore } from "./types";
+
+/* =========================
+   ✅ 檔案 KV（本機開發用；Edge 沒有檔案系統）
+   - 一個 key 一個 JSON 檔，檔名是 encodeURIComponent(key)
+   - node:fs 用動態 import，Edge bundle 不會碰到
+========================= */
+type FsPromises = {
+  mkdir(path: string, opts: { recursive: boolean }): Promise<unknown>;
+  readFile(path: string, enc: "utf8"): Promise<string>;
+  writeFile(path: string, data: string): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+  rm(path: string, opts: { force: boolean }): Promise<void>;
+  readdir(path: string): Promise<string[]>;
+};
+
+const FS_MODULE = "node:fs/promises";
+
+export function createFileStore(dir: string): KVStore {
+  let fsReady: Promise<FsPromises> | null = null;
+  const fs = () => {
+    fsReady ||= import(FS_MODULE).then(async (m: FsPromises) => {
+      await m.mkdir(dir, { recursive: true });
+      return m;
+    });
+    return fsReady;
+  };
+  const pathOf = (key: string) => `${dir}/${encodeURIComponent(key)}.json`;
+
+  const read = async <T>(key: string) => {
+    try {
+      return JSON.parse(await (await fs()).readFile(pathOf(key), "utf8")) as KVEnvelope<T>;
+    } catch {
+      return null;
+    }
+  };
+
+  const store: KVStore = {
+    name: "file",
+
+    async get<T>(key: string) {
+      const e = await read<T>(key);
+      if (!e) return null;
+      if (isExpired(e)) {
+        await (await fs()).rm(pathOf(key), { force: true });
+        return null;
+      }
+      return e.value;
+    },
+
+    async set(key, value, opts) {
+      const m = await fs();
+      // 先寫暫存檔再 rename，避免讀到寫一半的 JSON
+      const tmp = `${pathOf(key)}.${Date.now()}.tmp`;
+      await m.writeFile(tmp, JSON.stringify({ value, expires_at: expiresAt(opts) }));
+      await m.rename(tmp, pathOf(key));
+    },
+
+    async delete(key) {
+      await (await fs()).rm(pathOf(key), { force: true });
+    },
+
+    async list(prefix) {
+      const names = await (await fs()).readdir(dir);
+      const keys = names
+        .filter((n) => n.endsWith(".json"))
+        .map((n) => decodeURIComponent(n.slice(0, -5)))
+        .filter((k) => k.startsWith(prefix));
+      const alive = await Promise.all(keys.map(async (k) => ((await store.get(k)) === null ? null : k)));
+      return alive.filter((k): k is string => k !== null);
+    },
+  };
+  return store;
+}
@@ -0,0 +1,21 @@
+import { ScanError } from "../errors";
+import { createFileStore } from "./file";
+import { createMemoryStore } from "./memory";
+import type { KVStore } from "./types";
+
+declare const process: { env: Record<string, string | undefined> };
+
+export type { KVSetOptions, KVStore } from "./types";
+export { createFileStore, createMemoryStore };
+
+let store: KVStore | null = null;
+
+// SCAN_STORE=file（搭配 SCAN_STORE_DIR）→ 本機持久化；未設定 → 記憶體
+export function getStore(): KVStore {
+  if (store) return store;
+  const name = (process.env.SCAN_STORE || "memory").toLowerCase();
+  if (name === "memory") store = createMemoryStore();
+  else if (name === "file") store = createFileStore(process.env.SCAN_STORE_DIR || ".scan-store");
+  else throw new ScanError("CONFIG_INVALID", `Unknown SCAN_STORE: ${name}`);
+  return store;
+}
@@ -0,0 +1,42 @@
+import { expiresAt, isExpired, type KVEnvelope, type KVStore } from "./types";
+
+/* =========================
+   ✅ 記憶體 KV（本機 / CI）
+   - 同一個 isolate 內共用；冷啟動就清空
+   - 存 structuredClone，避免呼叫端改到已存的物件
+========================= */
+export function createMemoryStore(): KVStore {
+  const data = new Map<string, KVEnvelope<unknown>>();
+
+  return {
+    name: "memory",
+
+    async get<T>(key: string) {
+      const e = data.get(key);
+      if (!e) return null;
+      if (isExpired(e)) {
+        data.delete(key);
+        return null;
+      }
+      return structuredClone(e.value) as T;
+    },
+
+    async set(key, value, opts) {
+      data.set(key, { value: structuredClone(value), expires_at: expiresAt(opts) });
+    },
+
+    async delete(key) {
+      data.delete(key);
+    },
+
+    async list(prefix) {
+      const keys: string[] = [];
+      for (const [k, e] of data) {
+        if (!k.startsWith(prefix)) continue;
+        if (isExpired(e)) data.delete(k);
+        else keys.push(k);
+      }
+      return keys;
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/* =========================
+   ✅ KV 儲存介面（歷史紀錄、快取等共用）
+   - 值一律 JSON 可序列化
+   - ttlSec 到期後 get 回 null（adapter 自行清理）
+========================= */
+export type KVSetOptions = { ttlSec?: number };
+
+export interface KVStore {
+  name: string;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, opts?: KVSetOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  // 回傳符合前綴的 key（不保證順序）
+  list(prefix: string): Promise<string[]>;
+}
+
+export type KVEnvelope<T> = { value: T; expires_at: number | null };
+
+export function expiresAt(opts?: KVSetOptions) {
+  return opts?.ttlSec ? Date.now() + opts.ttlSec * 1000 : null;
+}
+
+export function isExpired(e: KVEnvelope<unknown>) {
+  return e.expires_at !== null && e.expires_at <= Date.now();
+}
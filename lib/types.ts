@@ -0,0 +1,146 @@
+import type { FiredRule } from "./decision/types";
+import type { ConfidenceFactors } from "./scoring/confidence";
+import type { FaceBox, FaceDetection } from "./image/face";
+import type { ZoneScores } from "./scoring/types";
+import type { NarrativeCompliance } from "./compliance";
+
+/* =========================
+   共用型別（api/scan.ts 與 lib/* 共用）
+========================= */
+export type MetricId =
+  | "texture" | "pore" | "pigmentation" | "wrinkle"
+  | "hydration" | "sebum" | "skintone" | "sensitivity"
+  | "clarity" | "elasticity" | "redness" | "brightness" | "firmness" | "pores_depth"
+  | "acne";
+
+export type Tone = "stable" | "deviation" | "threshold";
+
+export type Locale = "zh-TW" | "en" | "ja" | "ko";
+
+// 拍攝角度：image1 正面、image2 左 45°、image3 右 45°
+export type View = "front" | "left" | "right";
+
+export type MaskRef = { view: View; url: string };
+
+// ✅ 標註圖（lib/annotate）：遮罩依維度上色疊在上傳圖上 + 圖例；url 是我們自己的穩定網址
+export type AnnotatedImage = { view: View; url: string; width: number; height: number; legend: { id: string; color: string }[] };
+
+export type ScoreEntry = { ui: number; raw: number; masks: MaskRef[] };
+export type ScoreMap = Map<string, ScoreEntry>;
+
+// POST 回傳、GET 帶回：每個角度各自一個 YouCam task
+// face = 上傳圖上的臉框（正規化座標），GET 用來把遮罩切成臉部分區
+export type TaskRef = { view: View; task_id: string; quality: number; face?: FaceBox };
+
+export type Card = {
+  id: string;
+  title_en: string;
+  title_zh: string;
+  score: number;
+  max: 100;
+  signal_en: string;
+  signal_zh: string;
+  details: { label_en: string; label_zh: string; value: number | string }[];
+  recommendation_en: string;
+  recommendation_zh: string;
+  priority: number;
+  confidence: number;
+  masks?: MaskRef[];
+  low_confidence?: boolean;
+  // ✅ 分區子指標來源：mask = 遮罩實測；estimated = 沒有遮罩，分區沿用整體分數
+  regional?: "mask" | "estimated";
+};
+
+export type ReportSignal = {
+  id: MetricId;
+  label_en: string;
+  label_zh: string;
+  score: number;
+  tone: Tone;
+};
+
+export type ReportDimension = {
+  id: string;
+  title_en: string;
+  title_zh: string;
+  score: number;
+  tone: Tone;
+  confidence: number;
+  finding_en: string;
+  finding_zh: string;
+  mechanism_en: string;
+  mechanism_zh: string;
+  protocol_en: string[];
+  protocol_zh: string[];
+  masks?: MaskRef[];
+  // ✅ 可信度偏低（lib/scoring/confidence）：敘事已改保守語氣
+  low_confidence?: boolean;
+  confidence_factors?: ConfidenceFactors;
+};
+
+// 每一項品質檢查：代碼 + 實測值 + 門檻（passed=false 時代碼同時出現在 warnings）
+export type PrecheckCheck = { code: string; metric: string; value: number; threshold: number; passed: boolean };
+
+export type Precheck = { passed: boolean; warnings: string[]; tips: string[]; checks?: PrecheckCheck[]; face?: FaceDetection };
+
+// 單一語系的完整報告文案（Report.texts[locale]）
+export type LocaleTexts = {
+  summary: string;
+  signals: Record<string, string>;
+  dimensions: Record<string, {
+    title: string;
+    details: string[];
+    finding: string;
+    mechanism: string;
+    protocol: string[];
+  }>;
+  environment: string;
+  decision: string;
+  priority_node: string;
+  constraints: string[];
+  timeline: string[];
+};
+
+export type Report = {
+  scan_id: string;
+  produced_at: string;
+  degraded: boolean;
+  stage: string;
+  summary_en: string;
+  summary_zh: string;
+  precheck?: Precheck;
+  signals14: ReportSignal[];
+  dimensions8: ReportDimension[];
+  views?: { view: View; task_id: string; status: string; weight: number }[];
+  // ✅ 新增：決策層（前端可選擇顯示；不影響舊版）
+  environment_zh?: string;
+  decision_zh?: string;
+  priority_node_zh?: string;
+  constraints_zh?: string[];
+  timeline_zh?: string[];
+  environment_en?: string;
+  decision_en?: string;
+  priority_node_en?: string;
+  constraints_en?: string[];
+  timeline_en?: string[];
+  // ✅ 計分設定版本（lib/scoring）；同一份原始分數可用其他版本重算比較
+  scoring_version?: string;
+  low_confidence_dimensions?: string[];
+  // ✅ 遮罩量出的分區分數（action → 分區 → 0–100，lib/masks）
+  zone_scores?: ZoneScores;
+  // ✅ 標註圖：每個有遮罩的角度一張 PNG（Card.masks 的供應商網址會過期，這裡的不會，直到保存期限）
+  // url 要再接 &scan_token=；背景合成，pending 時還沒有 annotated_images
+  annotated_images?: AnnotatedImage[];
+  // failed = 合成失敗（annotation_error 帶錯誤碼），沒有 annotated_images
+  annotation_status?: "pending" | "ready" | "failed";
+  annotation_error?: string;
+  // ✅ 決策稽核：觸發了哪些規則、被哪些分數觸發（lib/decision）
+  decision_trace?: FiredRule[];
+  // ✅ LLM 敘事：pending = 背景產生中（目前是靜態文案）；ready = 已套上；static = 沒有 LLM 或產生失敗
+  narrative_status?: "pending" | "ready" | "static";
+  // ✅ 敘事合規檢查結果：每個維度 pass / rewritten / regenerated / fallback（lib/compliance）；pending 時沒有
+  narrative_compliance?: NarrativeCompliance;
+  // ✅ 多語系：locale = 本次協商結果；texts = 各語系文案（_zh/_en 欄位照舊保留給舊版）
+  locale?: Locale;
+  texts?: Partial<Record<Locale, LocaleTexts>>;
+};
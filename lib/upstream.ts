@@ -0,0 +1,144 @@
+/* =========================
+   ✅ 上游呼叫共用 client（YouCam / OpenAI / 遮罩 / 遠端設定）
+   - 每次呼叫都有逾時（AbortSignal.timeout）
+   - 錯誤分類：timeout / network / server（5xx、408、429）/ client（其他 4xx）/ circuit_open
+   - 只有 idempotent 的步驟會重試：指數退避 + 抖動；429 依 Retry-After（上限 RETRY_CAP_MS）
+   - 斷路器（每個 service 一個，存在 isolate 記憶體）：
+     連續 BREAKER_THRESHOLD 次 timeout / network / server → open，BREAKER_COOLDOWN_MS 內直接丟 circuit_open
+     冷卻後放一個試探請求（half-open），成功就關閉、失敗再開
+   - client 錯誤代表對方有正常回應（是請求本身有問題），視同服務正常、不累計失敗
+========================= */
+export type UpstreamErrorKind = "timeout" | "network" | "server" | "client" | "circuit_open";
+
+export class UpstreamError extends Error {
+  constructor(
+    readonly service: string,
+    readonly step: string,
+    readonly kind: UpstreamErrorKind,
+    message: string,
+    readonly status?: number,
+    readonly attempts = 1,
+    // circuit_open / 429：建議多久後再試
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+
+  get retryable() {
+    return this.kind !== "client";
+  }
+}
+
+export type UpstreamOptions = {
+  service: string;
+  step: string;
+  timeoutMs?: number;
+  // 非 idempotent（例如建立 task）不要重試，避免重複扣額度
+  idempotent?: boolean;
+  retries?: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_MS = 300;
+const RETRY_CAP_MS = 3000;
+const BREAKER_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 30_000;
+
+type Breaker = { failures: number; openedAt: number | null; probing: boolean };
+const breakers = new Map<string, Breaker>();
+
+function breakerOf(service: string) {
+  let b = breakers.get(service);
+  if (!b) breakers.set(service, (b = { failures: 0, openedAt: null, probing: false }));
+  return b;
+}
+
+// open 且還在冷卻 → 剩餘毫秒；可以送 → null（half-open 時只放一個）
+function blockedFor(b: Breaker) {
+  if (b.openedAt === null) return null;
+  const left = b.openedAt + BREAKER_COOLDOWN_MS - Date.now();
+  if (left > 0 || b.probing) return Math.max(left, 1000);
+  b.probing = true;
+  return null;
+}
+
+function recordResult(b: Breaker, ok: boolean) {
+  b.probing = false;
+  if (ok) {
+    b.failures = 0;
+    b.openedAt = null;
+    return;
+  }
+  b.failures++;
+  if (b.openedAt !== null || b.failures >= BREAKER_THRESHOLD) b.openedAt = Date.now();
+}
+
+export function breakerState(service: string) {
+  const b = breakerOf(service);
+  const state = b.openedAt === null ? "closed" : Date.now() - b.openedAt < BREAKER_COOLDOWN_MS ? "open" : "half_open";
+  return { service, state, failures: b.failures };
+}
+
+function classifyStatus(status: number): UpstreamErrorKind {
+  return status >= 500 || status === 408 || status === 429 ? "server" : "client";
+}
+
+function retryAfterMs(r: Response) {
+  const h = r.headers.get("retry-after");
+  if (!h) return undefined;
+  const sec = Number(h);
+  const ms = Number.isFinite(sec) ? sec * 1000 : Date.parse(h) - Date.now();
+  return Number.isFinite(ms) && ms > 0 ? ms : undefined;
+}
+
+const backoff = (attempt: number) => {
+  const ms = Math.min(RETRY_CAP_MS, RETRY_BASE_MS * 2 ** (attempt - 1));
+  return Math.round(ms / 2 + Math.random() * (ms / 2));
+};
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+// 成功（2xx/3xx）回 Response；其餘丟 UpstreamError（body 會讀出來放進 message 方便除錯）
+export async function upstreamFetch(url: string, init: RequestInit, opts: UpstreamOptions): Promise<Response> {
+  const { service, step } = opts;
+  const b = breakerOf(service);
+  const blocked = blockedFor(b);
+  if (blocked !== null) {
+    throw new UpstreamError(service, step, "circuit_open", `${service} circuit open`, undefined, 0, blocked);
+  }
+
+  const maxAttempts = 1 + (opts.idempotent ? opts.retries ?? DEFAULT_RETRIES : 0);
+  let last: UpstreamError | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (attempt > 1) {
+      const wait = last?.retryAfterMs !== undefined ? Math.min(RETRY_CAP_MS, last.retryAfterMs) : backoff(attempt - 1);
+      await sleep(wait);
+    }
+    try {
+      const r = await fetch(url, { ...init, signal: AbortSignal.timeout(opts.timeoutMs ?? DEFAULT_TIMEOUT_MS) });
+      if (r.ok) {
+        recordResult(b, true);
+        return r;
+      }
+      const text = await r.text().catch(() => "");
+      last = new UpstreamError(
+        service, step, classifyStatus(r.status),
+        `${service} ${step} failed: ${r.status} ${text.slice(0, 500)}`,
+        r.status, attempt, r.status === 429 ? retryAfterMs(r) : undefined,
+      );
+    } catch (e: any) {
+      const timeout = e?.name === "TimeoutError" || e?.name === "AbortError";
+      last = new UpstreamError(
+        service, step, timeout ? "timeout" : "network",
+        `${service} ${step} ${timeout ? "timed out" : `network error: ${e?.message || e}`}`,
+        undefined, attempt,
+      );
+    }
+    if (last.kind === "client") break;
+  }
+
+  recordResult(b, last!.kind === "client");
+  throw last!;
+}
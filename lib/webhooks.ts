@@ -0,0 +1,278 @@
+import { reportTtlSec } from "./privacy";
+import type { KVStore } from "./store";
+import type { Locale } from "./types";
+
+declare const process: { env: Record<string, string | undefined> };
+
+/* =========================
+   ✅ 掃描完成 webhook（POST 帶 callback_url）
+   - 註冊存在 KV：webhook:<scan_id>（去重共用 task 的掃描各有各的註冊），保留 RETENTION_REPORT_DAYS（lib/privacy，預設 7 天；含每次投遞紀錄）
+   - task 走到 success / error（GET、串流或背景輪詢任一路徑）→ 把同一份回應 body POST 過去
+   - 簽章：x-scan-signature: t=<unix 秒>,v1=<hex>；v1 = HMAC-SHA256(WEBHOOK_SECRET, `${t}.${body}`)
+     接收端請用原始 body 驗證，並拒絕 t 超過 5 分鐘的請求
+   - 重試：同一次呼叫內 3 次（0 / 1s / 3s，±20% 抖動）；還失敗 → retrying，
+     交給背景輪詢依 1 分、2 分、4 分…再送，總次數達 WEBHOOK_MAX_ATTEMPTS（預設 6）→ failed
+   - 4xx（408 / 429 除外）視為接收端拒收，不再重試；3xx 不跟隨（可能被轉去內網），直接算失敗
+   - http:// 與 localhost / 內網 IP 只有 WEBHOOK_ALLOW_INSECURE=on 時允許（本機測試用）
+     只檢查網址字面上的 IP；網域不解析 → 解析到內網的網域（含 DNS rebinding）不在這層擋，需要的話在出口網路設 egress 規則
+   - 背景輪詢：GET /api/scan?view=webhook_poll，Authorization: Bearer CRON_SECRET（api/scan.ts 的 webhookPoll）
+     某筆處理時丟錯不影響其他筆：4xx 類的錯（task 不存在等）直接 failed；其他依 1 分、2 分、4 分…再試，
+     累計 WEBHOOK_MAX_ATTEMPTS 次 → failed
+     沒有排程就只有同次呼叫的 3 次；Vercel 設定 CRON_SECRET 後，cron 會自動帶這個 header：
+       vercel.json → { "crons": [{ "path": "/api/scan?view=webhook_poll", "schedule": "* * * * *" }] }
+========================= */
+export type WebhookEvent = "scan.completed" | "scan.failed";
+export type WebhookStatus = "pending" | "retrying" | "delivered" | "failed";
+
+export type DeliveryAttempt = {
+  attempt: number;
+  at: string;
+  status: number | null;
+  ok: boolean;
+  duration_ms: number;
+  error?: string;
+};
+
+export type WebhookRegistration = {
+  id: string;
+  callback_url: string;
+  scan_id: string;
+  // 與 POST 回傳的 task_ids 相同格式，背景輪詢用它查供應商
+  task_ids: string;
+  locale: Locale;
+  // 歷史的主人（lib/history）：背景輪詢完成時替它寫歷史
+  tenant?: string | null;
+  user_id?: string;
+  created_at: string;
+  status: WebhookStatus;
+  event?: WebhookEvent;
+  next_attempt_at?: string;
+  // 第一次投遞時凍結，重試送同一份（不重新產生報告）
+  payload?: any;
+  attempts: DeliveryAttempt[];
+  // 背景輪詢處理這筆時丟錯的次數與最後的錯誤代碼（查 task 失敗等，不算投遞）
+  poll_errors?: number;
+  last_error?: string;
+};
+
+// 同次呼叫內的間隔（第一次立即送）
+export const INLINE_DELAYS_MS = [0, 1000, 3000];
+const RETRY_BASE_MS = 60_000;
+const ATTEMPT_TIMEOUT_MS = 10_000;
+
+const keyOf = (scanId: string) => `webhook:${scanId}`;
+
+function maxAttempts() {
+  const n = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+  return Number.isInteger(n) && n > 0 ? n : 6;
+}
+
+export function webhookConfigError() {
+  return process.env.WEBHOOK_SECRET ? null : "Missing WEBHOOK_SECRET";
+}
+
+// IPv4 內網 / 保留段：0/8、10/8、100.64/10（CGNAT）、127/8、169.254/16（含雲端 metadata）、172.16/12、192.168/16、198.18/15、224 以上
+function privateIpv4(host: string) {
+  const m = /^(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(host);
+  if (!m) return false;
+  const [a, b] = [Number(m[1]), Number(m[2])];
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+// IPv6（URL 已正規化成小寫、壓縮形式）：::/96（含 ::1）、IPv4-mapped 轉回 IPv4 檢查、fc00::/7、fe80::/10、ff00::/8
+function privateIpv6(host: string) {
+  const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(host);
+  if (mapped) {
+    const [hi, lo] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    return privateIpv4(`${hi >> 8}.${hi & 0xff}.${lo >> 8}.${lo & 0xff}`);
+  }
+  if (host.startsWith("::")) return true;
+  const first = parseInt(host.split(":")[0], 16);
+  return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00;
+}
+
+// 合法 → null；否則回傳原因（只看字面；網域不解析，見檔頭）
+export function callbackUrlError(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return "not a URL";
+  }
+  const insecure = (process.env.WEBHOOK_ALLOW_INSECURE || "").toLowerCase() === "on";
+  if (url.protocol !== "https:" && !(insecure && url.protocol === "http:")) return "https required";
+  if (url.username || url.password) return "credentials not allowed";
+  const host = url.hostname.toLowerCase();
+  const privateHost = host === "localhost" || host.endsWith(".localhost") ||
+    (host.startsWith("[") ? privateIpv6(host.slice(1, -1)) : privateIpv4(host));
+  if (!insecure && privateHost) return "private host not allowed";
+  return null;
+}
+
+export async function registerWebhook(
+  store: KVStore,
+  input: { callback_url: string; scan_id: string; task_ids: string; locale: Locale; tenant: string | null; user_id?: string },
+): Promise<WebhookRegistration> {
+  const reg: WebhookRegistration = {
+    id: `wh_${input.scan_id}`,
+    ...input,
+    created_at: new Date().toISOString(),
+    status: "pending",
+    attempts: [],
+  };
+  await store.set(keyOf(input.scan_id), reg, { ttlSec: reportTtlSec() });
+  return reg;
+}
+
+export async function getWebhook(store: KVStore, scanId: string) {
+  return store.get<WebhookRegistration>(keyOf(scanId));
+}
+
+export async function deleteWebhook(store: KVStore, scanId: string) {
+  const existed = !!(await getWebhook(store, scanId));
+  await store.delete(keyOf(scanId));
+  return existed;
+}
+
+// 背景輪詢要處理的：還沒出結果的 pending，以及到了重送時間的 retrying
+export async function dueWebhooks(store: KVStore, limit = 20): Promise<WebhookRegistration[]> {
+  const now = Date.now();
+  const out: WebhookRegistration[] = [];
+  for (const key of await store.list("webhook:")) {
+    if (out.length >= limit) break;
+    const reg = await store.get<WebhookRegistration>(key);
+    if (!reg) continue;
+    const due = (reg.status === "pending" && !reg.next_attempt_at) ||
+      ((reg.status === "pending" || reg.status === "retrying") && Date.parse(reg.next_attempt_at || "") <= now);
+    if (due) out.push(reg);
+  }
+  return out;
+}
+
+function toHex(buf: ArrayBuffer) {
+  return [...new Uint8Array(buf)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function signPayload(secret: string, timestamp: number, body: string) {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return toHex(await crypto.subtle.sign("HMAC", key, enc.encode(`${timestamp}.${body}`)));
+}
+
+const jitter = (ms: number) => Math.round(ms * (0.8 + Math.random() * 0.4));
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+// 連線失敗 / 逾時（null）、408、429、5xx 才重試
+export const retryable = (status: number | null) => status === null || status === 408 || status === 429 || status >= 500;
+
+// 已送 attempts 次之後，背景輪詢多久再送（未加抖動）：同次的 3 次用完後 1 分、2 分、4 分…
+export const retryDelayMs = (attempts: number) => RETRY_BASE_MS * 2 ** Math.max(0, attempts - INLINE_DELAYS_MS.length);
+
+async function attemptOnce(reg: WebhookRegistration, event: WebhookEvent, body: string, n: number): Promise<DeliveryAttempt> {
+  const started = Date.now();
+  const timestamp = Math.floor(started / 1000);
+  try {
+    const signature = await signPayload(process.env.WEBHOOK_SECRET || "", timestamp, body);
+    const r = await fetch(reg.callback_url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json; charset=utf-8",
+        "x-scan-event": event,
+        "x-scan-delivery": `${reg.id}_${n}`,
+        "x-scan-signature": `t=${timestamp},v1=${signature}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MS),
+    });
+    await r.body?.cancel();
+    // 轉址不跟：目標沒驗過；3xx（edge 上可能是 status 0 的 opaqueredirect）算失敗且不重試
+    const redirected = r.type === "opaqueredirect" || (r.status >= 300 && r.status < 400);
+    return {
+      attempt: n,
+      at: new Date(started).toISOString(),
+      status: r.status,
+      ok: r.ok && !redirected,
+      duration_ms: Date.now() - started,
+      ...(redirected ? { error: "redirect not followed" } : {}),
+    };
+  } catch (e: any) {
+    return {
+      attempt: n,
+      at: new Date(started).toISOString(),
+      status: null,
+      ok: false,
+      duration_ms: Date.now() - started,
+      error: e?.name === "TimeoutError" ? "timeout" : e?.message || String(e),
+    };
+  }
+}
+
+// 投遞（含同次重試）並更新 KV；payload 只在第一次給，之後沿用存下的那份
+export async function deliverWebhook(
+  store: KVStore,
+  reg: WebhookRegistration,
+  result?: { event: WebhookEvent; payload: any },
+): Promise<WebhookRegistration> {
+  if (reg.status === "delivered" || reg.status === "failed") return reg;
+  const event = reg.event || result?.event;
+  const payload = reg.payload ?? result?.payload;
+  if (!event || payload === undefined) return reg;
+
+  const body = JSON.stringify(payload);
+  const attempts = [...reg.attempts];
+  let status: WebhookStatus = "retrying";
+  for (const delay of INLINE_DELAYS_MS) {
+    if (attempts.length >= maxAttempts()) break;
+    if (delay) await sleep(jitter(delay));
+    const a = await attemptOnce(reg, event, body, attempts.length + 1);
+    attempts.push(a);
+    if (a.ok) { status = "delivered"; break; }
+    if (!retryable(a.status)) { status = "failed"; break; }
+  }
+  if (status === "retrying" && attempts.length >= maxAttempts()) status = "failed";
+
+  const next: WebhookRegistration = {
+    ...reg,
+    event,
+    payload,
+    status,
+    attempts,
+    next_attempt_at: status === "retrying"
+      ? new Date(Date.now() + jitter(retryDelayMs(attempts.length))).toISOString()
+      : undefined,
+  };
+  await store.set(keyOf(reg.scan_id), next, { ttlSec: reportTtlSec() });
+  return next;
+}
+
+// 背景輪詢處理這筆時丟錯：permanent（重查也不會好）或次數用完 → failed，否則排下次（狀態不變）
+export async function recordPollError(
+  store: KVStore,
+  reg: WebhookRegistration,
+  error: string,
+  permanent: boolean,
+): Promise<WebhookRegistration> {
+  const pollErrors = (reg.poll_errors || 0) + 1;
+  const failed = permanent || pollErrors >= maxAttempts();
+  const next: WebhookRegistration = {
+    ...reg,
+    status: failed ? "failed" : reg.status,
+    poll_errors: pollErrors,
+    last_error: error,
+    next_attempt_at: failed ? undefined : new Date(Date.now() + jitter(RETRY_BASE_MS * 2 ** (pollErrors - 1))).toISOString(),
+  };
+  await store.set(keyOf(reg.scan_id), next, { ttlSec: reportTtlSec() });
+  return next;
+}
+
+// 對外的投遞紀錄（不含 payload）
+export function deliveryLog(reg: WebhookRegistration) {
+  const { payload: _payload, ...log } = reg;
+  return log;
+}
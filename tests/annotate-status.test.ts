@@ -0,0 +1,81 @@
+import { strict as assert } from "node:assert";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import handler from "../api/scan";
+import { encodePng } from "../lib/image/png-encode";
+import { createRaster } from "../lib/image/raster";
+import { getStore } from "../lib/store";
+import { scanForm, syntheticFaceJpeg } from "./helpers";
+
+/* =========================
+   ✅ 標註圖背景合成的狀態（annotation_status）：pending → ready / failed
+   - MOCK_MASK_BASE_URL 指向本機 fixture 伺服器，每個 action 回同一張遮罩
+   - 背景工作走 ctx.waitUntil 收起來，測試自己 await，不靠計時
+   - 把存好的原圖換成壞資料 → 合成丟錯 → failed + 錯誤碼，不是 ready 配空陣列
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+process.env.MOCK_SCENARIO = "success";
+delete process.env.NARRATIVE_PROVIDER;
+
+let server: Server;
+let mask: Uint8Array = new Uint8Array();
+
+before(async () => {
+  const r = createRaster(64, 64);
+  for (let i = 3; i < r.data.length; i += 4) r.data[i] = (i >> 2) % 64 < 32 ? 255 : 0;
+  mask = await encodePng(r);
+  server = createServer((req, res) => {
+    res.writeHead(200, { "content-type": "image/png" });
+    res.end(mask);
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  process.env.MOCK_MASK_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/masks`;
+});
+
+after(() => new Promise<void>((r) => server.close(() => r())));
+
+// 背景工作（標註圖、webhook）收進 jobs，GET 完 await 掉
+async function getReport(token: string) {
+  const jobs: Promise<unknown>[] = [];
+  const res = await handler(new Request(`http://test/api/scan?scan_token=${token}`), { waitUntil: (job) => jobs.push(job) });
+  assert.equal(res.status, 200);
+  const body = await res.json();
+  await Promise.all(jobs);
+  return body.report;
+}
+
+async function createScan(w: number, h: number) {
+  const res = await handler(new Request("http://test/api/scan", { method: "POST", body: scanForm([syntheticFaceJpeg(w, h)]) }));
+  assert.equal(res.status, 200);
+  const body = await res.json();
+  return { scanId: body.scan_id as string, token: encodeURIComponent(body.scan_token) };
+}
+
+test("annotation_status goes pending → ready with one annotated image per view", async () => {
+  const { token } = await createScan(640, 800);
+  assert.equal((await getReport(token)).annotation_status, "pending");
+
+  const report = await getReport(token);
+  assert.equal(report.annotation_status, "ready");
+  assert.equal(report.annotation_error, undefined);
+  assert.deepEqual(report.annotated_images.map((i: any) => i.view), ["front"]);
+});
+
+test("a compositing failure is saved as failed with an error code, not as ready without images", async () => {
+  const { scanId, token } = await createScan(656, 816);
+  // 原圖壞掉 → 解碼丟錯
+  await getStore().set(`source:${scanId}:front`, { jpeg: btoa("not a jpeg"), saved_at: new Date().toISOString() });
+  assert.equal((await getReport(token)).annotation_status, "pending");
+
+  const report = await getReport(token);
+  assert.equal(report.annotation_status, "failed");
+  assert.equal(report.annotation_error, "INTERNAL");
+  assert.equal(report.annotated_images, undefined);
+
+  // failed 是終態：不再重跑
+  const again = await getReport(token);
+  assert.equal(again.annotation_status, "failed");
+  assert.equal(again.annotation_error, report.annotation_error);
+});
@@ -0,0 +1,106 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { ANNOTATE_SIDE, composeAnnotated, type AnnotationLayer } from "../lib/annotate";
+import { createRaster, type Raster } from "../lib/image/raster";
+
+/* =========================
+   ✅ 標註圖合成（composeAnnotated 是純函式，不碰 KV / 網路）
+   - 疊色：被遮罩標記的像素 = 原色 × 0.55 + 維度色 × 0.45，依圖層順序疊
+   - 圖例：影像下方，每列 rowH = 字高 × scale + 5 × scale，上下各 pad
+========================= */
+type Rgba = [number, number, number, number];
+
+function solid(w: number, h: number, rgba: Rgba): Raster {
+  const r = createRaster(w, h);
+  for (let i = 0; i < r.data.length; i += 4) r.data.set(rgba, i);
+  return r;
+}
+
+// 透明遮罩，[x0, x1) × [y0, y1) 標記
+function rectMask(w: number, h: number, x0: number, y0: number, x1: number, y1: number): Raster {
+  const r = solid(w, h, [255, 255, 255, 0]);
+  for (let y = y0; y < y1; y++) for (let x = x0; x < x1; x++) r.data[(y * w + x) * 4 + 3] = 255;
+  return r;
+}
+
+const rgbAt = (r: Raster, x: number, y: number) => {
+  const p = (y * r.width + x) * 4;
+  return [r.data[p], r.data[p + 1], r.data[p + 2]];
+};
+
+const blend = (base: number[], color: number[]) => base.map((v, i) => Math.round(v * 0.55 + color[i] * 0.45));
+
+const near = (actual: number[], expected: number[]) =>
+  assert.ok(actual.every((v, i) => Math.abs(v - expected[i]) <= 1), `${actual} ≈ ${expected}`);
+
+const BLUE: [number, number, number] = [33, 150, 243];
+const RED: [number, number, number] = [229, 57, 53];
+
+test("overlay tints only masked pixels and stacks layers in order", () => {
+  const source = solid(100, 80, [128, 128, 128, 255]);
+  const layers: AnnotationLayer[] = [
+    { id: "hydration", label: "HYDRATION 62", color: BLUE, masks: [rectMask(100, 80, 10, 10, 30, 30), rectMask(100, 80, 60, 10, 80, 30)] },
+    { id: "acne", label: "ACNE 81", color: RED, masks: [rectMask(100, 80, 70, 10, 90, 30)] },
+  ];
+  const out = composeAnnotated(source, layers);
+  const gray = [128, 128, 128];
+
+  near(rgbAt(out, 5, 5), gray);
+  near(rgbAt(out, 50, 60), gray);
+  // 同一維度兩張遮罩取聯集
+  near(rgbAt(out, 20, 20), blend(gray, BLUE));
+  near(rgbAt(out, 65, 20), blend(gray, BLUE));
+  // 只有第二層
+  near(rgbAt(out, 85, 20), blend(gray, RED));
+  // 兩層重疊：先藍後紅
+  near(rgbAt(out, 75, 20), blend(blend(gray, BLUE), RED));
+});
+
+test("transparent source pixels are laid on white before tinting", () => {
+  const out = composeAnnotated(solid(40, 40, [0, 0, 0, 0]), [
+    { id: "acne", label: "A", color: RED, masks: [rectMask(40, 40, 0, 0, 20, 40)] },
+  ]);
+  near(rgbAt(out, 30, 10), [255, 255, 255]);
+  near(rgbAt(out, 10, 10), blend([255, 255, 255], RED));
+});
+
+test("masks at a different size are scaled onto the image", () => {
+  const out = composeAnnotated(solid(100, 80, [128, 128, 128, 255]), [
+    { id: "hydration", label: "H", color: BLUE, masks: [rectMask(50, 40, 25, 0, 50, 40)] },
+  ]);
+  near(rgbAt(out, 25, 40), [128, 128, 128]);
+  near(rgbAt(out, 75, 40), blend([128, 128, 128], BLUE));
+});
+
+test("legend wraps into rows below the image (scale 1 under 480px)", () => {
+  const layers: AnnotationLayer[] = [
+    { id: "hydration", label: "HYDRATION 62", color: BLUE, masks: [rectMask(100, 80, 0, 0, 1, 1)] },
+    { id: "acne", label: "ACNE 81", color: RED, masks: [rectMask(100, 80, 0, 0, 1, 1)] },
+  ];
+  const out = composeAnnotated(solid(100, 80, [128, 128, 128, 255]), layers);
+  // colW = 7 + 4 + 71 + 12 = 94 → 一欄 → 兩列：2 × 12 + 2 × 6
+  assert.equal(out.width, 100);
+  assert.equal(out.height, 80 + 36);
+  // 色塊：第一列 (6, 86)，第二列 (6, 98)；圖例底色白
+  near(rgbAt(out, 6, 86), BLUE);
+  near(rgbAt(out, 12, 92), BLUE);
+  near(rgbAt(out, 6, 98), RED);
+  near(rgbAt(out, 99, 115), [255, 255, 255]);
+});
+
+test("large sources are downsampled to ANNOTATE_SIDE and the legend doubles in scale", () => {
+  const out = composeAnnotated(solid(ANNOTATE_SIDE * 2, 1024, [128, 128, 128, 255]), [
+    { id: "hydration", label: "HYDRATION 62", color: BLUE, masks: [rectMask(64, 64, 0, 0, 32, 64)] },
+    { id: "acne", label: "ACNE 81", color: RED, masks: [rectMask(64, 64, 32, 0, 64, 64)] },
+  ]);
+  assert.equal(out.width, ANNOTATE_SIDE);
+  // 512 + 一列（5 欄放得下兩個）：24 + 2 × 12
+  assert.equal(out.height, 512 + 48);
+  near(rgbAt(out, 100, 100), blend([128, 128, 128], BLUE));
+  near(rgbAt(out, 600, 100), blend([128, 128, 128], RED));
+});
+
+test("no layers → no legend", () => {
+  const out = composeAnnotated(solid(100, 80, [128, 128, 128, 255]), []);
+  assert.equal(out.height, 80);
+});
@@ -0,0 +1,149 @@
+import { strict as assert } from "node:assert";
+import { createHmac } from "node:crypto";
+import { test } from "node:test";
+import handler from "../api/scan";
+import { takeToken } from "../lib/ratelimit";
+import { createMemoryStore } from "../lib/store";
+
+/* =========================
+   ✅ API 驗證與限流（lib/auth、lib/ratelimit）
+   - 通過驗證的請求打 GET 不帶 scan_token → 400（走到路由）；沒過 → 401 / 403 / 429
+   - JWT 在測試裡用 node:crypto 自己簽（HS256）
+   - 每個限流測試用自己的租戶 / IP，桶不互相影響
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+process.env.API_TENANTS = JSON.stringify([
+  { id: "acme", keys: ["key_acme"], jwt_secret: "jwt-acme", origins: ["https://app.acme.test"] },
+  { id: "tight", keys: ["key_tight"], rate: { per_min: 60, burst: 2 } },
+]);
+delete process.env.RATE_LIMIT_IP_PER_MIN;
+delete process.env.RATE_LIMIT_IP_BURST;
+
+const b64url = (v: object | string) => Buffer.from(typeof v === "string" ? v : JSON.stringify(v)).toString("base64url");
+
+function jwt(claims: Record<string, unknown>, secret = "jwt-acme", alg = "HS256") {
+  const head = `${b64url({ alg, typ: "JWT" })}.${b64url(claims)}`;
+  return `${head}.${createHmac("sha256", secret).update(head).digest("base64url")}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+async function get(headers: Record<string, string>) {
+  const res = await handler(new Request("http://test/api/scan", { headers }));
+  return { status: res.status, headers: res.headers, body: await res.json() };
+}
+
+/* === 驗證 === */
+test("API key via Bearer or x-api-key admits the tenant", async () => {
+  const variants: Record<string, string>[] = [{ authorization: "Bearer key_acme" }, { "x-api-key": "key_acme" }];
+  for (const headers of variants) {
+    const res = await get(headers);
+    assert.equal(res.status, 400);
+    assert.equal(res.body.code, "INPUT_MISSING_SCAN_TOKEN");
+    assert.equal(res.headers.get("x-tenant-id"), "acme");
+  }
+});
+
+test("no credential is 401 AUTH_MISSING_CREDENTIALS; an unknown key is AUTH_INVALID_CREDENTIALS", async () => {
+  const missing = await get({});
+  assert.equal(missing.status, 401);
+  assert.equal(missing.body.code, "AUTH_MISSING_CREDENTIALS");
+  assert.match(missing.headers.get("www-authenticate")!, /invalid_request/);
+
+  const wrong = await get({ "x-api-key": "key_nope" });
+  assert.equal(wrong.status, 401);
+  assert.equal(wrong.body.code, "AUTH_INVALID_CREDENTIALS");
+  assert.match(wrong.headers.get("www-authenticate")!, /invalid_token/);
+});
+
+test("an HS256 JWT signed with the tenant secret is admitted", async () => {
+  const res = await get({ authorization: `Bearer ${jwt({ tid: "acme", exp: now() + 60 })}` });
+  assert.equal(res.status, 400);
+  assert.equal(res.headers.get("x-tenant-id"), "acme");
+  // tid 沒給時看 iss
+  const byIss = await get({ authorization: `Bearer ${jwt({ iss: "acme", exp: now() + 60 })}` });
+  assert.equal(byIss.headers.get("x-tenant-id"), "acme");
+});
+
+test("JWTs with a bad signature, another alg, no exp or a future nbf are rejected", async () => {
+  const cases = [
+    jwt({ tid: "acme", exp: now() + 60 }, "wrong-secret"),
+    jwt({ tid: "acme", exp: now() + 60 }, "jwt-acme", "HS512"),
+    jwt({ tid: "nobody", exp: now() + 60 }),
+    jwt({ tid: "acme", exp: now() + 60, nbf: now() + 60 }),
+  ];
+  for (const token of cases) {
+    const res = await get({ authorization: `Bearer ${token}` });
+    assert.equal(res.status, 401);
+    assert.equal(res.body.code, "AUTH_INVALID_CREDENTIALS");
+  }
+  const noExp = await get({ authorization: `Bearer ${jwt({ tid: "acme" })}` });
+  assert.equal(noExp.body.code, "AUTH_TOKEN_EXPIRED");
+});
+
+test("an expired JWT is 401 AUTH_TOKEN_EXPIRED", async () => {
+  const res = await get({ authorization: `Bearer ${jwt({ tid: "acme", exp: now() - 1 })}` });
+  assert.equal(res.status, 401);
+  assert.equal(res.body.code, "AUTH_TOKEN_EXPIRED");
+});
+
+test("an Origin outside the tenant's list is 403", async () => {
+  const ok = await get({ "x-api-key": "key_acme", origin: "https://app.acme.test" });
+  assert.equal(ok.status, 400);
+  assert.equal(ok.headers.get("access-control-allow-origin"), "https://app.acme.test");
+
+  const denied = await get({ "x-api-key": "key_acme", origin: "https://evil.test" });
+  assert.equal(denied.status, 403);
+  assert.equal(denied.body.code, "AUTH_ORIGIN_NOT_ALLOWED");
+  assert.equal(denied.headers.get("access-control-allow-origin"), null);
+});
+
+/* === 限流 === */
+test("the tenant bucket allows burst requests, then 429 with Retry-After", async () => {
+  const first = await get({ "x-api-key": "key_tight" });
+  assert.equal(first.headers.get("x-ratelimit-remaining"), "1");
+  await get({ "x-api-key": "key_tight" });
+  const limited = await get({ "x-api-key": "key_tight" });
+  assert.equal(limited.status, 429);
+  assert.equal(limited.body.code, "RATE_LIMITED");
+  assert.equal(limited.body.scope, "tenant");
+  // 每分鐘 60 個 = 每秒補 1 個
+  assert.equal(limited.headers.get("retry-after"), "1");
+  assert.equal(limited.body.retry_after_sec, 1);
+  assert.equal(limited.headers.get("x-ratelimit-remaining"), "0");
+});
+
+test("the IP bucket applies before authentication", async () => {
+  process.env.RATE_LIMIT_IP_PER_MIN = "6";
+  process.env.RATE_LIMIT_IP_BURST = "1";
+  try {
+    const headers = { "x-forwarded-for": "203.0.113.7, 10.0.0.1" };
+    assert.equal((await get(headers)).status, 401);
+    const limited = await get(headers);
+    assert.equal(limited.status, 429);
+    assert.equal(limited.body.scope, "ip");
+    // 每分鐘 6 個 → 10 秒補 1 個
+    assert.equal(limited.headers.get("retry-after"), "10");
+    // 別的 IP 不受影響
+    assert.equal((await get({ "x-forwarded-for": "203.0.113.8" })).status, 401);
+  } finally {
+    delete process.env.RATE_LIMIT_IP_PER_MIN;
+    delete process.env.RATE_LIMIT_IP_BURST;
+  }
+});
+
+test("takeToken refills at per_min and never above burst", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: 1_700_000_000_000 });
+  const store = createMemoryStore();
+  const rule = { per_min: 30, burst: 3 };
+  for (const remaining of [2, 1, 0]) assert.deepEqual(await takeToken(store, "k", rule), { ok: true, remaining, retry_after_sec: 0 });
+  assert.deepEqual(await takeToken(store, "k", rule), { ok: false, remaining: 0, retry_after_sec: 2 });
+
+  t.mock.timers.tick(2000);
+  assert.equal((await takeToken(store, "k", rule)).ok, true);
+  assert.equal((await takeToken(store, "k", rule)).ok, false);
+
+  t.mock.timers.tick(60_000);
+  assert.equal((await takeToken(store, "k", rule)).remaining, 2);
+});
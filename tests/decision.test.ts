@@ -0,0 +1,36 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import { runDecisionRules } from "../lib/decision/engine";
+import { SCORING_V1 } from "../lib/scoring/versions";
+
+/* =========================
+   ✅ 決策規則：deviation / stable 門檻跟著計分版本的 tone
+========================= */
+const dims = (barrier: number) => [{ id: "barrier", score: barrier }, { id: "hydration", score: 95 }];
+const ids = (rules: { rule_id: string }[]) => rules.map((r) => r.rule_id);
+
+test("tone-band thresholds resolve from the scoring config and are recorded as evidence", () => {
+  const run = runDecisionRules([], dims(70), SCORING_V1.tone);
+  const block = run.constraints.find((r) => r.rule_id === "C_ACID_BLOCK")!;
+  assert.deepEqual(block.evidence, [{ source: "dimension", id: "barrier", op: "<", value: 72, band: "deviation", score: 70 }]);
+  assert.equal(block.severity, 2);
+});
+
+test("moving the tone bands moves the rules with them", () => {
+  const v1 = runDecisionRules([], dims(74), { stable: 88, deviation: 72 });
+  const moved = runDecisionRules([], dims(74), { stable: 90, deviation: 75 });
+  assert.ok(ids(v1.constraints).includes("C_ACID_LIMIT"));
+  assert.ok(ids(moved.constraints).includes("C_ACID_BLOCK"));
+  assert.equal(v1.timeline[0].rule_id, "T_STABILIZE_BASE");
+  assert.equal(moved.timeline[0].rule_id, "T_STABILIZE_BARRIER");
+
+  assert.deepEqual(ids(runDecisionRules([], dims(89), { stable: 88, deviation: 72 }).priorities), ["P_MAINTAIN"]);
+  assert.deepEqual(ids(runDecisionRules([], dims(89), { stable: 90, deviation: 75 }).priorities), ["P_BARRIER", "P_MAINTAIN"]);
+});
+
+test("clinical thresholds stay fixed whatever the tone bands", () => {
+  for (const tone of [{ stable: 88, deviation: 72 }, { stable: 95, deviation: 50 }]) {
+    const run = runDecisionRules([{ id: "redness", score: 64 }], dims(95), tone);
+    assert.ok(ids(run.constraints).includes("C_FRAGRANCE_AVOID"));
+  }
+});
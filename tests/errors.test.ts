@@ -0,0 +1,98 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import handler from "../api/scan";
+import { ERROR_STATUS, errorCodeOf, ScanError, type ErrorCode } from "../lib/errors";
+import { catalog, LOCALES } from "../lib/locales";
+import { UpstreamError } from "../lib/upstream";
+import { scanForm } from "./helpers";
+
+/* =========================
+   ✅ 錯誤代碼 → HTTP status，與舊版 App 的「一律 200」相容模式
+   - 代碼表本身：前綴決定 status 區間，每個代碼 4 個語系都有文案
+   - 走 handler：body 帶 code + 在地化 message；相容模式改回 200、原 status 放 x-original-status（405 除外）
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+delete process.env.API_COMPAT;
+
+const CODES = Object.keys(ERROR_STATUS) as ErrorCode[];
+
+/* === 代碼表 === */
+test("each code prefix maps into its status range", () => {
+  const ranges: [string, number[]][] = [
+    ["INPUT_", [400, 422]],
+    ["RETAKE_", [422]],
+    ["AUTH_", [401, 403]],
+    ["NOT_FOUND_", [404]],
+    ["STATE_", [404, 409, 410]],
+    ["CONFIG_", [500]],
+    ["UPSTREAM_", [502, 503, 504]],
+  ];
+  for (const code of CODES) {
+    const range = ranges.find(([prefix]) => code.startsWith(prefix));
+    if (!range) continue;
+    assert.ok(range[1].includes(ERROR_STATUS[code]), `${code} → ${ERROR_STATUS[code]}`);
+  }
+  assert.equal(ERROR_STATUS.RATE_LIMITED, 429);
+  assert.equal(ERROR_STATUS.METHOD_NOT_ALLOWED, 405);
+  assert.equal(ERROR_STATUS.INTERNAL, 500);
+});
+
+test("every code has a message in every locale", () => {
+  for (const locale of LOCALES) {
+    for (const code of CODES) assert.ok(catalog(locale).errors[code]?.trim(), `${locale} ${code}`);
+  }
+});
+
+test("errorCodeOf: ScanError keeps its code, upstream kinds map to UPSTREAM_*, anything else is INTERNAL", () => {
+  assert.equal(errorCodeOf(new ScanError("NOT_FOUND_TASK")), "NOT_FOUND_TASK");
+  const kinds = { timeout: "UPSTREAM_TIMEOUT", network: "UPSTREAM_NETWORK", server: "UPSTREAM_SERVER", client: "UPSTREAM_REJECTED", circuit_open: "UPSTREAM_UNAVAILABLE" } as const;
+  for (const [kind, code] of Object.entries(kinds)) {
+    assert.equal(errorCodeOf(new UpstreamError("youcam", "get", kind as keyof typeof kinds, "x")), code);
+  }
+  assert.equal(errorCodeOf(new Error("boom")), "INTERNAL");
+  assert.equal(errorCodeOf("boom"), "INTERNAL");
+});
+
+/* === 走 handler === */
+const post = (headers: Record<string, string> = {}) =>
+  handler(new Request("http://test/api/scan", { method: "POST", headers, body: scanForm([]) }));
+
+test("a missing image is 400 with the code and a localized message", async () => {
+  const res = await post({ "accept-language": "en" });
+  assert.equal(res.status, 400);
+  assert.equal(res.headers.get("x-original-status"), null);
+  const body = await res.json();
+  assert.equal(body.code, "INPUT_MISSING_IMAGE");
+  assert.equal(body.message, catalog("en").errors.INPUT_MISSING_IMAGE);
+});
+
+test("GET without scan_token is 400 INPUT_MISSING_SCAN_TOKEN", async () => {
+  const res = await handler(new Request("http://test/api/scan"));
+  assert.equal(res.status, 400);
+  assert.equal((await res.json()).code, "INPUT_MISSING_SCAN_TOKEN");
+});
+
+test("x-api-compat: always-200 turns errors into 200 and keeps the status in x-original-status", async () => {
+  const res = await post({ "x-api-compat": "always-200" });
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get("x-original-status"), "400");
+  assert.equal((await res.json()).code, "INPUT_MISSING_IMAGE");
+});
+
+test("API_COMPAT=always-200 applies to every request; 405 is never rewritten", async () => {
+  process.env.API_COMPAT = "always-200";
+  try {
+    const res = await handler(new Request("http://test/api/scan?scan_token=bogus"));
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("x-original-status"), "401");
+    assert.equal((await res.json()).code, "AUTH_INVALID_SCAN_TOKEN");
+
+    const put = await handler(new Request("http://test/api/scan", { method: "PUT" }));
+    assert.equal(put.status, 405);
+    assert.equal(put.headers.get("x-original-status"), null);
+    assert.equal((await put.json()).code, "METHOD_NOT_ALLOWED");
+  } finally {
+    delete process.env.API_COMPAT;
+  }
+});
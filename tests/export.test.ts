@@ -0,0 +1,51 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import handler from "../api/scan";
+import { scanForm, syntheticFaceJpeg } from "./helpers";
+
+/* =========================
+   ✅ 列印版報告（GET ?format=html | pdf，lib/export）
+   - PDF 字型只讀 REPORT_PDF_FONT_PATH 的本機檔：沒設 / 讀不到 → 500 CONFIG_PDF_FONT_UNAVAILABLE
+   - 縮圖來自我們存的原圖 / 標註圖；沒設 MOCK_MASK_BASE_URL → 沒標註圖 → 用原圖，文件裡沒有外部網址
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+process.env.MOCK_SCENARIO = "success";
+delete process.env.MOCK_MASK_BASE_URL;
+delete process.env.NARRATIVE_PROVIDER;
+delete process.env.REPORT_PDF_FONT_PATH;
+
+async function createScan(w: number, h: number) {
+  const res = await handler(new Request("http://test/api/scan", { method: "POST", body: scanForm([syntheticFaceJpeg(w, h)]) }));
+  assert.equal(res.status, 200);
+  return encodeURIComponent((await res.json()).scan_token);
+}
+
+const exportAs = (token: string, format: string) => handler(new Request(`http://test/api/scan?scan_token=${token}&format=${format}&lang=en`));
+
+test("?format=pdf without REPORT_PDF_FONT_PATH is 500 CONFIG_PDF_FONT_UNAVAILABLE", async () => {
+  const res = await exportAs(await createScan(640, 800), "pdf");
+  assert.equal(res.status, 500);
+  assert.equal((await res.json()).code, "CONFIG_PDF_FONT_UNAVAILABLE");
+});
+
+test("an unreadable REPORT_PDF_FONT_PATH fails the same way instead of rendering without a font", async () => {
+  process.env.REPORT_PDF_FONT_PATH = "/nonexistent/NotoSansTC-Regular.ttf";
+  try {
+    const res = await exportAs(await createScan(656, 816), "pdf");
+    assert.equal(res.status, 500);
+    assert.equal((await res.json()).code, "CONFIG_PDF_FONT_UNAVAILABLE");
+  } finally {
+    delete process.env.REPORT_PDF_FONT_PATH;
+  }
+});
+
+test("?format=html embeds a thumbnail of the stored source photo and no external image URLs", async () => {
+  const res = await exportAs(await createScan(672, 832), "html");
+  assert.equal(res.status, 200);
+  assert.match(res.headers.get("content-type")!, /text\/html/);
+  const html = await res.text();
+  assert.match(html, /<img[^>]+src="data:image\/jpeg;base64,/);
+  assert.ok(html.includes("original photo (no annotation yet)"));
+  assert.ok(!/src="https?:/.test(html));
+});
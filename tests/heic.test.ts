@@ -0,0 +1,47 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import handler from "../api/scan";
+import { decodeImage, readImageSize, sniffFormat } from "../lib/image/decode";
+import { createRaster } from "../lib/image/raster";
+import { syntheticHeic } from "./heic";
+import { scanForm, syntheticFaceRaster } from "./helpers";
+
+/* =========================
+   ✅ HEIC 純 JS fallback（Node 沒有 createImageBitmap → 一定走 libheif-js）
+   - 測試用 HEIC 由 tests/heic.ts 產生（PCM 編碼，像素可預期）
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.MOCK_SCENARIO = "success";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+
+const near = (actual: ArrayLike<number>, expected: number[]) =>
+  assert.ok(expected.every((v, i) => Math.abs(actual[i] - v) <= 4), `${Array.from(actual)} ≈ ${expected}`);
+
+test("a HEIC decodes to the pixels it was written with", async () => {
+  const source = createRaster(64, 48);
+  for (let y = 0; y < 48; y++) {
+    for (let x = 0; x < 64; x++) source.data.set(x < 32 && y < 16 ? [40, 40, 40, 255] : [200, 80, 60, 255], (y * 64 + x) * 4);
+  }
+  const heic = syntheticHeic(source);
+  assert.equal(sniffFormat(heic), "heic");
+  assert.deepEqual(readImageSize(heic), { width: 64, height: 48 });
+
+  const image = await decodeImage(heic, "image/heic");
+  assert.equal(image.format, "heic");
+  assert.deepEqual([image.width, image.height], [64, 48]);
+  assert.deepEqual(image.original, { width: 64, height: 48 });
+  near(image.data.subarray(0, 4), [40, 40, 40, 255]);
+  near(image.data.subarray((40 * 64 + 50) * 4), [200, 80, 60, 255]);
+});
+
+test("a HEIC upload is re-encoded to JPEG and creates a task", async () => {
+  const heic = syntheticHeic(syntheticFaceRaster(640, 800));
+  const fd = scanForm([]);
+  fd.append("image1", new File([heic as BlobPart], "IMG_0001.HEIC", { type: "image/heic" }));
+  const res = await handler(new Request("http://test/api/scan", { method: "POST", body: fd }));
+  const body = await res.json();
+  assert.equal(res.status, 200, JSON.stringify(body));
+  assert.equal(body.stage, "task_created");
+  assert.notEqual(body.normalized.encoder, "none");
+  assert.deepEqual([body.normalized.width, body.normalized.height], [720, 900]);
+});
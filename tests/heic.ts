@@ -0,0 +1,300 @@
+import type { Raster } from "../lib/image/raster";
+
+/* =========================
+   ✅ 測試用 HEIC 產生器（不需要 HEVC 編碼器）
+   - 每個 16×16 CTU 都是 PCM 編碼的 CU：像素原樣寫進位元流，解碼結果可預期
+   - SAO、deblocking 關閉，PCM 不過 loop filter → 解出來的 YCbCr 與寫進去的一樣
+   - CABAC 只需要編 part_mode（一律 2Nx2N = MPS）與 terminate bin
+   - 容器：ftyp + meta（hdlr / pitm / iloc / iinf / iprp）+ mdat，單一 hvc1 item
+   - 寬高要是 16 的倍數；RGB → YCbCr 用 BT.601 limited range（沒有 colr box 時 libheif 的預設）
+========================= */
+class BitWriter {
+  bytes: number[] = [];
+  private cur = 0;
+  private n = 0;
+
+  bit(b: number) {
+    this.cur = (this.cur << 1) | (b & 1);
+    if (++this.n === 8) {
+      this.bytes.push(this.cur);
+      this.cur = 0;
+      this.n = 0;
+    }
+  }
+
+  bits(v: number, count: number) {
+    for (let i = count - 1; i >= 0; i--) this.bit(Math.floor(v / 2 ** i) & 1);
+  }
+
+  ue(v: number) {
+    const len = Math.floor(Math.log2(v + 1));
+    this.bits(0, len);
+    this.bits(v + 1, len + 1);
+  }
+
+  se(v: number) {
+    this.ue(v <= 0 ? -2 * v : 2 * v - 1);
+  }
+
+  align(fill: number) {
+    while (this.n) this.bit(fill);
+  }
+
+  trailing() {
+    this.bit(1);
+    this.align(0);
+    return this.bytes;
+  }
+}
+
+// rangeTabLPS[pStateIdx][3]：每個 CU 之後引擎重設（range = 510），只會用到第 4 欄
+const LPS_Q3 = [
+  240, 227, 216, 205, 195, 185, 175, 166, 158, 150, 142, 135, 128, 122, 116, 110, 104, 99, 94, 89, 85, 80, 76, 72, 69, 65, 62, 59, 56, 53, 50, 48,
+  45, 43, 41, 39, 37, 35, 33, 31, 30, 28, 27, 25, 24, 23, 22, 21, 20, 19, 18, 17, 16, 15, 14, 14, 13, 12, 12, 11, 11, 10, 9,
+];
+
+class CabacWriter {
+  private low = 0;
+  private range = 510;
+  private first = true;
+  private outstanding = 0;
+  // part_mode（I slice，QP 26）：initValue 184 → pStateIdx 0、valMPS 1
+  private state = 0;
+
+  constructor(private out: BitWriter) {}
+
+  private put(b: number) {
+    if (this.first) this.first = false;
+    else this.out.bit(b);
+    for (; this.outstanding > 0; this.outstanding--) this.out.bit(1 - b);
+  }
+
+  private renorm() {
+    while (this.range < 256) {
+      if (this.low < 256) this.put(0);
+      else if (this.low >= 512) {
+        this.low -= 512;
+        this.put(1);
+      } else {
+        this.low -= 256;
+        this.outstanding++;
+      }
+      this.range <<= 1;
+      this.low <<= 1;
+    }
+  }
+
+  // part_mode = 1（2Nx2N）一律是 MPS
+  partMode2Nx2N() {
+    if (((this.range >> 6) & 3) !== 3) throw new Error("unexpected CABAC range");
+    this.range -= LPS_Q3[this.state];
+    this.state = Math.min(this.state + 1, 62);
+    this.renorm();
+  }
+
+  terminate(bin: 0 | 1) {
+    this.range -= 2;
+    if (!bin) return this.renorm();
+    this.low += this.range;
+    this.range = 2;
+    this.renorm();
+    this.put((this.low >> 9) & 1);
+    this.out.bits(((this.low >> 7) & 3) | 1, 2);
+    // pcm 樣本 / 下一段之後重新初始化引擎（context 不重設）
+    this.low = 0;
+    this.range = 510;
+    this.first = true;
+    this.outstanding = 0;
+  }
+}
+
+function profileTierLevel(w: BitWriter) {
+  w.bits(0, 2); // profile_space
+  w.bit(0); // tier
+  w.bits(1, 5); // Main
+  w.bits(0x60000000, 32);
+  w.bits(0b1001, 4); // progressive、frame_only
+  w.bits(0, 44);
+  w.bits(90, 8); // level 3
+}
+
+const nal = (type: number, rbsp: number[]) => {
+  const out = [type << 1, 1];
+  let zeros = 0;
+  for (const b of rbsp) {
+    if (zeros >= 2 && b <= 3) {
+      out.push(3);
+      zeros = 0;
+    }
+    out.push(b);
+    zeros = b === 0 ? zeros + 1 : 0;
+  }
+  return out;
+};
+
+function vps() {
+  const w = new BitWriter();
+  w.bits(0, 4);
+  w.bits(0b11, 2);
+  w.bits(0, 6);
+  w.bits(0, 3);
+  w.bit(1);
+  w.bits(0xffff, 16);
+  profileTierLevel(w);
+  w.bit(1);
+  w.ue(0); w.ue(0); w.ue(0);
+  w.bits(0, 6);
+  w.ue(0);
+  w.bit(0);
+  w.bit(0);
+  return nal(32, w.trailing());
+}
+
+function sps(width: number, height: number) {
+  const w = new BitWriter();
+  w.bits(0, 4);
+  w.bits(0, 3);
+  w.bit(1);
+  profileTierLevel(w);
+  w.ue(0); // sps id
+  w.ue(1); // 4:2:0
+  w.ue(width);
+  w.ue(height);
+  w.bit(0); // conformance window
+  w.ue(0); w.ue(0); // bit depth 8
+  w.ue(0); // log2_max_poc_lsb - 4
+  w.bit(1); w.ue(0); w.ue(0); w.ue(0);
+  w.ue(1); // min CB 16
+  w.ue(0); // CTB 16
+  w.ue(0); // min TB 4
+  w.ue(2); // max TB 16
+  w.ue(0); w.ue(0);
+  w.bit(0); // scaling list
+  w.bit(0); // amp
+  w.bit(0); // SAO
+  w.bit(1); // PCM
+  w.bits(7, 4); w.bits(7, 4); // PCM 8 bit
+  w.ue(1); w.ue(0); // PCM 16×16
+  w.bit(1); // pcm_loop_filter_disabled
+  w.ue(0);
+  w.bit(0); w.bit(0); w.bit(0);
+  w.bit(0); // vui
+  w.bit(0);
+  return nal(33, w.trailing());
+}
+
+function pps() {
+  const w = new BitWriter();
+  w.ue(0); w.ue(0);
+  w.bit(0); w.bit(0); w.bits(0, 3); w.bit(0); w.bit(0);
+  w.ue(0); w.ue(0);
+  w.se(0); // init_qp 26
+  w.bit(0); w.bit(0); w.bit(0);
+  w.se(0); w.se(0);
+  w.bit(0); w.bit(0); w.bit(0); w.bit(0); w.bit(0); w.bit(0); w.bit(0);
+  w.bit(1); w.bit(0); w.bit(1); // deblocking 關閉
+  w.bit(0); w.bit(0);
+  w.ue(0);
+  w.bit(0); w.bit(0);
+  return nal(34, w.trailing());
+}
+
+function slice(r: Raster) {
+  const w = new BitWriter();
+  w.bit(1); // first_slice_segment_in_pic
+  w.bit(0); // no_output_of_prior_pics
+  w.ue(0);
+  w.ue(2); // I
+  w.se(0); // slice_qp_delta
+  w.trailing(); // byte_alignment()
+
+  const { y, cb, cr } = toYCbCr(r);
+  const cabac = new CabacWriter(w);
+  const cols = r.width / 16;
+  const rows = r.height / 16;
+  for (let ty = 0; ty < rows; ty++) {
+    for (let tx = 0; tx < cols; tx++) {
+      cabac.partMode2Nx2N();
+      cabac.terminate(1); // pcm_flag
+      w.align(0);
+      for (let j = 0; j < 16; j++) for (let i = 0; i < 16; i++) w.bits(y[(ty * 16 + j) * r.width + tx * 16 + i], 8);
+      for (const plane of [cb, cr]) {
+        for (let j = 0; j < 8; j++) for (let i = 0; i < 8; i++) w.bits(plane[(ty * 8 + j) * (r.width / 2) + tx * 8 + i], 8);
+      }
+      cabac.terminate(ty === rows - 1 && tx === cols - 1 ? 1 : 0); // end_of_slice_segment
+    }
+  }
+  // flush 寫出的最後一個 1 就是 rbsp_stop_one_bit
+  w.align(0);
+  return nal(19, w.bytes);
+}
+
+function toYCbCr(r: Raster) {
+  const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+  const y = new Uint8Array(r.width * r.height);
+  const cb = new Uint8Array((r.width / 2) * (r.height / 2));
+  const cr = new Uint8Array(cb.length);
+  for (let j = 0; j < r.height; j++) {
+    for (let i = 0; i < r.width; i++) {
+      const p = (j * r.width + i) * 4;
+      y[j * r.width + i] = clamp(16 + (219 / 255) * (0.299 * r.data[p] + 0.587 * r.data[p + 1] + 0.114 * r.data[p + 2]));
+    }
+  }
+  for (let j = 0; j < r.height / 2; j++) {
+    for (let i = 0; i < r.width / 2; i++) {
+      let R = 0, G = 0, B = 0;
+      for (const [dx, dy] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+        const p = ((2 * j + dy) * r.width + 2 * i + dx) * 4;
+        R += r.data[p] / 4;
+        G += r.data[p + 1] / 4;
+        B += r.data[p + 2] / 4;
+      }
+      cb[j * (r.width / 2) + i] = clamp(128 + (224 / 255) * (-0.168736 * R - 0.331264 * G + 0.5 * B));
+      cr[j * (r.width / 2) + i] = clamp(128 + (224 / 255) * (0.5 * R - 0.418688 * G - 0.081312 * B));
+    }
+  }
+  return { y, cb, cr };
+}
+
+/* === HEIF 容器 === */
+const u8 = (v: number) => [v & 0xff];
+const u16 = (v: number) => [(v >> 8) & 0xff, v & 0xff];
+const u32 = (v: number) => [(v >>> 24) & 0xff, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff];
+const str = (s: string) => [...s].map((c) => c.charCodeAt(0));
+const box = (type: string, ...parts: number[][]) => {
+  const body = parts.flat();
+  return [...u32(body.length + 8), ...str(type), ...body];
+};
+const fullBox = (type: string, version: number, ...parts: number[][]) => box(type, [version, 0, 0, 0], ...parts);
+
+function hvcC(units: number[][]) {
+  const types = [32, 33, 34];
+  return box(
+    "hvcC",
+    u8(1), u8(1), u32(0x60000000), [0x90, 0, 0, 0, 0, 0], u8(90),
+    u16(0xf000), u8(0xfc), u8(0xfd), u8(0xf8), u8(0xf8), u16(0), u8(0x0f),
+    u8(units.length),
+    ...units.map((unit, i) => [0x80 | types[i], ...u16(1), ...u16(unit.length), ...unit]),
+  );
+}
+
+export function syntheticHeic(r: Raster): Uint8Array {
+  if (r.width % 16 || r.height % 16) throw new Error("width and height must be multiples of 16");
+  const data = slice(r);
+  const ftyp = box("ftyp", str("heic"), u32(0), str("mif1"), str("heic"));
+  const meta = (offset: number) => fullBox(
+    "meta", 0,
+    fullBox("hdlr", 0, u32(0), str("pict"), u32(0), u32(0), u32(0), [0]),
+    fullBox("pitm", 0, u16(1)),
+    fullBox("iloc", 0, [0x44, 0x00], u16(1), u16(1), u16(0), u16(1), u32(offset), u32(data.length + 4)),
+    fullBox("iinf", 0, u16(1), fullBox("infe", 2, u16(1), u16(0), str("hvc1"), [0])),
+    box(
+      "iprp",
+      box("ipco", hvcC([vps(), sps(r.width, r.height), pps()]), fullBox("ispe", 0, u32(r.width), u32(r.height))),
+      fullBox("ipma", 0, u32(1), u16(1), u8(2), [0x81, 0x02]),
+    ),
+  );
+  // mdat 內容的位置要先知道 meta 長度（iloc 的 offset 欄位固定 4 bytes，長度不受值影響）
+  const head = ftyp.length + meta(0).length;
+  return new Uint8Array([...ftyp, ...meta(head + 8), ...box("mdat", u32(data.length), data)]);
+}
@@ -0,0 +1,45 @@
+import { encodeJpeg } from "../lib/image/jpeg-encode";
+import { createRaster, type Raster } from "../lib/image/raster";
+
+/* =========================
+   ✅ 測試共用（node:test，不需要任何測試框架）
+   - 跑法：npm install 後 npm test（node --test，tsx 直接載入 .ts）；型別檢查 npm run typecheck
+   - 全程用 mock 供應商 + 記憶體 store，不打網路
+   - 每個 *.test.ts 在自己的 process 裡跑，env 在檔案開頭設定即可
+========================= */
+
+// 合成臉：膚色橢圓 + 兩個眼洞 + 嘴，背景帶一點紋理（過得了 quickPrecheck 與 faceGate）
+export function syntheticFaceRaster(w = 640, h = 800): Raster {
+  const r = createRaster(w, h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const nx = (x - w / 2) / (w * 0.3);
+      const ny = (y - h * 0.5) / (h * 0.36);
+      const eye = [-0.38, 0.38].some((ex) => ((nx - ex) / 0.16) ** 2 + ((ny + 0.25) / 0.07) ** 2 < 1);
+      const mouth = (nx / 0.3) ** 2 + ((ny - 0.5) / 0.05) ** 2 < 1;
+      const n = ((x * 7 + y * 13) % 17) - 8;
+      let c = [70 + n, 90 + n, 110 + n];
+      if (nx * nx + ny * ny < 1) c = eye ? [40, 30, 30] : mouth ? [150, 60, 60] : [214 + n, 160 + n, 130 + n];
+      const p = (y * w + x) * 4;
+      r.data[p] = c[0];
+      r.data[p + 1] = c[1];
+      r.data[p + 2] = c[2];
+      r.data[p + 3] = 255;
+    }
+  }
+  return r;
+}
+
+export function syntheticFaceJpeg(w?: number, h?: number) {
+  return encodeJpeg(syntheticFaceRaster(w, h), 0.9);
+}
+
+// POST /api/scan 的 multipart：image1 = 正面，之後依序 left / right
+export function scanForm(images: Uint8Array[], fields: Record<string, string> = {}) {
+  const fd = new FormData();
+  fd.append("consent_version", "v1");
+  fd.append("consent_purpose", "skin_analysis");
+  for (const [k, v] of Object.entries(fields)) fd.append(k, v);
+  images.forEach((bytes, i) => fd.append(`image${i + 1}`, new File([bytes as BlobPart], `view${i + 1}.jpg`, { type: "image/jpeg" })));
+  return fd;
+}
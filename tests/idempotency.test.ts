@@ -0,0 +1,88 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import handler from "../api/scan";
+import { scanForm, syntheticFaceJpeg } from "./helpers";
+
+/* =========================
+   ✅ 重送不重複建 task：Idempotency-Key 與內容雜湊去重（lib/dedup）
+   - 同一把 key + 同一組照片 → 回第一次的結果（idempotent_replay），同一把 key 換照片 → 422
+   - 沒帶 key：同一張照片 → 新的 scan_id、沿用同一個 task（reused）；task 出錯的不沿用
+   - 每個測試用不同尺寸的照片，避免吃到上一個測試留下的去重紀錄
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+process.env.MOCK_SCENARIO = "success";
+delete process.env.MOCK_MASK_BASE_URL;
+delete process.env.NARRATIVE_PROVIDER;
+
+async function post(image: Uint8Array, key?: string) {
+  const res = await handler(new Request("http://test/api/scan", {
+    method: "POST",
+    headers: key === undefined ? {} : { "idempotency-key": key },
+    body: scanForm([image]),
+  }));
+  return { status: res.status, body: await res.json() };
+}
+
+/* === Idempotency-Key === */
+test("the same key with the same photo replays the first response", async () => {
+  const image = syntheticFaceJpeg(640, 800);
+  const first = await post(image, "order-1");
+  assert.equal(first.status, 200);
+  assert.equal(first.body.stage, "task_created");
+  assert.equal(first.body.idempotent_replay, undefined);
+
+  const replay = await post(image, "order-1");
+  assert.equal(replay.status, 200);
+  assert.equal(replay.body.idempotent_replay, true);
+  assert.equal(replay.body.scan_id, first.body.scan_id);
+  assert.equal(replay.body.task_ids, first.body.task_ids);
+  assert.equal(replay.body.scan_token, first.body.scan_token);
+});
+
+test("reusing a key with a different photo is 422 INPUT_IDEMPOTENCY_KEY_REUSED", async () => {
+  const first = await post(syntheticFaceJpeg(608, 768), "order-2");
+  assert.equal(first.status, 200);
+  const conflict = await post(syntheticFaceJpeg(624, 784), "order-2");
+  assert.equal(conflict.status, 422);
+  assert.equal(conflict.body.code, "INPUT_IDEMPOTENCY_KEY_REUSED");
+});
+
+test("a key outside printable ASCII or over 255 characters is 400", async () => {
+  const image = syntheticFaceJpeg(640, 800);
+  for (const key of ["has space", "", "k".repeat(256)]) {
+    const res = await post(image, key);
+    assert.equal(res.status, 400, JSON.stringify(key));
+    assert.equal(res.body.code, "INPUT_INVALID_IDEMPOTENCY_KEY");
+  }
+});
+
+/* === 內容雜湊去重 === */
+test("the same photo without a key is a new scan on the same provider task", async () => {
+  const image = syntheticFaceJpeg(656, 816);
+  const first = await post(image);
+  const second = await post(image);
+  assert.equal(second.status, 200);
+  assert.notEqual(second.body.scan_id, first.body.scan_id);
+  assert.equal(second.body.task_id, first.body.task_id);
+  assert.equal(first.body.tasks[0].reused, undefined);
+  assert.equal(second.body.tasks[0].reused, true);
+
+  const other = await post(syntheticFaceJpeg(672, 832));
+  assert.notEqual(other.body.task_id, first.body.task_id);
+  assert.equal(other.body.tasks[0].reused, undefined);
+});
+
+test("a task that ended in error is not reused", async () => {
+  const image = syntheticFaceJpeg(688, 848);
+  process.env.MOCK_SCENARIO = "error";
+  try {
+    const failed = await post(image);
+    assert.match(failed.body.task_id, /^mock_error_/);
+  } finally {
+    process.env.MOCK_SCENARIO = "success";
+  }
+  const retry = await post(image);
+  assert.match(retry.body.task_id, /^mock_success_/);
+  assert.equal(retry.body.tasks[0].reused, undefined);
+});
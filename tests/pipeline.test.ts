@@ -0,0 +1,84 @@
+import { strict as assert } from "node:assert";
+import { before, test } from "node:test";
+import handler from "../api/scan";
+import { mockProvider } from "../lib/providers/mock";
+import { getScoringConfig, scoreWith } from "../lib/scoring";
+import { scanForm, syntheticFaceJpeg } from "./helpers";
+
+/* =========================
+   ✅ mock 供應商端到端：POST 上傳 → GET 計分 → 報告（沒有 LLM → 靜態敘事）
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.MOCK_SCENARIO = "success";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+delete process.env.MOCK_MASK_BASE_URL;
+delete process.env.NARRATIVE_PROVIDER;
+
+const TONES = ["stable", "deviation", "threshold"];
+
+let created: any;
+let result: any;
+
+before(async () => {
+  const post = await handler(new Request("http://test/api/scan", { method: "POST", body: scanForm([syntheticFaceJpeg()]) }));
+  assert.equal(post.status, 200);
+  created = await post.json();
+  const get = await handler(new Request(`http://test/api/scan?scan_token=${encodeURIComponent(created.scan_token)}&lang=en`));
+  assert.equal(get.status, 200);
+  result = await get.json();
+});
+
+test("POST creates a mock task and returns a scan_token", () => {
+  assert.match(created.scan_id, /^scan_/);
+  assert.match(created.task_id, /^mock_success_/);
+  assert.equal(typeof created.scan_token, "string");
+});
+
+test("GET returns a finished report for the same scan", () => {
+  assert.equal(result.scan_id, created.scan_id);
+  assert.equal(result.stage, "youcam_success");
+  assert.equal(result.task_status, "success");
+  assert.equal(result.report.scan_id, created.scan_id);
+  assert.equal(result.report.narrative_status, "static");
+  assert.equal(result.report.narrative_compliance.source, "static");
+  assert.ok(result.report.scoring_version);
+});
+
+test("report has one signal and one dimension per scoring config entry", async () => {
+  const cfg = await getScoringConfig(result.report.scoring_version);
+  const { signals14, dimensions8 } = result.report;
+  assert.deepEqual(signals14.map((s: any) => s.id), cfg.signals.map((s) => s.id));
+  assert.deepEqual(dimensions8.map((d: any) => d.id), cfg.cards.map((c) => c.id));
+  for (const item of [...signals14, ...dimensions8]) {
+    assert.ok(item.score >= 0 && item.score <= 100, `${item.id} score ${item.score}`);
+    assert.ok(TONES.includes(item.tone), `${item.id} tone ${item.tone}`);
+  }
+  for (const d of dimensions8) {
+    assert.ok(d.finding_zh && d.finding_en, `${d.id} has static narrative`);
+    assert.ok(d.protocol_zh.length && d.protocol_en.length, `${d.id} has protocol`);
+  }
+  assert.ok(result.report.decision_zh && result.report.decision_en);
+});
+
+test("report scores equal the scoring engine run on the mock task", async () => {
+  const task = await mockProvider.getTask(created.task_id);
+  const cfg = await getScoringConfig(result.report.scoring_version);
+  const scored = scoreWith(cfg, mockProvider.scores(task, "front"));
+  assert.deepEqual(
+    result.report.signals14.map((s: any) => [s.id, s.score]),
+    scored.signals.map((s) => [s.id, s.score]),
+  );
+  assert.deepEqual(
+    result.report.dimensions8.map((d: any) => [d.id, d.score]),
+    scored.cards.map((c) => [c.id, c.score]),
+  );
+});
+
+test("the same photo scores the same on a second scan", async () => {
+  const post = await handler(new Request("http://test/api/scan", { method: "POST", body: scanForm([syntheticFaceJpeg()]) }));
+  const again = await post.json();
+  const get = await handler(new Request(`http://test/api/scan?scan_token=${encodeURIComponent(again.scan_token)}`));
+  const body = await get.json();
+  assert.notEqual(again.scan_id, created.scan_id);
+  assert.deepEqual(body.report.signals14.map((s: any) => s.score), result.report.signals14.map((s: any) => s.score));
+});
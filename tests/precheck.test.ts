@@ -0,0 +1,34 @@
+import { strict as assert } from "node:assert";
+import { before, test } from "node:test";
+import handler from "../api/scan";
+import { decodeImage } from "../lib/image/decode";
+import { scanForm, syntheticFaceJpeg } from "./helpers";
+
+/* =========================
+   ✅ precheck 看原圖的真實尺寸（解碼時縮小過也一樣）
+   - 2720×3400 的 JPEG 會以 1/2 解碼（長邊 1700 ≥ 1600），但 short_side 要是 2720
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.MOCK_SCENARIO = "success";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+
+let large: Uint8Array;
+
+before(() => {
+  large = syntheticFaceJpeg(2720, 3400);
+});
+
+test("decodeImage downscales large JPEGs but reports the original size", async () => {
+  const image = await decodeImage(large, "image/jpeg", { targetSide: 1600 });
+  assert.deepEqual([image.width, image.height], [1360, 1700]);
+  assert.deepEqual(image.original, { width: 2720, height: 3400 });
+});
+
+test("the LOW_RESOLUTION check uses the real pixel size", async () => {
+  const res = await handler(new Request("http://test/api/scan", { method: "POST", body: scanForm([large]) }));
+  assert.equal(res.status, 200);
+  const body = await res.json();
+  const shortSide = body.precheck.checks.find((c: any) => c.metric === "short_side");
+  assert.equal(shortSide.value, 2720);
+  assert.equal(shortSide.passed, true);
+});
@@ -0,0 +1,171 @@
+import { strict as assert } from "node:assert";
+import { createHash } from "node:crypto";
+import { test } from "node:test";
+import handler from "../api/scan";
+import { finalizeDeletion, getScanRecord, retention, saveScanRecord } from "../lib/privacy";
+import { createMemoryStore } from "../lib/store";
+import { getWebhook, registerWebhook } from "../lib/webhooks";
+import { scanForm, syntheticFaceJpeg } from "./helpers";
+
+/* =========================
+   ✅ 隱私（lib/privacy）：必填同意、保存期限、刪除收據
+   - 同意不合格 → 400，且不建 task
+   - 保存期限用 mock 的 Date 快轉，看 KV 的 TTL 到期
+   - DELETE 走完整流程：POST → GET（產生報告快取、原圖）→ DELETE → 收據；mock 供應商沒有 purge → not_supported
+   - 每個測試用不同尺寸的照片，避免內容去重沿用上一個測試的 task
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+process.env.MOCK_SCENARIO = "success";
+delete process.env.CONSENT_VERSIONS;
+delete process.env.RETENTION_REPORT_DAYS;
+delete process.env.RETENTION_HISTORY_DAYS;
+delete process.env.RETENTION_RECEIPT_DAYS;
+delete process.env.MOCK_MASK_BASE_URL;
+delete process.env.NARRATIVE_PROVIDER;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+function consentForm(image: Uint8Array, consent: Record<string, string>) {
+  const fd = new FormData();
+  for (const [k, v] of Object.entries(consent)) fd.append(k, v);
+  fd.append("image1", new File([image as BlobPart], "front.jpg", { type: "image/jpeg" }));
+  return fd;
+}
+
+async function call(method: string, query: string, body?: FormData) {
+  const res = await handler(new Request(`http://test/api/scan${query}`, { method, body }));
+  return { status: res.status, body: await res.json() };
+}
+
+/* === 同意 === */
+test("missing or invalid consent is 400 and no task is created", async () => {
+  const image = syntheticFaceJpeg(640, 800);
+  const cases: [Record<string, string>, string][] = [
+    [{}, "INPUT_MISSING_CONSENT"],
+    [{ consent_version: "v1" }, "INPUT_MISSING_CONSENT"],
+    [{ consent_purpose: "skin_analysis" }, "INPUT_MISSING_CONSENT"],
+    [{ consent_version: "v1", consent_purpose: "history" }, "INPUT_MISSING_CONSENT"],
+    [{ consent_version: "v1", consent_purpose: "skin_analysis,marketing" }, "INPUT_INVALID_CONSENT_PURPOSE"],
+  ];
+  for (const [consent, code] of cases) {
+    const res = await call("POST", "", consentForm(image, consent));
+    assert.equal(res.status, 400, JSON.stringify(consent));
+    assert.equal(res.body.code, code);
+    assert.equal(res.body.task_ids, undefined);
+  }
+});
+
+test("CONSENT_VERSIONS rejects versions outside the list", async () => {
+  process.env.CONSENT_VERSIONS = "v2, v3";
+  try {
+    const old = await call("POST", "", scanForm([syntheticFaceJpeg(608, 768)]));
+    assert.equal(old.status, 400);
+    assert.equal(old.body.code, "INPUT_CONSENT_VERSION_NOT_ACCEPTED");
+
+    const current = await call("POST", "", consentForm(syntheticFaceJpeg(608, 768), { consent_version: "v3", consent_purpose: "skin_analysis" }));
+    assert.equal(current.status, 200);
+    assert.deepEqual(current.body.consent, { version: "v3", purposes: ["skin_analysis"] });
+  } finally {
+    delete process.env.CONSENT_VERSIONS;
+  }
+});
+
+/* === 保存期限 === */
+test("retention defaults to 7 / 365 / 1095 days and reads RETENTION_*_DAYS", () => {
+  assert.deepEqual(retention(), { report_days: 7, history_days: 365, receipt_days: 1095 });
+  process.env.RETENTION_REPORT_DAYS = "2";
+  process.env.RETENTION_HISTORY_DAYS = "0";
+  try {
+    // 0 / 非數字 → 預設
+    assert.deepEqual(retention(), { report_days: 2, history_days: 365, receipt_days: 1095 });
+  } finally {
+    delete process.env.RETENTION_REPORT_DAYS;
+    delete process.env.RETENTION_HISTORY_DAYS;
+  }
+});
+
+test("report-scoped data expires after RETENTION_REPORT_DAYS, scan records after RETENTION_HISTORY_DAYS", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: 1_700_000_000_000 });
+  process.env.RETENTION_REPORT_DAYS = "1";
+  process.env.RETENTION_HISTORY_DAYS = "3";
+  process.env.RETENTION_RECEIPT_DAYS = "5";
+  try {
+    const store = createMemoryStore();
+    await registerWebhook(store, { callback_url: "https://hooks.example.test/x", scan_id: "scan_ret", task_ids: "front:t", locale: "en", tenant: null });
+    await saveScanRecord(store, {
+      scan_id: "scan_ret", tenant: null, consent: { version: "v1", purposes: ["skin_analysis"], accepted_at: new Date().toISOString() },
+      created_at: new Date().toISOString(), task_ids: ["t"], file_ids: [], upload_keys: [],
+    });
+    await finalizeDeletion(store, { scan_id: "scan_gone", tenant: null, record: null, requested_at: new Date().toISOString(), items: [] });
+
+    t.mock.timers.tick(DAY_MS - 1000);
+    assert.ok(await getWebhook(store, "scan_ret"));
+    t.mock.timers.tick(1000);
+    assert.equal(await getWebhook(store, "scan_ret"), null);
+    assert.ok(await getScanRecord(store, null, "scan_ret"));
+
+    t.mock.timers.tick(2 * DAY_MS);
+    assert.equal(await getScanRecord(store, null, "scan_ret"), null);
+    assert.ok(await store.get("deletion:-:scan_gone"));
+
+    t.mock.timers.tick(2 * DAY_MS);
+    assert.equal(await store.get("deletion:-:scan_gone"), null);
+  } finally {
+    delete process.env.RETENTION_REPORT_DAYS;
+    delete process.env.RETENTION_HISTORY_DAYS;
+    delete process.env.RETENTION_RECEIPT_DAYS;
+  }
+});
+
+/* === 刪除收據 === */
+test("DELETE clears the scan and returns a digest-signed receipt without personal data", async () => {
+  const created = await call("POST", "?user_id=user_42", scanForm([syntheticFaceJpeg(656, 816)]));
+  assert.equal(created.status, 200);
+  const token = encodeURIComponent(created.body.scan_token);
+  assert.equal((await call("GET", `?scan_token=${token}`)).status, 200);
+
+  const receipt = (await call("DELETE", `?scan_token=${token}`)).body;
+  assert.equal(receipt.receipt_id, `del_${created.body.scan_id}`);
+  assert.equal(receipt.consent_version, "v1");
+  const status = Object.fromEntries(receipt.items.map((i: any) => [i.kind, i.status]));
+  assert.equal(status.report_cache, "deleted");
+  assert.equal(status.source_images, "deleted");
+  assert.equal(status.dedup_keys, "deleted");
+  assert.equal(status.scan_record, "deleted");
+  // 沒勾 history → 沒寫歷史
+  assert.equal(status.history, "not_found");
+  // mock 供應商端沒有東西可刪，也沒有 purge → 照實寫 not_supported
+  assert.equal(status.provider_files, "not_supported");
+
+  const { digest, ...body } = receipt;
+  assert.equal(digest, createHash("sha256").update(JSON.stringify(body)).digest("hex"));
+  const text = JSON.stringify(receipt);
+  assert.ok(!text.includes("user_42") && !text.includes(created.body.task_id), text);
+
+  const again = (await call("DELETE", `?scan_token=${token}`)).body;
+  assert.equal(again.already_deleted, true);
+  assert.equal(again.digest, digest);
+
+  const gone = await call("GET", `?scan_token=${token}`);
+  assert.equal(gone.status, 410);
+  assert.equal(gone.body.code, "STATE_SCAN_DELETED");
+  const view = await call("GET", `?view=deletion&scan_token=${token}`);
+  assert.equal(view.status, 200);
+  assert.equal(view.body.digest, digest);
+});
+
+test("a provider task still shared through dedup is left for its last scan", async () => {
+  const image = syntheticFaceJpeg(672, 832);
+  const first = (await call("POST", "", scanForm([image]))).body;
+  const second = (await call("POST", "", scanForm([image]))).body;
+  assert.equal(second.task_id, first.task_id);
+
+  const receipt = (await call("DELETE", `?scan_token=${encodeURIComponent(first.scan_token)}`)).body;
+  const shared = receipt.items.find((i: any) => i.kind === "provider_shared_tasks");
+  assert.deepEqual(shared, { kind: "provider_shared_tasks", count: 1, status: "shared" });
+
+  const last = (await call("DELETE", `?scan_token=${encodeURIComponent(second.scan_token)}`)).body;
+  assert.equal(last.items.find((i: any) => i.kind === "provider_shared_tasks"), undefined);
+  assert.deepEqual(last.items.find((i: any) => i.kind === "provider_files"), { kind: "provider_files", count: 2, status: "not_supported" });
+});
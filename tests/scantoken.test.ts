@@ -0,0 +1,111 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import handler from "../api/scan";
+import { issueScanToken, verifyScanToken } from "../lib/scantoken";
+
+/* =========================
+   ✅ 掃描 token（lib/scantoken）：簽發、到期、竄改
+   - st1.<payload>.<sig>：改 payload 任何一個字、換簽章、換密鑰都要被拒
+   - GET 帶壞掉 / 過期的 token → 401；別的租戶的 token → 403
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+delete process.env.SCAN_TOKEN_TTL_SEC;
+delete process.env.API_TENANTS;
+delete process.env.MOCK_MASK_BASE_URL;
+delete process.env.NARRATIVE_PROVIDER;
+
+const CLAIMS = { scan_id: "scan_tok", task_ids: "front:mock_success_5e_0:1", tenant: null };
+
+const b64url = (v: object) => Buffer.from(JSON.stringify(v)).toString("base64url");
+
+const getWith = (token: string) => handler(new Request(`http://test/api/scan?scan_token=${encodeURIComponent(token)}`));
+
+/* === 簽發 / 驗證 === */
+test("an issued token verifies back to its claims and expires after 7 days by default", async () => {
+  const before = Math.floor(Date.now() / 1000);
+  const { token, expires_at } = await issueScanToken(CLAIMS);
+  assert.match(token, /^st1\.[\w-]+\.[\w-]+$/);
+  const check = await verifyScanToken(token);
+  assert.ok(check.ok);
+  assert.deepEqual({ ...check.claims, exp: undefined }, { ...CLAIMS, exp: undefined });
+  assert.ok(check.claims.exp >= before + 7 * 24 * 3600 && check.claims.exp <= before + 7 * 24 * 3600 + 2);
+  assert.equal(expires_at, new Date(check.claims.exp * 1000).toISOString());
+});
+
+test("SCAN_TOKEN_TTL_SEC shortens the lifetime and an expired token is rejected as expired", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: 1_700_000_000_000 });
+  process.env.SCAN_TOKEN_TTL_SEC = "60";
+  try {
+    const { token, expires_at } = await issueScanToken(CLAIMS);
+    assert.equal(expires_at, new Date(1_700_000_060_000).toISOString());
+    t.mock.timers.tick(59_000);
+    assert.equal((await verifyScanToken(token)).ok, true);
+    t.mock.timers.tick(1_000);
+    assert.deepEqual(await verifyScanToken(token), { ok: false, reason: "expired" });
+  } finally {
+    delete process.env.SCAN_TOKEN_TTL_SEC;
+  }
+});
+
+test("changing the payload, the signature, the prefix or the secret invalidates the token", async () => {
+  const { token } = await issueScanToken(CLAIMS);
+  const [prefix, payload, sig] = token.split(".");
+  const forged = b64url({ ...CLAIMS, scan_id: "scan_someone_else", exp: Math.floor(Date.now() / 1000) + 3600 });
+  const flip = (s: string) => (s[0] === "A" ? "B" : "A") + s.slice(1);
+  const cases = [
+    `${prefix}.${forged}.${sig}`,
+    `${prefix}.${flip(payload)}.${sig}`,
+    `${prefix}.${payload}.${flip(sig)}`,
+    `${prefix}.${payload}`,
+    `st2.${payload}.${sig}`,
+    "not-a-token",
+  ];
+  for (const bad of cases) assert.deepEqual(await verifyScanToken(bad), { ok: false, reason: "invalid" }, bad);
+
+  process.env.SCAN_TOKEN_SECRET = "rotated-secret";
+  try {
+    assert.deepEqual(await verifyScanToken(token), { ok: false, reason: "invalid" });
+  } finally {
+    process.env.SCAN_TOKEN_SECRET = "test-secret";
+  }
+});
+
+/* === 走 handler === */
+test("GET accepts a valid token in the query or the x-scan-token header", async () => {
+  const { token } = await issueScanToken(CLAIMS);
+  const res = await getWith(token);
+  assert.equal(res.status, 200);
+  assert.equal((await res.json()).scan_id, "scan_tok");
+
+  const viaHeader = await handler(new Request("http://test/api/scan", { headers: { "x-scan-token": token } }));
+  assert.equal(viaHeader.status, 200);
+});
+
+test("GET with a tampered token is 401 AUTH_INVALID_SCAN_TOKEN; an expired one is AUTH_SCAN_TOKEN_EXPIRED", async (t) => {
+  const { token } = await issueScanToken(CLAIMS);
+  const [prefix, , sig] = token.split(".");
+  const tampered = await getWith(`${prefix}.${b64url({ ...CLAIMS, scan_id: "scan_other", exp: 9_999_999_999 })}.${sig}`);
+  assert.equal(tampered.status, 401);
+  assert.equal((await tampered.json()).code, "AUTH_INVALID_SCAN_TOKEN");
+
+  t.mock.timers.enable({ apis: ["Date"], now: Date.now() + 8 * 24 * 3600 * 1000 });
+  const expired = await getWith(token);
+  assert.equal(expired.status, 401);
+  assert.equal((await expired.json()).code, "AUTH_SCAN_TOKEN_EXPIRED");
+});
+
+test("a token issued to another tenant is 403 AUTH_SCAN_TOKEN_FORBIDDEN", async () => {
+  process.env.API_TENANTS = JSON.stringify([{ id: "acme", keys: ["key_acme"] }, { id: "other", keys: ["key_other"] }]);
+  try {
+    const { token } = await issueScanToken({ ...CLAIMS, tenant: "other" });
+    const res = await handler(new Request(`http://test/api/scan?scan_token=${token}`, { headers: { "x-api-key": "key_acme" } }));
+    assert.equal(res.status, 403);
+    assert.equal((await res.json()).code, "AUTH_SCAN_TOKEN_FORBIDDEN");
+
+    const own = await handler(new Request(`http://test/api/scan?scan_token=${token}`, { headers: { "x-api-key": "key_other" } }));
+    assert.equal(own.status, 200);
+  } finally {
+    delete process.env.API_TENANTS;
+  }
+});
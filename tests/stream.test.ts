@@ -0,0 +1,93 @@
+import { strict as assert } from "node:assert";
+import { test } from "node:test";
+import handler from "../api/scan";
+import { scanForm, syntheticFaceJpeg } from "./helpers";
+
+/* =========================
+   ✅ SSE 串流：事件順序、最後一個事件、timeout 附 scan_token
+   - MOCK_SCENARIO=slow：建立後 MOCK_DELAY_MS 內回 processing → 至少輪詢一次
+   - 報告送出時標註圖還在背景合成 → 串流等到 annotated_ready 才結束
+   - 每個測試用不同尺寸的照片：同一張照片會被內容雜湊去重，沿用上一個測試的 task
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+process.env.MOCK_DELAY_MS = "1500";
+delete process.env.MOCK_MASK_BASE_URL;
+delete process.env.NARRATIVE_PROVIDER;
+
+type SseEvent = { id: number; event: string; data: any };
+
+async function readEvents(res: Response): Promise<SseEvent[]> {
+  const text = await res.text();
+  return text.split("\n\n").filter(Boolean).map((block) => {
+    const field = (name: string) => block.split("\n").find((l) => l.startsWith(`${name}: `))!.slice(name.length + 2);
+    return { id: Number(field("id")), event: field("event"), data: JSON.parse(field("data")) };
+  });
+}
+
+function streamPost(image: Uint8Array) {
+  return handler(new Request("http://test/api/scan", {
+    method: "POST",
+    headers: { accept: "text/event-stream" },
+    body: scanForm([image]),
+  }));
+}
+
+test("POST stream emits upload → task_created → processing → scoring → narrative → report → annotated_ready", async () => {
+  process.env.MOCK_SCENARIO = "slow";
+  const res = await streamPost(syntheticFaceJpeg(640, 800));
+  assert.equal(res.status, 200);
+  assert.match(res.headers.get("content-type")!, /^text\/event-stream/);
+
+  const events = await readEvents(res);
+  const names = events.map((e) => e.event);
+  const collapsed = names.filter((n, i) => n !== names[i - 1]);
+  assert.deepEqual(collapsed, ["upload", "task_created", "processing", "scoring", "narrative", "report", "annotated_ready"]);
+  assert.deepEqual(events.map((e) => e.id), events.map((_, i) => i + 1));
+
+  const created = events.find((e) => e.event === "task_created")!.data;
+  const processing = events.filter((e) => e.event === "processing");
+  assert.deepEqual(processing.map((e) => e.data.attempt), processing.map((_, i) => i + 1));
+  assert.equal(processing[0].data.next_poll_ms, 1000);
+
+  const report = events.find((e) => e.event === "report")!.data.report;
+  assert.equal(report.scan_id, created.scan_id);
+  assert.equal(report.narrative_status, "static");
+  assert.equal(report.annotation_status, "pending");
+  const last = events[events.length - 1];
+  assert.equal(last.data.report.scan_id, created.scan_id);
+  assert.notEqual(last.data.report.annotation_status, "pending");
+});
+
+test("GET stream with a scan_token goes straight to the report", async () => {
+  process.env.MOCK_SCENARIO = "success";
+  const post = await handler(new Request("http://test/api/scan", { method: "POST", body: scanForm([syntheticFaceJpeg(600, 760)]) }));
+  const { scan_token, scan_id } = await post.json();
+  const res = await handler(new Request(`http://test/api/scan?scan_token=${encodeURIComponent(scan_token)}`, {
+    headers: { accept: "text/event-stream" },
+  }));
+  const events = await readEvents(res);
+  assert.deepEqual(events.map((e) => e.event), ["scoring", "narrative", "report", "annotated_ready"]);
+  assert.equal(events[2].data.scan_id, scan_id);
+});
+
+test("a task that fails upstream ends the stream with an error event", async () => {
+  process.env.MOCK_SCENARIO = "error";
+  const events = await readEvents(await streamPost(syntheticFaceJpeg(620, 780)));
+  assert.deepEqual(events.map((e) => e.event), ["upload", "task_created", "error"]);
+});
+
+test("the stream ends with a timeout event carrying the scan_token when the task never finishes", async () => {
+  process.env.MOCK_SCENARIO = "processing";
+  process.env.SCAN_STREAM_TIMEOUT_MS = "2000";
+  try {
+    const events = await readEvents(await streamPost(syntheticFaceJpeg(660, 820)));
+    const last = events[events.length - 1];
+    assert.equal(last.event, "timeout");
+    assert.equal(last.data.stage, "stream_timeout");
+    assert.equal(last.data.scan_token, events.find((e) => e.event === "task_created")!.data.scan_token);
+    assert.ok(events.slice(2, -1).every((e) => e.event === "processing"));
+  } finally {
+    delete process.env.SCAN_STREAM_TIMEOUT_MS;
+  }
+});
@@ -0,0 +1,130 @@
+import { strict as assert } from "node:assert";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import { breakerState, upstreamFetch, UpstreamError } from "../lib/upstream";
+
+/* =========================
+   ✅ 上游 client：逾時、重試、斷路器
+   - 打本機 http 伺服器；/codes/<a>,<b>,…：第 n 次請求回第 n 個狀態碼（超過就回最後一個）
+   - /slow/<ms>：等 ms 毫秒才回 200；/throttle/<秒>：第一次 429 + Retry-After，之後 200
+   - 斷路器每個 service 各一個 → 每個測試用自己的 service 名稱
+========================= */
+let server: Server;
+let base = "";
+const counts = new Map<string, number>();
+const hits = (path: string) => counts.get(path) || 0;
+
+before(async () => {
+  server = createServer((req, res) => {
+    const path = req.url || "";
+    const n = hits(path);
+    counts.set(path, n + 1);
+    const [, kind, arg] = path.split("/");
+    if (kind === "slow") {
+      setTimeout(() => res.writeHead(200).end("late"), Number(arg));
+    } else if (kind === "throttle") {
+      if (n === 0) res.writeHead(429, { "retry-after": arg }).end("slow down");
+      else res.writeHead(200).end("ok");
+    } else {
+      const codes = arg.split(",").map(Number);
+      res.writeHead(codes[Math.min(n, codes.length - 1)]).end(`reply ${n + 1}`);
+    }
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  return new Promise<void>((r) => server.close(() => r()));
+});
+
+async function failure(p: Promise<unknown>): Promise<UpstreamError> {
+  try {
+    await p;
+  } catch (e) {
+    assert.ok(e instanceof UpstreamError, String(e));
+    return e;
+  }
+  assert.fail("expected an UpstreamError");
+}
+
+/* === 逾時與重試 === */
+test("a call slower than timeoutMs fails as timeout", async () => {
+  const err = await failure(upstreamFetch(`${base}/slow/1000`, {}, { service: "t_timeout", step: "get", timeoutMs: 100 }));
+  assert.equal(err.kind, "timeout");
+  assert.equal(err.attempts, 1);
+  assert.equal(err.retryable, true);
+});
+
+test("idempotent steps retry 5xx and return the first success", async () => {
+  const r = await upstreamFetch(`${base}/codes/503,503,200`, {}, { service: "t_retry", step: "get", idempotent: true });
+  assert.equal(r.status, 200);
+  assert.equal(await r.text(), "reply 3");
+  assert.equal(hits("/codes/503,503,200"), 3);
+  assert.deepEqual(breakerState("t_retry"), { service: "t_retry", state: "closed", failures: 0 });
+});
+
+test("idempotent steps give up after 1 + retries attempts", async () => {
+  const err = await failure(upstreamFetch(`${base}/codes/502`, {}, { service: "t_exhaust", step: "get", idempotent: true, retries: 1 }));
+  assert.equal(err.kind, "server");
+  assert.equal(err.status, 502);
+  assert.equal(err.attempts, 2);
+  assert.equal(hits("/codes/502"), 2);
+});
+
+test("non-idempotent steps are sent once", async () => {
+  const err = await failure(upstreamFetch(`${base}/codes/500,200`, { method: "POST" }, { service: "t_once", step: "create" }));
+  assert.equal(err.kind, "server");
+  assert.equal(hits("/codes/500,200"), 1);
+});
+
+test("4xx is a client error: no retry and the breaker does not count it", async () => {
+  const err = await failure(upstreamFetch(`${base}/codes/400`, {}, { service: "t_client", step: "get", idempotent: true }));
+  assert.equal(err.kind, "client");
+  assert.equal(err.retryable, false);
+  assert.equal(hits("/codes/400"), 1);
+  assert.equal(breakerState("t_client").failures, 0);
+});
+
+test("429 waits for Retry-After before the retry", async () => {
+  const started = Date.now();
+  const r = await upstreamFetch(`${base}/throttle/1`, {}, { service: "t_429", step: "get", idempotent: true });
+  assert.equal(r.status, 200);
+  const waited = Date.now() - started;
+  assert.ok(waited >= 950 && waited < 2500, `waited ${waited}ms`);
+});
+
+/* === 斷路器 === */
+test("five failures open the breaker; after the cooldown one probe closes it again", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  const opts = { service: "t_breaker", step: "get" };
+
+  for (let i = 1; i <= 4; i++) {
+    await failure(upstreamFetch(`${base}/codes/503`, {}, opts));
+    assert.deepEqual(breakerState("t_breaker"), { service: "t_breaker", state: "closed", failures: i });
+  }
+  await failure(upstreamFetch(`${base}/codes/503`, {}, opts));
+  assert.equal(breakerState("t_breaker").state, "open");
+
+  // open：不打上游，直接 circuit_open 並告知剩餘冷卻
+  const blocked = await failure(upstreamFetch(`${base}/codes/503`, {}, opts));
+  assert.equal(blocked.kind, "circuit_open");
+  assert.equal(blocked.attempts, 0);
+  assert.equal(blocked.retryAfterMs, 30_000);
+  assert.equal(hits("/codes/503"), 5);
+
+  // 冷卻後 half_open：試探失敗 → 立刻再開
+  t.mock.timers.tick(30_000);
+  assert.equal(breakerState("t_breaker").state, "half_open");
+  await failure(upstreamFetch(`${base}/codes/503`, {}, opts));
+  assert.equal(breakerState("t_breaker").state, "open");
+  assert.equal(hits("/codes/503"), 6);
+
+  // 再冷卻一次，試探成功 → 關閉、歸零
+  t.mock.timers.tick(30_000);
+  const r = await upstreamFetch(`${base}/codes/200`, {}, opts);
+  assert.equal(r.status, 200);
+  assert.deepEqual(breakerState("t_breaker"), { service: "t_breaker", state: "closed", failures: 0 });
+});
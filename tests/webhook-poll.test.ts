@@ -0,0 +1,90 @@
+import { strict as assert } from "node:assert";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import handler from "../api/scan";
+import { getStore } from "../lib/store";
+import { getWebhook, recordPollError, registerWebhook } from "../lib/webhooks";
+
+/* =========================
+   ✅ 背景輪詢（?view=webhook_poll）：一筆丟錯不影響其他筆
+   - 找不到的 task（NOT_FOUND_TASK）排在前面 → 那筆 failed，後面那筆照常投遞
+   - 非 4xx 的錯 → 依 1 分、2 分…重排，次數用完才 failed
+========================= */
+process.env.SKIN_PROVIDER = "mock";
+process.env.SCAN_TOKEN_SECRET = "test-secret";
+process.env.CRON_SECRET = "cron-test";
+process.env.WEBHOOK_SECRET = "whsec_test";
+process.env.WEBHOOK_ALLOW_INSECURE = "on";
+delete process.env.WEBHOOK_MAX_ATTEMPTS;
+delete process.env.MOCK_MASK_BASE_URL;
+delete process.env.NARRATIVE_PROVIDER;
+
+let server: Server;
+let base = "";
+const hits: string[] = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    hits.push(req.url || "");
+    req.resume();
+    req.on("end", () => {
+      res.writeHead(200);
+      res.end();
+    });
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((r) => server.close(() => r())));
+
+const poll = () => handler(new Request("http://test/api/scan?view=webhook_poll", {
+  headers: { authorization: "Bearer cron-test" },
+}));
+
+test("an unknown task fails its own registration and the poll still delivers the next one", async () => {
+  const store = getStore();
+  await registerWebhook(store, { callback_url: `${base}/gone`, scan_id: "scan_gone", task_ids: "front:mock_missing", locale: "en", tenant: null });
+  await registerWebhook(store, { callback_url: `${base}/ok`, scan_id: "scan_ok", task_ids: "front:mock_success_1a2b_0", locale: "en", tenant: null });
+
+  const res = await poll();
+  assert.equal(res.status, 200);
+  const body = await res.json();
+  assert.equal(body.checked, 2);
+  assert.deepEqual(body.results.map((r: any) => [r.scan_id, r.status, r.error]), [
+    ["scan_gone", "failed", "NOT_FOUND_TASK"],
+    ["scan_ok", "delivered", undefined],
+  ]);
+  assert.deepEqual(hits, ["/ok"]);
+
+  const gone = await getWebhook(store, "scan_gone");
+  assert.equal(gone?.last_error, "NOT_FOUND_TASK");
+  assert.equal(gone?.poll_errors, 1);
+
+  // 已 failed / delivered 的不會再被撈出來
+  const again = await (await poll()).json();
+  assert.equal(again.checked, 0);
+});
+
+test("a transient poll error reschedules with backoff until WEBHOOK_MAX_ATTEMPTS", async () => {
+  process.env.WEBHOOK_MAX_ATTEMPTS = "2";
+  try {
+    const store = getStore();
+    const reg = await registerWebhook(store, { callback_url: `${base}/flaky`, scan_id: "scan_flaky", task_ids: "front:mock_success_3c_0", locale: "en", tenant: null });
+
+    const first = await recordPollError(store, reg, "UPSTREAM_TIMEOUT", false);
+    assert.equal(first.status, "pending");
+    const wait = Date.parse(first.next_attempt_at!) - Date.now();
+    assert.ok(wait >= 60_000 * 0.8 - 1000 && wait <= 60_000 * 1.2, `next poll in ${wait}ms`);
+    // 還沒到時間 → 這輪不處理
+    assert.equal((await (await poll()).json()).checked, 0);
+
+    const second = await recordPollError(store, first, "UPSTREAM_TIMEOUT", false);
+    assert.equal(second.status, "failed");
+    assert.equal(second.poll_errors, 2);
+    assert.equal(second.next_attempt_at, undefined);
+  } finally {
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+  }
+});
@@ -0,0 +1,125 @@
+import { strict as assert } from "node:assert";
+import { createHmac } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import { createMemoryStore } from "../lib/store";
+import { deliverWebhook, INLINE_DELAYS_MS, registerWebhook, retryable, retryDelayMs, signPayload } from "../lib/webhooks";
+
+/* =========================
+   ✅ webhook：簽章、哪些狀態碼重試、重試間隔
+   - 投遞打本機 http 伺服器（WEBHOOK_ALLOW_INSECURE=on），依路徑回指定狀態碼
+========================= */
+process.env.WEBHOOK_SECRET = "whsec_test";
+process.env.WEBHOOK_ALLOW_INSECURE = "on";
+delete process.env.WEBHOOK_MAX_ATTEMPTS;
+
+const BODY = '{"scan_id":"scan_1","status":"done"}';
+
+/* === 簽章 === */
+test("signPayload is HMAC-SHA256 over `${t}.${body}` in hex", async () => {
+  const sig = await signPayload("whsec_test", 1700000000, BODY);
+  assert.equal(sig, "60c76655ee3cdcd9d3bc420b708c596adbb4c4dc15b50a7c225e30f28cd67b71");
+  assert.equal(sig, createHmac("sha256", "whsec_test").update(`1700000000.${BODY}`).digest("hex"));
+  assert.notEqual(await signPayload("whsec_test", 1700000001, BODY), sig);
+  assert.notEqual(await signPayload("other", 1700000000, BODY), sig);
+});
+
+/* === 重試規則 === */
+test("retryable: network errors, 408, 429 and 5xx retry; other 4xx do not", () => {
+  for (const s of [null, 408, 429, 500, 502, 503, 504]) assert.equal(retryable(s), true, `status ${s}`);
+  for (const s of [400, 401, 403, 404, 410, 422]) assert.equal(retryable(s), false, `status ${s}`);
+});
+
+test("backoff: three inline attempts, then 1, 2, 4, 8 minutes", () => {
+  assert.deepEqual(INLINE_DELAYS_MS, [0, 1000, 3000]);
+  assert.deepEqual([3, 4, 5, 6].map(retryDelayMs), [60_000, 120_000, 240_000, 480_000]);
+});
+
+/* === 投遞 === */
+type Hit = { path: string; at: number; signature: string; body: string };
+
+let server: Server;
+let base = "";
+const hits: Hit[] = [];
+// /status/<a>,<b>,…：第 n 次請求回第 n 個狀態碼（超過就回最後一個）
+const counts = new Map<string, number>();
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      const path = req.url || "";
+      hits.push({ path, at: Date.now(), signature: String(req.headers["x-scan-signature"] || ""), body });
+      const codes = path.split("/").pop()!.split(",").map(Number);
+      const n = counts.get(path) || 0;
+      counts.set(path, n + 1);
+      res.writeHead(codes[Math.min(n, codes.length - 1)]);
+      res.end();
+    });
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((r) => server.close(() => r())));
+
+async function deliver(scanId: string, codes: number[]) {
+  const store = createMemoryStore();
+  const reg = await registerWebhook(store, {
+    callback_url: `${base}/${scanId}/${codes.join(",")}`,
+    scan_id: scanId,
+    task_ids: "front:mock_success_0_0",
+    locale: "en",
+    tenant: null,
+  });
+  const started = Date.now();
+  const done = await deliverWebhook(store, reg, { event: "scan.completed", payload: { scan_id: scanId, status: "done" } });
+  return { done, started, sent: hits.filter((h) => h.path.startsWith(`/${scanId}/`)) };
+}
+
+test("a signed delivery that gets 200 is delivered on the first attempt", async () => {
+  const { done, sent } = await deliver("scan_ok", [200]);
+  assert.equal(done.status, "delivered");
+  assert.equal(done.attempts.length, 1);
+  const [, t, v1] = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(sent[0].signature)!;
+  assert.equal(v1, await signPayload("whsec_test", Number(t), sent[0].body));
+});
+
+test("a 4xx rejection fails without retrying", async () => {
+  const { done, sent } = await deliver("scan_rejected", [400]);
+  assert.equal(done.status, "failed");
+  assert.equal(sent.length, 1);
+  assert.equal(done.next_attempt_at, undefined);
+});
+
+test("429 is retried inline after about a second", async () => {
+  const { done, sent } = await deliver("scan_throttled", [429, 200]);
+  assert.equal(done.status, "delivered");
+  assert.deepEqual(done.attempts.map((a) => a.status), [429, 200]);
+  const gap = sent[1].at - sent[0].at;
+  assert.ok(gap >= 800 && gap < 1500, `gap ${gap}ms`);
+});
+
+test("5xx on every inline attempt leaves it retrying for the poller a minute later", async () => {
+  const { done, sent } = await deliver("scan_down", [503]);
+  assert.equal(done.status, "retrying");
+  assert.deepEqual(done.attempts.map((a) => a.status), [503, 503, 503]);
+  const gaps = [sent[1].at - sent[0].at, sent[2].at - sent[1].at];
+  assert.ok(gaps[0] >= 800 && gaps[0] < 1500, `first gap ${gaps[0]}ms`);
+  assert.ok(gaps[1] >= 2400 && gaps[1] < 3900, `second gap ${gaps[1]}ms`);
+  const wait = Date.parse(done.next_attempt_at!) - Date.now();
+  assert.ok(wait >= 60_000 * 0.8 - 1000 && wait <= 60_000 * 1.2, `next attempt in ${wait}ms`);
+});
+
+test("WEBHOOK_MAX_ATTEMPTS caps the total and marks it failed", async () => {
+  process.env.WEBHOOK_MAX_ATTEMPTS = "2";
+  try {
+    const { done } = await deliver("scan_capped", [500]);
+    assert.equal(done.status, "failed");
+    assert.equal(done.attempts.length, 2);
+  } finally {
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+  }
+});